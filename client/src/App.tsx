@@ -1,7 +1,13 @@
 import { ChatProvider } from './contexts/ChatContext';
 import ChatWindow from './components/ChatWindow';
+import AgentConsole from './components/AgentConsole';
 
 function App() {
+  // Human agents work in their own console
+  if (window.location.pathname.startsWith('/agent')) {
+    return <AgentConsole />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-100">
       {/* Main Content */}
@@ -0,0 +1,407 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { FiCheck, FiCornerUpLeft, FiLogOut, FiMessageCircle, FiSend, FiUserCheck } from 'react-icons/fi';
+import config from '../config/config';
+import AgentSocketService from '../services/agent-socket.service';
+import { ActiveSession, AgentIdentity, Handoff, HandoffReason, SessionLeadEvent, TranscriptMessage, Whisper } from '../types/agent';
+
+const TOKEN_STORAGE_KEY = 'agentToken';
+const TYPING_IDLE_MS = 2000;
+
+const REASON_LABELS: Record<HandoffReason, string> = {
+  customer_request: 'Asked for a person',
+  frustration: 'Frustrated customer',
+  ai_stuck: 'AI could not answer',
+  manual: 'Opened by an agent',
+};
+
+// Console for human agents: pick sessions from the escalation queue, read the
+// transcript and answer the customer while the AI is paused. Supervisors also
+// watch live sessions and whisper guidance to the AI.
+const AgentConsole: React.FC = () => {
+  const socketRef = useRef<AgentSocketService | null>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_STORAGE_KEY) || '');
+  const [agent, setAgent] = useState<AgentIdentity | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [queue, setQueue] = useState<Handoff[]>([]);
+  const [transcripts, setTranscripts] = useState<Record<string, TranscriptMessage[]>>({});
+  const [customerTyping, setCustomerTyping] = useState<Record<string, boolean>>({});
+  const [customerSpeaking, setCustomerSpeaking] = useState<Record<string, boolean>>({});
+  const [leads, setLeads] = useState<Record<string, SessionLeadEvent['lead']>>({});
+  const [activeSessions, setActiveSessions] = useState<ActiveSession[]>([]);
+  const [whispers, setWhispers] = useState<Record<string, Whisper[]>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [whisperDraft, setWhisperDraft] = useState('');
+
+  const connect = useCallback(async (agentToken: string) => {
+    const socket = socketRef.current || new AgentSocketService(config.ws);
+    socketRef.current = socket;
+    setLoginError(null);
+
+    try {
+      await socket.connect(agentToken, {
+        onIdentity: setAgent,
+        onConnectionChange: setConnected,
+        onQueue: setQueue,
+        onTranscript: ({ sessionId, messages }) => {
+          setTranscripts(prev => ({ ...prev, [sessionId]: messages }));
+        },
+        onSessionMessage: ({ sessionId, message }) => {
+          setTranscripts(prev => ({ ...prev, [sessionId]: [...(prev[sessionId] || []), message] }));
+          if (message.role === 'user') {
+            setCustomerTyping(prev => ({ ...prev, [sessionId]: false }));
+          }
+        },
+        onCustomerTyping: ({ sessionId, typing }) => {
+          setCustomerTyping(prev => ({ ...prev, [sessionId]: typing }));
+        },
+        onCustomerSpeaking: ({ sessionId, speaking }) => {
+          setCustomerSpeaking(prev => ({ ...prev, [sessionId]: speaking }));
+        },
+        onLeadUpdated: ({ lead }) => {
+          setLeads(prev => ({ ...prev, [lead.sessionId]: lead }));
+        },
+        onActiveSessions: setActiveSessions,
+        onWhispers: ({ sessionId, whispers: sessionWhispers }) => {
+          setWhispers(prev => ({ ...prev, [sessionId]: sessionWhispers }));
+        },
+        onError: (agentError) => setError(agentError.error),
+      });
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, agentToken);
+    } catch (connectError) {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      setLoginError(connectError instanceof Error ? connectError.message : 'Failed to connect');
+    }
+  }, []);
+
+  // Reconnect with the token of this browser tab
+  useEffect(() => {
+    const stored = sessionStorage.getItem(TOKEN_STORAGE_KEY);
+    if (stored) {
+      connect(stored);
+    }
+    return () => socketRef.current?.disconnect();
+  }, [connect]);
+
+  // Claims survive a reconnect; claiming again restores the transcripts
+  useEffect(() => {
+    if (!connected || !agent) return;
+    queue
+      .filter((handoff) => handoff.status === 'active' && handoff.agent?.id === agent.id)
+      .filter((handoff) => !transcripts[handoff.sessionId])
+      .forEach((handoff) => socketRef.current?.claim(handoff.sessionId));
+  }, [connected, agent, queue, transcripts]);
+
+  useEffect(() => {
+    if (transcriptRef.current) {
+      transcriptRef.current.scrollTop = transcriptRef.current.scrollHeight;
+    }
+  }, [selectedId, transcripts]);
+
+  const selected = queue.find((handoff) => handoff.sessionId === selectedId);
+  const isMine = Boolean(selected && selected.status === 'active' && selected.agent?.id === agent?.id);
+  const isWatching = agent?.role === 'supervisor' && !isMine && Boolean(selectedId && transcripts[selectedId]);
+  const messages = (selectedId && transcripts[selectedId]) || [];
+
+  // Stop following the session that is shown without being claimed
+  const closeWatched = () => {
+    if (!selectedId || isMine) return;
+    socketRef.current?.unwatch(selectedId);
+    setTranscripts(prev => {
+      const { [selectedId]: _watched, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (token.trim()) {
+      connect(token.trim());
+    }
+  };
+
+  const handleLogout = () => {
+    socketRef.current?.disconnect();
+    sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    setAgent(null);
+    setConnected(false);
+    setQueue([]);
+    setLeads({});
+    setActiveSessions([]);
+    setWhispers({});
+    setTranscripts({});
+    setSelectedId(null);
+  };
+
+  const handleClaim = (sessionId: string) => {
+    setError(null);
+    if (sessionId !== selectedId) closeWatched();
+    setSelectedId(sessionId);
+    socketRef.current?.claim(sessionId);
+  };
+
+  const handleWatch = (sessionId: string) => {
+    if (sessionId === selectedId) return;
+    setError(null);
+    closeWatched();
+    setSelectedId(sessionId);
+    socketRef.current?.watch(sessionId);
+  };
+
+  const handleWhisper = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedId || !whisperDraft.trim()) return;
+    socketRef.current?.whisper(selectedId, whisperDraft.trim());
+    setWhisperDraft('');
+  };
+
+  const handleDone = (action: 'release' | 'resolve') => {
+    if (!selectedId) return;
+    setError(null);
+    socketRef.current?.[action](selectedId);
+    setTranscripts(prev => {
+      const { [selectedId]: _closed, ...rest } = prev;
+      return rest;
+    });
+    setSelectedId(null);
+  };
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    if (!selectedId) return;
+    socketRef.current?.setTyping(selectedId, true);
+    clearTimeout(typingTimeoutRef.current);
+    const sessionId = selectedId;
+    typingTimeoutRef.current = setTimeout(() => socketRef.current?.setTyping(sessionId, false), TYPING_IDLE_MS);
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedId || !draft.trim()) return;
+    clearTimeout(typingTimeoutRef.current);
+    socketRef.current?.setTyping(selectedId, false);
+    socketRef.current?.sendMessage(selectedId, draft.trim());
+    setDraft('');
+  };
+
+  if (!agent) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <form onSubmit={handleLogin} className="bg-white rounded-lg shadow-lg p-8 w-full max-w-sm space-y-4">
+          <h1 className="text-2xl font-semibold text-gray-900">Agent Console</h1>
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder="Agent access token"
+            className="text-input w-full"
+          />
+          {loginError && <p className="text-sm text-red-500">{loginError}</p>}
+          <button type="submit" className="w-full p-2 rounded-lg bg-primary-600 text-white hover:bg-primary-700">
+            Sign in
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4 flex gap-4">
+      {/* Escalation queue */}
+      <aside className="w-80 bg-white rounded-lg shadow-lg flex flex-col">
+        <div className="chat-header">
+          <div className="flex items-center">
+            <div className={`status-indicator ${connected ? 'status-online' : 'status-offline'}`} />
+            <span className="ml-2 font-semibold">{agent.name}</span>
+          </div>
+          <button onClick={handleLogout} className="minimize-button" aria-label="Sign out">
+            <FiLogOut />
+          </button>
+        </div>
+        <ul className="flex-1 overflow-y-auto divide-y divide-secondary-200">
+          {queue.length === 0 && (
+            <li className="p-4 text-sm text-secondary-500">No customers waiting</li>
+          )}
+          {queue.map((handoff) => {
+            const takenByOther = handoff.status === 'active' && handoff.agent?.id !== agent.id;
+            return (
+              <li
+                key={handoff.sessionId}
+                className={`p-4 text-sm ${handoff.sessionId === selectedId ? 'bg-primary-50' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{REASON_LABELS[handoff.reason]}</span>
+                  <span className="text-xs text-secondary-500">
+                    {new Date(handoff.requestedAt).toLocaleTimeString()}
+                  </span>
+                </div>
+                {handoff.note && <p className="text-secondary-600 truncate">{handoff.note}</p>}
+                {takenByOther ? (
+                  <p className="text-xs text-secondary-500 mt-1">Handled by {handoff.agent?.name}</p>
+                ) : (
+                  <button
+                    onClick={() => handleClaim(handoff.sessionId)}
+                    className="mt-2 text-primary-600 hover:text-primary-700 font-semibold"
+                  >
+                    {handoff.status === 'active' ? 'Open' : 'Claim'}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        {agent.role === 'supervisor' && (
+          <div className="border-t border-secondary-200 max-h-[50%] flex flex-col">
+            <div className="flex items-center justify-between px-4 py-2">
+              <span className="font-semibold text-sm">Live sessions ({activeSessions.length})</span>
+              <button
+                onClick={() => socketRef.current?.refreshActiveSessions()}
+                className="text-xs text-primary-600 hover:text-primary-700"
+              >
+                Refresh
+              </button>
+            </div>
+            <ul className="overflow-y-auto divide-y divide-secondary-200">
+              {activeSessions.map((session) => (
+                <li
+                  key={session.sessionId}
+                  onClick={() => handleWatch(session.sessionId)}
+                  className={`px-4 py-2 text-sm cursor-pointer hover:bg-secondary-50 ${
+                    session.sessionId === selectedId ? 'bg-primary-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">{session.sessionId.slice(0, 8)}</span>
+                    <span className="text-xs text-secondary-500">
+                      {session.handoff ? `handoff ${session.handoff}` : session.salesStage?.replace(/_/g, ' ')}
+                    </span>
+                  </div>
+                  <p className="text-secondary-600 truncate">
+                    {session.lastMessage || `${session.messageCount} messages`}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </aside>
+
+      {/* Claimed session */}
+      <main className="flex-1 bg-white rounded-lg shadow-lg flex flex-col">
+        {!selectedId || !(isMine || isWatching) ? (
+          <div className="flex-1 flex items-center justify-center text-secondary-500">
+            {error || 'Claim a session to take over the conversation'}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between p-4 border-b border-secondary-200">
+              <div>
+                <span className="font-semibold">Session {selectedId.slice(0, 8)}</span>
+                <span className="ml-2 text-xs text-secondary-500">
+                  {isMine && selected ? REASON_LABELS[selected.reason] : 'Watching, the AI is answering'}
+                </span>
+                {leads[selectedId] && (
+                  <span className="block text-xs text-secondary-500">
+                    {[leads[selectedId].name, leads[selectedId].company, leads[selectedId].email].filter(Boolean).join(' · ') || 'Lead'}
+                    {` · BANT ${leads[selectedId].qualificationScore}/4`}
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {isMine ? (
+                  <>
+                    <button onClick={() => handleDone('release')} className="icon-button" aria-label="Return to queue">
+                      <FiCornerUpLeft />
+                    </button>
+                    <button onClick={() => handleDone('resolve')} className="icon-button" aria-label="Hand back to AI">
+                      <FiCheck />
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={() => handleClaim(selectedId)} className="icon-button" aria-label="Take over">
+                    <FiUserCheck />
+                  </button>
+                )}
+              </div>
+            </div>
+            <div ref={transcriptRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+              {messages.map((message) => (
+                <div
+                  key={message.id}
+                  className={`message ${message.role === 'user' ? 'message-assistant' : 'message-user'}`}
+                >
+                  <div className="message-bubble">
+                    <span className="block text-xs font-semibold opacity-75">
+                      {message.role === 'user' ? 'Customer' : message.agent?.name || 'AI'}
+                    </span>
+                    <p className="text-sm">{message.content}</p>
+                    <span className="text-xs opacity-50">
+                      {new Date(message.timestamp).toLocaleTimeString()}
+                      {message.classification && ` · ${message.classification.intent}, ${message.classification.sentiment}`}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              {customerSpeaking[selectedId] ? (
+                <div className="typing-indicator">Customer is speaking...</div>
+              ) : customerTyping[selectedId] && (
+                <div className="typing-indicator">Customer is typing...</div>
+              )}
+            </div>
+            {error && <p className="px-4 text-sm text-red-500">{error}</p>}
+            {isWatching && (
+              <form onSubmit={handleWhisper} className="chat-input">
+                <ul className="mb-2 space-y-1 max-h-32 overflow-y-auto">
+                  {(whispers[selectedId] || []).map((whisper) => (
+                    <li key={whisper.id} className="text-xs text-secondary-600">
+                      <span className="font-semibold">{whisper.supervisor.name}:</span> {whisper.text}
+                      <span className="ml-1 text-secondary-400">
+                        {whisper.deliveredAt ? '(used)' : '(next reply)'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="input-container">
+                  <input
+                    type="text"
+                    value={whisperDraft}
+                    onChange={(e) => setWhisperDraft(e.target.value)}
+                    placeholder="Whisper to the AI, e.g. offer the annual plan..."
+                    className="text-input"
+                    maxLength={500}
+                  />
+                  <button type="submit" className="icon-button" disabled={!whisperDraft.trim()} aria-label="Send whisper">
+                    <FiMessageCircle />
+                  </button>
+                </div>
+              </form>
+            )}
+            {isMine && (
+              <form onSubmit={handleSend} className="chat-input">
+                <div className="input-container">
+                  <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => handleDraftChange(e.target.value)}
+                    placeholder="Reply to the customer..."
+                    className="text-input"
+                  />
+                  <button type="submit" className="icon-button" disabled={!draft.trim()} aria-label="Send reply">
+                    <FiSend />
+                  </button>
+                </div>
+              </form>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AgentConsole;
@@ -1,10 +1,19 @@
 import React, { useRef, useEffect } from 'react';
-import { FiMinimize2, FiMaximize2, FiMic, FiMicOff, FiSend } from 'react-icons/fi';
+import { FiDownload, FiMinimize2, FiMaximize2, FiMic, FiMicOff, FiSend, FiSquare } from 'react-icons/fi';
 import { useChatContext } from '../contexts/ChatContext';
+import { TranscriptFormat } from '../types/chat';
 import MessageList from './MessageList';
 import AudioControls from './AudioControls';
 import VoiceChannel from './VoiceChannel';
 
+const TRANSCRIPT_FORMATS: { format: TranscriptFormat; label: string }[] = [
+  { format: 'md', label: 'Text (Markdown)' },
+  { format: 'csv', label: 'Spreadsheet (CSV)' },
+  { format: 'json', label: 'Data (JSON)' },
+  { format: 'vtt', label: 'Captions (WebVTT)' },
+  { format: 'srt', label: 'Captions (SRT)' },
+];
+
 const ChatWindow: React.FC = () => {
   const {
     messages,
@@ -12,6 +21,8 @@ const ChatWindow: React.FC = () => {
     audioState,
     isRecording,
     sendMessage,
+    cancelResponse,
+    downloadTranscript,
     startVoiceInput,
     stopVoiceInput,
     cancelVoiceInput,
@@ -91,6 +102,23 @@ const ChatWindow: React.FC = () => {
     }
   };
 
+  const [showDownloads, setShowDownloads] = React.useState(false);
+  const [downloadError, setDownloadError] = React.useState<string | null>(null);
+
+  const handleDownload = async (format: TranscriptFormat) => {
+    setShowDownloads(false);
+    setDownloadError(null);
+    try {
+      await downloadTranscript(format);
+    } catch (error) {
+      console.error('Error downloading transcript:', error);
+      setDownloadError(error instanceof Error ? error.message : 'Failed to download the conversation');
+    }
+  };
+
+  // Who answers the customer right now
+  const agentName = status.handoff?.status === 'active' ? status.handoff.agentName : undefined;
+
   const toggleMinimize = () => {
     if (isMinimized) {
       maximizeChat();
@@ -107,10 +135,39 @@ const ChatWindow: React.FC = () => {
         <div className="flex items-center justify-between w-full">
           <div className="flex items-center">
             <div className={`status-indicator ${status.connected ? 'status-online' : 'status-offline'}`} />
-            <span className="ml-2 font-semibold">AI Sales Assistant</span>
+            <span className="ml-2 font-semibold">
+              {agentName ? `${agentName} (Sales team)` : 'AI Sales Assistant'}
+            </span>
+            {!agentName && status.salesStage && (
+              <span className="ml-2 text-xs text-secondary-500">{status.salesStage.name}</span>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <VoiceChannel />
+            <div className="relative">
+              <button
+                onClick={() => setShowDownloads(!showDownloads)}
+                className="minimize-button"
+                disabled={messages.length === 0}
+                aria-label="Download conversation"
+                aria-expanded={showDownloads}
+              >
+                <FiDownload />
+              </button>
+              {showDownloads && (
+                <div className="absolute right-0 mt-2 w-48 rounded bg-white shadow-lg z-10 text-sm text-secondary-700">
+                  {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleDownload(format)}
+                      className="block w-full text-left px-3 py-2 hover:bg-secondary-100"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <button
               onClick={toggleMinimize}
               className="minimize-button"
@@ -128,11 +185,19 @@ const ChatWindow: React.FC = () => {
           {/* Messages */}
           <div ref={chatContainerRef} className="chat-messages">
             <MessageList messages={messages} />
+            {downloadError && (
+              <div className="text-red-500 text-xs px-4">{downloadError}</div>
+            )}
+            {status.handoff?.status === 'queued' && (
+              <div className="text-xs text-secondary-500 px-4">
+                Connecting you to a member of our team...
+              </div>
+            )}
             {status.typing && (
               <div className="typing-indicator">
                 <div className="flex flex-col gap-1">
                   <div className="flex items-center gap-2">
-                    <span>AI is typing</span>
+                    <span>{agentName || 'AI'} is typing</span>
                     <div className="typing-dot" />
                     <div className="typing-dot" />
                     <div className="typing-dot" />
@@ -145,6 +210,11 @@ const ChatWindow: React.FC = () => {
                 </div>
               </div>
             )}
+            {status.activeTool && (
+              <div className="text-xs text-secondary-500 px-4">
+                Looking that up ({status.activeTool.replace(/_/g, ' ')})...
+              </div>
+            )}
           </div>
 
           {/* Audio Controls */}
@@ -190,6 +260,16 @@ const ChatWindow: React.FC = () => {
                   {recordingError}
                 </div>
               )}
+              {(status.processing || status.streaming) && (
+                <button
+                  type="button"
+                  onClick={cancelResponse}
+                  className="icon-button"
+                  aria-label="Stop response"
+                >
+                  <FiSquare />
+                </button>
+              )}
               <button
                 type="submit"
                 className="icon-button"
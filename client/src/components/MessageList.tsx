@@ -16,6 +16,9 @@ const MessageList: React.FC<MessageListProps> = ({ messages }) => {
           }`}
         >
           <div className="message-bubble">
+            {message.agent && (
+              <span className="block text-xs font-semibold opacity-75">{message.agent.name}</span>
+            )}
             <p className="text-sm">{message.content}</p>
             <span className="text-xs opacity-50">
               {new Date(message.timestamp).toLocaleTimeString()}
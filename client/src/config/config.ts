@@ -13,6 +13,9 @@ const config: {
     messageRetention: 50,
     audioEnabled: true,
     voiceInputEnabled: true,
+    personaId: import.meta.env.VITE_PERSONA_ID || undefined,
+    authToken: import.meta.env.VITE_AUTH_TOKEN || undefined,
+    widgetKey: import.meta.env.VITE_WIDGET_KEY || undefined,
     socketOptions: {
       path: import.meta.env.VITE_WS_PATH || '/socket',
       transports: ['websocket'],
@@ -3,7 +3,7 @@ import WebSocketService from '../services/websocket.service';
 import { AudioRecorder } from '../services/audio.service';
 import { audioQueueManager } from '../services/audio-queue.service';
 import config from '../config/config';
-import { ChatContextType, ChatMessage, ChatStatus, AudioState } from '../types/chat';
+import { ChatContextType, ChatMessage, ChatStatus, AudioState, GenerationSettingsUpdate, Lead, TranscriptFormat } from '../types/chat';
 import { AudioChunk, STREAMING_EVENTS } from '../types/streaming';
 import { urlToBlob } from '../utils/audio';
 
@@ -39,6 +39,7 @@ export const ChatProvider = ({ children }: Props) => {
     streamProgress: 0,
     queueSize: 0
   });
+  const [lead, setLead] = useState<Lead | null>(null);
   const [isVoiceChannelActive, setIsVoiceChannelActive] = useState(false);
   const [voiceChannelStatus, setVoiceChannelStatus] = useState('Ready');
 
@@ -59,8 +60,10 @@ export const ChatProvider = ({ children }: Props) => {
   const playAudio = useCallback(async (url: string) => {
     try {
       const audioBlob = await urlToBlob(url);
+      const chunkId = 'single-' + Date.now();
       await audioQueueManager.enqueueChunk({
-        id: 'single-' + Date.now(),
+        id: chunkId,
+        streamId: chunkId,
         text: '',
         audio: audioBlob,
         isLast: true,
@@ -95,6 +98,45 @@ export const ChatProvider = ({ children }: Props) => {
     wsRef.current.sendMessage(message);
   }, []);
 
+  const cancelResponse = useCallback(() => {
+    wsRef.current?.cancelResponse();
+  }, []);
+
+  const updateGenerationSettings = useCallback((update: GenerationSettingsUpdate) => {
+    if (!wsRef.current?.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+    wsRef.current.updateGenerationSettings(update);
+  }, []);
+
+  // Save the conversation so far as a file
+  const downloadTranscript = useCallback(async (format: TranscriptFormat) => {
+    const sessionToken = wsRef.current?.getSessionToken();
+    if (!sessionToken) {
+      throw new Error('No conversation to download yet');
+    }
+
+    const response = await fetch(`${config.api.baseUrl}/api/transcript/export?format=${format}`, {
+      headers: {
+        'X-Session-Token': sessionToken,
+        ...(config.ws.authToken ? { Authorization: `Bearer ${config.ws.authToken}` } : {}),
+        ...(config.ws.widgetKey ? { 'X-Widget-Key': config.ws.widgetKey } : {}),
+      },
+      credentials: 'include'
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`Download failed: ${response.statusText}${errorData.error ? ` - ${errorData.error}` : ''}`);
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `conversation.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
   // Voice input handling
   const [isRecording, setIsRecording] = useState(false);
 
@@ -210,34 +252,26 @@ export const ChatProvider = ({ children }: Props) => {
         
         await audioQueueManager.enqueueChunk(processedChunk);
         
-        // Update messages with chunk text
+        // Update messages with chunk text; sentences of one reply share a message
+        const streamMessageId = `stream-${chunk.streamId}`;
         setMessages(prev => {
           const lastMessage = prev[prev.length - 1];
-          if (lastMessage?.role === 'assistant' && !lastMessage.id.startsWith('stream-')) {
-            // If last message is not a streaming message, create new one
-            return [...prev, {
-              id: chunk.id,
-              role: 'assistant',
-              content: chunk.text,
-              timestamp: chunk.timestamp
-            }];
-          } else if (lastMessage?.role === 'assistant') {
+          if (lastMessage?.id === streamMessageId) {
             // Update existing streaming message
             const newMessages = [...prev];
             newMessages[newMessages.length - 1] = {
               ...lastMessage,
-              content: lastMessage.content + chunk.text
+              content: `${lastMessage.content} ${chunk.text}`
             };
             return newMessages;
-          } else {
-            // First chunk of a new streaming message
-            return [...prev, {
-              id: chunk.id,
-              role: 'assistant',
-              content: chunk.text,
-              timestamp: chunk.timestamp
-            }];
           }
+          // First chunk of a new streaming message
+          return [...prev, {
+            id: streamMessageId,
+            role: 'assistant',
+            content: chunk.text,
+            timestamp: chunk.timestamp
+          }];
         });
 
         // Update streaming progress
@@ -267,8 +301,47 @@ export const ChatProvider = ({ children }: Props) => {
       });
     });
 
+    // Reconnects and reloads resume the conversation; the server's history replaces ours
+    wsRef.current.onSession((event) => {
+      if (event.resumed) {
+        setMessages(event.messages);
+      }
+    });
+
     wsRef.current.onStatus((newStatus) => {
-      setStatus(newStatus);
+      setStatus(prev => ({
+        ...newStatus,
+        persona: newStatus.persona ?? prev.persona,
+        generation: newStatus.generation ?? prev.generation,
+        classification: newStatus.classification ?? prev.classification,
+        salesStage: newStatus.salesStage ?? prev.salesStage,
+        handoff: newStatus.handoff ?? prev.handoff
+      }));
+    });
+
+    // The server stopped a response (cancel or new user turn); drop its queued audio
+    wsRef.current.onInterrupted(() => {
+      audioQueueManager.clear();
+      setStatus(prev => ({ ...prev, streaming: false, activeTool: undefined }));
+      setAudioState(prev => ({
+        ...prev,
+        isPlaying: false,
+        isStreaming: false,
+        streamProgress: 0,
+        queueSize: 0
+      }));
+    });
+
+    wsRef.current.onToolCall((event) => {
+      setStatus(prev => ({ ...prev, activeTool: event.name }));
+    });
+
+    wsRef.current.onToolResult(() => {
+      setStatus(prev => ({ ...prev, activeTool: undefined }));
+    });
+
+    wsRef.current.onLeadUpdated((event) => {
+      setLead(prev => ({ ...prev, ...event.lead }));
     });
 
     wsRef.current.onError((error) => {
@@ -363,12 +436,16 @@ export const ChatProvider = ({ children }: Props) => {
   const value: ChatContextType = {
     messages,
     status,
+    lead,
     audioState,
     isRecording,
     isMinimized,
     isVoiceChannelActive,
     voiceChannelStatus,
     sendMessage,
+    cancelResponse,
+    updateGenerationSettings,
+    downloadTranscript,
     startVoiceInput,
     stopVoiceInput,
     cancelVoiceInput,
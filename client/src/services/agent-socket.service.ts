@@ -0,0 +1,136 @@
+import socketIOClient from 'socket.io-client';
+import { ChatConfig } from '../types/chat';
+import {
+  ActiveSession,
+  AGENT_EVENTS,
+  AGENT_NAMESPACE,
+  AgentError,
+  AgentIdentity,
+  CustomerSpeakingEvent,
+  CustomerTypingEvent,
+  Handoff,
+  SessionMessageEvent,
+  SessionTranscriptEvent,
+  SessionLeadEvent,
+  SessionWhispersEvent,
+  SUPERVISOR_EVENTS,
+} from '../types/agent';
+
+export interface AgentSocketCallbacks {
+  onIdentity?: (agent: AgentIdentity) => void;
+  onQueue?: (handoffs: Handoff[]) => void;
+  onHandoffUpdated?: (handoff: Handoff) => void;
+  onTranscript?: (event: SessionTranscriptEvent) => void;
+  onSessionMessage?: (event: SessionMessageEvent) => void;
+  onCustomerTyping?: (event: CustomerTypingEvent) => void;
+  onCustomerSpeaking?: (event: CustomerSpeakingEvent) => void;
+  onLeadUpdated?: (event: SessionLeadEvent) => void;
+  onActiveSessions?: (sessions: ActiveSession[]) => void;  // Supervisors only
+  onWhispers?: (event: SessionWhispersEvent) => void;       // Supervisors only
+  onError?: (error: AgentError) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+// Connection of a human agent to the agent namespace
+class AgentSocketService {
+  private socket: ReturnType<typeof socketIOClient> | null = null;
+
+  constructor(private readonly config: ChatConfig) {}
+
+  // Resolves once the token was accepted; rejects with the server's reason otherwise
+  connect(token: string, callbacks: AgentSocketCallbacks): Promise<void> {
+    this.disconnect();
+
+    return new Promise((resolve, reject) => {
+      const socket = socketIOClient(`${this.config.wsPath}${AGENT_NAMESPACE}`, {
+        path: this.config.socketOptions.path,
+        transports: ['websocket'],
+        auth: { token },
+        reconnectionAttempts: this.config.maxReconnectAttempts,
+        reconnectionDelay: this.config.reconnectInterval,
+      });
+      this.socket = socket;
+      let connected = false;
+
+      socket.on('connect', () => {
+        connected = true;
+        callbacks.onConnectionChange?.(true);
+        resolve();
+      });
+
+      socket.on('connect_error', (error: Error & { data?: AgentError }) => {
+        console.error('Agent connection error:', error.message);
+        if (!connected) {
+          this.disconnect();
+          reject(new Error(error.data?.error || error.message));
+        }
+      });
+
+      socket.on('disconnect', () => callbacks.onConnectionChange?.(false));
+      socket.on(AGENT_EVENTS.IDENTITY, (agent: AgentIdentity) => callbacks.onIdentity?.(agent));
+      socket.on(AGENT_EVENTS.QUEUE, (handoffs: Handoff[]) => callbacks.onQueue?.(handoffs));
+      socket.on(AGENT_EVENTS.UPDATED, (handoff: Handoff) => callbacks.onHandoffUpdated?.(handoff));
+      socket.on(AGENT_EVENTS.TRANSCRIPT, (event: SessionTranscriptEvent) => callbacks.onTranscript?.(event));
+      socket.on(AGENT_EVENTS.SESSION_MESSAGE, (event: SessionMessageEvent) => callbacks.onSessionMessage?.(event));
+      socket.on(AGENT_EVENTS.CUSTOMER_TYPING, (event: CustomerTypingEvent) => callbacks.onCustomerTyping?.(event));
+      socket.on(AGENT_EVENTS.CUSTOMER_SPEAKING, (event: CustomerSpeakingEvent) => callbacks.onCustomerSpeaking?.(event));
+      socket.on(AGENT_EVENTS.LEAD_UPDATED, (event: SessionLeadEvent) => callbacks.onLeadUpdated?.(event));
+      socket.on(SUPERVISOR_EVENTS.SESSIONS, (sessions: ActiveSession[]) => callbacks.onActiveSessions?.(sessions));
+      socket.on(SUPERVISOR_EVENTS.WHISPERS, (event: SessionWhispersEvent) => callbacks.onWhispers?.(event));
+      socket.on(AGENT_EVENTS.ERROR, (error: AgentError) => {
+        console.error('Agent action failed:', error.error);
+        callbacks.onError?.(error);
+      });
+    });
+  }
+
+  disconnect(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+  }
+
+  claim(sessionId: string): void {
+    this.socket?.emit(AGENT_EVENTS.CLAIM, sessionId);
+  }
+
+  // Put the session back in the queue for another agent
+  release(sessionId: string): void {
+    this.socket?.emit(AGENT_EVENTS.RELEASE, sessionId);
+  }
+
+  // Hand the session back to the AI
+  resolve(sessionId: string): void {
+    this.socket?.emit(AGENT_EVENTS.RESOLVE, sessionId);
+  }
+
+  sendMessage(sessionId: string, content: string): void {
+    this.socket?.emit(AGENT_EVENTS.MESSAGE, { sessionId, content });
+  }
+
+  setTyping(sessionId: string, typing: boolean): void {
+    this.socket?.emit(AGENT_EVENTS.TYPING, { sessionId, typing });
+  }
+
+  refreshActiveSessions(): void {
+    this.socket?.emit(SUPERVISOR_EVENTS.SESSIONS);
+  }
+
+  // Follow a live session without taking it over
+  watch(sessionId: string): void {
+    this.socket?.emit(SUPERVISOR_EVENTS.WATCH, sessionId);
+  }
+
+  unwatch(sessionId: string): void {
+    this.socket?.emit(SUPERVISOR_EVENTS.UNWATCH, sessionId);
+  }
+
+  // Guidance the AI follows in its next reply; the customer never sees it
+  whisper(sessionId: string, text: string): void {
+    this.socket?.emit(SUPERVISOR_EVENTS.WHISPER, { sessionId, text });
+  }
+}
+
+export default AgentSocketService;
@@ -1,4 +1,6 @@
  import { StreamingConfig, DEFAULT_STREAMING_CONFIG } from '../types/streaming';
+import config from '../config/config';
+import { SESSION_TOKEN_KEY } from './websocket.service';
 
 export class AudioRecorder {
   private mediaRecorder: MediaRecorder | null = null;
@@ -345,9 +347,16 @@ export class AudioRecorder {
       console.log('Sending audio to transcription service:', transcribeUrl);
 
       // Send to server for transcription
+      const sessionToken = sessionStorage.getItem(SESSION_TOKEN_KEY);
       const response = await fetch(transcribeUrl, {
         method: 'POST',
         body: formData,
+        headers: {
+          ...(config.ws.authToken ? { Authorization: `Bearer ${config.ws.authToken}` } : {}),
+          ...(config.ws.widgetKey ? { 'X-Widget-Key': config.ws.widgetKey } : {}),
+          // Logs the transcription with the chat session
+          ...(sessionToken ? { 'X-Session-Token': sessionToken } : {}),
+        },
         credentials: 'include'
       });
 
@@ -1,8 +1,11 @@
 import socketIOClient from 'socket.io-client';
-import { ChatConfig, ChatResponse, ChatStatus, WebSocketEvents, WS_EVENTS } from '../types/chat';
+import { ChatConfig, ChatResponse, ChatStartOptions, ChatStatus, ERROR_CODES, ErrorResponse, GenerationSettingsUpdate, InterruptedEvent, LeadUpdateEvent, SessionResumeEvent, ToolCallEvent, ToolResultEvent, WebSocketEvents, WS_EVENTS } from '../types/chat';
 import { AudioChunk, STREAMING_EVENTS, StreamingError } from '../types/streaming';
 import { audioQueueManager } from './audio-queue.service';
 
+// Survives page reloads of this tab, so the conversation can be resumed
+export const SESSION_TOKEN_KEY = 'chatSessionToken';
+
 class WebSocketService {
   private socket: ReturnType<typeof socketIOClient> | null = null;
   private reconnectAttempts = 0;
@@ -29,6 +32,12 @@ class WebSocketService {
           reconnectionAttempts: this.config.maxReconnectAttempts,
           reconnectionDelay: this.config.reconnectInterval,
           timeout: 10000,
+          // Read on every (re)connect so the latest token is presented
+          auth: (cb: (data: object) => void) => cb({
+            token: this.config.authToken,
+            widgetKey: this.config.widgetKey,
+            sessionToken: sessionStorage.getItem(SESSION_TOKEN_KEY),
+          }),
         });
 
         // Set up event listeners
@@ -37,11 +46,20 @@ class WebSocketService {
         this.socket.on('connect', () => {
           console.log('WebSocket connected successfully');
           this.reconnectAttempts = 0;
+          this.startChat({ personaId: this.config.personaId });
           resolve();
         });
 
-        this.socket.on('connect_error', (error: Error) => {
+        this.socket.on('connect_error', (error: Error & { data?: ErrorResponse }) => {
           console.error('WebSocket connection error:', error);
+          // Retrying cannot fix a missing or rejected access token
+          if (error.data?.code === ERROR_CODES.UNAUTHORIZED) {
+            const message = error.data.error;
+            this.errorCallback?.(message);
+            this.disconnect();
+            reject(new Error(message));
+            return;
+          }
           this.handleReconnect(reject);
         });
 
@@ -82,6 +100,33 @@ class WebSocketService {
       this.statusCallback?.(status);
     });
 
+    this.socket.on(WS_EVENTS.CHAT_INTERRUPTED, (event: InterruptedEvent) => {
+      console.log(`Response ${event.messageId} interrupted (${event.reason})`);
+      this.interruptedCallback?.(event);
+    });
+
+    // Set up tool activity handlers
+    this.socket.on(WS_EVENTS.TOOL_CALL, (event: ToolCallEvent) => {
+      console.log(`Tool call: ${event.name}`);
+      this.toolCallCallback?.(event);
+    });
+
+    this.socket.on(WS_EVENTS.TOOL_RESULT, (event: ToolResultEvent) => {
+      console.log(`Tool result: ${event.name}`, event.isError ? '(error)' : '');
+      this.toolResultCallback?.(event);
+    });
+
+    this.socket.on(WS_EVENTS.LEAD_UPDATED, (event: LeadUpdateEvent) => {
+      console.log('Lead updated:', event.changedFields.join(', '));
+      this.leadUpdatedCallback?.(event);
+    });
+
+    this.socket.on(WS_EVENTS.CHAT_SESSION, (event: SessionResumeEvent) => {
+      console.log(`Session ${event.sessionId} ${event.resumed ? `resumed with ${event.messages.length} messages` : 'started'}`);
+      sessionStorage.setItem(SESSION_TOKEN_KEY, event.token);
+      this.sessionCallback?.(event);
+    });
+
     // Set up streaming event handlers
     this.socket.on(STREAMING_EVENTS.CHUNK_RECEIVED, (chunk: AudioChunk) => {
       console.log(`Received audio chunk ${chunk.id}`);
@@ -104,6 +149,10 @@ class WebSocketService {
       this.streamErrorCallback?.(error);
     });
 
+    this.socket.on(STREAMING_EVENTS.STREAM_METRICS, (metrics: { firstAudioMs?: number; totalMs: number }) => {
+      console.log(`Time to first audio: ${metrics.firstAudioMs ?? '-'}ms (total ${metrics.totalMs}ms)`);
+    });
+
     this.socket.on(STREAMING_EVENTS.SPEECH_START, () => {
       console.log('Speech input started');
       this.speechStartCallback?.();
@@ -122,6 +171,11 @@ class WebSocketService {
   private messageCallback?: (response: ChatResponse) => void;
   private errorCallback?: (error: string) => void;
   private statusCallback?: (status: ChatStatus) => void;
+  private interruptedCallback?: (event: InterruptedEvent) => void;
+  private toolCallCallback?: (event: ToolCallEvent) => void;
+  private toolResultCallback?: (event: ToolResultEvent) => void;
+  private leadUpdatedCallback?: (event: LeadUpdateEvent) => void;
+  private sessionCallback?: (event: SessionResumeEvent) => void;
   private streamChunkCallback?: (chunk: AudioChunk) => void;
   private streamStartCallback?: () => void;
   private streamEndCallback?: () => void;
@@ -157,6 +211,28 @@ class WebSocketService {
     }
   }
 
+  startChat(options: ChatStartOptions = {}): void {
+    if (!this.socket?.connected) {
+      throw new Error('WebSocket not connected');
+    }
+    console.log('Starting chat session:', options);
+    this.socket.emit(WS_EVENTS.CHAT_START, options);
+  }
+
+  updateGenerationSettings(update: GenerationSettingsUpdate): void {
+    if (!this.socket?.connected) {
+      throw new Error('WebSocket not connected');
+    }
+    console.log('Updating generation settings:', update);
+    this.socket.emit(WS_EVENTS.CHAT_CONFIG, update);
+  }
+
+  // Stop the response in progress (text generation and speech)
+  cancelResponse(): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit(WS_EVENTS.CHAT_CANCEL);
+  }
+
   sendMessage(message: string): void {
     if (!this.socket?.connected) {
       throw new Error('WebSocket not connected');
@@ -199,6 +275,41 @@ class WebSocketService {
     }
   }
 
+  onToolCall(callback: (event: ToolCallEvent) => void): void {
+    this.toolCallCallback = callback;
+    if (this.socket?.connected) {
+      this.setupEventListeners();
+    }
+  }
+
+  onInterrupted(callback: (event: InterruptedEvent) => void): void {
+    this.interruptedCallback = callback;
+    if (this.socket?.connected) {
+      this.setupEventListeners();
+    }
+  }
+
+  onToolResult(callback: (event: ToolResultEvent) => void): void {
+    this.toolResultCallback = callback;
+    if (this.socket?.connected) {
+      this.setupEventListeners();
+    }
+  }
+
+  onLeadUpdated(callback: (event: LeadUpdateEvent) => void): void {
+    this.leadUpdatedCallback = callback;
+    if (this.socket?.connected) {
+      this.setupEventListeners();
+    }
+  }
+
+  onSession(callback: (event: SessionResumeEvent) => void): void {
+    this.sessionCallback = callback;
+    if (this.socket?.connected) {
+      this.setupEventListeners();
+    }
+  }
+
   onDisconnect(callback: () => void): void {
     if (this.socket?.connected) {
       this.socket.on('disconnect', () => {
@@ -209,6 +320,11 @@ class WebSocketService {
     }
   }
 
+  // Token of the current session; it also authorizes downloading the transcript
+  getSessionToken(): string | null {
+    return sessionStorage.getItem(SESSION_TOKEN_KEY);
+  }
+
   isConnected(): boolean {
     return this.socket?.connected || false;
   }
@@ -0,0 +1,115 @@
+import { ChatMessage, ErrorResponse, Lead } from './chat';
+
+export type HandoffStatusName = 'queued' | 'active' | 'resolved';
+export type HandoffReason = 'customer_request' | 'frustration' | 'ai_stuck' | 'manual';
+
+export interface AgentIdentity {
+  id: string;
+  name: string;
+  role: 'agent' | 'supervisor';
+}
+
+export interface Handoff {
+  sessionId: string;
+  status: HandoffStatusName;
+  reason: HandoffReason;
+  note?: string;
+  agent?: AgentIdentity;
+  requestedAt: number;
+  claimedAt?: number;
+  resolvedAt?: number;
+}
+
+// Stored messages, including the server-side fields the console shows
+export interface TranscriptMessage extends Omit<ChatMessage, 'role'> {
+  role: 'user' | 'assistant' | 'tool';
+  classification?: {
+    intent: string;
+    sentiment: string;
+    urgency: string;
+  };
+}
+
+export interface SessionTranscriptEvent {
+  sessionId: string;
+  handoff: Handoff | null;
+  messages: TranscriptMessage[];
+}
+
+export interface SessionMessageEvent {
+  sessionId: string;
+  message: TranscriptMessage;
+}
+
+export interface CustomerTypingEvent {
+  sessionId: string;
+  typing: boolean;
+}
+
+export interface CustomerSpeakingEvent {
+  sessionId: string;
+  speaking: boolean;
+}
+
+// Every change of a session's lead, with the qualification the customer never sees
+export interface SessionLeadEvent {
+  lead: Lead & { qualificationScore: number; qualified: boolean };
+  changedFields: string[];
+  source: 'customer' | 'staff';
+}
+
+// Hidden guidance from a supervisor for the AI's next reply
+export interface Whisper {
+  id: string;
+  sessionId: string;
+  text: string;
+  supervisor: AgentIdentity;
+  createdAt: number;
+  deliveredAt?: number;
+  responseId?: string;
+}
+
+export interface SessionWhispersEvent {
+  sessionId: string;
+  whispers: Whisper[];
+}
+
+export interface ActiveSession {
+  sessionId: string;
+  connectedAt: number;
+  lastActivity?: number;
+  messageCount: number;
+  lastMessage?: string;
+  personaId?: string;
+  salesStage?: string;
+  handoff?: HandoffStatusName;
+}
+
+export type AgentError = ErrorResponse;
+
+export const AGENT_NAMESPACE = '/agents';
+
+export const AGENT_EVENTS = {
+  IDENTITY: 'agent:identity',
+  QUEUE: 'handoff:queue',
+  UPDATED: 'handoff:updated',
+  CLAIM: 'agent:claim',
+  RELEASE: 'agent:release',
+  RESOLVE: 'agent:resolve',
+  MESSAGE: 'agent:message',
+  TYPING: 'agent:typing',
+  TRANSCRIPT: 'session:transcript',
+  SESSION_MESSAGE: 'session:message',
+  CUSTOMER_TYPING: 'session:typing',
+  CUSTOMER_SPEAKING: 'session:speaking',
+  LEAD_UPDATED: 'session:lead',
+  ERROR: 'agent:error',
+} as const;
+
+export const SUPERVISOR_EVENTS = {
+  SESSIONS: 'sessions:active',
+  WATCH: 'supervisor:watch',
+  UNWATCH: 'supervisor:unwatch',
+  WHISPER: 'supervisor:whisper',
+  WHISPERS: 'supervisor:whispers',
+} as const;
@@ -4,6 +4,10 @@ export interface ChatMessage {
   content: string;
   timestamp: number;
   audioUrl?: string;
+  agent?: {           // Written by a human agent instead of the AI
+    id: string;
+    name: string;
+  };
 }
 
 export interface ChatStatus {
@@ -11,18 +15,138 @@ export interface ChatStatus {
   typing?: boolean;
   processing?: boolean;
   streaming?: boolean;
+  activeTool?: string;
+  persona?: {
+    id: string;
+    name: string;
+    version: number;
+  };
+  generation?: {
+    config: GenerationSettings;
+    adjusted: string[];  // Settings the server clamped into range
+  };
+  classification?: TurnClassification;  // Tags of the latest user turn
+  salesStage?: SalesStageStatus;
+  handoff?: HandoffStatus;
   voiceChannel?: {
     active: boolean;
     status: 'connecting' | 'listening' | 'processing' | 'speaking' | 'idle';
   };
 }
 
+export type Intent =
+  | 'pricing_question'
+  | 'objection'
+  | 'purchase_intent'
+  | 'support_request'
+  | 'product_question'
+  | 'small_talk'
+  | 'other';
+
+export interface TurnClassification {
+  messageId: string;
+  intent: Intent;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  urgency: 'low' | 'medium' | 'high';
+  confidence: number;
+  classifier: 'rules' | 'llm';
+}
+
+export type SalesStage =
+  | 'greeting'
+  | 'discovery'
+  | 'recommendation'
+  | 'objection_handling'
+  | 'close'
+  | 'follow_up';
+
+export interface SalesStageStatus {
+  stage: SalesStage;
+  name: string;
+  transition?: {
+    from: SalesStage;
+    to: SalesStage;
+    reason: string;
+    timestamp: number;
+  };
+}
+
+// Escalation to a human agent
+export interface HandoffStatus {
+  status: 'queued' | 'active' | 'resolved';
+  agentName?: string;  // Agent answering while active
+}
+
+export interface GenerationSettings {
+  model: string;
+  temperature: number;
+  max_tokens: number;
+  presence_penalty: number;
+  frequency_penalty: number;
+}
+
+// `null` clears a session override
+export type GenerationSettingsUpdate = {
+  [K in keyof GenerationSettings]?: GenerationSettings[K] | null;
+};
+
 export interface ChatResponse {
   message: ChatMessage;
   audioUrl?: string;
   error?: string;
 }
 
+// Sent on every connect; a resumed session comes with its history
+export interface SessionResumeEvent {
+  sessionId: string;
+  token: string;       // Presented in the next handshake to resume the session
+  resumed: boolean;
+  messages: ChatMessage[];
+}
+
+export type CancelReason = 'cancelled' | 'new_turn' | 'disconnect' | 'handoff';
+
+export interface InterruptedEvent {
+  messageId: string;   // Id of the streaming message, `stream-<streamId>`
+  reason: CancelReason;
+}
+
+export interface ToolCallEvent {
+  id: string;
+  name: string;
+  arguments: unknown;
+  timestamp: number;
+}
+
+export interface ToolResultEvent {
+  id: string;
+  name: string;
+  result: unknown;
+  isError: boolean;
+  timestamp: number;
+}
+
+export interface Lead {
+  sessionId: string;
+  name?: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  budget?: string;
+  budgetAmount?: number;
+  authority?: string;
+  need?: string;
+  timeline?: string;
+  productInterest?: string[];
+}
+
+// Details captured from the customer's own messages; `lead` holds only the
+// changed fields
+export interface LeadUpdateEvent {
+  lead: Lead;
+  changedFields: string[];
+}
+
 export interface AudioState {
   isPlaying: boolean;
   currentTime: number;
@@ -33,15 +157,22 @@ export interface AudioState {
   queueSize?: number;
 }
 
+// Formats of GET /api/transcript/export; vtt and srt are captions timed by the spoken audio
+export type TranscriptFormat = 'json' | 'md' | 'csv' | 'vtt' | 'srt';
+
 export interface ChatContextType {
   messages: ChatMessage[];
   status: ChatStatus;
+  lead: Lead | null;
   audioState: AudioState;
   isRecording: boolean;
   isMinimized: boolean;
   isVoiceChannelActive: boolean;
   voiceChannelStatus: string;
   sendMessage: (message: string) => Promise<void>;
+  cancelResponse: () => void;
+  updateGenerationSettings: (update: GenerationSettingsUpdate) => void;
+  downloadTranscript: (format: TranscriptFormat) => Promise<void>;
   startVoiceInput: () => Promise<void>;
   stopVoiceInput: () => Promise<void>;
   cancelVoiceInput: () => void;
@@ -66,9 +197,17 @@ export interface ChatConfig {
   messageRetention: number;
   audioEnabled: boolean;
   voiceInputEnabled: boolean;
+  personaId?: string;
+  authToken?: string;  // Access token from POST /api/auth/token, sent with the socket handshake and API calls
+  widgetKey?: string;  // Public key of the tenant, used when there is no access token
   socketOptions: SocketOptions;
 }
 
+export interface ChatStartOptions {
+  personaId?: string;
+  personaVersion?: number;
+}
+
 export const WS_EVENTS = {
   CONNECT: 'connect',
   DISCONNECT: 'disconnect',
@@ -78,7 +217,14 @@ export const WS_EVENTS = {
   CHAT_STATUS: 'chat:status',
   CHAT_TYPING: 'chat:typing',
   CHAT_START: 'chat:start',
+  CHAT_CONFIG: 'chat:config',
+  CHAT_CANCEL: 'chat:cancel',
+  CHAT_INTERRUPTED: 'chat:interrupted',
   CHAT_AUDIO: 'chat:audio',
+  TOOL_CALL: 'tool:call',
+  TOOL_RESULT: 'tool:result',
+  LEAD_UPDATED: 'lead:updated',
+  CHAT_SESSION: 'chat:session',
 } as const;
 
 export interface WebSocketEvents {
@@ -87,8 +233,15 @@ export interface WebSocketEvents {
   [WS_EVENTS.CHAT_ERROR]: (error: string) => void;
   [WS_EVENTS.CHAT_STATUS]: (status: ChatStatus) => void;
   [WS_EVENTS.CHAT_TYPING]: (isTyping: boolean) => void;
-  [WS_EVENTS.CHAT_START]: () => void;
+  [WS_EVENTS.CHAT_START]: (options?: ChatStartOptions) => void;
+  [WS_EVENTS.CHAT_CONFIG]: (update: GenerationSettingsUpdate) => void;
+  [WS_EVENTS.CHAT_CANCEL]: () => void;
+  [WS_EVENTS.CHAT_INTERRUPTED]: (event: InterruptedEvent) => void;
   [WS_EVENTS.CHAT_AUDIO]: (data: { text: string }) => void;
+  [WS_EVENTS.TOOL_CALL]: (event: ToolCallEvent) => void;
+  [WS_EVENTS.TOOL_RESULT]: (event: ToolResultEvent) => void;
+  [WS_EVENTS.LEAD_UPDATED]: (event: LeadUpdateEvent) => void;
+  [WS_EVENTS.CHAT_SESSION]: (event: SessionResumeEvent) => void;
 }
 
 export interface ErrorResponse {
@@ -103,6 +256,7 @@ export const ERROR_CODES = {
   VOICE_INPUT_ERROR: 'VOICE_INPUT_ERROR',
   NETWORK_ERROR: 'NETWORK_ERROR',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
+  UNAUTHORIZED: 'UNAUTHORIZED',  // Missing or rejected access token
 } as const;
 
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
\ No newline at end of file
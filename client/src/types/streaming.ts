@@ -1,5 +1,6 @@
 export interface AudioChunk {
   id: string;
+  streamId: string;  // Chunks of one spoken reply share a stream id
   text: string;
   audio: Blob | string;  // Can be either a Blob or a URL/base64 string
   isLast: boolean;
@@ -29,6 +30,7 @@ export const STREAMING_EVENTS = {
   STREAM_START: 'stream:start',
   STREAM_END: 'stream:end',
   STREAM_ERROR: 'stream:error',
+  STREAM_METRICS: 'stream:metrics',
   SPEECH_START: 'speech:start',
   SPEECH_END: 'speech:end',
 } as const;
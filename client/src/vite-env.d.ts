@@ -5,6 +5,9 @@ interface ImportMetaEnv {
   readonly VITE_WS_PATH: string
   readonly VITE_WS_RECONNECT_INTERVAL: string
   readonly VITE_WS_MAX_RECONNECT_ATTEMPTS: string
+  readonly VITE_PERSONA_ID?: string
+  readonly VITE_AUTH_TOKEN?: string
+  readonly VITE_WIDGET_KEY?: string
 }
 
 interface ImportMeta {
@@ -1,5 +1,10 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { LLMProviderName } from '../types/llm';
+import { LeadExtractorName } from '../types/lead';
+import { ClassifierName } from '../types/classification';
+import { StoreBackend } from '../types/store';
+import { RETENTION_CATEGORIES, RetentionPolicy } from '../types/privacy';
 
 // Load environment variables from .env file
 dotenv.config({ path: path.join(__dirname, '../../../.env') });
@@ -9,6 +14,71 @@ interface Config {
   openaiApiKey: string;
   smallestAiApiKey: string;
   jwtSecret: string;
+  llm: {
+    provider: LLMProviderName;
+    model: string;
+    allowedModels: string[]; // Models sessions/personas may select, the default model unless set; `*` allows any
+    baseUrl: string;     // OpenAI-compatible endpoint, e.g. a local llama.cpp/vLLM server
+    apiKey: string;      // Optional key for the OpenAI-compatible endpoint
+    scriptPath: string;  // JSON script for the scripted provider
+    maxRetries: number;
+    retryDelay: number;
+    maxToolSteps: number; // Tool round-trips per turn; 0 disables tool calling
+  };
+  knowledge: {
+    topK: number;            // Passages injected per user turn
+    minScore: number;        // Minimum normalized relevance score (0-1)
+    chunkSize: number;       // Characters per chunk
+    chunkOverlap: number;
+    embeddings: boolean;     // Add local hashed embeddings to BM25 ranking
+    embeddingWeight: number; // Share of the embedding similarity in the hybrid score
+  };
+  context: {
+    windowTokens: number;    // Model context window shared by prompt and reply
+    historyTokens: number;   // Budget for summary + recent turns before older turns are folded
+    summaryTokens: number;   // Maximum length of the rolling summary
+  };
+  leads: {
+    extractor: LeadExtractorName;  // 'rules' (offline patterns) or 'llm' (patterns + provider)
+  };
+  classification: {
+    classifier: ClassifierName;    // 'rules' (offline keywords) or 'llm' (provider, rules as fallback)
+  };
+  salesStages: {
+    definitionPath: string;        // JSON overriding stage instructions and transition rules
+  };
+  guardrails: {
+    enabled: boolean;
+    policyPath: string;            // JSON replacing the default policy rules
+    maxDiscountPercent: number;    // Limit of the default max_discount rule
+  };
+  factCheck: {
+    enabled: boolean;              // Correct prices, stock and specs against the catalog
+  };
+  handoff: {
+    agentTokens: Record<string, string>;       // Agent name -> access token for the agent console
+    supervisorTokens: Record<string, string>;  // Same for supervisors
+  };
+  auth: {
+    required: boolean;                         // Reject REST requests without a valid access token
+    tokenTtlSeconds: number;                   // Lifetime of issued access tokens
+    adminTokens: Record<string, string>;       // Admin name -> key for POST /api/auth/token (default tenant)
+    siteKeys: Record<string, string>;          // Embedding site -> key that issues customer tokens (default tenant)
+  };
+  tenants: {
+    definitionPath: string;                    // JSON defining the organizations served
+  };
+  session: {
+    tokenTtlSeconds: number;       // Lifetime of the token that resumes a chat session
+    resumeGraceMs: number;         // How long a reply keeps running after its socket dropped
+  };
+  store: {
+    backend: StoreBackend;       // 'redis', or 'memory' to run without Redis (data is lost on restart)
+  };
+  retention: RetentionPolicy;    // Hours data is kept (0 until erased); tenants may override each category
+  audit: {
+    enabled: boolean;            // Record every socket event and provider call of a session
+  };
   redis: {
     host: string;
     port: number;
@@ -17,10 +87,10 @@ interface Config {
     pingInterval: number;
     pingTimeout: number;
     path: string;
-    authRequired: boolean;
+    authRequired: boolean;       // Reject sockets without a valid access token
   };
   cors: {
-    origin: string;
+    origin: string;              // Allowed origin of the default tenant
     credentials: boolean;
   };
   tts: {
@@ -31,11 +101,98 @@ interface Config {
   };
 }
 
+// "Alice:token1,Bob:token2"
+function parseNamedTokens(value: string): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  for (const entry of value.split(',')) {
+    const separator = entry.lastIndexOf(':');
+    const name = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (separator > 0 && name && token) {
+      tokens[name] = token;
+    }
+  }
+  return tokens;
+}
+
 const config: Config = {
   port: parseInt(process.env.PORT || '3002', 10),
   openaiApiKey: process.env.OPENAI_API_KEY || '',
   smallestAiApiKey: process.env.SMALLEST_AI_API_KEY || '',
   jwtSecret: process.env.JWT_SECRET || 'default_jwt_secret',
+  llm: {
+    provider: (process.env.LLM_PROVIDER || 'openai') as LLMProviderName,
+    model: process.env.LLM_MODEL || 'gpt-4-turbo-preview',
+    allowedModels: (process.env.LLM_ALLOWED_MODELS || process.env.LLM_MODEL || 'gpt-4-turbo-preview')
+      .split(',')
+      .map((model) => model.trim())
+      .filter(Boolean),
+    baseUrl: process.env.LLM_BASE_URL || 'http://localhost:8080/v1',
+    apiKey: process.env.LLM_API_KEY || '',
+    scriptPath: process.env.LLM_SCRIPT_PATH || '',
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '3', 10),
+    retryDelay: parseInt(process.env.LLM_RETRY_DELAY || '1000', 10),
+    maxToolSteps: parseInt(process.env.LLM_MAX_TOOL_STEPS || '3', 10),
+  },
+  knowledge: {
+    topK: parseInt(process.env.KB_TOP_K || '3', 10),
+    minScore: parseFloat(process.env.KB_MIN_SCORE || '0.2'),
+    chunkSize: parseInt(process.env.KB_CHUNK_SIZE || '800', 10),
+    chunkOverlap: parseInt(process.env.KB_CHUNK_OVERLAP || '100', 10),
+    embeddings: process.env.KB_EMBEDDINGS === 'true',
+    embeddingWeight: parseFloat(process.env.KB_EMBEDDING_WEIGHT || '0.3'),
+  },
+  context: {
+    windowTokens: parseInt(process.env.CONTEXT_WINDOW_TOKENS || '8192', 10),
+    historyTokens: parseInt(process.env.CONTEXT_HISTORY_TOKENS || '2000', 10),
+    summaryTokens: parseInt(process.env.CONTEXT_SUMMARY_TOKENS || '250', 10),
+  },
+  leads: {
+    extractor: (process.env.LEAD_EXTRACTOR || 'rules') as LeadExtractorName,
+  },
+  classification: {
+    classifier: (process.env.TURN_CLASSIFIER || 'rules') as ClassifierName,
+  },
+  salesStages: {
+    definitionPath: process.env.SALES_STAGES_PATH || '',
+  },
+  guardrails: {
+    enabled: process.env.GUARDRAILS_ENABLED !== 'false',
+    policyPath: process.env.GUARDRAILS_PATH || '',
+    maxDiscountPercent: parseFloat(process.env.GUARDRAILS_MAX_DISCOUNT || '10'),
+  },
+  factCheck: {
+    enabled: process.env.FACT_CHECK_ENABLED !== 'false',
+  },
+  handoff: {
+    agentTokens: parseNamedTokens(process.env.AGENT_TOKENS || ''),
+    supervisorTokens: parseNamedTokens(process.env.SUPERVISOR_TOKENS || ''),
+  },
+  auth: {
+    required: process.env.AUTH_REQUIRED === 'true',
+    tokenTtlSeconds: parseInt(process.env.AUTH_TOKEN_TTL || '3600', 10),
+    adminTokens: parseNamedTokens(process.env.ADMIN_TOKENS || ''),
+    siteKeys: parseNamedTokens(process.env.EMBED_SITE_KEYS || ''),
+  },
+  tenants: {
+    definitionPath: process.env.TENANTS_PATH || '',
+  },
+  session: {
+    tokenTtlSeconds: parseInt(process.env.SESSION_TOKEN_TTL || '86400', 10),
+    resumeGraceMs: parseInt(process.env.SESSION_RESUME_GRACE_MS || '30000', 10),
+  },
+  store: {
+    backend: (process.env.STORE_BACKEND || 'redis') as StoreBackend,
+  },
+  retention: {
+    transcripts: parseFloat(process.env.RETENTION_TRANSCRIPTS_HOURS || '24'),
+    audio: parseFloat(process.env.RETENTION_AUDIO_HOURS || '1'),
+    leads: parseFloat(process.env.RETENTION_LEADS_HOURS || '0'),
+    logs: parseFloat(process.env.RETENTION_LOGS_HOURS || '0'),
+  },
+  audit: {
+    enabled: process.env.AUDIT_LOG_ENABLED !== 'false',
+  },
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
     port: parseInt(process.env.REDIS_PORT || '6379', 10),
@@ -62,12 +219,42 @@ const config: Config = {
 
 // Validate required configuration
 const validateConfig = () => {
-  const requiredEnvVars = ['OPENAI_API_KEY', 'JWT_SECRET'];
+  const requiredEnvVars = ['JWT_SECRET'];
+  if (config.llm.provider === 'openai') {
+    requiredEnvVars.push('OPENAI_API_KEY');
+  }
   const missingEnvVars = requiredEnvVars.filter(envVar => !process.env[envVar]);
 
   if (missingEnvVars.length > 0) {
     throw new Error(`Missing required environment variables: ${missingEnvVars.join(', ')}`);
   }
+
+  const providers: LLMProviderName[] = ['openai', 'openai-compatible', 'scripted'];
+  if (!providers.includes(config.llm.provider)) {
+    throw new Error(`Invalid LLM_PROVIDER "${config.llm.provider}". Expected one of: ${providers.join(', ')}`);
+  }
+
+  const leadExtractors: LeadExtractorName[] = ['rules', 'llm'];
+  if (!leadExtractors.includes(config.leads.extractor)) {
+    throw new Error(`Invalid LEAD_EXTRACTOR "${config.leads.extractor}". Expected one of: ${leadExtractors.join(', ')}`);
+  }
+
+  const classifiers: ClassifierName[] = ['rules', 'llm'];
+  if (!classifiers.includes(config.classification.classifier)) {
+    throw new Error(`Invalid TURN_CLASSIFIER "${config.classification.classifier}". Expected one of: ${classifiers.join(', ')}`);
+  }
+
+  const storeBackends: StoreBackend[] = ['redis', 'memory'];
+  if (!storeBackends.includes(config.store.backend)) {
+    throw new Error(`Invalid STORE_BACKEND "${config.store.backend}". Expected one of: ${storeBackends.join(', ')}`);
+  }
+
+  for (const category of RETENTION_CATEGORIES) {
+    const hours = config.retention[category];
+    if (!Number.isFinite(hours) || hours < 0) {
+      throw new Error(`Invalid RETENTION_${category.toUpperCase()}_HOURS "${hours}". Expected a number of hours, 0 to keep until erased`);
+    }
+  }
 };
 
 validateConfig();
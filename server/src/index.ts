@@ -4,15 +4,24 @@ import cors from 'cors';
 import config from './config/config';
 import { ERROR_CODES, ErrorResponse } from './types/chat';
 import WebSocketService from './services/websocket.service';
-import { checkRedisConnection } from './utils/redis-check';
+import { checkStoreConnection } from './utils/store-check';
+import { conversationStore } from './services/store.service';
 import { cleanupService } from './services/cleanup.service';
+import { registerDefaultTools } from './tools';
+import { personaService } from './services/persona.service';
+import { requireAuth } from './middleware/auth';
+import { resolveTenant } from './middleware/tenant';
+import { tenantService } from './services/tenant.service';
+import { runWithTenant } from './utils/tenant';
+import { STAFF_ROLES } from './types/auth';
 
 const app = express();
 const server = http.createServer(app);
 
-// Configure CORS
+// Configure CORS: origins of any tenant pass here, requests are checked
+// against their own tenant's origins once it is known
 app.use(cors({
-  origin: config.cors.origin,
+  origin: (origin, callback) => callback(null, tenantService.isKnownOrigin(origin)),
   credentials: config.cors.credentials
 }));
 
@@ -22,15 +31,38 @@ app.use(express.json());
 // Import routes
 import transcriptionRoutes from './routes/transcription';
 import audioRoutes from './routes/audio';
+import catalogRoutes from './routes/catalog';
+import knowledgeRoutes from './routes/knowledge';
+import personaRoutes from './routes/personas';
+import sessionRoutes from './routes/sessions';
+import metricsRoutes from './routes/metrics';
+import leadRoutes from './routes/leads';
+import guardrailRoutes from './routes/guardrails';
+import handoffRoutes from './routes/handoffs';
+import authRoutes from './routes/auth';
+import transcriptRoutes from './routes/transcript';
+import privacyRoutes from './routes/privacy';
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// API routes
+// API routes, with the roles allowed to use them
+app.use('/api/auth', authRoutes);
+app.use('/api', resolveTenant);
 app.use('/api', transcriptionRoutes);
 app.use('/api/audio', audioRoutes);
+app.use('/api/transcript', transcriptRoutes);
+app.use('/api/catalog', requireAuth('admin'), catalogRoutes);
+app.use('/api/knowledge', requireAuth('admin'), knowledgeRoutes);
+app.use('/api/personas', requireAuth('admin'), personaRoutes);
+app.use('/api/sessions', requireAuth(...STAFF_ROLES), sessionRoutes);
+app.use('/api/metrics', requireAuth('supervisor', 'admin'), metricsRoutes);
+app.use('/api/leads', requireAuth(...STAFF_ROLES), leadRoutes);
+app.use('/api/guardrails', requireAuth('admin'), guardrailRoutes);
+app.use('/api/handoffs', requireAuth(...STAFF_ROLES), handoffRoutes);
+app.use('/api/privacy', requireAuth('admin'), privacyRoutes);
 
 // Error handling middleware
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
@@ -47,13 +79,21 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 // Start server
 const startServer = async () => {
   try {
-    // Check Redis connection
-    const redisConnected = await checkRedisConnection();
-    if (!redisConnected) {
+    // Check the conversation store (Redis unless STORE_BACKEND=memory)
+    const storeConnected = await checkStoreConnection();
+    if (!storeConnected) {
       console.error('Failed to connect to Redis. Exiting...');
       process.exit(1);
     }
 
+    // Seed the default persona of every tenant
+    for (const tenant of tenantService.listTenants()) {
+      await runWithTenant(tenant.id, () => personaService.ensureDefaultPersona());
+    }
+
+    // Register agent tools
+    registerDefaultTools();
+
     // Initialize WebSocket service
     const wsService = new WebSocketService(server);
 
@@ -66,7 +106,10 @@ const startServer = async () => {
       console.log('\n=== AI Sales Agent Server ===');
       console.log(`✅ HTTP server running on port ${port}`);
       console.log(`✅ WebSocket server running on path ${config.wsConfig.path}`);
-      console.log(`✅ Redis connected at ${config.redis.host}:${config.redis.port}`);
+      console.log(conversationStore.backend === 'redis'
+        ? `✅ Redis connected at ${config.redis.host}:${config.redis.port}`
+        : '✅ In-memory conversation store');
+      console.log(`✅ Serving ${tenantService.listTenants().length} tenant(s)`);
       console.log(`✅ Audio cleanup service running`);
       console.log('============================\n');
     });
@@ -97,12 +140,9 @@ const gracefulShutdown = async () => {
     await cleanupService.forceCleanup();
     console.log('✅ Audio files cleaned up');
 
-    // Close Redis connection
-    await checkRedisConnection().then(() => {
-      console.log('✅ Redis connection closed');
-    }).catch(() => {
-      console.warn('⚠️ Redis connection already closed');
-    });
+    // Close the store connection
+    await conversationStore.disconnect();
+    console.log('✅ Conversation store closed');
 
     console.log('✅ Graceful shutdown complete');
     process.exit(0);
@@ -0,0 +1,64 @@
+import { NextFunction, Request, Response } from 'express';
+import { authService } from '../services/auth.service';
+import { tenantService } from '../services/tenant.service';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+import { sendError } from '../utils/errors';
+import { DEFAULT_TENANT_ID, runWithTenant } from '../utils/tenant';
+import { bearerToken, getAuth } from './auth';
+
+// Run the rest of the request in its tenant: the access token's tenant, else
+// the tenant of the `X-Widget-Key` header, else the default tenant. Browser
+// requests must come from one of the tenant's CORS origins.
+export function resolveTenant(req: Request, res: Response, next: NextFunction) {
+  const identity = authService.verifyAccessToken(bearerToken(req));
+  const widgetKey = req.headers['x-widget-key'];
+  const tenant = identity
+    ? tenantService.getTenant(identity.tenantId)
+    : widgetKey ? tenantService.findByWidgetKey(widgetKey) : tenantService.getTenant(DEFAULT_TENANT_ID);
+
+  if (!tenant) {
+    return sendError(res, { error: 'Unknown widget key', code: ERROR_CODES.UNAUTHORIZED } as ErrorResponse, 'Failed to resolve tenant');
+  }
+  if (!tenantService.isOriginAllowed(tenant, req.headers.origin)) {
+    return sendError(res, {
+      error: `Origin ${req.headers.origin} is not allowed`,
+      code: ERROR_CODES.UNAUTHORIZED,
+    } as ErrorResponse, 'Failed to resolve tenant');
+  }
+
+  res.locals.tenantId = tenant.id;
+  runWithTenant(tenant.id, next);
+}
+
+// Re-enter the request's tenant after middleware that continues from stream
+// events, such as multer uploads, where the async context is lost
+export function keepTenant(req: Request, res: Response, next: NextFunction) {
+  runWithTenant(res.locals.tenantId || DEFAULT_TENANT_ID, next);
+}
+
+// Let platform operators, the admins of the default tenant, address another
+// tenant with `?tenant=<id>`. Other callers may only name their own tenant;
+// anonymous callers never count as operators, whatever AUTH_REQUIRED says.
+export function selectTenant(req: Request, res: Response, next: NextFunction) {
+  const requested = req.query.tenant;
+  if (requested === undefined || requested === res.locals.tenantId) {
+    return next();
+  }
+
+  const identity = getAuth(res);
+  const operator = identity?.role === 'admin' && identity.tenantId === DEFAULT_TENANT_ID;
+  if (!operator) {
+    return sendError(res, {
+      error: 'Only administrators of the default tenant can query other tenants',
+      code: ERROR_CODES.UNAUTHORIZED,
+    } as ErrorResponse, 'Failed to select tenant');
+  }
+
+  const tenant = typeof requested === 'string' ? tenantService.getTenant(requested) : null;
+  if (!tenant) {
+    return sendError(res, { error: `Tenant ${requested} not found`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse, 'Failed to select tenant');
+  }
+
+  res.locals.tenantId = tenant.id;
+  runWithTenant(tenant.id, next);
+}
@@ -1,16 +1,20 @@
 import express from 'express';
 import path from 'path';
+import { getAuth, requireAuth } from '../middleware/auth';
+import { authService } from '../services/auth.service';
+import { cleanupService } from '../services/cleanup.service';
 import { streamingTTSService } from '../services/streaming-tts.service';
+import { STAFF_ROLES } from '../types/auth';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+import { sendError } from '../utils/errors';
+import { DEFAULT_TENANT_ID } from '../utils/tenant';
 
 const router = express.Router();
 
-// Serve static audio files from audio directory
-router.use('/', express.static(path.join(__dirname, '../../audio')));
-
 // Generate greeting audio if it doesn't exist
 router.get('/greeting.mp3', async (req, res) => {
-  const greetingPath = path.join(__dirname, '../../audio/greeting.mp3');
-  
+  const greetingPath = path.join(cleanupService.tenantAudioDir(), 'greeting.mp3');
+
   try {
     // Check if greeting file exists
     await streamingTTSService.generateAudio(
@@ -24,4 +28,27 @@ router.get('/greeting.mp3', async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// Synthesized audio of the request's tenant. Agents, supervisors and admins
+// may fetch any of it; customers only the audio of their own session, named
+// by the `chat:session` token in `X-Session-Token`.
+router.get('/:file', requireAuth(), async (req, res) => {
+  try {
+    const file = await cleanupService.getAudioFile(req.params.file);
+    if (!file || (file.tenantId || DEFAULT_TENANT_ID) !== res.locals.tenantId) {
+      throw { error: `Audio ${req.params.file} not found`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse;
+    }
+
+    const identity = getAuth(res);
+    if (!identity || !STAFF_ROLES.includes(identity.role)) {
+      const sessionId = authService.verifySessionToken(req.headers['x-session-token'], res.locals.tenantId);
+      if (!sessionId || sessionId !== file.sessionId) {
+        throw { error: 'A session token for this audio is required', code: ERROR_CODES.UNAUTHORIZED } as ErrorResponse;
+      }
+    }
+    res.sendFile(file.path);
+  } catch (error) {
+    sendError(res, error, 'Failed to load audio');
+  }
+});
+
+export default router;
@@ -0,0 +1,27 @@
+import express from 'express';
+import { authService } from '../services/auth.service';
+import { ERROR_CODES } from '../types/chat';
+import { sendError } from '../utils/errors';
+
+const router = express.Router();
+
+// Exchange a static key for an access token. Embedding sites pass their site
+// key with an optional visitor `subject` and `name` to get a customer token;
+// agent, supervisor and admin keys get a token with their role.
+router.post('/token', async (req, res) => {
+  try {
+    const { key, subject, name } = req.body || {};
+    const identity = authService.authenticateKey(key, subject, name);
+    if (!identity) {
+      return res.status(401).json({
+        error: 'Invalid key',
+        code: ERROR_CODES.UNAUTHORIZED,
+      });
+    }
+    res.status(201).json(authService.issueToken(identity));
+  } catch (error) {
+    sendError(res, error, 'Failed to issue token');
+  }
+});
+
+export default router;
@@ -0,0 +1,125 @@
+import express from 'express';
+import multer from 'multer';
+import { catalogService } from '../services/catalog.service';
+import { ERROR_CODES } from '../types/chat';
+import { sendError } from '../utils/errors';
+import { keepTenant } from '../middleware/tenant';
+
+const router = express.Router();
+
+// Configure multer for memory storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+});
+
+router.get('/', async (req, res) => {
+  try {
+    const { q, category, inStock } = req.query;
+    const products = await catalogService.listProducts({
+      query: typeof q === 'string' ? q : undefined,
+      category: typeof category === 'string' ? category : undefined,
+      inStock: inStock === undefined ? undefined : inStock === 'true',
+    });
+    res.json({ products });
+  } catch (error) {
+    sendError(res, error, 'Failed to list products');
+  }
+});
+
+// Bulk import: JSON array/`{ products: [...] }` body, text/csv body or an uploaded .csv/.json file
+router.post(
+  '/import',
+  upload.single('file'),
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  keepTenant,
+  async (req, res) => {
+    try {
+      let result;
+      if (req.file) {
+        const content = req.file.buffer.toString('utf8');
+        const isJson = req.file.mimetype === 'application/json' ||
+          req.file.originalname.toLowerCase().endsWith('.json');
+        result = isJson
+          ? await catalogService.importProducts(parseJsonProducts(content))
+          : await catalogService.importCsv(content);
+      } else if (typeof req.body === 'string') {
+        result = await catalogService.importCsv(req.body);
+      } else {
+        const records = Array.isArray(req.body) ? req.body : req.body?.products;
+        if (!Array.isArray(records)) {
+          return res.status(400).json({
+            error: 'Expected a JSON array of products, a CSV body or an uploaded file',
+            code: ERROR_CODES.INVALID_INPUT,
+          });
+        }
+        result = await catalogService.importProducts(records);
+      }
+      res.json(result);
+    } catch (error) {
+      sendError(res, error, 'Failed to import products');
+    }
+  }
+);
+
+router.get('/:sku', async (req, res) => {
+  try {
+    const product = await catalogService.getProduct(req.params.sku);
+    if (!product) {
+      return res.status(404).json({
+        error: `Product ${req.params.sku} not found`,
+        code: ERROR_CODES.NOT_FOUND,
+      });
+    }
+    res.json(product);
+  } catch (error) {
+    sendError(res, error, 'Failed to get product');
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const product = await catalogService.createProduct(req.body);
+    res.status(201).json(product);
+  } catch (error) {
+    sendError(res, error, 'Failed to create product');
+  }
+});
+
+router.put('/:sku', async (req, res) => {
+  try {
+    const product = await catalogService.updateProduct(req.params.sku, req.body);
+    res.json(product);
+  } catch (error) {
+    sendError(res, error, 'Failed to update product');
+  }
+});
+
+router.delete('/:sku', async (req, res) => {
+  try {
+    await catalogService.deleteProduct(req.params.sku);
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, 'Failed to delete product');
+  }
+});
+
+function parseJsonProducts(content: string): unknown[] {
+  try {
+    const parsed = JSON.parse(content);
+    const records = Array.isArray(parsed) ? parsed : parsed?.products;
+    if (Array.isArray(records)) {
+      return records;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw {
+    error: 'Uploaded JSON must be an array of products or { "products": [...] }',
+    code: ERROR_CODES.INVALID_INPUT,
+  };
+}
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import { guardrailsService } from '../services/guardrails.service';
+import { sendError } from '../utils/errors';
+
+const router = express.Router();
+
+// Rules applied to assistant replies
+router.get('/policy', (req, res) => {
+  res.json(guardrailsService.getPolicy());
+});
+
+// Violations logged for a session, oldest first
+router.get('/violations/:sessionId', async (req, res) => {
+  try {
+    const violations = await guardrailsService.getViolations(req.params.sessionId);
+    res.json({ violations });
+  } catch (error) {
+    sendError(res, error, 'Failed to get policy violations');
+  }
+});
+
+export default router;
@@ -0,0 +1,65 @@
+import express from 'express';
+import { handoffService } from '../services/handoff.service';
+import { ERROR_CODES } from '../types/chat';
+import { HandoffReason } from '../types/handoff';
+import { sendError } from '../utils/errors';
+
+const router = express.Router();
+
+const REASONS: HandoffReason[] = ['customer_request', 'frustration', 'ai_stuck', 'manual'];
+
+// Queued and active handoffs, oldest request first
+router.get('/', async (req, res) => {
+  try {
+    res.json({ handoffs: await handoffService.listOpen() });
+  } catch (error) {
+    sendError(res, error, 'Failed to list handoffs');
+  }
+});
+
+router.get('/:sessionId', async (req, res) => {
+  try {
+    const handoff = await handoffService.getHandoff(req.params.sessionId);
+    if (!handoff) {
+      return res.status(404).json({
+        error: `Session ${req.params.sessionId} was never handed off`,
+        code: ERROR_CODES.NOT_FOUND,
+      });
+    }
+    res.json(handoff);
+  } catch (error) {
+    sendError(res, error, 'Failed to get handoff');
+  }
+});
+
+// Queue a session for a human agent
+router.post('/:sessionId', async (req, res) => {
+  try {
+    const { reason = 'manual', note } = req.body || {};
+    if (!REASONS.includes(reason)) {
+      return res.status(400).json({
+        error: `Unknown handoff reason: ${reason}. Expected one of: ${REASONS.join(', ')}`,
+        code: ERROR_CODES.INVALID_INPUT,
+      });
+    }
+    const handoff = await handoffService.requestHandoff(
+      req.params.sessionId,
+      reason,
+      typeof note === 'string' ? note : undefined
+    );
+    res.status(201).json(handoff);
+  } catch (error) {
+    sendError(res, error, 'Failed to request handoff');
+  }
+});
+
+// Close the handoff and let the AI answer again
+router.post('/:sessionId/resolve', async (req, res) => {
+  try {
+    res.json(await handoffService.resolve(req.params.sessionId));
+  } catch (error) {
+    sendError(res, error, 'Failed to resolve handoff');
+  }
+});
+
+export default router;
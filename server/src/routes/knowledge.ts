@@ -0,0 +1,100 @@
+import express from 'express';
+import multer from 'multer';
+import { knowledgeService } from '../services/knowledge.service';
+import { ERROR_CODES } from '../types/chat';
+import { KnowledgeFormat, KnowledgeSource } from '../types/knowledge';
+import { sendError } from '../utils/errors';
+import { keepTenant } from '../middleware/tenant';
+
+const router = express.Router();
+
+// Configure multer for memory storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB limit
+    files: 10,
+  },
+});
+
+router.get('/sources', async (req, res) => {
+  try {
+    const sources = await knowledgeService.listSources();
+    res.json({ sources });
+  } catch (error) {
+    sendError(res, error, 'Failed to list knowledge sources');
+  }
+});
+
+// Upload Markdown/PDF/text files as `files`, or post `{ name, content, format? }` as JSON
+router.post('/sources', upload.array('files'), keepTenant, async (req, res) => {
+  try {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    const sources: KnowledgeSource[] = [];
+
+    if (files.length > 0) {
+      for (const file of files) {
+        const format = knowledgeService.detectFormat(file.originalname, file.mimetype);
+        if (!format) {
+          return res.status(400).json({
+            error: `Unsupported file type: ${file.originalname}. Use Markdown, PDF or plain text.`,
+            code: ERROR_CODES.INVALID_INPUT,
+            details: { indexed: sources },
+          });
+        }
+        sources.push(await knowledgeService.addSource(file.originalname, file.buffer, format));
+      }
+      return res.status(201).json({ sources });
+    }
+
+    const { name, content, format } = req.body || {};
+    if (typeof name !== 'string' || typeof content !== 'string') {
+      return res.status(400).json({
+        error: 'Provide files to upload or a JSON body with name and content',
+        code: ERROR_CODES.INVALID_INPUT,
+      });
+    }
+    // Inline content is always text; only the Markdown/plain distinction applies
+    const resolvedFormat: KnowledgeFormat = format === 'markdown' || format === 'text'
+      ? format
+      : knowledgeService.detectFormat(name) === 'markdown' ? 'markdown' : 'text';
+    sources.push(await knowledgeService.addSource(name, Buffer.from(content, 'utf8'), resolvedFormat));
+    res.status(201).json({ sources });
+  } catch (error) {
+    sendError(res, error, 'Failed to index knowledge source');
+  }
+});
+
+router.delete('/sources/:id', async (req, res) => {
+  try {
+    await knowledgeService.deleteSource(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, 'Failed to delete knowledge source');
+  }
+});
+
+// Inspect what the agent would retrieve for a query
+router.get('/search', async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q : '';
+    const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+    if (limit !== undefined && !Number.isInteger(limit)) {
+      return res.status(400).json({ error: 'limit must be an integer', code: ERROR_CODES.INVALID_INPUT });
+    }
+    const results = await knowledgeService.search(query, limit);
+    res.json({
+      results: results.map(({ chunk, sourceName, score }) => ({
+        sourceId: chunk.sourceId,
+        sourceName,
+        heading: chunk.heading,
+        text: chunk.text,
+        score: Number(score.toFixed(4)),
+      })),
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to search knowledge base');
+  }
+});
+
+export default router;
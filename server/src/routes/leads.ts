@@ -0,0 +1,55 @@
+import express from 'express';
+import { leadService } from '../services/lead.service';
+import { ERROR_CODES } from '../types/chat';
+import { sendError } from '../utils/errors';
+
+const router = express.Router();
+
+// List leads, most recently updated first (`qualified`, `q` filters)
+router.get('/', async (req, res) => {
+  try {
+    const leads = await leadService.listLeads({
+      qualified: req.query.qualified === undefined ? undefined : req.query.qualified === 'true',
+      query: typeof req.query.q === 'string' ? req.query.q : undefined,
+    });
+    res.json({ leads });
+  } catch (error) {
+    sendError(res, error, 'Failed to list leads');
+  }
+});
+
+router.get('/:sessionId', async (req, res) => {
+  try {
+    const lead = await leadService.getLead(req.params.sessionId);
+    if (!lead) {
+      return res.status(404).json({
+        error: `Lead for session ${req.params.sessionId} not found`,
+        code: ERROR_CODES.NOT_FOUND,
+      });
+    }
+    res.json(lead);
+  } catch (error) {
+    sendError(res, error, 'Failed to get lead');
+  }
+});
+
+// Correct captured fields; `productInterest` replaces the list
+router.patch('/:sessionId', async (req, res) => {
+  try {
+    const lead = await leadService.updateLead(req.params.sessionId, req.body);
+    res.json(lead);
+  } catch (error) {
+    sendError(res, error, 'Failed to update lead');
+  }
+});
+
+router.delete('/:sessionId', async (req, res) => {
+  try {
+    await leadService.deleteLead(req.params.sessionId);
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, 'Failed to delete lead');
+  }
+});
+
+export default router;
@@ -0,0 +1,21 @@
+import express from 'express';
+import { metricsService } from '../services/metrics.service';
+
+const router = express.Router();
+
+// Time-to-first-audio and related latencies of recent spoken replies
+router.get('/speech', (req, res) => {
+  res.json(metricsService.getSpeechSummary());
+});
+
+// Intent, sentiment and urgency distribution of recent user turns
+router.get('/classification', (req, res) => {
+  res.json(metricsService.getClassificationSummary());
+});
+
+// Sales-stage transitions of recent conversations
+router.get('/stages', (req, res) => {
+  res.json(metricsService.getStageSummary());
+});
+
+export default router;
@@ -0,0 +1,87 @@
+import express from 'express';
+import { personaService } from '../services/persona.service';
+import { ERROR_CODES } from '../types/chat';
+import { sendError } from '../utils/errors';
+
+const router = express.Router();
+
+router.get('/', async (req, res) => {
+  try {
+    const personas = await personaService.listPersonas();
+    res.json({ personas });
+  } catch (error) {
+    sendError(res, error, 'Failed to list personas');
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const persona = await personaService.getPersona(req.params.id);
+    if (!persona) {
+      return res.status(404).json({
+        error: `Persona ${req.params.id} not found`,
+        code: ERROR_CODES.NOT_FOUND,
+      });
+    }
+    res.json(persona);
+  } catch (error) {
+    sendError(res, error, 'Failed to get persona');
+  }
+});
+
+// Preview the rendered system prompt of the current (or `?version=`) version
+router.get('/:id/preview', async (req, res) => {
+  try {
+    const version = req.query.version ? parseInt(String(req.query.version), 10) : undefined;
+    const persona = await personaService.getPersona(req.params.id);
+    if (!persona || (version !== undefined && !persona.versions.some((v) => v.version === version))) {
+      return res.status(404).json({
+        error: `Persona ${req.params.id}${version !== undefined ? ` version ${version}` : ''} not found`,
+        code: ERROR_CODES.NOT_FOUND,
+      });
+    }
+    res.json(await personaService.resolve(req.params.id, version));
+  } catch (error) {
+    sendError(res, error, 'Failed to preview persona');
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const persona = await personaService.createPersona(req.body || {});
+    res.status(201).json(persona);
+  } catch (error) {
+    sendError(res, error, 'Failed to create persona');
+  }
+});
+
+// Creates a new version from the current one with the given changes
+router.put('/:id', async (req, res) => {
+  try {
+    const persona = await personaService.updatePersona(req.params.id, req.body || {});
+    res.json(persona);
+  } catch (error) {
+    sendError(res, error, 'Failed to update persona');
+  }
+});
+
+router.post('/:id/versions/:version/activate', async (req, res) => {
+  try {
+    const version = parseInt(req.params.version, 10);
+    const persona = await personaService.activateVersion(req.params.id, version);
+    res.json(persona);
+  } catch (error) {
+    sendError(res, error, 'Failed to activate persona version');
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    await personaService.deletePersona(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, 'Failed to delete persona');
+  }
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import express from 'express';
+import { getAuth } from '../middleware/auth';
+import { selectTenant } from '../middleware/tenant';
+import { privacyService } from '../services/privacy.service';
+import { sendError } from '../utils/errors';
+
+const router = express.Router();
+
+router.use(selectTenant);
+
+// Hours transcripts, audio, leads and logs are kept (0 until erased)
+router.get('/retention', (req, res) => {
+  res.json(privacyService.getRetention());
+});
+
+// Erase everything linked to a customer (`{ sessionId?, customerId?, email?,
+// phone? }`) and return the deletion receipt
+router.post('/erasures', async (req, res) => {
+  try {
+    const identity = getAuth(res);
+    res.status(201).json(await privacyService.erase(req.body, identity?.name || identity?.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to erase customer data');
+  }
+});
+
+// Check that a receipt presented later was issued here and is unchanged
+router.post('/erasures/verify', (req, res) => {
+  res.json({ valid: privacyService.verifyReceipt(req.body || {}) });
+});
+
+router.get('/erasures/:id', async (req, res) => {
+  try {
+    res.json(await privacyService.getReceipt(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to get erasure receipt');
+  }
+});
+
+export default router;
@@ -0,0 +1,233 @@
+import express from 'express';
+import { selectTenant } from '../middleware/tenant';
+import { historyService } from '../services/history.service';
+import { exportService } from '../services/export.service';
+import { generationConfigService } from '../services/generation-config.service';
+import { salesStageService } from '../services/sales-stage.service';
+import { coachingService } from '../services/coaching.service';
+import { auditService } from '../services/audit.service';
+import { sendError } from '../utils/errors';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+import { SENTIMENTS, Sentiment } from '../types/classification';
+import { SALES_STAGES, SalesStage } from '../types/sales-stage';
+import { SessionFilter } from '../types/history';
+import { ExportFile } from '../types/export';
+import { AUDIT_EVENT_KINDS, AuditEventKind, AuditFilter } from '../types/audit';
+
+const router = express.Router();
+
+router.use(selectTenant);
+
+function invalid(error: string): ErrorResponse {
+  return { error, code: ERROR_CODES.INVALID_INPUT };
+}
+
+// Epoch milliseconds or an ISO date
+function parseTime(value: unknown, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const time = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    throw invalid(`${name} must be a timestamp in milliseconds or an ISO date`);
+  }
+  return time;
+}
+
+function parseInteger(value: unknown, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    throw invalid(`${name} must be an integer`);
+  }
+  return number;
+}
+
+function parseFilter(query: express.Request['query']): SessionFilter {
+  const { stage, sentiment, leadCaptured } = query;
+  if (stage !== undefined && !SALES_STAGES.includes(stage as SalesStage)) {
+    throw invalid(`Unknown sales stage: ${stage}. Expected one of: ${SALES_STAGES.join(', ')}`);
+  }
+  if (sentiment !== undefined && !SENTIMENTS.includes(sentiment as Sentiment)) {
+    throw invalid(`Unknown sentiment: ${sentiment}. Expected one of: ${SENTIMENTS.join(', ')}`);
+  }
+  return {
+    from: parseTime(query.from, 'from'),
+    to: parseTime(query.to, 'to'),
+    leadCaptured: leadCaptured === undefined ? undefined : leadCaptured === 'true',
+    stage: stage as SalesStage | undefined,
+    sentiment: sentiment as Sentiment | undefined,
+    offset: parseInteger(query.offset, 'offset'),
+    limit: parseInteger(query.limit, 'limit'),
+  };
+}
+
+// Comma-separated list, e.g. `kind=inbound,outbound`
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  return String(value).split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function parseAuditFilter(query: express.Request['query']): AuditFilter {
+  const kinds = parseList(query.kind);
+  const unknown = kinds?.find((kind) => !AUDIT_EVENT_KINDS.includes(kind as AuditEventKind));
+  if (unknown) {
+    throw invalid(`Unknown event kind: ${unknown}. Expected one of: ${AUDIT_EVENT_KINDS.join(', ')}`);
+  }
+  return {
+    kinds: kinds as AuditEventKind[] | undefined,
+    types: parseList(query.type),
+    from: parseTime(query.from, 'from'),
+    to: parseTime(query.to, 'to'),
+    offset: parseInteger(query.offset, 'offset'),
+    limit: parseInteger(query.limit, 'limit'),
+  };
+}
+
+function sendFile(res: express.Response, file: ExportFile) {
+  res.attachment(file.filename).type(file.contentType).send(file.content);
+}
+
+// Sessions, most recently active first (`from`, `to`, `leadCaptured`, `stage`,
+// `sentiment`, `offset`, `limit`; `tenant` for platform operators)
+router.get('/', async (req, res) => {
+  try {
+    res.json(await historyService.listSessions(parseFilter(req.query)));
+  } catch (error) {
+    sendError(res, error, 'Failed to list sessions');
+  }
+});
+
+// Full-text search over message content (`q`, `offset`, `limit`); every word
+// of the query must occur in a matching message
+router.get('/search', async (req, res) => {
+  try {
+    res.json(await historyService.search(
+      req.query.q,
+      parseInteger(req.query.offset, 'offset'),
+      parseInteger(req.query.limit, 'limit')
+    ));
+  } catch (error) {
+    sendError(res, error, 'Failed to search sessions');
+  }
+});
+
+// Zip of the sessions active in a range (`from`, `to`) with one file per
+// session in `format`: json (default), md, csv, vtt or srt
+router.get('/export', async (req, res) => {
+  try {
+    const format = exportService.parseFormat(req.query.format);
+    const range = { from: parseTime(req.query.from, 'from'), to: parseTime(req.query.to, 'to') };
+    sendFile(res, await exportService.exportRange(range, format));
+  } catch (error) {
+    sendError(res, error, 'Failed to export sessions');
+  }
+});
+
+// Session summary and metadata
+router.get('/:id', async (req, res) => {
+  try {
+    res.json(await historyService.getSession(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to get session');
+  }
+});
+
+// Transcript page (`offset`, negative to count from the end, and `limit`)
+router.get('/:id/messages', async (req, res) => {
+  try {
+    res.json(await historyService.getTranscript(
+      req.params.id,
+      parseInteger(req.query.offset, 'offset'),
+      parseInteger(req.query.limit, 'limit')
+    ));
+  } catch (error) {
+    sendError(res, error, 'Failed to get transcript');
+  }
+});
+
+// Download a session as json (default), md, csv (one row per message), or
+// vtt/srt captions timed by the synthesized audio (`format`)
+router.get('/:id/export', async (req, res) => {
+  try {
+    sendFile(res, await exportService.exportSession(req.params.id, exportService.parseFormat(req.query.format)));
+  } catch (error) {
+    sendError(res, error, 'Failed to export session');
+  }
+});
+
+// Effective generation settings of a session and its overrides
+router.get('/:id/config', async (req, res) => {
+  try {
+    res.json(await generationConfigService.getSessionConfig(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to get session config');
+  }
+});
+
+// Override model, temperature, max_tokens or penalties; values outside the
+// allowed ranges are clamped and listed in `adjusted`, `null` clears an override
+router.put('/:id/config', async (req, res) => {
+  try {
+    res.json(await generationConfigService.updateSessionConfig(req.params.id, req.body || {}));
+  } catch (error) {
+    sendError(res, error, 'Failed to update session config');
+  }
+});
+
+// Current sales stage and transition history
+router.get('/:id/stage', async (req, res) => {
+  try {
+    const state = await salesStageService.getState(req.params.id);
+    res.json({ ...salesStageService.getStatus(state), ...state });
+  } catch (error) {
+    sendError(res, error, 'Failed to get sales stage');
+  }
+});
+
+// Move a session to another stage (`{ stage, reason? }`)
+router.put('/:id/stage', async (req, res) => {
+  try {
+    const { stage, reason } = req.body || {};
+    const state = await salesStageService.setStage(
+      req.params.id,
+      stage,
+      typeof reason === 'string' && reason ? reason : undefined
+    );
+    res.json({ ...salesStageService.getStatus(state), ...state });
+  } catch (error) {
+    sendError(res, error, 'Failed to set sales stage');
+  }
+});
+
+// Audit log of supervisor whispers, with the reply each one was used for
+router.get('/:id/whispers', async (req, res) => {
+  try {
+    res.json({ whispers: await coachingService.getWhispers(req.params.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to get whispers');
+  }
+});
+
+// Audit log of every socket event and provider call, oldest first (`kind`
+// and `type`, comma-separated; `from`, `to`, `offset`, `limit`)
+router.get('/:id/audit', async (req, res) => {
+  try {
+    res.json(await auditService.getEvents(req.params.id, parseAuditFilter(req.query)));
+  } catch (error) {
+    sendError(res, error, 'Failed to get audit log');
+  }
+});
+
+// Session state rebuilt from the audit log, as of event `seq` or time `at`
+// (latest without either)
+router.get('/:id/audit/state', async (req, res) => {
+  try {
+    res.json(await auditService.reconstruct(req.params.id, {
+      seq: parseInteger(req.query.seq, 'seq'),
+      at: parseTime(req.query.at, 'at'),
+    }));
+  } catch (error) {
+    sendError(res, error, 'Failed to reconstruct session state');
+  }
+});
+
+export default router;
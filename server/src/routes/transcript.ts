@@ -0,0 +1,27 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth';
+import { authService } from '../services/auth.service';
+import { exportService } from '../services/export.service';
+import { sendError } from '../utils/errors';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+
+const router = express.Router();
+
+// Customers download their own conversation: the `X-Session-Token` header
+// carries the token of the `chat:session` event instead of a staff role.
+// `format` is json (default), md, csv, vtt or srt; the file holds the
+// customer's view of the conversation, not the session's internal data.
+router.get('/export', requireAuth(), async (req, res) => {
+  try {
+    const sessionId = authService.verifySessionToken(req.headers['x-session-token'], res.locals.tenantId);
+    if (!sessionId) {
+      throw { error: 'A valid session token is required', code: ERROR_CODES.UNAUTHORIZED } as ErrorResponse;
+    }
+    const file = await exportService.exportSession(sessionId, exportService.parseFormat(req.query.format), 'customer');
+    res.attachment(file.filename).type(file.contentType).send(file.content);
+  } catch (error) {
+    sendError(res, error, 'Failed to export transcript');
+  }
+});
+
+export default router;
@@ -1,6 +1,11 @@
 import express from 'express';
 import multer from 'multer';
 import { transcriptionService } from '../services/transcription.service';
+import { authService } from '../services/auth.service';
+import { auditService } from '../services/audit.service';
+import { requireAuth } from '../middleware/auth';
+import { keepTenant } from '../middleware/tenant';
+import { sendError } from '../utils/errors';
 
 const router = express.Router();
 
@@ -12,7 +17,9 @@ const upload = multer({
   },
 });
 
-router.post('/transcribe', upload.single('audio'), async (req, res) => {
+// Open to every role, customers included. With the `X-Session-Token` header of
+// a chat session the call appears in that session's audit log.
+router.post('/transcribe', requireAuth(), upload.single('audio'), keepTenant, async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No audio file provided' });
@@ -23,17 +30,18 @@ router.post('/transcribe', upload.single('audio'), async (req, res) => {
       size: req.file.size,
     });
 
-    const transcription = await transcriptionService.transcribeAudio(req.file.buffer);
+    const audio = req.file.buffer;
+    const sessionId = authService.verifySessionToken(req.headers['x-session-token'], res.locals.tenantId);
+    const transcription = sessionId
+      ? await auditService.runInSession(sessionId, () => transcriptionService.transcribeAudio(audio))
+      : await transcriptionService.transcribeAudio(audio);
     
     console.log('Transcription result:', transcription);
     
     res.json({ text: transcription });
   } catch (error) {
     console.error('Transcription route error:', error);
-    res.status(500).json({ 
-      error: 'Failed to transcribe audio',
-      details: error instanceof Error ? error.message : String(error)
-    });
+    sendError(res, error, 'Failed to transcribe audio');
   }
 });
 
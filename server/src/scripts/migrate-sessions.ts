@@ -0,0 +1,20 @@
+import { RedisStore } from '../services/store/redis.store';
+
+// Moves sessions stored as one JSON blob to the metadata hash + message list
+// layout for every tenant. Sessions are also migrated when first touched, so
+// running this is optional; it is safe to run while the server is up.
+//
+//   npm run migrate:sessions
+
+async function main() {
+  const store = new RedisStore();
+  const migrated = await store.migrateLegacySessions();
+  console.log(`✅ Migrated ${migrated} session(s)`);
+  await store.disconnect();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Session migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,351 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, REDIS_KEYS } from '../types/chat';
+import { ConversationStore } from '../types/store';
+import { MemoryStore } from '../services/store/memory.store';
+import { RedisStore } from '../services/store/redis.store';
+import { runWithTenant, tenantKey } from '../utils/tenant';
+
+// Runs the same scenario against the in-memory and the Redis store and fails
+// when their results differ. Needs the Redis of REDIS_HOST/REDIS_PORT; all keys
+// live under a throwaway tenant and prefix and are removed afterwards.
+//
+//   npm run test:store
+
+const REDIS_TIMEOUT_MS = 5000;
+
+interface ParityStep {
+  name: string;
+  run(store: ConversationStore): Promise<unknown>;
+}
+
+const prefix = `parity:${uuidv4()}:`;
+const tenantId = `parity-${uuidv4()}`;
+const sessionId = uuidv4();
+
+const message = (id: string, content: string): ChatMessage => ({
+  id,
+  role: 'user',
+  content,
+  timestamp: 1700000000000,
+});
+
+// lastActivity is a wall-clock time and differs between the runs
+const comparable = (value: any) =>
+  value && typeof value.lastActivity === 'number' ? { ...value, lastActivity: '<time>' } : value;
+
+// Field order depends on which concurrent write landed first, so compare with sorted keys
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const steps: ParityStep[] = [
+  { name: 'get of a missing key', run: (store) => store.get(`${prefix}missing`) },
+  {
+    name: 'set and get a JSON value',
+    run: async (store) => {
+      await store.set(`${prefix}value`, { a: 1, list: ['x', 'y'], nested: { ok: true } });
+      return store.get(`${prefix}value`);
+    },
+  },
+  {
+    name: 'returned values are copies',
+    run: async (store) => {
+      const value = await store.get(`${prefix}value`);
+      value.a = 2;
+      return store.get(`${prefix}value`);
+    },
+  },
+  {
+    name: 'exists',
+    run: async (store) => [await store.exists(`${prefix}value`), await store.exists(`${prefix}missing`)],
+  },
+  {
+    name: 'ttl without expiry and of a missing key',
+    run: async (store) => [await store.ttl(`${prefix}value`), await store.ttl(`${prefix}missing`)],
+  },
+  {
+    name: 'set with a TTL',
+    run: async (store) => {
+      await store.set(`${prefix}expiring`, 'soon', 60);
+      const ttl = await store.ttl(`${prefix}expiring`);
+      return ttl > 0 && ttl <= 60;
+    },
+  },
+  {
+    name: 'expire an existing key',
+    run: async (store) => {
+      await store.expire(`${prefix}value`, 30);
+      const ttl = await store.ttl(`${prefix}value`);
+      return ttl > 0 && ttl <= 30;
+    },
+  },
+  {
+    name: 'set without a TTL clears the expiry',
+    run: async (store) => {
+      await store.set(`${prefix}value`, { a: 3 });
+      return store.ttl(`${prefix}value`);
+    },
+  },
+  {
+    name: 'expired keys are gone',
+    run: async (store) => {
+      await store.set(`${prefix}short`, 'gone', 1);
+      await sleep(1100);
+      return [await store.get(`${prefix}short`), await store.exists(`${prefix}short`)];
+    },
+  },
+  {
+    name: 'set if absent',
+    run: async (store) => [
+      await store.setIfAbsent(`${prefix}once`, 'first', 60),
+      await store.setIfAbsent(`${prefix}once`, 'second'),
+      await store.get(`${prefix}once`),
+      (await store.ttl(`${prefix}once`)) > 0,
+    ],
+  },
+  {
+    name: 'del',
+    run: async (store) => {
+      await store.del(`${prefix}expiring`);
+      await store.del(`${prefix}once`);
+      await store.del(`${prefix}missing`);
+      return store.exists(`${prefix}expiring`);
+    },
+  },
+  {
+    name: 'set members',
+    run: async (store) => {
+      await store.sAdd(`${prefix}set`, 'b');
+      await store.sAdd(`${prefix}set`, ['a', 'c', 'b']);
+      await store.sRem(`${prefix}set`, 'c');
+      return (await store.sMembers(`${prefix}set`)).sort();
+    },
+  },
+  {
+    name: 'an emptied set no longer exists',
+    run: async (store) => {
+      await store.sRem(`${prefix}set`, ['a', 'b']);
+      return [await store.sMembers(`${prefix}set`), await store.exists(`${prefix}set`)];
+    },
+  },
+  {
+    name: 'scan with * and ?',
+    run: async (store) => {
+      await store.set(`${prefix}scan:a1`, 1);
+      await store.set(`${prefix}scan:a2`, 2);
+      await store.set(`${prefix}scan:b10`, 3);
+      await store.sAdd(`${prefix}scan:set`, 'x');
+      return [
+        (await store.scan(`${prefix}scan:*`)).map((key) => key.slice(prefix.length)).sort(),
+        (await store.scan(`${prefix}scan:a?`)).map((key) => key.slice(prefix.length)).sort(),
+      ];
+    },
+  },
+  {
+    name: 'lists',
+    run: async (store) => {
+      const lengths = [
+        await store.rPush(`${prefix}list`, 'a'),
+        await store.rPush(`${prefix}list`, ['b', 'c', 'd']),
+      ];
+      return [
+        lengths,
+        await store.lRange(`${prefix}list`),
+        await store.lRange(`${prefix}list`, 1, 2),
+        await store.lRange(`${prefix}list`, -2),
+        await store.lRange(`${prefix}list`, 2, 10),
+        await store.lRange(`${prefix}missing`),
+      ];
+    },
+  },
+  {
+    name: 'sorted sets',
+    run: async (store) => {
+      await store.zAdd(`${prefix}zset`, 3, 'c');
+      await store.zAdd(`${prefix}zset`, 1, 'b');
+      await store.zAdd(`${prefix}zset`, 1, 'a');
+      await store.zAdd(`${prefix}zset`, 2, 'c');
+      await store.zRem(`${prefix}zset`, 'b');
+      return [
+        await store.zRangeByScore(`${prefix}zset`),
+        await store.zRangeByScore(`${prefix}zset`, 2, 5),
+        await store.zRangeByScore(`${prefix}missing`),
+        await store.zRevRangeByScore(`${prefix}zset`),
+        await store.zRevRangeByScore(`${prefix}zset`, 1, 5, 1, 1),
+        await store.zRevRangeByScore(`${prefix}missing`, undefined, undefined, 0, 10),
+        await store.zCount(`${prefix}zset`),
+        await store.zCount(`${prefix}zset`, 2),
+      ];
+    },
+  },
+  { name: 'get of a missing session', run: (store) => store.getSession(sessionId) },
+  {
+    name: 'adding a message creates the session',
+    run: async (store) => {
+      await store.addMessageToSession(sessionId, message('m1', 'hello'));
+      return comparable(await store.getSession(sessionId));
+    },
+  },
+  {
+    name: 'session metadata without messages',
+    run: async (store) => [comparable(await store.getSessionMeta(sessionId)), await store.getSessionMeta(uuidv4())],
+  },
+  {
+    name: 'update session metadata',
+    run: async (store) => comparable(await store.updateSession(sessionId, { personaId: 'sales-agent' })),
+  },
+  {
+    name: 'update a message and the context',
+    run: async (store) => {
+      await store.addMessageToSession(sessionId, message('m2', 'a long reply'));
+      await store.updateMessage(sessionId, 'm2', { content: 'a long', interrupted: true });
+      await store.updateMessage(sessionId, 'unknown', { content: 'ignored' });
+      await store.updateContext(sessionId, 'summary');
+      return comparable(await store.getSession(sessionId));
+    },
+  },
+  {
+    name: 'recent messages',
+    run: async (store) => {
+      await store.addMessageToSession(sessionId, message('m3', 'third'));
+      return [await store.getRecentMessages(sessionId, 2), await store.getRecentMessages(uuidv4())];
+    },
+  },
+  {
+    name: 'message pages',
+    run: async (store) => [
+      await store.getMessages(sessionId, 1, 1),
+      await store.getMessages(sessionId, -2, 5),
+      await store.getMessages(sessionId, 10, 5),
+    ],
+  },
+  {
+    name: 'concurrent appends keep every message',
+    run: async (store) => {
+      const ids = Array.from({ length: 20 }, (_, index) => `c${index}`);
+      await Promise.all(ids.map((id) => store.addMessageToSession(sessionId, message(id, id))));
+      const page = await store.getMessages(sessionId, 0, 100);
+      return [page.total, page.messages.map((msg) => msg.id).filter((id) => ids.includes(id)).sort()];
+    },
+  },
+  {
+    name: 'concurrent updates of one message keep every change',
+    run: async (store) => {
+      await Promise.all([
+        store.updateMessage(sessionId, 'm3', { policyViolations: ['pricing'] }),
+        store.updateMessage(sessionId, 'm3', { interrupted: true }),
+        store.addMessageToSession(sessionId, message('m4', 'fourth')),
+        store.updateSession(sessionId, { personaVersion: 2 }),
+        store.updateSession(sessionId, { summarizedThroughId: 'm1' }),
+      ]);
+      return comparable(await store.getSession(sessionId));
+    },
+  },
+  {
+    name: 'undefined metadata removes the field',
+    run: async (store) => {
+      const session = await store.updateSession(sessionId, { personaVersion: undefined });
+      return 'personaVersion' in session;
+    },
+  },
+  {
+    name: 'sessions expire and live in the tenant namespace',
+    run: async (store) => {
+      const ttl = await store.ttl(tenantKey(`${REDIS_KEYS.SESSION_META_PREFIX}${sessionId}`));
+      return ttl > 0 && ttl <= 24 * 60 * 60;
+    },
+  },
+  {
+    name: 'sessions are indexed by last activity',
+    run: async (store) => {
+      const other = uuidv4();
+      await store.updateSession(other, { personaId: 'sales-agent' });
+      const index = await store.zRangeByScore(tenantKey(REDIS_KEYS.SESSION_INDEX));
+      await store.clearSession(other);
+      return [index.length, index.includes(other), await store.zRangeByScore(tenantKey(REDIS_KEYS.SESSION_INDEX))];
+    },
+  },
+  {
+    name: 'message listeners see additions and updates',
+    run: async (store) => {
+      const seen: string[] = [];
+      store.onMessageSaved((id, saved) => {
+        if (id === sessionId) seen.push(`${saved.id}:${saved.content}`);
+      });
+      await store.addMessageToSession(sessionId, message('m5', 'fifth'));
+      await store.updateMessage(sessionId, 'm5', { content: 'fifth, edited' });
+      await store.updateMessage(sessionId, 'unknown', { content: 'ignored' });
+      return seen;
+    },
+  },
+  {
+    name: 'clear a session',
+    run: async (store) => {
+      await store.clearSession(sessionId);
+      return [await store.getSession(sessionId), await store.zRangeByScore(tenantKey(REDIS_KEYS.SESSION_INDEX))];
+    },
+  },
+];
+
+async function runSteps(store: ConversationStore): Promise<string[]> {
+  return runWithTenant(tenantId, async () => {
+    const results: string[] = [];
+    try {
+      for (const step of steps) {
+        try {
+          results.push(canonical(await step.run(store)));
+        } catch (error) {
+          results.push(`threw: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    } finally {
+      for (const key of [...(await store.scan(`${prefix}*`)), ...(await store.scan(`tenant:${tenantId}:*`))]) {
+        await store.del(key);
+      }
+    }
+    return results;
+  });
+}
+
+async function connectRedis(): Promise<RedisStore> {
+  const store = new RedisStore();
+  // Commands wait for the connection, so probe with a deadline
+  const probe = store.getSession(uuidv4());
+  const timeout = sleep(REDIS_TIMEOUT_MS).then(() => {
+    throw new Error(`Redis did not answer within ${REDIS_TIMEOUT_MS}ms`);
+  });
+  await Promise.race([probe, timeout]);
+  return store;
+}
+
+async function main() {
+  const memoryResults = await runSteps(new MemoryStore());
+  const redis = await connectRedis();
+  const redisResults = await runSteps(redis);
+  await redis.disconnect();
+
+  let mismatches = 0;
+  steps.forEach((step, index) => {
+    if (memoryResults[index] === redisResults[index]) {
+      console.log(`✅ ${step.name}`);
+      return;
+    }
+    mismatches++;
+    console.log(`❌ ${step.name}`);
+    console.log(`   memory: ${memoryResults[index]}`);
+    console.log(`   redis:  ${redisResults[index]}`);
+  });
+
+  console.log(`\n${steps.length - mismatches}/${steps.length} steps match`);
+  process.exit(mismatches > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Store parity check failed:', error);
+  process.exit(1);
+});
@@ -1,6 +1,6 @@
 import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import { ChatConfig, ChatMessage, ERROR_CODES, ErrorResponse } from '../types/chat';
-import { openAIService } from './openai.service';
+import { GenerateOptions, openAIService } from './openai.service';
 import { v4 as uuidv4 } from 'uuid';
 
 class AIService {
@@ -10,7 +10,7 @@ class AIService {
     config?: Partial<ChatConfig>
   ): Promise<ChatMessage> {
     try {
-      const responseGenerator = await openAIService.generateResponse(sessionId, userMessage);
+      const responseGenerator = await openAIService.generateResponse(sessionId, userMessage, { config });
       let lastMessage: ChatMessage | undefined;
 
       for await (const message of responseGenerator) {
@@ -39,10 +39,15 @@ class AIService {
     sessionId: string,
     userMessage: string,
     onToken: (token: string) => void,
-    config?: Partial<ChatConfig>
+    config?: Partial<ChatConfig>,
+    options: GenerateOptions = {}
   ): Promise<ChatMessage> {
     try {
-      const responseGenerator = await openAIService.generateResponse(sessionId, userMessage);
+      const responseGenerator = await openAIService.generateResponse(
+        sessionId,
+        userMessage,
+        { ...options, config: { ...options.config, ...config } }
+      );
       let lastMessage: ChatMessage | undefined;
 
       for await (const message of responseGenerator) {
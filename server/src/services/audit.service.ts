@@ -0,0 +1,347 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { tenantService } from './tenant.service';
+import { tenantKey } from '../utils/tenant';
+import { toErrorResponse } from '../utils/errors';
+import {
+  CancelReason,
+  ChatMessage,
+  ChatResponse,
+  ERROR_CODES,
+  ErrorResponse,
+  REDIS_KEYS,
+  SessionResumeEvent,
+  WS_EVENTS,
+} from '../types/chat';
+import { CustomerLeadUpdateEvent } from '../types/lead';
+import { STREAMING_EVENTS } from '../types/streaming';
+import {
+  AuditEvent,
+  AuditFilter,
+  AuditMessage,
+  AuditPage,
+  AuditProvider,
+  AuditRecord,
+  AuditResponseData,
+  AuditSessionState,
+  AuditStatusData,
+} from '../types/audit';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+// Payloads are logged for review, not for replaying audio or prompts
+const MAX_STRING_LENGTH = 2000;
+const MAX_ARRAY_LENGTH = 100;
+const MAX_DEPTH = 8;
+const SECRET_FIELD = /(token|secret|password|api[-_]?key|authorization)$/i;  // Not max_tokens
+
+// Append-only log of everything that happened in a session: the socket events
+// the customer and agent consoles sent, the events sent to the customer, and
+// the LLM, TTS and STT calls made on the session's behalf. Events are queried
+// over REST and replayed to rebuild what the customer saw at any point.
+class AuditService {
+  // Session that provider calls are attributed to, set per socket event
+  private readonly sessionStorage = new AsyncLocalStorage<string>();
+  // Reply last sent to each customer socket, to log only what a chat:response adds
+  private readonly sentReplies = new Map<string, { id: string; content: string }>();
+
+  runInSession<T>(sessionId: string, operation: () => T): T {
+    return this.sessionStorage.run(sessionId, operation);
+  }
+
+  currentSessionId(): string | undefined {
+    return this.sessionStorage.getStore();
+  }
+
+  // Append an event in the current tenant. Logging never fails the caller;
+  // events of one session are stored in the order they were recorded.
+  record(sessionId: string, event: Omit<AuditRecord, 'at'>): void {
+    if (!config.audit.enabled || !sessionId) return;
+    const record: AuditRecord = { at: Date.now(), ...event };
+    if (event.data !== undefined) {
+      record.data = this.scrub(event.data);
+    }
+    this.append(sessionId, record).catch((error) => {
+      console.error(`Failed to record ${event.type} of session ${sessionId}:`, error);
+    });
+  }
+
+  // Log an event sent to a customer socket. Of a streamed reply, only the
+  // text added since the socket's previous chat:response is kept.
+  recordOutgoing(sessionId: string, socketId: string, type: string, payload: unknown): void {
+    if (!config.audit.enabled) return;
+    let data = payload;
+    if (type === WS_EVENTS.CHAT_RESPONSE) {
+      const { message } = payload as ChatResponse;
+      const previous = this.sentReplies.get(socketId);
+      if (previous?.id === message.id && message.content.startsWith(previous.content)) {
+        const appended: AuditResponseData = {
+          ...(payload as ChatResponse),
+          message: { ...message, content: message.content.slice(previous.content.length) },
+          appended: true,
+        };
+        data = appended;
+      }
+      this.sentReplies.set(socketId, { id: message.id, content: message.content });
+    }
+    this.record(sessionId, { kind: 'outbound', type, socketId, data });
+  }
+
+  // Drop what was kept of a socket's replies once it disconnected
+  forgetSocket(socketId: string): void {
+    this.sentReplies.delete(socketId);
+  }
+
+  // Time a provider call made for the current session; calls outside a
+  // session (catalog imports, REST synthesis) are not logged
+  async trackProvider<T>(
+    provider: AuditProvider,
+    data: Record<string, unknown>,
+    operation: () => Promise<T>,
+    describe?: (result: T) => Record<string, unknown>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await operation();
+      this.recordProvider(provider, startedAt, { ...data, ...describe?.(result) });
+      return result;
+    } catch (error) {
+      this.recordProvider(provider, startedAt, data, error);
+      throw error;
+    }
+  }
+
+  recordProvider(provider: AuditProvider, startedAt: number, data: Record<string, unknown>, error?: unknown): void {
+    const sessionId = this.currentSessionId();
+    if (!sessionId) return;
+    this.record(sessionId, {
+      kind: 'provider',
+      type: provider,
+      data,
+      durationMs: Date.now() - startedAt,
+      ...(error !== undefined ? { error: this.scrub(toErrorResponse(error, `${provider} call failed`)) as ErrorResponse } : {}),
+    });
+  }
+
+  // Events of a session in the order they happened
+  async getEvents(sessionId: string, filter: AuditFilter = {}): Promise<AuditPage> {
+    const events = (await this.readEvents(sessionId))
+      .filter((event) => !filter.kinds?.length || filter.kinds.includes(event.kind))
+      .filter((event) => !filter.types?.length || filter.types.includes(event.type))
+      .filter((event) => filter.from === undefined || event.at >= filter.from)
+      .filter((event) => filter.to === undefined || event.at <= filter.to);
+
+    const offset = filter.offset === undefined ? 0 : Math.max(0, Math.trunc(filter.offset));
+    const limit = filter.limit === undefined
+      ? DEFAULT_PAGE_SIZE
+      : Math.min(MAX_PAGE_SIZE, Math.max(1, Math.trunc(filter.limit)));
+    return { events: events.slice(offset, offset + limit), total: events.length, offset };
+  }
+
+  // Session state after the events up to and including `seq`, or up to the
+  // time `at`; the latest state without either
+  async reconstruct(sessionId: string, point: { seq?: number; at?: number } = {}): Promise<AuditSessionState> {
+    const state: AuditSessionState = {
+      sessionId,
+      seq: -1,
+      connected: false,
+      connections: 0,
+      processing: false,
+      speaking: false,
+      customerSpeaking: false,
+      messages: [],
+      toolCalls: 0,
+      providerCalls: { total: 0, failed: 0, durationMs: 0 },
+      errors: [],
+    };
+    for (const event of await this.readEvents(sessionId)) {
+      if (point.seq !== undefined && event.seq > point.seq) break;
+      if (point.at !== undefined && event.at > point.at) break;
+      this.apply(state, event);
+    }
+    return state;
+  }
+
+  // Remove a session's log, e.g. when the session is erased; returns how many
+  // events were removed
+  async deleteSession(sessionId: string): Promise<number> {
+    const key = this.key(sessionId);
+    const count = (await conversationStore.lRange(key)).length;
+    await conversationStore.del(key);
+    return count;
+  }
+
+  private async append(sessionId: string, record: AuditRecord): Promise<void> {
+    const key = this.key(sessionId);
+    await conversationStore.rPush(key, JSON.stringify(record));
+    const expiry = tenantService.retentionSeconds('logs');
+    if (expiry > 0) {
+      await conversationStore.expire(key, expiry);
+    }
+  }
+
+  private async readEvents(sessionId: string): Promise<AuditEvent[]> {
+    const records = await conversationStore.lRange(this.key(sessionId));
+    if (records.length === 0) {
+      throw { error: `No audit log for session ${sessionId}`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse;
+    }
+    return records.map((record, seq) => ({ seq, ...JSON.parse(record) }));
+  }
+
+  // Fold one event into the state, the way the client would have applied it
+  private apply(state: AuditSessionState, event: AuditEvent): void {
+    state.seq = event.seq;
+    state.at = event.at;
+
+    if (event.kind === 'provider') {
+      state.providerCalls.total++;
+      state.providerCalls.durationMs += event.durationMs || 0;
+      if (event.error) {
+        state.providerCalls.failed++;
+        state.errors.push({ at: event.at, type: event.type, error: event.error });
+      }
+      return;
+    }
+    // Agent console events reach the customer as the outbound events they cause
+    if (event.actor) return;
+
+    switch (event.type) {
+      case 'connect':
+        state.connected = true;
+        state.socketId = event.socketId;
+        state.connections++;
+        break;
+      case 'disconnect':
+        // A resumed session may already be attached to the next socket
+        if (event.socketId === state.socketId) {
+          state.connected = false;
+          state.customerSpeaking = false;
+        }
+        break;
+      case WS_EVENTS.CHAT_MESSAGE:
+      case WS_EVENTS.CHAT_AUDIO: {
+        const content = event.type === WS_EVENTS.CHAT_MESSAGE
+          ? event.data
+          : (event.data as { text?: unknown } | undefined)?.text;
+        if (typeof content === 'string') {
+          state.messages.push({ role: 'user', content, at: event.at });
+        }
+        break;
+      }
+      case WS_EVENTS.CHAT_SESSION: {
+        // A resume sends the stored history, which replaces what was replayed
+        const session = event.data as Partial<SessionResumeEvent> | undefined;
+        if (session?.resumed && Array.isArray(session.messages)) {
+          state.messages = session.messages.map((message) => this.toAuditMessage(message, event.at));
+        }
+        break;
+      }
+      case WS_EVENTS.CHAT_RESPONSE: {
+        const { message, appended } = (event.data || {}) as Partial<AuditResponseData>;
+        if (!message) break;
+        const existing = state.messages.find((candidate) => candidate.id === message.id);
+        if (!existing) {
+          state.messages.push(this.toAuditMessage(message, event.at));
+        } else {
+          existing.content = appended ? existing.content + message.content : message.content;
+        }
+        break;
+      }
+      case WS_EVENTS.CHAT_INTERRUPTED: {
+        const { messageId } = (event.data || {}) as { messageId?: string; reason?: CancelReason };
+        const message = state.messages.find((existing) => existing.id === messageId);
+        if (message) {
+          message.interrupted = true;
+        }
+        break;
+      }
+      case WS_EVENTS.CHAT_STATUS: {
+        const status = (event.data || {}) as AuditStatusData;
+        if (typeof status.processing === 'boolean') state.processing = status.processing;
+        if (status.persona) state.persona = status.persona;
+        if (status.generation) state.generation = status.generation.config;
+        if (status.salesStage) state.salesStage = status.salesStage;
+        if (status.handoff) state.handoff = status.handoff;
+        break;
+      }
+      case WS_EVENTS.LEAD_UPDATED: {
+        // Each event holds only the fields that changed
+        const { lead } = (event.data || {}) as Partial<CustomerLeadUpdateEvent>;
+        if (lead) state.lead = { ...state.lead, ...lead };
+        break;
+      }
+      case WS_EVENTS.TOOL_CALL:
+        state.toolCalls++;
+        break;
+      case WS_EVENTS.CHAT_ERROR:
+      case STREAMING_EVENTS.STREAM_ERROR:
+        state.errors.push({ at: event.at, type: event.type, error: event.data as ErrorResponse });
+        break;
+      case STREAMING_EVENTS.STREAM_START:
+        state.speaking = true;
+        break;
+      case STREAMING_EVENTS.STREAM_END:
+        state.speaking = false;
+        break;
+      case STREAMING_EVENTS.SPEECH_START:
+        state.customerSpeaking = true;
+        break;
+      case STREAMING_EVENTS.SPEECH_END:
+        state.customerSpeaking = false;
+        break;
+    }
+  }
+
+  private toAuditMessage(message: ChatMessage, at: number): AuditMessage {
+    return {
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      at: message.timestamp || at,
+      ...(message.interrupted ? { interrupted: true } : {}),
+      ...(message.agent ? { agent: message.agent } : {}),
+    };
+  }
+
+  // JSON-safe copy of a payload without secrets, binary data or unbounded text
+  private scrub(value: unknown, depth = 0): unknown {
+    if (value === null || typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return value.length > MAX_STRING_LENGTH
+        ? `${value.slice(0, MAX_STRING_LENGTH)}… [${value.length - MAX_STRING_LENGTH} more characters]`
+        : value;
+    }
+    if (Buffer.isBuffer(value) || value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+      return `[${(value as ArrayBuffer).byteLength} bytes]`;
+    }
+    if (typeof value !== 'object' || depth >= MAX_DEPTH) {
+      return undefined;
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message };
+    }
+    if (Array.isArray(value)) {
+      const items = value.slice(0, MAX_ARRAY_LENGTH).map((item) => this.scrub(item, depth + 1) ?? null);
+      return value.length > MAX_ARRAY_LENGTH ? [...items, `[${value.length - MAX_ARRAY_LENGTH} more items]`] : items;
+    }
+    const copy: Record<string, unknown> = {};
+    for (const [field, nested] of Object.entries(value)) {
+      const scrubbed = SECRET_FIELD.test(field) ? '[redacted]' : this.scrub(nested, depth + 1);
+      if (scrubbed !== undefined) {
+        copy[field] = scrubbed;
+      }
+    }
+    return copy;
+  }
+
+  private key(sessionId: string): string {
+    return tenantKey(`${REDIS_KEYS.AUDIT_PREFIX}${sessionId}`);
+  }
+}
+
+// Export as singleton
+export const auditService = new AuditService();
+export default auditService;
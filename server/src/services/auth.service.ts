@@ -0,0 +1,124 @@
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/config';
+import { tenantService } from './tenant.service';
+import { signToken, verifyToken } from '../utils/jwt';
+import { DEFAULT_TENANT_ID } from '../utils/tenant';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+import { AgentIdentity } from '../types/handoff';
+import { AUTH_ROLES, AuthIdentity, AuthRole, IssuedToken } from '../types/auth';
+
+const ACCESS_TOKEN_TYPE = 'access';
+const SESSION_TOKEN_TYPE = 'session';
+const MAX_SUBJECT_LENGTH = 128;
+
+// Access tokens for the REST API and sockets. Tokens are issued for the static
+// keys of embedding sites (customer tokens), agents, supervisors and admins,
+// and belong to the tenant that owns the key.
+class AuthService {
+  // Identity of a static key, or null. `subject` and `name` describe the
+  // visitor when an embedding site asks for a customer token.
+  authenticateKey(key: unknown, subject?: unknown, name?: unknown): AuthIdentity | null {
+    const credential = tenantService.findCredential(key);
+    if (!credential) return null;
+
+    const tenantId = credential.tenant.id;
+    if (credential.role !== 'customer') {
+      return { id: this.accountId(credential.name), name: credential.name, role: credential.role, tenantId };
+    }
+
+    const visitor = typeof subject === 'string' && subject.trim() ? subject.trim() : uuidv4();
+    if (visitor.length > MAX_SUBJECT_LENGTH) {
+      throw { error: `Subject must be at most ${MAX_SUBJECT_LENGTH} characters`, code: ERROR_CODES.INVALID_INPUT } as ErrorResponse;
+    }
+    return {
+      id: visitor,
+      role: 'customer',
+      site: credential.name,
+      tenantId,
+      ...(typeof name === 'string' && name.trim() ? { name: name.trim() } : {}),
+    };
+  }
+
+  issueToken(identity: AuthIdentity): IssuedToken {
+    const ttlSeconds = config.auth.tokenTtlSeconds;
+    const token = signToken(
+      {
+        sub: identity.id,
+        typ: ACCESS_TOKEN_TYPE,
+        role: identity.role,
+        tenant: identity.tenantId,
+        ...(identity.name ? { name: identity.name } : {}),
+        ...(identity.site ? { site: identity.site } : {}),
+      },
+      ttlSeconds,
+      config.jwtSecret
+    );
+    return { token, role: identity.role, tenantId: identity.tenantId, expiresAt: Date.now() + ttlSeconds * 1000 };
+  }
+
+  // Identity of a valid access token of a known tenant, or null
+  verifyAccessToken(token: unknown): AuthIdentity | null {
+    const claims = verifyToken(token, ACCESS_TOKEN_TYPE, config.jwtSecret);
+    if (!claims || !AUTH_ROLES.includes(claims.role as AuthRole)) return null;
+
+    const tenantId = typeof claims.tenant === 'string' ? claims.tenant : DEFAULT_TENANT_ID;
+    if (!tenantService.getTenant(tenantId)) return null;
+
+    return {
+      id: claims.sub,
+      role: claims.role as AuthRole,
+      tenantId,
+      ...(typeof claims.name === 'string' ? { name: claims.name } : {}),
+      ...(typeof claims.site === 'string' ? { site: claims.site } : {}),
+    };
+  }
+
+  // Token that resumes a chat session and lets the customer download it and
+  // fetch its audio
+  issueSessionToken(sessionId: string, tenantId: string): string {
+    return signToken(
+      { sub: sessionId, typ: SESSION_TOKEN_TYPE, tenant: tenantId },
+      config.session.tokenTtlSeconds,
+      config.jwtSecret
+    );
+  }
+
+  // Session id of a valid session token of the tenant, or null. Sessions
+  // never move between tenants.
+  verifySessionToken(token: unknown, tenantId: string): string | null {
+    const claims = verifyToken(token, SESSION_TOKEN_TYPE, config.jwtSecret);
+    return claims && (claims.tenant || DEFAULT_TENANT_ID) === tenantId ? claims.sub : null;
+  }
+
+  // Throws UNAUTHORIZED unless the identity has one of the roles; no roles allows any identity
+  authorize(identity: AuthIdentity | null, roles: AuthRole[] = []): AuthIdentity {
+    if (!identity) {
+      throw { error: 'A valid access token is required', code: ERROR_CODES.UNAUTHORIZED } as ErrorResponse;
+    }
+    if (roles.length > 0 && !roles.includes(identity.role)) {
+      throw {
+        error: `Role ${identity.role} may not access this resource. Required: ${roles.join(', ')}`,
+        code: ERROR_CODES.UNAUTHORIZED,
+      } as ErrorResponse;
+    }
+    return identity;
+  }
+
+  // Agent console identity of a staff access token; admins act as supervisors
+  toAgentIdentity(identity: AuthIdentity | null): AgentIdentity | null {
+    if (!identity || identity.role === 'customer') return null;
+    return {
+      id: identity.id,
+      name: identity.name || identity.id,
+      role: identity.role === 'agent' ? 'agent' : 'supervisor',
+    };
+  }
+
+  private accountId(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '-');
+  }
+}
+
+// Export as singleton
+export const authService = new AuthService();
+export default authService;
@@ -0,0 +1,263 @@
+import { conversationStore } from './store.service';
+import { currentTenantId, tenantKey } from '../utils/tenant';
+import { ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import {
+  CatalogImportResult,
+  DEFAULT_CURRENCY,
+  Product,
+  ProductAttributeValue,
+  ProductFilter,
+  ProductInput,
+} from '../types/catalog';
+import { parseCsvRecords } from '../utils/csv';
+
+// Columns with a dedicated Product field; any other CSV column becomes an attribute
+const CSV_PRODUCT_COLUMNS = ['sku', 'name', 'description', 'price', 'currency', 'stock', 'category'];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'can', 'do', 'does', 'for', 'have', 'how', 'i',
+  'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'the', 'to', 'what', 'with', 'you',
+]);
+
+// Called with the tenant whose catalog was written
+type CatalogListener = (tenantId: string) => void;
+
+class CatalogService {
+  private readonly maxPromptProducts = 3;
+  private readonly listeners: CatalogListener[] = [];
+
+  // Notified after every product write or deletion, e.g. to drop cached snapshots
+  onCatalogChanged(listener: CatalogListener): void {
+    this.listeners.push(listener);
+  }
+
+  private productKey(sku: string): string {
+    return tenantKey(`${REDIS_KEYS.CATALOG_PREFIX}${sku}`);
+  }
+
+  async listProducts(filter: ProductFilter = {}): Promise<Product[]> {
+    const skus = await conversationStore.sMembers(tenantKey(REDIS_KEYS.CATALOG_INDEX));
+    const products = (await Promise.all(skus.map((sku) => this.getProduct(sku))))
+      .filter((product): product is Product => product !== null);
+
+    return products
+      .filter((product) => !filter.category ||
+        product.category?.toLowerCase() === filter.category.toLowerCase())
+      .filter((product) => filter.inStock === undefined ||
+        (product.stock > 0) === filter.inStock)
+      .filter((product) => !filter.query || this.scoreProduct(product, this.tokenize(filter.query)) > 0)
+      .sort((a, b) => a.sku.localeCompare(b.sku));
+  }
+
+  async getProduct(sku: string): Promise<Product | null> {
+    return conversationStore.get(this.productKey(sku));
+  }
+
+  async createProduct(input: unknown): Promise<Product> {
+    const product = this.normalizeProduct(input);
+    if (await this.getProduct(product.sku)) {
+      throw this.invalidInput(`Product ${product.sku} already exists`);
+    }
+    return this.saveProduct(product);
+  }
+
+  async updateProduct(sku: string, changes: unknown): Promise<Product> {
+    const existing = await this.getProduct(sku);
+    if (!existing) {
+      throw this.notFound(sku);
+    }
+    const product = this.normalizeProduct({
+      ...existing,
+      ...(changes as object),
+      sku,
+      attributes: {
+        ...existing.attributes,
+        ...((changes as Partial<ProductInput>)?.attributes || {}),
+      },
+    });
+    return this.saveProduct(product, existing.createdAt);
+  }
+
+  async deleteProduct(sku: string): Promise<void> {
+    if (!(await this.getProduct(sku))) {
+      throw this.notFound(sku);
+    }
+    await conversationStore.del(this.productKey(sku));
+    await conversationStore.sRem(tenantKey(REDIS_KEYS.CATALOG_INDEX), sku);
+    this.notifyChanged();
+  }
+
+  // Upsert a batch of products, collecting per-row errors instead of failing the batch
+  async importProducts(records: unknown[]): Promise<CatalogImportResult> {
+    const result: CatalogImportResult = { created: 0, updated: 0, errors: [] };
+
+    for (let i = 0; i < records.length; i++) {
+      const record = records[i] as Partial<ProductInput>;
+      try {
+        const product = this.normalizeProduct(record);
+        const existing = await this.getProduct(product.sku);
+        await this.saveProduct(product, existing?.createdAt);
+        if (existing) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+      } catch (error) {
+        result.errors.push({
+          row: i + 1,
+          sku: typeof record?.sku === 'string' ? record.sku : undefined,
+          error: (error as ErrorResponse).error || 'Failed to import product',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  async importCsv(text: string): Promise<CatalogImportResult> {
+    const records = parseCsvRecords(text).map((row) => {
+      const attributes: Record<string, ProductAttributeValue> = {};
+      for (const [column, value] of Object.entries(row)) {
+        if (!CSV_PRODUCT_COLUMNS.includes(column) && value !== '') {
+          attributes[column] = value;
+        }
+      }
+      return {
+        sku: row.sku,
+        name: row.name,
+        description: row.description,
+        price: row.price === '' || row.price === undefined ? undefined : Number(row.price),
+        currency: row.currency || undefined,
+        stock: row.stock === '' || row.stock === undefined ? undefined : Number(row.stock),
+        category: row.category || undefined,
+        attributes,
+      };
+    });
+    return this.importProducts(records);
+  }
+
+  // Products most relevant to a free-text query, best match first
+  async findRelevant(query: string, limit: number = this.maxPromptProducts): Promise<Product[]> {
+    const terms = this.tokenize(query);
+    if (terms.length === 0) return [];
+
+    const products = await this.listProducts();
+    return products
+      .map((product) => ({ product, score: this.scoreProduct(product, terms) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ product }) => product);
+  }
+
+  formatForPrompt(products: Product[]): string {
+    return products.map((product) => {
+      const attributes = Object.entries(product.attributes)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join(', ');
+      const availability = product.stock > 0 ? `${product.stock} in stock` : 'out of stock';
+      return [
+        `- ${product.name} (SKU ${product.sku}): ${product.price.toFixed(2)} ${product.currency}, ${availability}`,
+        product.description ? `  ${product.description}` : '',
+        attributes ? `  Attributes: ${attributes}` : '',
+      ].filter(Boolean).join('\n');
+    }).join('\n');
+  }
+
+  private async saveProduct(product: ProductInput, createdAt?: number): Promise<Product> {
+    const now = Date.now();
+    const stored: Product = {
+      ...product,
+      createdAt: createdAt ?? now,
+      updatedAt: now,
+    };
+    await conversationStore.set(this.productKey(product.sku), stored);
+    await conversationStore.sAdd(tenantKey(REDIS_KEYS.CATALOG_INDEX), product.sku);
+    this.notifyChanged();
+    return stored;
+  }
+
+  private notifyChanged(): void {
+    const tenantId = currentTenantId();
+    for (const listener of this.listeners) {
+      listener(tenantId);
+    }
+  }
+
+  private normalizeProduct(input: unknown): ProductInput {
+    if (!input || typeof input !== 'object') {
+      throw this.invalidInput('Product must be an object');
+    }
+    const record = input as Record<string, any>;
+
+    const sku = typeof record.sku === 'string' ? record.sku.trim() : '';
+    if (!/^[\w.-]{1,64}$/.test(sku)) {
+      throw this.invalidInput('sku is required and may only contain letters, digits, "_", "-" and "."');
+    }
+    if (typeof record.name !== 'string' || !record.name.trim()) {
+      throw this.invalidInput(`name is required for ${sku}`);
+    }
+    const price = Number(record.price);
+    if (record.price === undefined || !Number.isFinite(price) || price < 0) {
+      throw this.invalidInput(`price must be a non-negative number for ${sku}`);
+    }
+    const stock = record.stock === undefined ? 0 : Number(record.stock);
+    if (!Number.isInteger(stock) || stock < 0) {
+      throw this.invalidInput(`stock must be a non-negative integer for ${sku}`);
+    }
+    const attributes = record.attributes ?? {};
+    if (typeof attributes !== 'object' || Array.isArray(attributes) ||
+        !Object.values(attributes).every((value) => ['string', 'number', 'boolean'].includes(typeof value))) {
+      throw this.invalidInput(`attributes must map names to strings, numbers or booleans for ${sku}`);
+    }
+
+    return {
+      sku,
+      name: record.name.trim(),
+      description: typeof record.description === 'string' ? record.description.trim() : '',
+      price,
+      currency: typeof record.currency === 'string' && record.currency
+        ? record.currency.toUpperCase()
+        : DEFAULT_CURRENCY,
+      stock,
+      category: typeof record.category === 'string' && record.category ? record.category : undefined,
+      attributes,
+    };
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9.-]+/)
+      .filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+  }
+
+  private scoreProduct(product: Product, terms: string[]): number {
+    const name = product.name.toLowerCase();
+    const sku = product.sku.toLowerCase();
+    const body = [
+      product.description,
+      product.category || '',
+      ...Object.entries(product.attributes).map(([key, value]) => `${key} ${value}`),
+    ].join(' ').toLowerCase();
+
+    return terms.reduce((score, term) => {
+      if (term === sku) return score + 5;
+      if (name.includes(term)) return score + 3;
+      if (body.includes(term)) return score + 1;
+      return score;
+    }, 0);
+  }
+
+  private invalidInput(message: string): ErrorResponse {
+    return { error: message, code: ERROR_CODES.INVALID_INPUT };
+  }
+
+  private notFound(sku: string): ErrorResponse {
+    return { error: `Product ${sku} not found`, code: ERROR_CODES.NOT_FOUND };
+  }
+}
+
+// Export as singleton
+export const catalogService = new CatalogService();
+export default catalogService;
@@ -0,0 +1,42 @@
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { metricsService } from './metrics.service';
+import { RuleTurnClassifier } from './classifiers/rule-classifier';
+import { LlmTurnClassifier } from './classifiers/llm-classifier';
+import { TurnClassification, TurnClassifier } from '../types/classification';
+
+class ClassificationService {
+  private readonly rules = new RuleTurnClassifier();
+  private readonly classifier: TurnClassifier;
+
+  constructor() {
+    this.classifier = config.classification.classifier === 'llm'
+      ? new LlmTurnClassifier()
+      : this.rules;
+  }
+
+  // Tag a user turn with intent, sentiment and urgency. Falls back to the
+  // keyword rules when the configured classifier fails.
+  async classifyTurn(sessionId: string, message: string): Promise<TurnClassification> {
+    const session = await conversationStore.getSession(sessionId);
+    const lastAssistantMessage = session?.messages
+      .filter((msg) => msg.role === 'assistant' && msg.content)
+      .pop()?.content;
+
+    let classification: TurnClassification;
+    try {
+      classification = await this.classifier.classify({ message, lastAssistantMessage });
+    } catch (error) {
+      if (this.classifier === this.rules) throw error;
+      console.error(`Classifier "${this.classifier.name}" failed, using rules:`, error);
+      classification = await this.rules.classify({ message, lastAssistantMessage });
+    }
+
+    metricsService.recordClassification(classification);
+    return classification;
+  }
+}
+
+// Export as singleton
+export const classificationService = new ClassificationService();
+export default classificationService;
@@ -0,0 +1,73 @@
+import config from '../../config/config';
+import { llmProvider } from '../llm.service';
+import {
+  ClassificationInput,
+  INTENTS,
+  SENTIMENTS,
+  TurnClassification,
+  TurnClassifier,
+  URGENCIES,
+} from '../../types/classification';
+
+const CLASSIFICATION_PROMPT = `You classify a customer's message in a sales chat.
+Return only a JSON object with:
+intent: one of ${INTENTS.join(', ')}
+sentiment: one of ${SENTIMENTS.join(', ')}
+urgency: one of ${URGENCIES.join(', ')}
+confidence: number between 0 and 1 for the intent`;
+
+// Classifies with the configured LLM provider; understands indirect phrasing
+// and other languages the keyword rules miss
+export class LlmTurnClassifier implements TurnClassifier {
+  readonly name = 'llm' as const;
+
+  async classify({ message, lastAssistantMessage }: ClassificationInput): Promise<TurnClassification> {
+    const stream = llmProvider.streamCompletion({
+      model: config.llm.model,
+      temperature: 0,
+      max_tokens: 60,
+      presence_penalty: 0,
+      frequency_penalty: 0,
+      messages: [
+        { role: 'system', content: CLASSIFICATION_PROMPT },
+        {
+          role: 'user',
+          content: [
+            lastAssistantMessage ? `Agent's previous message: ${lastAssistantMessage}` : '',
+            `Customer message: ${message}`,
+          ].filter(Boolean).join('\n'),
+        },
+      ],
+    });
+
+    let output = '';
+    for await (const chunk of stream) {
+      output += chunk.content;
+    }
+    return this.parseClassification(output);
+  }
+
+  private parseClassification(output: string): TurnClassification {
+    const json = output.match(/\{[\s\S]*\}/);
+    const parsed = json ? JSON.parse(json[0]) : {};
+
+    if (!INTENTS.includes(parsed.intent) ||
+        !SENTIMENTS.includes(parsed.sentiment) ||
+        !URGENCIES.includes(parsed.urgency)) {
+      throw new Error(`Classifier returned an invalid result: ${output}`);
+    }
+
+    const confidence = typeof parsed.confidence === 'number' && Number.isFinite(parsed.confidence)
+      ? Math.min(1, Math.max(0, parsed.confidence))
+      : 0.5;
+    return {
+      intent: parsed.intent,
+      sentiment: parsed.sentiment,
+      urgency: parsed.urgency,
+      confidence,
+      classifier: this.name,
+    };
+  }
+}
+
+export default LlmTurnClassifier;
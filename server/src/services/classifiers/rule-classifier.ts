@@ -0,0 +1,111 @@
+import {
+  ClassificationInput,
+  Intent,
+  Sentiment,
+  TurnClassification,
+  TurnClassifier,
+  Urgency,
+} from '../../types/classification';
+
+// Keyword patterns per intent; each match adds one point
+const INTENT_PATTERNS: Record<Exclude<Intent, 'other'>, RegExp[]> = {
+  pricing_question: [
+    /\b(?:price|prices|pricing|cost|costs|how much|quote|discount|cheaper|fee|fees|rate|rates)\b/i,
+    /\b(?:per (?:month|year|user|seat)|subscription|plan|plans|payment)\b/i,
+    /[$€£]\s?\d/,
+  ],
+  objection: [
+    /\b(?:too (?:expensive|pricey|much|slow|complicated)|can't afford|cannot afford|over (?:our|my) budget)\b/i,
+    /\b(?:not (?:sure|convinced|interested)|don't (?:need|think|see)|doesn't (?:work|fit)|no thanks)\b/i,
+    /\b(?:competitor|cheaper elsewhere|already (?:have|use)|concerned|worried|hesitant)\b/i,
+  ],
+  purchase_intent: [
+    /\b(?:buy|purchase|order|sign up|subscribe|get started|check ?out|add to cart)\b/i,
+    /\b(?:i'll take|we'll take|ready to|let's do it|send (?:me )?(?:the|an) (?:invoice|contract))\b/i,
+    /\b(?:how do i (?:pay|order)|where do i sign|book a demo|schedule a demo)\b/i,
+  ],
+  support_request: [
+    /\b(?:not working|doesn't work|broken|error|bug|issue|problem|crash(?:es|ed)?|fails?|failed)\b/i,
+    /\b(?:help me|how do i (?:fix|reset|install|set up|configure)|can't (?:log ?in|access|connect))\b/i,
+    /\b(?:refund|return|warranty|replacement|my order|tracking|delivery)\b/i,
+  ],
+  product_question: [
+    /\b(?:does it|can it|is it|do you (?:have|offer|support)|feature|features|spec|specs)\b/i,
+    /\b(?:compatible|integrat(?:e|es|ion)|difference between|compare|comparison|which (?:one|model))\b/i,
+  ],
+  small_talk: [
+    /^\s*(?:hi|hello|hey|good (?:morning|afternoon|evening)|thanks|thank you|bye|goodbye)\b(?:\s+\w+){0,2}[\s!.,]*$/i,
+    /\b(?:how are you|what's up|nice to meet you|have a (?:good|nice|great) day)\b/i,
+  ],
+};
+
+// Ties are broken in this order; buying signals matter most downstream
+const INTENT_PRIORITY: Intent[] = [
+  'purchase_intent',
+  'objection',
+  'support_request',
+  'pricing_question',
+  'product_question',
+  'small_talk',
+];
+
+const POSITIVE_WORDS = /\b(?:great|good|love|like|awesome|perfect|excellent|amazing|thanks|thank you|helpful|happy|nice|interested|excited)\b/gi;
+const NEGATIVE_WORDS = /\b(?:bad|terrible|awful|hate|angry|annoyed|frustrat\w*|disappoint\w*|useless|worst|ridiculous|unacceptable|upset|broken|problem|not happy|too expensive)\b/gi;
+
+const HIGH_URGENCY = /\b(?:urgent|urgently|asap|immediately|right now|emergency|critical|today|down|outage)\b|!{2,}/i;
+const MEDIUM_URGENCY = /\b(?:soon|this week|tomorrow|quickly|deadline|waiting|still)\b/i;
+
+// Offline keyword classifier
+export class RuleTurnClassifier implements TurnClassifier {
+  readonly name = 'rules' as const;
+
+  async classify({ message }: ClassificationInput): Promise<TurnClassification> {
+    const { intent, confidence } = this.classifyIntent(message);
+    const sentiment = this.classifySentiment(message);
+    return {
+      intent,
+      sentiment,
+      urgency: this.classifyUrgency(message, sentiment),
+      confidence,
+      classifier: this.name,
+    };
+  }
+
+  private classifyIntent(message: string): { intent: Intent; confidence: number } {
+    let best: Intent = 'other';
+    let bestScore = 0;
+    let total = 0;
+
+    for (const intent of INTENT_PRIORITY) {
+      const score = INTENT_PATTERNS[intent as Exclude<Intent, 'other'>]
+        .filter((pattern) => pattern.test(message)).length;
+      total += score;
+      if (score > bestScore) {
+        best = intent;
+        bestScore = score;
+      }
+    }
+
+    if (bestScore === 0) {
+      return { intent: 'other', confidence: 0.3 };
+    }
+    // Share of matches that point to the winning intent
+    return { intent: best, confidence: Math.round((bestScore / total) * 100) / 100 };
+  }
+
+  private classifySentiment(message: string): Sentiment {
+    const positive = message.match(POSITIVE_WORDS)?.length || 0;
+    const negative = message.match(NEGATIVE_WORDS)?.length || 0;
+    if (negative > positive) return 'negative';
+    if (positive > negative) return 'positive';
+    return 'neutral';
+  }
+
+  private classifyUrgency(message: string, sentiment: Sentiment): Urgency {
+    if (HIGH_URGENCY.test(message)) return 'high';
+    if (MEDIUM_URGENCY.test(message) || sentiment === 'negative') return 'medium';
+    return 'low';
+  }
+}
+
+export default RuleTurnClassifier;
@@ -1,11 +1,20 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { redisService } from './redis.service';
+import { conversationStore } from './store.service';
+import { tenantService } from './tenant.service';
+import { currentTenantId, DEFAULT_TENANT_ID } from '../utils/tenant';
 import { REDIS_KEYS } from '../types/chat';
 
+// Entry of the audio file registry, which is shared by all tenants
+export interface AudioFileInfo {
+  path: string;
+  created: number;
+  tenantId?: string;   // Tenant whose retention applies; the default tenant when unset
+  sessionId?: string;  // Session the audio was spoken in, for erasure
+}
+
 class CleanupService {
   private readonly audioDir: string;
-  private readonly maxAgeMs: number = 1000 * 60 * 60; // 1 hour
   private readonly cleanupInterval: number = 1000 * 60 * 15; // 15 minutes
   private cleanupTimer: NodeJS.Timeout | null = null;
 
@@ -20,6 +29,20 @@ class CleanupService {
     }
   }
 
+  // Directory a tenant's audio is saved in, created on first use
+  tenantAudioDir(tenantId: string = currentTenantId()): string {
+    const dir = path.join(this.audioDir, tenantId);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    return dir;
+  }
+
+  // Registry entry of a tracked audio file, by file name
+  async getAudioFile(filename: string): Promise<AudioFileInfo | null> {
+    return conversationStore.get(`${REDIS_KEYS.AUDIO_PREFIX}${path.basename(filename)}`);
+  }
+
   // Start the cleanup scheduler
   start(): void {
     if (this.cleanupTimer) {
@@ -38,35 +61,60 @@ class CleanupService {
     console.log('Audio cleanup service stopped');
   }
 
-  // Track a new audio file in Redis
-  async trackAudioFile(filepath: string): Promise<void> {
+  // Track a new audio file in the store, with the tenant and session it belongs to
+  async trackAudioFile(filepath: string, sessionId?: string): Promise<void> {
     try {
       const key = `${REDIS_KEYS.AUDIO_PREFIX}${path.basename(filepath)}`;
-      await redisService.set(key, {
+      const fileInfo: AudioFileInfo = {
         path: filepath,
-        created: Date.now()
-      });
+        created: Date.now(),
+        tenantId: currentTenantId(),
+        ...(sessionId ? { sessionId } : {})
+      };
+      await conversationStore.set(key, fileInfo);
       console.log(`Tracked audio file: ${filepath}`);
     } catch (error) {
       console.error('Failed to track audio file:', error);
     }
   }
 
-  // Clean up a specific audio file
-  async cleanupFile(filepath: string): Promise<void> {
+  // Clean up a specific audio file; returns whether the file existed
+  async cleanupFile(filepath: string): Promise<boolean> {
+    let deleted = false;
     try {
       if (fs.existsSync(filepath)) {
         await fs.promises.unlink(filepath);
+        deleted = true;
         console.log(`Cleaned up audio file: ${filepath}`);
       }
 
-      // Remove from Redis regardless of file existence
+      // Remove from the store regardless of file existence
       const key = `${REDIS_KEYS.AUDIO_PREFIX}${path.basename(filepath)}`;
-      await redisService.del(key);
+      await conversationStore.del(key);
     } catch (error) {
       console.error(`Failed to cleanup audio file ${filepath}:`, error);
       // Don't throw - we want to continue with other files even if one fails
     }
+    return deleted;
+  }
+
+  // Delete the audio files of a session; returns how many files were deleted
+  async cleanupSession(sessionId: string, tenantId: string = currentTenantId()): Promise<number> {
+    let removed = 0;
+    for (const key of await conversationStore.scan(`${REDIS_KEYS.AUDIO_PREFIX}*`)) {
+      const fileInfo: AudioFileInfo | null = await conversationStore.get(key);
+      if (fileInfo?.sessionId === sessionId && (fileInfo.tenantId || DEFAULT_TENANT_ID) === tenantId) {
+        if (await this.cleanupFile(fileInfo.path)) {
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+
+  // Milliseconds a tenant keeps audio; 0 keeps it until erased
+  private maxAgeMs(tenantId: string = DEFAULT_TENANT_ID): number {
+    return tenantService.retentionSeconds('audio', tenantId) * 1000;
   }
 
   // Main cleanup function
@@ -75,36 +123,37 @@ class CleanupService {
       console.log('Starting audio file cleanup...');
       const now = Date.now();
 
-      // Get all audio files from Redis
+      // Get all audio files from the store
       const pattern = `${REDIS_KEYS.AUDIO_PREFIX}*`;
-      const keys = await redisService.keys(pattern);
+      const keys = await conversationStore.scan(pattern);
       
       for (const key of keys) {
         try {
-          const fileInfo = await redisService.get(key);
+          const fileInfo: AudioFileInfo | null = await conversationStore.get(key);
           if (!fileInfo) continue;
 
-          // Check if file is old enough to delete
-          if (now - fileInfo.created > this.maxAgeMs) {
+          // Check if file is old enough to delete under its tenant's retention
+          const maxAgeMs = this.maxAgeMs(fileInfo.tenantId);
+          if (maxAgeMs > 0 && now - fileInfo.created > maxAgeMs) {
             await this.cleanupFile(fileInfo.path);
           }
         } catch (error) {
-          console.error(`Error processing Redis key ${key}:`, error);
+          console.error(`Error processing store key ${key}:`, error);
         }
       }
 
       // Cleanup any orphaned files in the audio directory
-      const files = await fs.promises.readdir(this.audioDir);
-      for (const file of files) {
-        const filepath = path.join(this.audioDir, file);
-        const key = `${REDIS_KEYS.AUDIO_PREFIX}${file}`;
+      for (const { filepath, tenantId } of await this.listAudioFiles()) {
+        const key = `${REDIS_KEYS.AUDIO_PREFIX}${path.basename(filepath)}`;
 
         try {
           const stats = await fs.promises.stat(filepath);
           const age = now - stats.mtimeMs;
 
-          // If file is old and not in Redis, delete it
-          if (age > this.maxAgeMs && !(await redisService.exists(key))) {
+          // If file is old and not in the store, delete it under the
+          // retention of the tenant directory it is in
+          const maxAgeMs = this.maxAgeMs(tenantId);
+          if (maxAgeMs > 0 && age > maxAgeMs && !(await conversationStore.exists(key))) {
             await fs.promises.unlink(filepath);
             console.log(`Cleaned up orphaned audio file: ${filepath}`);
           }
@@ -119,6 +168,23 @@ class CleanupService {
     }
   }
 
+  // Files in the tenants' directories; files directly in the audio directory
+  // were saved before audio was kept per tenant and count as the default tenant's
+  private async listAudioFiles(): Promise<{ filepath: string; tenantId: string }[]> {
+    const files: { filepath: string; tenantId: string }[] = [];
+    for (const entry of await fs.promises.readdir(this.audioDir, { withFileTypes: true })) {
+      const entryPath = path.join(this.audioDir, entry.name);
+      if (entry.isDirectory()) {
+        for (const file of await fs.promises.readdir(entryPath)) {
+          files.push({ filepath: path.join(entryPath, file), tenantId: entry.name });
+        }
+      } else {
+        files.push({ filepath: entryPath, tenantId: DEFAULT_TENANT_ID });
+      }
+    }
+    return files;
+  }
+
   // Force immediate cleanup
   async forceCleanup(): Promise<void> {
     await this.cleanup();
@@ -0,0 +1,138 @@
+import { v4 as uuidv4 } from 'uuid';
+import { conversationStore } from './store.service';
+import { tenantService } from './tenant.service';
+import { tenantKey } from '../utils/tenant';
+import { ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import { AgentIdentity } from '../types/handoff';
+import { Whisper } from '../types/coaching';
+
+const MAX_WHISPER_LENGTH = 500;
+
+type WhispersListener = (sessionId: string, whispers: Whisper[]) => void;
+
+// Stored when a whisper is added to the prompt of a reply
+interface WhisperDelivery {
+  id: string;
+  deliveredAt: number;
+  responseId: string;
+}
+
+// Supervisor "whispers": guidance the AI follows in its next reply without the
+// customer seeing it. Whispers and their deliveries are appended to two lists,
+// so a whisper sent while a reply is being built is never overwritten and
+// every whisper stays in the session's log for auditing.
+class CoachingService {
+  private readonly listeners: WhispersListener[] = [];
+
+  private whisperKey(sessionId: string): string {
+    return tenantKey(`${REDIS_KEYS.WHISPER_PREFIX}${sessionId}`);
+  }
+
+  private deliveryKey(sessionId: string): string {
+    return tenantKey(`${REDIS_KEYS.WHISPER_DELIVERY_PREFIX}${sessionId}`);
+  }
+
+  // Called with the session's whisper log whenever a whisper is added or delivered
+  onWhispersChanged(listener: WhispersListener): void {
+    this.listeners.push(listener);
+  }
+
+  async getWhispers(sessionId: string): Promise<Whisper[]> {
+    const [whispers, deliveries] = await Promise.all([
+      conversationStore.lRange(this.whisperKey(sessionId)),
+      conversationStore.lRange(this.deliveryKey(sessionId)),
+    ]);
+    const delivered = new Map<string, WhisperDelivery>(
+      deliveries.map((entry): [string, WhisperDelivery] => {
+        const delivery: WhisperDelivery = JSON.parse(entry);
+        return [delivery.id, delivery];
+      })
+    );
+    return whispers.map((entry) => {
+      const whisper: Whisper = JSON.parse(entry);
+      const delivery = delivered.get(whisper.id);
+      return delivery ? { ...whisper, deliveredAt: delivery.deliveredAt, responseId: delivery.responseId } : whisper;
+    });
+  }
+
+  // Drop a session's whisper log; returns how many whispers it had
+  async deleteWhispers(sessionId: string): Promise<number> {
+    const whispers = await conversationStore.lRange(this.whisperKey(sessionId));
+    await conversationStore.del(this.whisperKey(sessionId));
+    await conversationStore.del(this.deliveryKey(sessionId));
+    return whispers.length;
+  }
+
+  async whisper(sessionId: string, supervisor: AgentIdentity, text: unknown): Promise<Whisper> {
+    if (supervisor.role !== 'supervisor') {
+      throw { error: 'Only supervisors can whisper to the AI', code: ERROR_CODES.UNAUTHORIZED } as ErrorResponse;
+    }
+    const guidance = typeof text === 'string' ? text.trim() : '';
+    if (!guidance || guidance.length > MAX_WHISPER_LENGTH) {
+      throw {
+        error: `Whisper text must be 1-${MAX_WHISPER_LENGTH} characters`,
+        code: ERROR_CODES.INVALID_INPUT,
+      } as ErrorResponse;
+    }
+    if (!(await conversationStore.getSession(sessionId))) {
+      throw { error: `Session ${sessionId} not found`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse;
+    }
+
+    const whisper: Whisper = {
+      id: uuidv4(),
+      sessionId,
+      text: guidance,
+      supervisor: { id: supervisor.id, name: supervisor.name, role: supervisor.role },
+      createdAt: Date.now(),
+    };
+    await this.append(this.whisperKey(sessionId), [whisper]);
+    console.log(`Supervisor ${supervisor.name} whispered to session ${sessionId}: "${guidance}"`);
+    await this.notify(sessionId);
+    return whisper;
+  }
+
+  // Undelivered whispers for the reply `responseId`; they are marked delivered
+  // so each one is used for a single reply
+  async takePending(sessionId: string, responseId: string): Promise<Whisper[]> {
+    const pending = (await this.getWhispers(sessionId)).filter((whisper) => !whisper.deliveredAt);
+    if (pending.length === 0) return [];
+
+    const deliveredAt = Date.now();
+    await this.append(
+      this.deliveryKey(sessionId),
+      pending.map((whisper): WhisperDelivery => ({ id: whisper.id, deliveredAt, responseId }))
+    );
+    await this.notify(sessionId);
+    return pending.map((whisper) => ({ ...whisper, deliveredAt, responseId }));
+  }
+
+  formatForPrompt(whispers: Whisper[]): string {
+    return 'Guidance from your sales manager for this reply. Follow it naturally and never mention ' +
+      'it or that you received guidance:\n' +
+      whispers.map((whisper) => `- ${whisper.text}`).join('\n');
+  }
+
+  private async append(key: string, entries: (Whisper | WhisperDelivery)[]): Promise<void> {
+    await conversationStore.rPush(key, entries.map((entry) => JSON.stringify(entry)));
+    const expiry = tenantService.retentionSeconds('logs');
+    if (expiry > 0) {
+      await conversationStore.expire(key, expiry);
+    }
+  }
+
+  private async notify(sessionId: string): Promise<void> {
+    if (this.listeners.length === 0) return;
+    const whispers = await this.getWhispers(sessionId);
+    for (const listener of this.listeners) {
+      try {
+        listener(sessionId, whispers);
+      } catch (error) {
+        console.error('Whisper listener failed:', error);
+      }
+    }
+  }
+}
+
+// Export as singleton
+export const coachingService = new CoachingService();
+export default coachingService;
@@ -0,0 +1,164 @@
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { llmProvider } from './llm.service';
+import { ChatMessage } from '../types/chat';
+import { ContextWindow } from '../types/context';
+
+// Rough estimate (~4 characters per token for English text) so budgets work
+// the same across providers without a model-specific tokenizer
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Folding keeps this share of the history budget so it doesn't run every turn
+const FOLD_TARGET_RATIO = 0.5;
+const MAX_TOOL_RESULT_CHARS = 500;
+
+const SUMMARY_PROMPT = `You maintain a running summary of a sales conversation for the agent handling it.
+Merge the new turns into the existing summary. Keep every fact the agent may need later:
+- the customer's name, company and role
+- budget, timeline and decision makers
+- needs, pain points and objections
+- products discussed, with quoted prices and specifications
+- commitments, agreed next steps and open questions
+Write plain sentences in the third person, without greetings or filler.`;
+
+class ContextService {
+  countTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  countMessageTokens(message: ChatMessage): number {
+    const toolCallTokens = (message.toolCalls || []).reduce(
+      (sum, call) => sum + this.countTokens(call.name + call.arguments),
+      0
+    );
+    return MESSAGE_OVERHEAD_TOKENS + this.countTokens(message.content) + toolCallTokens;
+  }
+
+  // Select the history for a turn: the rolling summary plus as many recent
+  // turns as fit `availableTokens`, folding older turns into the summary once
+  // the history outgrows its budget
+  async buildContext(
+    sessionId: string,
+    userMessage: string,
+    availableTokens: number
+  ): Promise<ContextWindow> {
+    const session = await conversationStore.getSession(sessionId);
+    if (!session) {
+      return { summary: '', messages: [], tokens: 0 };
+    }
+
+    const cursor = session.summarizedThroughId
+      ? session.messages.findIndex((msg) => msg.id === session.summarizedThroughId)
+      : -1;
+    let summary = session.context || '';
+    let messages = this.withoutPendingMessage(session.messages.slice(cursor + 1), userMessage);
+
+    const budget = Math.max(0, Math.min(config.context.historyTokens, availableTokens));
+    if (this.countTokens(summary) + this.sumTokens(messages) > budget) {
+      const split = this.findFoldPoint(messages, budget * FOLD_TARGET_RATIO);
+      if (split > 0) {
+        const folded = messages.slice(0, split);
+        messages = messages.slice(split);
+        try {
+          summary = await this.summarize(summary, folded);
+          await conversationStore.updateSession(sessionId, {
+            context: summary,
+            summarizedThroughId: folded[folded.length - 1].id,
+          });
+        } catch (error) {
+          // Keep the old summary; the folded turns are retried next turn
+          console.error('Failed to update conversation summary:', error);
+        }
+      }
+    }
+
+    // Hard limit for when the summary is large or summarizing failed
+    while (messages.length > 1 && this.countTokens(summary) + this.sumTokens(messages) > availableTokens) {
+      messages = messages.slice(1);
+    }
+
+    return {
+      summary,
+      messages,
+      tokens: this.countTokens(summary) + this.sumTokens(messages),
+    };
+  }
+
+  // The user message being answered is already stored but is sent separately
+  private withoutPendingMessage(messages: ChatMessage[], userMessage: string): ChatMessage[] {
+    const last = messages[messages.length - 1];
+    if (last && last.role === 'user' && last.content === userMessage) {
+      return messages.slice(0, -1);
+    }
+    return messages;
+  }
+
+  // Index of the earliest user turn from which the rest fits `targetTokens`.
+  // Turns are only split at user messages so tool calls stay with their results.
+  private findFoldPoint(messages: ChatMessage[], targetTokens: number): number {
+    let keptTokens = 0;
+    let split = -1;
+
+    for (let i = messages.length - 1; i > 0; i--) {
+      keptTokens += this.countMessageTokens(messages[i]);
+      if (messages[i].role !== 'user') continue;
+      if (keptTokens > targetTokens && split !== -1) break;
+      split = i;
+    }
+
+    return Math.max(split, 0);
+  }
+
+  private async summarize(previousSummary: string, messages: ChatMessage[]): Promise<string> {
+    const maxWords = Math.floor(config.context.summaryTokens * 0.75);
+    const stream = llmProvider.streamCompletion({
+      model: config.llm.model,
+      temperature: 0.2,
+      max_tokens: config.context.summaryTokens,
+      presence_penalty: 0,
+      frequency_penalty: 0,
+      messages: [
+        { role: 'system', content: `${SUMMARY_PROMPT}\nUse at most ${maxWords} words.` },
+        {
+          role: 'user',
+          content: `Current summary:\n${previousSummary || '(none)'}\n\n` +
+            `New conversation turns:\n${this.formatTranscript(messages)}`,
+        },
+      ],
+    });
+
+    let summary = '';
+    for await (const chunk of stream) {
+      summary += chunk.content;
+    }
+    summary = summary.trim();
+    if (!summary) {
+      throw new Error('Summary model returned no content');
+    }
+    return summary;
+  }
+
+  private formatTranscript(messages: ChatMessage[]): string {
+    return messages
+      .map((msg) => {
+        if (msg.role === 'tool') {
+          const result = msg.content.length > MAX_TOOL_RESULT_CHARS
+            ? `${msg.content.slice(0, MAX_TOOL_RESULT_CHARS)}...`
+            : msg.content;
+          return `Tool ${msg.name || 'result'}: ${result}`;
+        }
+        if (msg.role === 'assistant' && !msg.content) return null;
+        return `${msg.role === 'user' ? 'Customer' : 'Agent'}: ${msg.content}`;
+      })
+      .filter((line): line is string => line !== null)
+      .join('\n');
+  }
+
+  private sumTokens(messages: ChatMessage[]): number {
+    return messages.reduce((sum, msg) => sum + this.countMessageTokens(msg), 0);
+  }
+}
+
+// Export as singleton
+export const contextService = new ContextService();
+export default contextService;
@@ -0,0 +1,286 @@
+import { conversationStore } from './store.service';
+import { tenantKey } from '../utils/tenant';
+import { toCsv } from '../utils/csv';
+import { createZip } from '../utils/zip';
+import { ChatMessage, ChatSession, ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import {
+  Cue,
+  CustomerTranscript,
+  EXPORT_FORMATS,
+  ExportAudience,
+  ExportFile,
+  ExportFormat,
+  ExportRange,
+} from '../types/export';
+
+const MAX_ARCHIVE_SESSIONS = 1000;
+// Messages without recorded audio are shown for about as long as reading them takes
+const READING_MS_PER_CHAR = 60;
+const MIN_CUE_MS = 1000;
+const MAX_CUE_MS = 8000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+};
+
+const CSV_COLUMNS = [
+  'message_id',
+  'timestamp',
+  'role',
+  'speaker',
+  'content',
+  'interrupted',
+  'intent',
+  'sentiment',
+  'urgency',
+  'policy_violations',
+  'audio_start',
+  'audio_ms',
+];
+const CUSTOMER_CSV_COLUMNS = ['message_id', 'timestamp', 'role', 'speaker', 'content', 'interrupted'];
+
+// Renders stored conversations for use outside the system: the full session
+// as JSON, a readable Markdown transcript, one CSV row per message, and
+// WebVTT/SRT captions timed by the audio each reply was spoken with. Customer
+// exports hold only who said what and when, never the classification, policy,
+// fact-check, generation, sales-stage or summary data of the session.
+class ExportService {
+  parseFormat(value: unknown): ExportFormat {
+    const format = value === undefined ? 'json' : value;
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw {
+        error: `Unknown export format: ${format}. Expected one of: ${EXPORT_FORMATS.join(', ')}`,
+        code: ERROR_CODES.INVALID_INPUT,
+      } as ErrorResponse;
+    }
+    return format as ExportFormat;
+  }
+
+  async exportSession(sessionId: string, format: ExportFormat, audience: ExportAudience = 'staff'): Promise<ExportFile> {
+    const session = await conversationStore.getSession(sessionId);
+    if (!session) {
+      throw { error: `Session ${sessionId} not found`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse;
+    }
+    return {
+      filename: `session-${sessionId}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      content: this.render(session, format, audience),
+    };
+  }
+
+  // Zip with one file per session of the current tenant active in the range
+  async exportRange(range: ExportRange, format: ExportFormat): Promise<ExportFile> {
+    const sessionIds = await conversationStore.zRangeByScore(tenantKey(REDIS_KEYS.SESSION_INDEX), range.from, range.to);
+    if (sessionIds.length > MAX_ARCHIVE_SESSIONS) {
+      throw {
+        error: `${sessionIds.length} sessions match; narrow the range to at most ${MAX_ARCHIVE_SESSIONS}`,
+        code: ERROR_CODES.INVALID_INPUT,
+      } as ErrorResponse;
+    }
+
+    // Read one at a time to keep a large range from flooding the store
+    const entries = [];
+    for (const sessionId of sessionIds) {
+      const session = await conversationStore.getSession(sessionId);
+      if (!session) continue;
+      entries.push({
+        name: `session-${sessionId}.${format}`,
+        content: this.render(session, format),
+        modifiedAt: session.lastActivity,
+      });
+    }
+
+    return {
+      filename: `sessions-${this.day(range.from) || 'start'}-to-${this.day(range.to) || 'now'}.zip`,
+      contentType: 'application/zip',
+      content: createZip(entries),
+    };
+  }
+
+  render(session: ChatSession, format: ExportFormat, audience: ExportAudience = 'staff'): string {
+    if (audience === 'customer') {
+      session = this.customerView(session);
+    }
+    switch (format) {
+      case 'json':
+        return JSON.stringify(audience === 'customer' ? this.customerTranscript(session) : session, null, 2);
+      case 'md':
+        return this.toMarkdown(session);
+      case 'csv':
+        return this.toCsv(session, audience === 'customer' ? CUSTOMER_CSV_COLUMNS : CSV_COLUMNS);
+      case 'vtt':
+        return this.toWebVtt(session);
+      case 'srt':
+        return this.toSrt(session);
+    }
+  }
+
+  private toMarkdown(session: ChatSession): string {
+    const messages = this.transcript(session);
+    const details = [
+      messages.length > 0 ? `- Started: ${this.iso(messages[0].timestamp)}` : null,
+      `- Last activity: ${this.iso(session.lastActivity)}`,
+      session.personaId ? `- Persona: ${session.personaId}` : null,
+      session.salesStage ? `- Sales stage: ${session.salesStage.stage}` : null,
+      `- Messages: ${messages.length}`,
+    ].filter((line): line is string => line !== null);
+
+    const turns = messages.map((message) => {
+      const notes = message.interrupted ? ' _(interrupted)_' : '';
+      return `**${this.speaker(message)}** · ${this.iso(message.timestamp)}${notes}\n\n${message.content.trim()}`;
+    });
+
+    return [`# Conversation ${session.id}`, details.join('\n'), '## Transcript', ...turns].join('\n\n') + '\n';
+  }
+
+  private toCsv(session: ChatSession, columns: string[]): string {
+    return toCsv(columns, this.transcript(session).map((message) => ({
+      message_id: message.id,
+      timestamp: this.iso(message.timestamp),
+      role: message.role,
+      speaker: this.speaker(message),
+      content: message.content,
+      interrupted: message.interrupted ? 'true' : '',
+      intent: message.classification?.intent,
+      sentiment: message.classification?.sentiment,
+      urgency: message.classification?.urgency,
+      policy_violations: message.policyViolations?.join('; '),
+      audio_start: message.speech?.length ? this.iso(message.speech[0].startedAt) : '',
+      audio_ms: message.speech?.length
+        ? message.speech.reduce((total, chunk) => total + chunk.durationMs, 0)
+        : '',
+    })));
+  }
+
+  private toWebVtt(session: ChatSession): string {
+    const cues = this.cues(session).map((cue) =>
+      `${this.timecode(cue.start, '.')} --> ${this.timecode(cue.end, '.')}\n<v ${this.escapeVtt(cue.speaker)}>${this.escapeVtt(cue.text)}`
+    );
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+  }
+
+  private toSrt(session: ChatSession): string {
+    return this.cues(session)
+      .map((cue, index) =>
+        `${index + 1}\n${this.timecode(cue.start, ',')} --> ${this.timecode(cue.end, ',')}\n${cue.speaker}: ${cue.text}\n`
+      )
+      .join('\n');
+  }
+
+  // Spoken replies get a cue per synthesized sentence at its playback time.
+  // Other messages start at their timestamp and last until the next cue or
+  // their estimated reading time, whichever is shorter.
+  private cues(session: ChatSession): Cue[] {
+    const messages = this.transcript(session);
+    if (messages.length === 0) return [];
+    const origin = Math.min(
+      messages[0].timestamp,
+      ...messages.flatMap((message) => (message.speech || []).map((chunk) => chunk.startedAt))
+    );
+
+    const cues: Cue[] = messages.flatMap((message) => {
+      const speaker = this.speaker(message);
+      if (message.speech?.length) {
+        return message.speech.map((chunk) => ({
+          start: chunk.startedAt - origin,
+          end: chunk.startedAt - origin + chunk.durationMs,
+          speaker,
+          text: this.singleParagraph(chunk.text),
+        }));
+      }
+      const reading = message.content.length * READING_MS_PER_CHAR;
+      return [{
+        start: message.timestamp - origin,
+        end: message.timestamp - origin + Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, reading)),
+        speaker,
+        text: this.singleParagraph(message.content),
+      }];
+    });
+
+    cues.sort((a, b) => a.start - b.start);
+    cues.forEach((cue, index) => {
+      const next = cues[index + 1];
+      if (next && next.start > cue.start && next.start < cue.end) {
+        cue.end = next.start;
+      }
+    });
+    return cues;
+  }
+
+  // The session without its internal data: the text, time, speaker and audio
+  // timing of the customer and assistant messages
+  private customerView(session: ChatSession): ChatSession {
+    return {
+      id: session.id,
+      context: '',
+      lastActivity: session.lastActivity,
+      messages: this.transcript(session).map(({ id, role, content, timestamp, interrupted, speech, agent }) => ({
+        id,
+        role,
+        content,
+        timestamp,
+        ...(interrupted ? { interrupted } : {}),
+        ...(speech ? { speech } : {}),
+        ...(agent ? { agent } : {}),
+      })),
+    };
+  }
+
+  private customerTranscript(session: ChatSession): CustomerTranscript {
+    return {
+      id: session.id,
+      messages: session.messages.map((message) => ({
+        id: message.id,
+        role: message.role,
+        speaker: this.speaker(message),
+        content: message.content,
+        timestamp: message.timestamp,
+      })),
+    };
+  }
+
+  // Customer and assistant messages with text, in order
+  private transcript(session: ChatSession): ChatMessage[] {
+    return session.messages.filter((message) => message.role !== 'tool' && message.content);
+  }
+
+  private speaker(message: ChatMessage): string {
+    if (message.role === 'user') return 'Customer';
+    return message.agent ? message.agent.name : 'Assistant';
+  }
+
+  // A blank line ends a caption, so paragraphs are joined into lines
+  private singleParagraph(text: string): string {
+    return text.trim().replace(/\n\s*\n/g, '\n');
+  }
+
+  private escapeVtt(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  // HH:MM:SS.mmm (WebVTT) or HH:MM:SS,mmm (SRT)
+  private timecode(ms: number, separator: '.' | ','): string {
+    const total = Math.max(0, Math.round(ms));
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor(total / 60000) % 60;
+    const seconds = Math.floor(total / 1000) % 60;
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+  }
+
+  private iso(time: number): string {
+    return new Date(time).toISOString();
+  }
+
+  private day(time: number | undefined): string | undefined {
+    return time === undefined ? undefined : this.iso(time).slice(0, 10);
+  }
+}
+
+// Export as singleton
+export const exportService = new ExportService();
+export default exportService;
@@ -0,0 +1,262 @@
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { catalogService } from './catalog.service';
+import { findSentenceEnd } from '../utils/sentences';
+import { currentTenantId } from '../utils/tenant';
+import { Product } from '../types/catalog';
+import { FactCorrection } from '../types/fact-check';
+
+const MAX_PENDING_LENGTH = 300;
+// Catalog snapshot reused across turns until the catalog changes
+const CATALOG_CACHE_MS = 30 * 1000;
+
+const CURRENCY_SYMBOLS: Record<string, string> = { USD: '$', EUR: '€', GBP: '£' };
+const CURRENCY_WORDS: Record<string, string> = {
+  dollars: 'USD', usd: 'USD', euros: 'EUR', euro: 'EUR', eur: 'EUR', pounds: 'GBP', gbp: 'GBP',
+};
+const AMOUNT = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d{1,2})?|\\d+(?:\\.\\d{1,2})?)';
+const PRICE_PATTERN = new RegExp(
+  `([$€£])\\s?${AMOUNT}|${AMOUNT}\\s?(dollars|usd|euros?|eur|pounds|gbp)\\b`,
+  'gi'
+);
+const DISCOUNT_WORDS = /\b(?:discount|off|sale|promo|promotion|coupon|save|deal)\b/i;
+const QUANTITY_PATTERN = /\b(\d+)\s?(?:x|units?|pcs|pieces|items|of them)\b/i;
+const STOCK_COUNT_PATTERN = /\b(\d+)\s+(?:units?\s+|pieces\s+|items\s+)?(?:left|in stock|available)\b/gi;
+const IN_STOCK_PATTERN = /\b(?:in stock|available (?:now|today|right away)|ready to ship)\b/gi;
+const OUT_OF_STOCK_PATTERN = /\b(?:out of stock|sold out|currently unavailable)\b/gi;
+
+interface ProductMention {
+  product: Product;
+  index: number;
+}
+
+// Checks the reply sentence by sentence against the catalog and corrects
+// prices, stock levels and numeric specs before they are shown or spoken
+export class ResponseFactChecker {
+  private pending = '';
+  private checked = '';
+  // Products named by the latest sentence that named any; claims in later
+  // sentences without a product name ("It costs $799.") refer to them
+  private subjects: Product[] = [];
+  readonly corrections: FactCorrection[] = [];
+
+  constructor(
+    readonly sessionId: string,
+    readonly messageId: string,
+    private readonly products: Product[]
+  ) {}
+
+  // Reply text as sent
+  get text(): string {
+    return this.checked;
+  }
+
+  // Returns the text that may be emitted now
+  push(text: string): string {
+    if (this.products.length === 0) return this.release(text);
+
+    this.pending += text;
+    const end = findSentenceEnd(this.pending, MAX_PENDING_LENGTH);
+    if (end <= 0) return '';
+
+    const sentence = this.pending.slice(0, end);
+    this.pending = this.pending.slice(end);
+    return this.release(this.check(sentence));
+  }
+
+  finish(): string {
+    const rest = this.pending;
+    this.pending = '';
+    return rest ? this.release(this.check(rest)) : '';
+  }
+
+  private check(sentence: string): string {
+    const named = this.findMentions(sentence);
+    if (named.length === 0 && this.subjects.length === 0) return sentence;
+
+    let output = this.checkPrices(sentence);
+    output = this.checkStock(output);
+    output = this.checkSpecs(output);
+    if (named.length > 0) {
+      this.subjects = named.map((mention) => mention.product);
+    }
+    return output;
+  }
+
+  // Products a sentence's claims may refer to: the ones it names, else the
+  // subject of the previous sentences when that was a single product (with
+  // several, "they cost $799" can't be attributed)
+  private mentionsIn(sentence: string): ProductMention[] {
+    const named = this.findMentions(sentence);
+    if (named.length > 0) return named;
+    return this.subjects.length === 1 ? [{ product: this.subjects[0], index: 0 }] : [];
+  }
+
+  private checkPrices(sentence: string): string {
+    const mentions = this.mentionsIn(sentence);
+    const discounted = DISCOUNT_WORDS.test(sentence);
+    const quantity = Number(sentence.match(QUANTITY_PATTERN)?.[1] || 1);
+
+    return sentence.replace(PRICE_PATTERN, (match, symbol, symbolAmount, wordAmount, word, offset: number) => {
+      const product = this.productAt(mentions, offset);
+      const claimedCurrency = symbol
+        ? Object.keys(CURRENCY_SYMBOLS).find((code) => CURRENCY_SYMBOLS[code] === symbol)
+        : CURRENCY_WORDS[String(word).toLowerCase()];
+      // Other currencies are not converted
+      if (!product || claimedCurrency !== product.currency.toUpperCase()) return match;
+
+      const amountText: string = symbolAmount ?? wordAmount;
+      const amount = Number(amountText.replace(/,/g, ''));
+      if (this.isPlausiblePrice(amount, product.price, quantity, discounted)) return match;
+
+      const corrected = match.replace(amountText, this.formatAmount(product.price, amountText));
+      this.record({ type: 'price', sku: product.sku, claimed: match, corrected });
+      return corrected;
+    });
+  }
+
+  private checkStock(sentence: string): string {
+    const mentions = this.mentionsIn(sentence);
+
+    let output = sentence.replace(STOCK_COUNT_PATTERN, (match, count: string, offset: number) => {
+      const product = this.productAt(mentions, offset);
+      if (!product || Number(count) === product.stock) return match;
+      const corrected = product.stock > 0 ? match.replace(count, String(product.stock)) : 'none left';
+      this.record({ type: 'stock', sku: product.sku, claimed: match, corrected });
+      return corrected;
+    });
+
+    output = output.replace(IN_STOCK_PATTERN, (match, offset: number) => {
+      const product = this.productAt(mentions, offset);
+      if (!product || product.stock > 0) return match;
+      const corrected = 'currently out of stock';
+      this.record({ type: 'stock', sku: product.sku, claimed: match, corrected });
+      return corrected;
+    });
+
+    return output.replace(OUT_OF_STOCK_PATTERN, (match, offset: number) => {
+      const product = this.productAt(mentions, offset);
+      if (!product || product.stock <= 0) return match;
+      const corrected = 'in stock';
+      this.record({ type: 'stock', sku: product.sku, claimed: match, corrected });
+      return corrected;
+    });
+  }
+
+  // Numeric attributes named in the sentence, e.g. "battery life of 20 hours"
+  private checkSpecs(sentence: string): string {
+    let output = sentence;
+
+    for (const { product } of this.mentionsIn(sentence)) {
+      for (const [attribute, value] of Object.entries(product.attributes || {})) {
+        if (typeof value !== 'number') continue;
+
+        const words = attribute
+          .replace(/([a-z])([A-Z])/g, '$1 $2')
+          .split(/[\s_-]+/)
+          .filter(Boolean)
+          .map((word) => word.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        const pattern = new RegExp(`\\b(${words.join('[\\s_-]*')})\\b([^.\\d]{0,30}?)(\\d+(?:\\.\\d+)?)`, 'i');
+        const match = output.match(pattern);
+        if (!match || Number(match[3]) === value) continue;
+
+        const corrected = `${match[1]}${match[2]}${value}`;
+        this.record({ type: 'spec', sku: product.sku, attribute, claimed: match[0], corrected });
+        output = output.replace(match[0], corrected);
+      }
+    }
+    return output;
+  }
+
+  private isPlausiblePrice(amount: number, price: number, quantity: number, discounted: boolean): boolean {
+    const matches = (expected: number) => Math.abs(amount - expected) < 0.01;
+    if (matches(price) || matches(price * quantity)) return true;
+    // Discounts up to the authorized limit
+    const lowest = price * (1 - config.guardrails.maxDiscountPercent / 100);
+    return discounted && amount >= lowest - 0.01 && amount <= price;
+  }
+
+  // Products named in the text by name or SKU, in order of appearance
+  private findMentions(text: string): ProductMention[] {
+    const mentions: ProductMention[] = [];
+    for (const product of this.products) {
+      for (const label of [product.name, product.sku]) {
+        const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const match = new RegExp(`\\b${escaped}\\b`, 'i').exec(text);
+        if (match) {
+          mentions.push({ product, index: match.index });
+          break;
+        }
+      }
+    }
+    return mentions.sort((a, b) => a.index - b.index);
+  }
+
+  // A claim refers to the product named closest before it, else the first one after it
+  private productAt(mentions: ProductMention[], offset: number): Product | undefined {
+    const before = mentions.filter((mention) => mention.index <= offset).pop();
+    return (before || mentions[0])?.product;
+  }
+
+  private formatAmount(price: number, claimed: string): string {
+    const decimals = claimed.includes('.') || !Number.isInteger(price) ? 2 : 0;
+    return price.toLocaleString('en-US', {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+      useGrouping: claimed.includes(','),
+    });
+  }
+
+  private record(correction: FactCorrection): void {
+    this.corrections.push(correction);
+    console.warn(
+      `Fact check in session ${this.sessionId}: ${correction.type} of ${correction.sku} ` +
+      `"${correction.claimed}" -> "${correction.corrected}"`
+    );
+  }
+
+  private release(text: string): string {
+    this.checked += text;
+    return text;
+  }
+}
+
+class FactCheckService {
+  // Catalog snapshot per tenant
+  private catalogs: Map<string, { products: Product[]; loadedAt: number }> = new Map();
+
+  constructor() {
+    // A price an admin just changed must not be "corrected" back to the old one
+    catalogService.onCatalogChanged((tenantId) => this.catalogs.delete(tenantId));
+  }
+
+  // Start checking a reply; `messageId` is the id the reply is stored under
+  async createChecker(sessionId: string, messageId: string): Promise<ResponseFactChecker> {
+    const products = config.factCheck.enabled ? await this.getProducts() : [];
+    return new ResponseFactChecker(sessionId, messageId, products);
+  }
+
+  // Store the reply as it was sent, with the corrections that were applied
+  async saveCorrections(checker: ResponseFactChecker): Promise<void> {
+    if (checker.corrections.length === 0) return;
+    await conversationStore.updateMessage(checker.sessionId, checker.messageId, {
+      content: checker.text,
+      factCorrections: checker.corrections,
+    });
+  }
+
+  private async getProducts(): Promise<Product[]> {
+    const tenantId = currentTenantId();
+    const cached = this.catalogs.get(tenantId);
+    if (cached && Date.now() - cached.loadedAt <= CATALOG_CACHE_MS) {
+      return cached.products;
+    }
+    const products = await catalogService.listProducts();
+    this.catalogs.set(tenantId, { products, loadedAt: Date.now() });
+    return products;
+  }
+}
+
+// Export as singleton
+export const factCheckService = new FactCheckService();
+export default factCheckService;
@@ -0,0 +1,106 @@
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { personaService } from './persona.service';
+import { ChatConfig, ERROR_CODES, ErrorResponse } from '../types/chat';
+import {
+  GenerationConfigUpdate,
+  GenerationParams,
+  SessionGenerationConfig,
+} from '../types/generation';
+import { ResolvedPersona } from '../types/persona';
+import { sanitizeGenerationParams } from '../utils/generation';
+
+class GenerationConfigService {
+  private readonly defaults: ChatConfig = {
+    model: config.llm.model,
+    temperature: 0.7,
+    max_tokens: 150, // Reduced for shorter responses
+    presence_penalty: 0.6,
+    frequency_penalty: 0.5,
+  };
+
+  getDefaults(): ChatConfig {
+    return { ...this.defaults };
+  }
+
+  // Merge defaults < persona < session overrides < per-request config
+  async resolve(
+    sessionId: string,
+    persona: ResolvedPersona,
+    requestConfig: Partial<ChatConfig> = {}
+  ): Promise<ChatConfig> {
+    const session = await conversationStore.getSession(sessionId);
+    const { stream: _stream, ...requestParams } = requestConfig;
+    const { params } = sanitizeGenerationParams(this.withoutUndefined(requestParams), { clamp: true });
+
+    return {
+      ...this.defaults,
+      ...persona.generation,
+      ...session?.generation,
+      ...params,
+    };
+  }
+
+  async getSessionConfig(sessionId: string): Promise<SessionGenerationConfig> {
+    const session = await conversationStore.getSession(sessionId);
+    if (!session) {
+      throw this.sessionNotFound(sessionId);
+    }
+    const persona = await personaService.resolve(session.personaId, session.personaVersion);
+    const overrides = session.generation || {};
+
+    return {
+      overrides,
+      effective: { ...this.defaults, ...persona.generation, ...overrides },
+    };
+  }
+
+  // Validate and clamp the update, then merge it into the session's overrides
+  async updateSessionConfig(
+    sessionId: string,
+    update: GenerationConfigUpdate,
+    { createSession = false }: { createSession?: boolean } = {}
+  ): Promise<SessionGenerationConfig> {
+    const session = await conversationStore.getSession(sessionId);
+    if (!session && !createSession) {
+      throw this.sessionNotFound(sessionId);
+    }
+    if (!update || typeof update !== 'object' || Array.isArray(update)) {
+      throw {
+        error: 'Generation settings must be an object',
+        code: ERROR_CODES.INVALID_INPUT,
+      } as ErrorResponse;
+    }
+
+    const cleared = Object.keys(update).filter((key) => update[key as keyof GenerationParams] === null);
+    const changes = Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== null)
+    );
+    const { params, adjusted } = sanitizeGenerationParams(changes, { clamp: true });
+
+    const overrides: GenerationParams = { ...session?.generation, ...params };
+    for (const key of cleared) {
+      delete overrides[key as keyof GenerationParams];
+    }
+    await conversationStore.updateSession(sessionId, { generation: overrides });
+
+    return { ...(await this.getSessionConfig(sessionId)), adjusted };
+  }
+
+  private withoutUndefined(params: GenerationParams): GenerationParams {
+    return Object.fromEntries(
+      Object.entries(params).filter(([, value]) => value !== undefined)
+    );
+  }
+
+  private sessionNotFound(sessionId: string): ErrorResponse {
+    return {
+      error: `Session ${sessionId} not found`,
+      code: ERROR_CODES.NOT_FOUND,
+    };
+  }
+}
+
+// Export as singleton
+export const generationConfigService = new GenerationConfigService();
+export default generationConfigService;
@@ -0,0 +1,346 @@
+import * as fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { tenantService } from './tenant.service';
+import { tenantKey } from '../utils/tenant';
+import { findSentenceEnd } from '../utils/sentences';
+import { ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import {
+  GuardrailPolicy,
+  PolicyCheckResult,
+  PolicyRule,
+  PolicyViolation,
+} from '../types/guardrails';
+
+const MAX_LOGGED_VIOLATIONS = 200;
+// Text without a sentence end is released for checking after this many characters
+const MAX_PENDING_LENGTH = 300;
+const DISCOUNT_PATTERN =
+  /\b(\d{1,3}(?:\.\d+)?)\s?(?:%|percent)(?=\s+(?:off|discount))|\bdiscount of (?:up to )?(\d{1,3}(?:\.\d+)?)\s?(?:%|percent)/gi;
+
+const DEFAULT_POLICY: GuardrailPolicy = {
+  blockedMessage: 'I\'m sorry, I can\'t help with that. A member of our team can follow up with you.',
+  rules: [
+    {
+      id: 'max-discount',
+      type: 'max_discount',
+      description: 'Discounts above the authorized limit',
+      maxPercent: config.guardrails.maxDiscountPercent,
+      action: 'rewrite',
+    },
+    {
+      id: 'medical-claims',
+      type: 'regex',
+      description: 'Claims that a product treats or prevents a condition',
+      pattern: '\\b(?:cures?|treats?|heals?|prevents?|diagnoses?)\\s+(?:your\\s+)?(?:cancer|diabetes|depression|anxiety|insomnia|disease|illness|infections?|pain)\\b',
+      flags: 'i',
+      action: 'block',
+    },
+    {
+      id: 'legal-advice',
+      type: 'regex',
+      description: 'Legal advice or legal guarantees',
+      pattern: '\\b(?:this is (?:not )?legal advice|legally (?:binding|required|guaranteed)|you (?:won\'t|will not|cannot|can\'t) be (?:sued|held liable))\\b',
+      flags: 'i',
+      action: 'block',
+    },
+    {
+      id: 'absolute-guarantees',
+      type: 'regex',
+      description: 'Guarantees the company does not offer',
+      pattern: '\\b(?:100% guaranteed|guaranteed results|risk[- ]free|lifetime guarantee|never (?:breaks|fails))\\b',
+      flags: 'i',
+      action: 'flag',
+    },
+    {
+      id: 'financing-disclaimer',
+      type: 'disclaimer',
+      description: 'Financing terms need the credit disclaimer',
+      trigger: '\\b(?:financing|installments?|monthly payments?|apr|pay later)\\b',
+      flags: 'i',
+      disclaimer: 'Financing is subject to credit approval; terms may vary.',
+    },
+  ],
+};
+
+interface CompiledRule {
+  rule: PolicyRule;
+  pattern: RegExp;
+}
+
+// Filters one streamed reply: tokens are held until a sentence is complete,
+// checked against the policy and only then released to the client and TTS
+export class GuardedResponse {
+  private pending = '';
+  private approved = '';
+  private blocked = false;
+  private modified = false;
+  readonly violations: PolicyViolation[] = [];
+
+  constructor(
+    readonly sessionId: string,
+    readonly messageId: string,
+    private readonly rules: CompiledRule[] | null,  // null passes text through unchecked
+    private readonly blockedMessage: string
+  ) {}
+
+  // Text reviewed so far, as the customer sees it
+  get text(): string {
+    return this.approved;
+  }
+
+  // Whether the reply was replaced by the blocked message
+  get isBlocked(): boolean {
+    return this.blocked;
+  }
+
+  // Whether the reply differs from what the model generated
+  get isModified(): boolean {
+    return this.modified;
+  }
+
+  // Returns the text that may be emitted now
+  push(token: string): string {
+    if (this.blocked) return '';
+    if (!this.rules) return this.release(token);
+
+    this.pending += token;
+    const end = findSentenceEnd(this.pending, MAX_PENDING_LENGTH);
+    if (end <= 0) return '';
+
+    const chunk = this.pending.slice(0, end);
+    this.pending = this.pending.slice(end);
+    return this.review(chunk);
+  }
+
+  // Returns the remaining text, including required disclaimers
+  finish(): string {
+    if (this.blocked || !this.rules) return '';
+
+    // review() releases the text it approves
+    let rest = this.pending ? this.review(this.pending) : '';
+    this.pending = '';
+    if (this.blocked) return rest;
+
+    for (const { rule, pattern } of this.rules) {
+      if (rule.type !== 'disclaimer') continue;
+      const trigger = this.approved.match(new RegExp(pattern.source, pattern.flags.replace('g', '')));
+      if (trigger && !this.approved.toLowerCase().includes(rule.disclaimer.toLowerCase())) {
+        this.record(rule, 'rewrite', trigger[0]);
+        rest += this.release(`${this.approved.endsWith('\n') ? '' : '\n\n'}${rule.disclaimer}`);
+        this.modified = true;
+      }
+    }
+    return rest;
+  }
+
+  private review(chunk: string): string {
+    const result = guardrailsService.checkText(chunk, this.rules || []);
+    for (const violation of result.violations) {
+      const rule = this.rules?.find((compiled) => compiled.rule.id === violation.ruleId)?.rule;
+      if (rule) this.record(rule, violation.action, violation.excerpt);
+    }
+
+    if (result.blocked) {
+      this.blocked = true;
+      this.modified = true;
+      this.pending = '';
+      const separator = this.approved && !/\s$/.test(this.approved) ? ' ' : '';
+      return this.release(separator + this.blockedMessage);
+    }
+    if (result.text !== chunk) {
+      this.modified = true;
+    }
+    return this.release(result.text);
+  }
+
+  private release(text: string): string {
+    this.approved += text;
+    return text;
+  }
+
+  private record(rule: PolicyRule, action: PolicyViolation['action'], excerpt: string): void {
+    this.violations.push({
+      id: uuidv4(),
+      sessionId: this.sessionId,
+      messageId: this.messageId,
+      ruleId: rule.id,
+      action,
+      excerpt,
+      timestamp: Date.now(),
+    });
+  }
+}
+
+class GuardrailsService {
+  private readonly policy: GuardrailPolicy;
+  private readonly rules: CompiledRule[];
+
+  constructor() {
+    this.policy = config.guardrails.policyPath
+      ? this.loadPolicy(config.guardrails.policyPath)
+      : DEFAULT_POLICY;
+    this.rules = this.policy.rules.map((rule) => this.compile(rule));
+  }
+
+  getPolicy(): GuardrailPolicy {
+    return this.policy;
+  }
+
+  // Start filtering a reply; `messageId` is the id the reply is stored under
+  createGuard(sessionId: string, messageId: string): GuardedResponse {
+    return new GuardedResponse(
+      sessionId,
+      messageId,
+      config.guardrails.enabled ? this.rules : null,
+      this.policy.blockedMessage
+    );
+  }
+
+  // Apply block/rewrite/flag rules to a piece of text. Disclaimers are
+  // handled by GuardedResponse once the whole reply is known.
+  checkText(text: string, rules: CompiledRule[] = this.rules): PolicyCheckResult {
+    let output = text;
+    const violations: PolicyCheckResult['violations'] = [];
+
+    for (const { rule, pattern } of rules) {
+      if (rule.type === 'disclaimer') continue;
+
+      const matches = Array.from(output.matchAll(pattern)).filter((match) =>
+        rule.type !== 'max_discount' || Number(match[1] ?? match[2]) > rule.maxPercent
+      );
+      if (matches.length === 0) continue;
+
+      for (const match of matches) {
+        violations.push({ ruleId: rule.id, action: rule.action, excerpt: match[0] });
+      }
+      if (rule.action === 'block') {
+        return { text: '', blocked: true, violations };
+      }
+      if (rule.action === 'rewrite') {
+        output = rule.type === 'max_discount'
+          ? output.replace(pattern, (match, percent?: string, stated?: string) => {
+            const value = percent ?? stated;
+            return Number(value) > rule.maxPercent ? match.replace(value!, String(rule.maxPercent)) : match;
+          })
+          : output.replace(pattern, rule.replacement || '');
+      }
+    }
+
+    return { text: output, blocked: false, violations };
+  }
+
+  // Log the violations of a finished reply and store the reply as it was sent
+  async saveOutcome(guard: GuardedResponse): Promise<void> {
+    if (guard.violations.length === 0) return;
+
+    for (const violation of guard.violations) {
+      console.warn(
+        `Policy violation in session ${violation.sessionId}: ${violation.ruleId} (${violation.action}) "${violation.excerpt}"`
+      );
+    }
+
+    const ruleIds = Array.from(new Set(guard.violations.map((violation) => violation.ruleId)));
+    await conversationStore.updateMessage(guard.sessionId, guard.messageId, {
+      ...(guard.isModified ? { content: guard.text } : {}),
+      policyViolations: ruleIds,
+    });
+
+    const key = this.violationKey(guard.sessionId);
+    const logged: PolicyViolation[] = (await conversationStore.get(key)) || [];
+    await conversationStore.set(
+      key,
+      [...logged, ...guard.violations].slice(-MAX_LOGGED_VIOLATIONS),
+      tenantService.retentionSeconds('logs')
+    );
+  }
+
+  async getViolations(sessionId: string): Promise<PolicyViolation[]> {
+    return (await conversationStore.get(this.violationKey(sessionId))) || [];
+  }
+
+  // Drop a session's violation log; returns how many entries it had
+  async deleteViolations(sessionId: string): Promise<number> {
+    const logged = await this.getViolations(sessionId);
+    await conversationStore.del(this.violationKey(sessionId));
+    return logged.length;
+  }
+
+  private violationKey(sessionId: string): string {
+    return tenantKey(`${REDIS_KEYS.VIOLATION_PREFIX}${sessionId}`);
+  }
+
+  private compile(rule: PolicyRule): CompiledRule {
+    const flags = (source: string | undefined) => Array.from(new Set(`${source || ''}g`)).join('');
+    switch (rule.type) {
+      case 'regex':
+        return { rule, pattern: new RegExp(rule.pattern, flags(rule.flags)) };
+      case 'phrase': {
+        const phrases = rule.phrases.map((phrase) => phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        return { rule, pattern: new RegExp(`\\b(?:${phrases.join('|')})\\b`, 'gi') };
+      }
+      case 'max_discount':
+        return { rule, pattern: new RegExp(DISCOUNT_PATTERN.source, 'gi') };
+      case 'disclaimer':
+        return { rule, pattern: new RegExp(rule.trigger, flags(rule.flags)) };
+    }
+  }
+
+  private loadPolicy(policyPath: string): GuardrailPolicy {
+    let file: Partial<GuardrailPolicy>;
+    try {
+      file = JSON.parse(fs.readFileSync(policyPath, 'utf8'));
+    } catch (error) {
+      throw this.invalidPolicy(`Failed to load guardrail policy from ${policyPath}`, error);
+    }
+
+    const policy: GuardrailPolicy = {
+      blockedMessage: file.blockedMessage || DEFAULT_POLICY.blockedMessage,
+      rules: file.rules || DEFAULT_POLICY.rules,
+    };
+    for (const rule of policy.rules) {
+      this.validateRule(rule, policyPath);
+    }
+    return policy;
+  }
+
+  private validateRule(rule: PolicyRule, policyPath: string): void {
+    const where = `rule "${rule.id}" in ${policyPath}`;
+    if (!rule.id) {
+      throw this.invalidPolicy(`Every rule in ${policyPath} needs an id`);
+    }
+    if (!['regex', 'phrase', 'max_discount', 'disclaimer'].includes(rule.type)) {
+      throw this.invalidPolicy(`Unknown type "${(rule as PolicyRule).type}" of ${where}`);
+    }
+    if (rule.type !== 'disclaimer' && !['block', 'rewrite', 'flag'].includes(rule.action)) {
+      throw this.invalidPolicy(`Unknown action "${rule.action}" of ${where}`);
+    }
+    if ((rule.type === 'regex' || rule.type === 'phrase') && rule.action === 'rewrite' &&
+        typeof rule.replacement !== 'string') {
+      throw this.invalidPolicy(`Rewrite ${where} needs a replacement`);
+    }
+    if (rule.type === 'phrase' && (!Array.isArray(rule.phrases) || rule.phrases.length === 0)) {
+      throw this.invalidPolicy(`Phrase ${where} needs phrases`);
+    }
+    if (rule.type === 'max_discount' && !(rule.maxPercent >= 0)) {
+      throw this.invalidPolicy(`Discount ${where} needs maxPercent`);
+    }
+    if (rule.type === 'disclaimer' && (!rule.trigger || !rule.disclaimer)) {
+      throw this.invalidPolicy(`Disclaimer ${where} needs a trigger and a disclaimer`);
+    }
+    try {
+      this.compile(rule);
+    } catch (error) {
+      throw this.invalidPolicy(`Invalid pattern of ${where}`, error);
+    }
+  }
+
+  private invalidPolicy(message: string, details?: unknown): ErrorResponse {
+    return { error: message, code: ERROR_CODES.SERVER_ERROR, details };
+  }
+}
+
+// Export as singleton
+export const guardrailsService = new GuardrailsService();
+export default guardrailsService;
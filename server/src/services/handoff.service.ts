@@ -0,0 +1,192 @@
+import { conversationStore } from './store.service';
+import { tenantService } from './tenant.service';
+import { tenantKey } from '../utils/tenant';
+import { ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import { TurnClassification } from '../types/classification';
+import { AgentIdentity, Handoff, HandoffReason } from '../types/handoff';
+
+const HUMAN_REQUEST_PATTERN = new RegExp(
+  '\\b(?:talk|speak|chat|connect me|transfer me|put me through)\\b.{0,20}\\b' +
+  '(?:human|person|real person|someone|somebody|agent|representative|rep|operator|manager|staff)\\b|' +
+  '\\b(?:human|real person|live agent|customer service)\\s+(?:please|pls)\\b|' +
+  '\\bare you (?:a )?(?:bot|robot|human|real)\\b.{0,30}\\b(?:human|person)\\b',
+  'i'
+);
+
+type HandoffListener = (handoff: Handoff) => void;
+
+// Escalation of sessions from the AI to human agents. While an agent has
+// claimed a session the AI does not answer it.
+class HandoffService {
+  private readonly listeners: HandoffListener[] = [];
+
+  private handoffKey(sessionId: string): string {
+    return tenantKey(`${REDIS_KEYS.HANDOFF_PREFIX}${sessionId}`);
+  }
+
+  // Held by the agent of an active handoff, so only one claim can win
+  private claimKey(sessionId: string): string {
+    return tenantKey(`${REDIS_KEYS.HANDOFF_CLAIM_PREFIX}${sessionId}`);
+  }
+
+  // Called with every handoff that changed status or agent
+  onHandoffChanged(listener: HandoffListener): void {
+    this.listeners.push(listener);
+  }
+
+  // Reason to escalate a customer turn, if any
+  detectEscalation(message: string, classification?: TurnClassification): HandoffReason | null {
+    if (HUMAN_REQUEST_PATTERN.test(message)) {
+      return 'customer_request';
+    }
+    if (classification?.sentiment === 'negative' && classification.urgency === 'high') {
+      return 'frustration';
+    }
+    return null;
+  }
+
+  async getHandoff(sessionId: string): Promise<Handoff | null> {
+    return conversationStore.get(this.handoffKey(sessionId));
+  }
+
+  // Queued or active handoff of a session
+  async getOpenHandoff(sessionId: string): Promise<Handoff | null> {
+    const handoff = await this.getHandoff(sessionId);
+    return handoff && handoff.status !== 'resolved' ? handoff : null;
+  }
+
+  async isAiPaused(sessionId: string): Promise<boolean> {
+    return (await this.getHandoff(sessionId))?.status === 'active';
+  }
+
+  // Remove a session's handoff record and queue entry; returns whether there was one
+  async deleteHandoff(sessionId: string): Promise<boolean> {
+    const handoff = await this.getHandoff(sessionId);
+    await conversationStore.del(this.handoffKey(sessionId));
+    await conversationStore.del(this.claimKey(sessionId));
+    await conversationStore.sRem(tenantKey(REDIS_KEYS.HANDOFF_QUEUE), sessionId);
+    return handoff !== null;
+  }
+
+  // Open handoffs, oldest request first
+  async listOpen(): Promise<Handoff[]> {
+    const sessionIds = await conversationStore.sMembers(tenantKey(REDIS_KEYS.HANDOFF_QUEUE));
+    const handoffs = await Promise.all(sessionIds.map((sessionId) => this.getOpenHandoff(sessionId)));
+    return handoffs
+      .filter((handoff): handoff is Handoff => handoff !== null)
+      .sort((a, b) => a.requestedAt - b.requestedAt);
+  }
+
+  // Queue a session for a human; an open handoff is returned unchanged
+  async requestHandoff(sessionId: string, reason: HandoffReason, note?: string): Promise<Handoff> {
+    const open = await this.getOpenHandoff(sessionId);
+    if (open) return open;
+    await this.requireSession(sessionId);
+
+    const handoff: Handoff = { sessionId, status: 'queued', reason, note, requestedAt: Date.now() };
+    await this.save(handoff);
+    console.log(`Session ${sessionId} queued for a human agent (${reason})`);
+    return handoff;
+  }
+
+  // Take over a session. Sessions that are not queued are escalated on the spot.
+  // Of concurrent claims only the one that takes the claim key succeeds.
+  async claim(sessionId: string, agent: AgentIdentity): Promise<Handoff> {
+    const claimKey = this.claimKey(sessionId);
+    if (!(await conversationStore.setIfAbsent(claimKey, agent.id, tenantService.retentionSeconds('logs')))) {
+      const open = await this.getOpenHandoff(sessionId);
+      if (open?.status === 'active' && open.agent?.id === agent.id) return open;
+      throw this.conflict(`Session ${sessionId} is already handled by ${open?.agent?.name || 'another agent'}`);
+    }
+
+    try {
+      const open = await this.getOpenHandoff(sessionId);
+      if (open?.status === 'active' && open.agent?.id !== agent.id) {
+        throw this.conflict(`Session ${sessionId} is already handled by ${open.agent?.name}`);
+      }
+      if (!open) {
+        await this.requireSession(sessionId);
+      }
+      const now = Date.now();
+      const handoff: Handoff = {
+        ...(open || { sessionId, reason: 'manual' as const, requestedAt: now }),
+        status: 'active',
+        agent,
+        claimedAt: now,
+      };
+      await this.save(handoff);
+      return handoff;
+    } catch (error) {
+      await conversationStore.del(claimKey);
+      throw error;
+    }
+  }
+
+  // Put a claimed session back in the queue
+  async release(sessionId: string, agent: AgentIdentity): Promise<Handoff> {
+    const handoff = await this.getClaimed(sessionId, agent);
+    const { agent: _agent, claimedAt, ...rest } = handoff;
+    const queued: Handoff = { ...rest, status: 'queued' };
+    await this.save(queued);
+    await conversationStore.del(this.claimKey(sessionId));
+    return queued;
+  }
+
+  // Close the handoff; the AI answers the session again
+  async resolve(sessionId: string, agent?: AgentIdentity): Promise<Handoff> {
+    const handoff = agent
+      ? await this.getClaimed(sessionId, agent)
+      : await this.getOpenHandoff(sessionId);
+    if (!handoff) {
+      throw { error: `Session ${sessionId} has no open handoff`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse;
+    }
+
+    const resolved: Handoff = { ...handoff, status: 'resolved', resolvedAt: Date.now() };
+    await this.save(resolved);
+    await conversationStore.del(this.claimKey(sessionId));
+    return resolved;
+  }
+
+  // Active handoff of the session, claimed by this agent
+  async getClaimed(sessionId: string, agent: AgentIdentity): Promise<Handoff> {
+    const handoff = await this.getOpenHandoff(sessionId);
+    if (!handoff || handoff.status !== 'active') {
+      throw this.conflict(`Session ${sessionId} is not claimed`);
+    }
+    if (handoff.agent?.id !== agent.id) {
+      throw this.conflict(`Session ${sessionId} is handled by ${handoff.agent?.name}`);
+    }
+    return handoff;
+  }
+
+  private async save(handoff: Handoff): Promise<void> {
+    await conversationStore.set(this.handoffKey(handoff.sessionId), handoff, tenantService.retentionSeconds('logs'));
+    if (handoff.status === 'resolved') {
+      await conversationStore.sRem(tenantKey(REDIS_KEYS.HANDOFF_QUEUE), handoff.sessionId);
+    } else {
+      await conversationStore.sAdd(tenantKey(REDIS_KEYS.HANDOFF_QUEUE), handoff.sessionId);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(handoff);
+      } catch (error) {
+        console.error('Handoff listener failed:', error);
+      }
+    }
+  }
+
+  private async requireSession(sessionId: string): Promise<void> {
+    if (!(await conversationStore.getSessionMeta(sessionId))) {
+      throw { error: `Session ${sessionId} not found`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse;
+    }
+  }
+
+  private conflict(message: string): ErrorResponse {
+    return { error: message, code: ERROR_CODES.CONFLICT };
+  }
+}
+
+// Export as singleton
+export const handoffService = new HandoffService();
+export default handoffService;
@@ -0,0 +1,265 @@
+import { conversationStore } from './store.service';
+import { leadService } from './lead.service';
+import { tenantService } from './tenant.service';
+import { tokenize } from './knowledge/bm25';
+import { tenantKey } from '../utils/tenant';
+import { ChatMessage, ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import { MessagePage, SessionMeta } from '../types/store';
+import {
+  SearchHit,
+  SearchResults,
+  SessionDetail,
+  SessionFilter,
+  SessionList,
+  SessionSummary,
+} from '../types/history';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_TRANSCRIPT_PAGE_SIZE = 50;
+const MAX_TRANSCRIPT_PAGE_SIZE = 200;
+const SUMMARY_WINDOW = 20;     // Recent messages read for the sentiment and preview
+const PREVIEW_LENGTH = 120;
+const SNIPPET_RADIUS = 60;
+
+// Read access to stored conversations: session listing over the per-tenant
+// activity index (no KEYS scans), paged transcripts, and full-text search over
+// an inverted index of message terms that is updated as messages are saved.
+class HistoryService {
+  constructor() {
+    conversationStore.onMessageSaved((sessionId, message) => {
+      this.indexMessage(sessionId, message).catch((error) => {
+        console.error(`Failed to index message ${message.id} of session ${sessionId}:`, error);
+      });
+    });
+  }
+
+  // Sessions of the current tenant, most recently active first
+  async listSessions(filter: SessionFilter = {}): Promise<SessionList> {
+    const { offset, limit } = this.page(filter.offset, filter.limit, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const indexKey = tenantKey(REDIS_KEYS.SESSION_INDEX);
+
+    // Without filters on summary fields only the requested page is read
+    if (filter.leadCaptured === undefined && !filter.stage && !filter.sentiment) {
+      const [sessionIds, total] = await Promise.all([
+        conversationStore.zRevRangeByScore(indexKey, filter.from, filter.to, offset, limit),
+        conversationStore.zCount(indexKey, filter.from, filter.to),
+      ]);
+      const leads = new Set(
+        (await Promise.all(sessionIds.map((sessionId) => leadService.getLead(sessionId))))
+          .flatMap((lead) => (lead ? [lead.sessionId] : []))
+      );
+      const summaries = await this.summarizeIndexed(indexKey, sessionIds, leads);
+      const sessions = summaries.filter((summary): summary is SessionSummary => summary !== null);
+      return { sessions, total: total - (summaries.length - sessions.length), offset };
+    }
+
+    const sessionIds = (await conversationStore.zRangeByScore(indexKey, filter.from, filter.to)).reverse();
+    const leads = new Set((await leadService.listLeads()).map((lead) => lead.sessionId));
+    const matching = (await this.summarizeIndexed(indexKey, sessionIds, leads))
+      .filter((summary): summary is SessionSummary => summary !== null)
+      .filter((summary) => filter.leadCaptured === undefined || summary.leadCaptured === filter.leadCaptured)
+      .filter((summary) => !filter.stage || summary.stage === filter.stage)
+      .filter((summary) => !filter.sentiment || summary.sentiment === filter.sentiment);
+    return { sessions: matching.slice(offset, offset + limit), total: matching.length, offset };
+  }
+
+  async getSession(sessionId: string): Promise<SessionDetail> {
+    const lead = await leadService.getLead(sessionId);
+    const summary = await this.summarize(sessionId, new Set(lead ? [sessionId] : []));
+    if (!summary) {
+      throw this.notFound(sessionId);
+    }
+    return { ...summary, meta: (await conversationStore.getSessionMeta(sessionId))! };
+  }
+
+  // Transcript page in chronological order; a negative offset counts from the end
+  async getTranscript(sessionId: string, offset?: number, limit?: number): Promise<MessagePage> {
+    if (!(await conversationStore.getSessionMeta(sessionId))) {
+      throw this.notFound(sessionId);
+    }
+    const page = this.page(offset, limit, DEFAULT_TRANSCRIPT_PAGE_SIZE, MAX_TRANSCRIPT_PAGE_SIZE, true);
+    return conversationStore.getMessages(sessionId, page.offset, page.limit);
+  }
+
+  // Messages containing every term of the query, grouped by session. Sessions
+  // with the most matching messages come first, then the most recent ones.
+  async search(query: unknown, offset?: number, limit?: number): Promise<SearchResults> {
+    const terms = typeof query === 'string' ? Array.from(new Set(tokenize(query))) : [];
+    if (terms.length === 0) {
+      throw {
+        error: 'Search query needs at least one word that is not a stop word',
+        code: ERROR_CODES.INVALID_INPUT,
+      } as ErrorResponse;
+    }
+    const page = this.page(offset, limit, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    // Intersect the postings, starting from the rarest term
+    const postings = (await Promise.all(terms.map((term) => conversationStore.sMembers(this.termKey(term)))))
+      .sort((a, b) => a.length - b.length);
+    const others = postings.slice(1).map((members) => new Set(members));
+    const matches = postings[0].filter((posting) => others.every((members) => members.has(posting)));
+
+    const messageIdsBySession = new Map<string, Set<string>>();
+    for (const posting of matches) {
+      const separator = posting.indexOf(':');
+      const sessionId = posting.slice(0, separator);
+      const messageIds = messageIdsBySession.get(sessionId) || new Set<string>();
+      messageIds.add(posting.slice(separator + 1));
+      messageIdsBySession.set(sessionId, messageIds);
+    }
+
+    const results = (await Promise.all(
+      Array.from(messageIdsBySession.entries()).map(async ([sessionId, messageIds]) => {
+        const session = await conversationStore.getSession(sessionId);
+        if (!session) return null;
+        // Postings are never rewritten, so check the stored text still matches
+        const hits = session.messages
+          .filter((message) => messageIds.has(message.id) && this.containsTerms(message, terms))
+          .map((message) => this.toHit(message, terms));
+        return hits.length > 0 ? { sessionId, lastActivity: session.lastActivity, hits } : null;
+      })
+    ))
+      .filter((result): result is NonNullable<typeof result> => result !== null)
+      .sort((a, b) => b.hits.length - a.hits.length || b.lastActivity - a.lastActivity);
+
+    return {
+      query: query as string,
+      terms,
+      results: results.slice(page.offset, page.offset + page.limit),
+      total: results.length,
+      offset: page.offset,
+    };
+  }
+
+  private async indexMessage(sessionId: string, message: ChatMessage): Promise<void> {
+    if (message.role === 'tool' || !message.content) return;
+    const terms = Array.from(new Set(tokenize(message.content)));
+    if (terms.length === 0) return;
+
+    const posting = `${sessionId}:${message.id}`;
+    const sessionTermsKey = tenantKey(`${REDIS_KEYS.SEARCH_SESSION_PREFIX}${sessionId}`);
+    await Promise.all([
+      ...terms.map(async (term) => {
+        await conversationStore.sAdd(this.termKey(term), posting);
+        await this.retain(this.termKey(term));
+      }),
+      conversationStore.sAdd(sessionTermsKey, terms).then(() => this.retain(sessionTermsKey)),
+    ]);
+  }
+
+  // Remove a session's postings, e.g. when the session is erased; returns
+  // how many were removed
+  async unindexSession(sessionId: string): Promise<number> {
+    const sessionTermsKey = tenantKey(`${REDIS_KEYS.SEARCH_SESSION_PREFIX}${sessionId}`);
+    const terms = await conversationStore.sMembers(sessionTermsKey);
+    let removed = 0;
+    for (const term of terms) {
+      const postings = (await conversationStore.sMembers(this.termKey(term)))
+        .filter((posting) => posting.startsWith(`${sessionId}:`));
+      if (postings.length > 0) {
+        await conversationStore.sRem(this.termKey(term), postings);
+        removed += postings.length;
+      }
+    }
+    await conversationStore.del(sessionTermsKey);
+    return removed;
+  }
+
+  // Index entries live as long as the sessions they point to
+  private async retain(key: string): Promise<void> {
+    const expiry = tenantService.retentionSeconds('transcripts');
+    if (expiry > 0) {
+      await conversationStore.expire(key, expiry);
+    }
+  }
+
+  // Summaries of indexed sessions, null for those that expired
+  private async summarizeIndexed(
+    indexKey: string,
+    sessionIds: string[],
+    leads: Set<string>
+  ): Promise<(SessionSummary | null)[]> {
+    const summaries = await Promise.all(sessionIds.map((sessionId) => this.summarize(sessionId, leads)));
+
+    // Sessions expire on their own; drop them from the index as they are found
+    const expired = sessionIds.filter((_, index) => !summaries[index]);
+    if (expired.length > 0) {
+      await conversationStore.zRem(indexKey, expired);
+    }
+    return summaries;
+  }
+
+  private async summarize(sessionId: string, leads: Set<string>): Promise<SessionSummary | null> {
+    const meta: SessionMeta | null = await conversationStore.getSessionMeta(sessionId);
+    if (!meta) return null;
+
+    const recent = await conversationStore.getMessages(sessionId, -SUMMARY_WINDOW, SUMMARY_WINDOW);
+    const messages = recent.messages.filter((message) => message.role !== 'tool' && message.content);
+    const lastClassified = [...messages].reverse().find((message) => message.classification);
+    const lastMessage = messages[messages.length - 1];
+
+    return {
+      sessionId,
+      lastActivity: meta.lastActivity,
+      messageCount: recent.total,
+      stage: meta.salesStage?.stage,
+      sentiment: lastClassified?.classification?.sentiment,
+      leadCaptured: leads.has(sessionId),
+      personaId: meta.personaId,
+      lastMessage: lastMessage ? this.truncate(lastMessage.content, PREVIEW_LENGTH) : undefined,
+    };
+  }
+
+  private containsTerms(message: ChatMessage, terms: string[]): boolean {
+    if (message.role === 'tool' || !message.content) return false;
+    const tokens = new Set(tokenize(message.content));
+    return terms.every((term) => tokens.has(term));
+  }
+
+  // Text around the first occurrence of a term; terms are stems, so the
+  // occurrence is searched as a prefix of the lowercased text
+  private toHit(message: ChatMessage, terms: string[]): SearchHit {
+    const text = message.content.toLowerCase();
+    const positions = terms.map((term) => text.indexOf(term)).filter((position) => position >= 0);
+    const position = positions.length > 0 ? Math.min(...positions) : 0;
+    const start = Math.max(0, position - SNIPPET_RADIUS);
+    const end = Math.min(message.content.length, position + SNIPPET_RADIUS);
+
+    return {
+      messageId: message.id,
+      role: message.role,
+      timestamp: message.timestamp,
+      snippet: `${start > 0 ? '…' : ''}${message.content.slice(start, end).trim()}${end < message.content.length ? '…' : ''}`,
+    };
+  }
+
+  private truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+  }
+
+  private page(
+    offset: number | undefined,
+    limit: number | undefined,
+    defaultLimit: number,
+    maxLimit: number,
+    allowNegativeOffset = false
+  ): { offset: number; limit: number } {
+    return {
+      offset: offset === undefined ? 0 : allowNegativeOffset ? Math.trunc(offset) : Math.max(0, Math.trunc(offset)),
+      limit: limit === undefined ? defaultLimit : Math.min(maxLimit, Math.max(1, Math.trunc(limit))),
+    };
+  }
+
+  private termKey(term: string): string {
+    return tenantKey(`${REDIS_KEYS.SEARCH_TERM_PREFIX}${term}`);
+  }
+
+  private notFound(sessionId: string): ErrorResponse {
+    return { error: `Session ${sessionId} not found`, code: ERROR_CODES.NOT_FOUND };
+  }
+}
+
+// Export as singleton
+export const historyService = new HistoryService();
+export default historyService;
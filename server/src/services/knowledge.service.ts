@@ -0,0 +1,255 @@
+import path from 'path';
+import pdfParse from 'pdf-parse';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { currentTenantId, tenantKey } from '../utils/tenant';
+import { ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import {
+  KnowledgeChunk,
+  KnowledgeFormat,
+  KnowledgeSearchResult,
+  KnowledgeSource,
+  SerializedBm25Index,
+} from '../types/knowledge';
+import { chunkDocument } from './knowledge/chunker';
+import { Bm25Index } from './knowledge/bm25';
+import { cosineSimilarity, embed } from './knowledge/embeddings';
+
+const FORMAT_BY_EXTENSION: Record<string, KnowledgeFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.pdf': 'pdf',
+  '.txt': 'text',
+  '.text': 'text',
+};
+
+const MAX_SEARCH_RESULTS = 50;
+
+// Index and documents of one tenant, loaded from Redis on first use
+interface KnowledgeState {
+  index: Bm25Index | null;
+  chunks: Map<string, KnowledgeChunk>;
+  sources: Map<string, KnowledgeSource>;
+  loading: Promise<void> | null;
+  // Index mutations are serialized so concurrent uploads don't overwrite each other
+  mutationQueue: Promise<unknown>;
+}
+
+class KnowledgeService {
+  private states: Map<string, KnowledgeState> = new Map();
+
+  detectFormat(filename: string, mimeType?: string): KnowledgeFormat | null {
+    const byExtension = FORMAT_BY_EXTENSION[path.extname(filename).toLowerCase()];
+    if (byExtension) return byExtension;
+    if (mimeType === 'application/pdf') return 'pdf';
+    if (mimeType === 'text/markdown') return 'markdown';
+    if (mimeType?.startsWith('text/')) return 'text';
+    return null;
+  }
+
+  async addSource(
+    name: string,
+    content: Buffer,
+    format: KnowledgeFormat
+  ): Promise<KnowledgeSource> {
+    const text = await this.extractText(content, format);
+    if (!text.trim()) {
+      throw this.invalidInput(`No text could be extracted from ${name}`);
+    }
+
+    const id = uuidv4();
+    const chunks: KnowledgeChunk[] = chunkDocument(text, format, {
+      chunkSize: config.knowledge.chunkSize,
+      chunkOverlap: config.knowledge.chunkOverlap,
+    }).map((chunk, index) => ({
+      id: `${id}:${index}`,
+      sourceId: id,
+      index,
+      heading: chunk.heading,
+      text: chunk.text,
+      ...(config.knowledge.embeddings
+        ? { embedding: embed(`${chunk.heading || ''} ${chunk.text}`) }
+        : {}),
+    }));
+
+    const source: KnowledgeSource = {
+      id,
+      name,
+      format,
+      size: content.length,
+      chunkCount: chunks.length,
+      createdAt: Date.now(),
+    };
+
+    await this.mutate(async ({ index, chunks: indexed, sources }) => {
+      await conversationStore.set(tenantKey(`${REDIS_KEYS.KB_CHUNKS_PREFIX}${id}`), chunks);
+      await conversationStore.set(tenantKey(`${REDIS_KEYS.KB_SOURCE_PREFIX}${id}`), source);
+      await conversationStore.sAdd(tenantKey(REDIS_KEYS.KB_SOURCES), id);
+
+      for (const chunk of chunks) {
+        index!.addDocument(chunk.id, `${chunk.heading || ''} ${chunk.text}`);
+        indexed.set(chunk.id, chunk);
+      }
+      sources.set(id, source);
+    });
+
+    console.log(`Indexed knowledge source ${name} (${chunks.length} chunks)`);
+    return source;
+  }
+
+  async listSources(): Promise<KnowledgeSource[]> {
+    await this.ensureLoaded();
+    return Array.from(this.state().sources.values())
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async deleteSource(id: string): Promise<void> {
+    await this.ensureLoaded();
+    const source = this.state().sources.get(id);
+    if (!source) {
+      throw {
+        error: `Knowledge source ${id} not found`,
+        code: ERROR_CODES.NOT_FOUND,
+      } as ErrorResponse;
+    }
+
+    await this.mutate(async ({ index, chunks, sources }) => {
+      for (let i = 0; i < source.chunkCount; i++) {
+        index!.removeDocument(`${id}:${i}`);
+        chunks.delete(`${id}:${i}`);
+      }
+      sources.delete(id);
+
+      await conversationStore.del(tenantKey(`${REDIS_KEYS.KB_CHUNKS_PREFIX}${id}`));
+      await conversationStore.del(tenantKey(`${REDIS_KEYS.KB_SOURCE_PREFIX}${id}`));
+      await conversationStore.sRem(tenantKey(REDIS_KEYS.KB_SOURCES), id);
+    });
+  }
+
+  // Hybrid BM25 + (optional) embedding retrieval of the best matching passages
+  async search(
+    query: string,
+    limit: number = config.knowledge.topK
+  ): Promise<KnowledgeSearchResult[]> {
+    await this.ensureLoaded();
+    const { index, chunks, sources } = this.state();
+    if (!index || index.size === 0 || !query.trim()) return [];
+
+    const bm25Scores = index.search(query);
+    const maxBm25 = Math.max(0, ...bm25Scores.values());
+    const weight = config.knowledge.embeddings ? config.knowledge.embeddingWeight : 0;
+    const queryEmbedding = weight > 0 ? embed(query) : null;
+
+    const candidates = queryEmbedding
+      ? Array.from(chunks.keys())
+      : Array.from(bm25Scores.keys());
+
+    return candidates
+      .map((id) => {
+        const chunk = chunks.get(id)!;
+        const lexical = maxBm25 > 0 ? (bm25Scores.get(id) || 0) / maxBm25 : 0;
+        const semantic = queryEmbedding && chunk.embedding
+          ? Math.max(0, cosineSimilarity(queryEmbedding, chunk.embedding))
+          : 0;
+        return {
+          chunk,
+          sourceName: sources.get(chunk.sourceId)?.name || 'unknown',
+          score: (1 - weight) * lexical + weight * semantic,
+        };
+      })
+      .filter((result) => result.score >= config.knowledge.minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.min(MAX_SEARCH_RESULTS, Math.max(1, Math.trunc(limit))));
+  }
+
+  formatForPrompt(results: KnowledgeSearchResult[]): string {
+    return results.map((result, i) => {
+      const title = result.chunk.heading
+        ? `${result.sourceName} — ${result.chunk.heading}`
+        : result.sourceName;
+      return `[${i + 1}] (${title})\n${result.chunk.text}`;
+    }).join('\n\n');
+  }
+
+  private async extractText(content: Buffer, format: KnowledgeFormat): Promise<string> {
+    if (format !== 'pdf') {
+      return content.toString('utf8');
+    }
+    try {
+      const result = await pdfParse(content);
+      return result.text;
+    } catch (error) {
+      throw this.invalidInput('Failed to read PDF document');
+    }
+  }
+
+  // `operation` runs on the loaded state of the current tenant
+  private mutate(operation: (state: KnowledgeState) => Promise<void>): Promise<void> {
+    const state = this.state();
+    const run = state.mutationQueue.then(async () => {
+      await this.ensureLoaded();
+      await operation(state);
+      await conversationStore.set(tenantKey(REDIS_KEYS.KB_INDEX), state.index!.toJSON());
+    });
+    state.mutationQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    const state = this.state();
+    if (!state.loading) {
+      state.loading = this.load(state).catch((error) => {
+        state.loading = null;
+        throw error;
+      });
+    }
+    return state.loading;
+  }
+
+  private async load(state: KnowledgeState): Promise<void> {
+    const serialized: SerializedBm25Index | null = await conversationStore.get(tenantKey(REDIS_KEYS.KB_INDEX));
+    const sourceIds = await conversationStore.sMembers(tenantKey(REDIS_KEYS.KB_SOURCES));
+
+    const sources = new Map<string, KnowledgeSource>();
+    const chunks = new Map<string, KnowledgeChunk>();
+    for (const id of sourceIds) {
+      const source: KnowledgeSource | null = await conversationStore.get(tenantKey(`${REDIS_KEYS.KB_SOURCE_PREFIX}${id}`));
+      const sourceChunks: KnowledgeChunk[] | null = await conversationStore.get(tenantKey(`${REDIS_KEYS.KB_CHUNKS_PREFIX}${id}`));
+      if (!source || !sourceChunks) continue;
+
+      sources.set(id, source);
+      sourceChunks.forEach((chunk) => chunks.set(chunk.id, chunk));
+    }
+
+    // Rebuild the index if it is missing or out of sync with the stored chunks
+    let index = Bm25Index.fromJSON(serialized);
+    if (index.size !== chunks.size) {
+      index = new Bm25Index();
+      chunks.forEach((chunk) => index.addDocument(chunk.id, `${chunk.heading || ''} ${chunk.text}`));
+      await conversationStore.set(tenantKey(REDIS_KEYS.KB_INDEX), index.toJSON());
+    }
+
+    state.sources = sources;
+    state.chunks = chunks;
+    state.index = index;
+  }
+
+  private state(): KnowledgeState {
+    const tenantId = currentTenantId();
+    let state = this.states.get(tenantId);
+    if (!state) {
+      state = { index: null, chunks: new Map(), sources: new Map(), loading: null, mutationQueue: Promise.resolve() };
+      this.states.set(tenantId, state);
+    }
+    return state;
+  }
+
+  private invalidInput(message: string): ErrorResponse {
+    return { error: message, code: ERROR_CODES.INVALID_INPUT };
+  }
+}
+
+// Export as singleton
+export const knowledgeService = new KnowledgeService();
+export default knowledgeService;
@@ -0,0 +1,106 @@
+import { SerializedBm25Index } from '../../types/knowledge';
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'i', 'if',
+  'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our',
+  'so', 'than', 'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'which', 'will', 'with', 'you', 'your',
+]);
+
+// Lowercase word tokens with stop words removed and plural/verb suffixes trimmed
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map((token) => token
+      .replace(/(?<=..)(ies)$/, 'y')
+      .replace(/(?<=...)(ing|ed)$/, '')
+      .replace(/(?<=..[^s])s$/, ''));
+}
+
+export class Bm25Index {
+  private docs: SerializedBm25Index['docs'] = {};
+  private docFreq: Record<string, number> = {};
+  private totalLength = 0;
+
+  constructor(
+    private readonly k1 = 1.2,
+    private readonly b = 0.75
+  ) {}
+
+  static fromJSON(data: SerializedBm25Index | null): Bm25Index {
+    const index = new Bm25Index();
+    if (data) {
+      index.docs = data.docs;
+      index.docFreq = data.docFreq;
+      index.totalLength = data.totalLength;
+    }
+    return index;
+  }
+
+  toJSON(): SerializedBm25Index {
+    return {
+      docs: this.docs,
+      docFreq: this.docFreq,
+      totalLength: this.totalLength,
+    };
+  }
+
+  get size(): number {
+    return Object.keys(this.docs).length;
+  }
+
+  addDocument(id: string, text: string): void {
+    this.removeDocument(id);
+
+    const tokens = tokenize(text);
+    const terms: Record<string, number> = {};
+    for (const token of tokens) {
+      terms[token] = (terms[token] || 0) + 1;
+    }
+    for (const term of Object.keys(terms)) {
+      this.docFreq[term] = (this.docFreq[term] || 0) + 1;
+    }
+
+    this.docs[id] = { length: tokens.length, terms };
+    this.totalLength += tokens.length;
+  }
+
+  removeDocument(id: string): void {
+    const doc = this.docs[id];
+    if (!doc) return;
+
+    for (const term of Object.keys(doc.terms)) {
+      this.docFreq[term] -= 1;
+      if (this.docFreq[term] <= 0) delete this.docFreq[term];
+    }
+    this.totalLength -= doc.length;
+    delete this.docs[id];
+  }
+
+  // Score every document containing at least one query term
+  search(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const docCount = this.size;
+    if (docCount === 0) return scores;
+
+    const avgLength = this.totalLength / docCount || 1;
+    const queryTerms = Array.from(new Set(tokenize(query)));
+
+    for (const [id, doc] of Object.entries(this.docs)) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = doc.terms[term];
+        if (!frequency) continue;
+
+        const df = this.docFreq[term] || 0;
+        const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * (doc.length / avgLength)));
+      }
+      if (score > 0) scores.set(id, score);
+    }
+
+    return scores;
+  }
+}
@@ -0,0 +1,116 @@
+import { KnowledgeFormat } from '../../types/knowledge';
+
+export interface ChunkOptions {
+  chunkSize: number;     // Target maximum characters per chunk
+  chunkOverlap: number;  // Characters carried over from the previous chunk
+}
+
+export interface TextChunk {
+  heading?: string;
+  text: string;
+}
+
+interface Section {
+  heading?: string;
+  body: string;
+}
+
+// Strip Markdown syntax that carries no meaning for retrieval
+function cleanMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')   // Images -> alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')    // Links -> link text
+    .replace(/^\s*[-*+]\s+/gm, '- ')            // Normalize bullets
+    .replace(/[*_]{1,3}([^*_\n]+)[*_]{1,3}/g, '$1')
+    .replace(/^>\s?/gm, '')
+    .replace(/<[^>]+>/g, '');
+}
+
+function splitMarkdownSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { body: '' };
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      if (current.body.trim()) sections.push(current);
+      current = { heading: heading[1].trim(), body: '' };
+    } else {
+      current.body += `${line}\n`;
+    }
+  }
+  if (current.body.trim()) sections.push(current);
+
+  return sections;
+}
+
+// Split oversized paragraphs at sentence boundaries, hard-splitting runaway sentences
+function splitLongParagraph(paragraph: string, chunkSize: number): string[] {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph];
+  const parts: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (sentence.length > chunkSize) {
+      if (current) parts.push(current.trim());
+      current = '';
+      for (let i = 0; i < sentence.length; i += chunkSize) {
+        parts.push(sentence.slice(i, i + chunkSize).trim());
+      }
+    } else if ((current + sentence).length > chunkSize) {
+      parts.push(current.trim());
+      current = sentence;
+    } else {
+      current += sentence;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts.filter(Boolean);
+}
+
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0 || text.length <= overlap) return overlap > 0 ? text : '';
+  const tail = text.slice(-overlap);
+  const wordStart = tail.indexOf(' ');
+  return wordStart >= 0 ? tail.slice(wordStart + 1) : tail;
+}
+
+function chunkSection(section: Section, options: ChunkOptions): TextChunk[] {
+  const paragraphs = section.body
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => paragraph.length > options.chunkSize
+      ? splitLongParagraph(paragraph, options.chunkSize)
+      : [paragraph]);
+
+  const chunks: TextChunk[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 1 > options.chunkSize) {
+      chunks.push({ heading: section.heading, text: current });
+      const carry = overlapTail(current, options.chunkOverlap);
+      current = carry ? `${carry} ${paragraph}` : paragraph;
+    } else {
+      current = current ? `${current}\n${paragraph}` : paragraph;
+    }
+  }
+  if (current) chunks.push({ heading: section.heading, text: current });
+
+  return chunks;
+}
+
+export function chunkDocument(
+  text: string,
+  format: KnowledgeFormat,
+  options: ChunkOptions
+): TextChunk[] {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const sections = format === 'markdown'
+    ? splitMarkdownSections(cleanMarkdown(normalized))
+    : [{ body: normalized }];
+
+  return sections.flatMap((section) => chunkSection(section, options));
+}
@@ -0,0 +1,42 @@
+import { tokenize } from './bm25';
+
+// Local embeddings via feature hashing of unigrams and bigrams. They need no
+// model download or external service and capture lexical overlap that BM25
+// misses (word order, partial phrase matches)
+const DIMENSIONS = 256;
+
+function hash(text: string): number {
+  // FNV-1a
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+export function embed(text: string): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  const tokens = tokenize(text);
+  const features = [
+    ...tokens,
+    ...tokens.slice(1).map((token, i) => `${tokens[i]}_${token}`),
+  ];
+
+  for (const feature of features) {
+    const value = hash(feature);
+    const sign = value & 1 ? 1 : -1;
+    vector[value % DIMENSIONS] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm > 0 ? vector.map((x) => Number((x / norm).toFixed(4))) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot; // Vectors are already normalized
+}
@@ -0,0 +1,242 @@
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { tenantService } from './tenant.service';
+import { tenantKey } from '../utils/tenant';
+import { RuleLeadExtractor } from './leads/rule-extractor';
+import { LlmLeadExtractor } from './leads/llm-extractor';
+import { ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import {
+  BANT_FIELDS,
+  Lead,
+  LeadExtractor,
+  LeadField,
+  LeadFields,
+  LeadFilter,
+  LeadUpdateEvent,
+  StringLeadField,
+} from '../types/lead';
+
+const STRING_FIELDS: StringLeadField[] = [
+  'name', 'company', 'email', 'phone', 'budget', 'authority', 'need', 'timeline',
+];
+
+type LeadListener = (event: LeadUpdateEvent) => void;
+
+class LeadService {
+  private readonly extractors: LeadExtractor[];
+  private readonly listeners: LeadListener[] = [];
+  // Updates of the same lead are serialized so concurrent turns don't overwrite each other
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor() {
+    // Patterns always run; the LLM extractor adds what they miss and wins on conflicts
+    this.extractors = [new RuleLeadExtractor()];
+    if (config.leads.extractor === 'llm') {
+      this.extractors.push(new LlmLeadExtractor());
+    }
+  }
+
+  private leadKey(sessionId: string): string {
+    return tenantKey(`${REDIS_KEYS.LEAD_PREFIX}${sessionId}`);
+  }
+
+  // Called with every lead whose fields changed
+  onLeadUpdated(listener: LeadListener): void {
+    this.listeners.push(listener);
+  }
+
+  async getLead(sessionId: string): Promise<Lead | null> {
+    return conversationStore.get(this.leadKey(sessionId));
+  }
+
+  async listLeads(filter: LeadFilter = {}): Promise<Lead[]> {
+    const sessionIds = await conversationStore.sMembers(tenantKey(REDIS_KEYS.LEAD_INDEX));
+    const leads = await Promise.all(sessionIds.map((sessionId) => this.getLead(sessionId)));
+    const query = filter.query?.toLowerCase();
+
+    // Leads past the tenant's retention are gone; drop them from the index
+    const expired = sessionIds.filter((_, index) => !leads[index]);
+    if (expired.length > 0) {
+      await conversationStore.sRem(tenantKey(REDIS_KEYS.LEAD_INDEX), expired);
+    }
+
+    return leads
+      .filter((lead): lead is Lead => lead !== null)
+      .filter((lead) => filter.qualified === undefined || lead.qualified === filter.qualified)
+      .filter((lead) => !query || [lead.name, lead.company, lead.email]
+        .some((value) => value?.toLowerCase().includes(query)))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  // Extract lead details from a customer message and merge them into the lead
+  async processMessage(sessionId: string, userMessage: string): Promise<LeadUpdateEvent | null> {
+    return this.enqueue(sessionId, async () => {
+      const lead = (await this.getLead(sessionId)) || this.createLead(sessionId);
+      const session = await conversationStore.getSession(sessionId);
+      const lastAssistantMessage = session?.messages
+        .filter((msg) => msg.role === 'assistant' && msg.content)
+        .pop()?.content;
+
+      const extracted: LeadFields = {};
+      for (const extractor of this.extractors) {
+        try {
+          const fields = await extractor.extract({ userMessage, lastAssistantMessage, lead });
+          Object.assign(extracted, fields, {
+            productInterest: this.mergeList(extracted.productInterest, fields.productInterest),
+          });
+        } catch (error) {
+          console.error(`Lead extractor "${extractor.name}" failed:`, error);
+        }
+      }
+
+      return this.applyChanges(lead, extracted, { source: 'customer' });
+    });
+  }
+
+  // Manual corrections, e.g. by an agent reviewing the lead
+  async updateLead(sessionId: string, input: unknown): Promise<Lead> {
+    const fields = this.validateFields(input);
+    return this.enqueue(sessionId, async () => {
+      const lead = await this.getLead(sessionId);
+      if (!lead) {
+        throw this.notFound(sessionId);
+      }
+      const event = await this.applyChanges(lead, fields, { source: 'staff', replaceProducts: true });
+      return event?.lead || lead;
+    });
+  }
+
+  async deleteLead(sessionId: string): Promise<void> {
+    if (!(await this.getLead(sessionId))) {
+      throw this.notFound(sessionId);
+    }
+    await conversationStore.del(this.leadKey(sessionId));
+    await conversationStore.sRem(tenantKey(REDIS_KEYS.LEAD_INDEX), sessionId);
+  }
+
+  private createLead(sessionId: string): Lead {
+    const now = Date.now();
+    return {
+      sessionId,
+      qualificationScore: 0,
+      qualified: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private async applyChanges(
+    lead: Lead,
+    fields: LeadFields,
+    { source, replaceProducts = false }: { source: LeadUpdateEvent['source']; replaceProducts?: boolean }
+  ): Promise<LeadUpdateEvent | null> {
+    const changedFields: LeadField[] = [];
+
+    for (const field of [...STRING_FIELDS, 'budgetAmount'] as const) {
+      if (this.assignField(lead, field, fields[field])) {
+        changedFields.push(field);
+      }
+    }
+
+    if (fields.productInterest) {
+      const products = replaceProducts
+        ? fields.productInterest
+        : this.mergeList(lead.productInterest, fields.productInterest);
+      if (JSON.stringify(products) !== JSON.stringify(lead.productInterest || [])) {
+        lead.productInterest = products;
+        changedFields.push('productInterest');
+      }
+    }
+
+    if (changedFields.length === 0) {
+      return null;
+    }
+
+    lead.qualificationScore = BANT_FIELDS.filter((field) => Boolean(lead[field])).length;
+    lead.qualified = lead.qualificationScore === BANT_FIELDS.length;
+    lead.updatedAt = Date.now();
+    await conversationStore.set(this.leadKey(lead.sessionId), lead, tenantService.retentionSeconds('leads'));
+    await conversationStore.sAdd(tenantKey(REDIS_KEYS.LEAD_INDEX), lead.sessionId);
+
+    const event: LeadUpdateEvent = { lead, changedFields, source };
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Lead listener failed:', error);
+      }
+    }
+    return event;
+  }
+
+  // Set a captured value the lead doesn't have yet; returns whether it changed
+  private assignField<K extends StringLeadField | 'budgetAmount'>(lead: Lead, field: K, value: Lead[K]): boolean {
+    if (value === undefined || value === '' || value === lead[field]) return false;
+    lead[field] = value;
+    return true;
+  }
+
+  private validateFields(input: unknown): LeadFields {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw this.invalidInput('Lead fields must be an object');
+    }
+
+    const fields: LeadFields = {};
+    for (const [key, value] of Object.entries(input)) {
+      if (STRING_FIELDS.includes(key as StringLeadField)) {
+        if (typeof value !== 'string') {
+          throw this.invalidInput(`${key} must be a string`);
+        }
+        fields[key as StringLeadField] = value.trim();
+      } else if (key === 'budgetAmount') {
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          throw this.invalidInput('budgetAmount must be a non-negative number');
+        }
+        fields.budgetAmount = value;
+      } else if (key === 'productInterest') {
+        if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+          throw this.invalidInput('productInterest must be an array of strings');
+        }
+        fields.productInterest = value;
+      } else {
+        throw this.invalidInput(`Unknown lead field: ${key}`);
+      }
+    }
+    return fields;
+  }
+
+  private mergeList(current: string[] = [], added: string[] = []): string[] {
+    const merged = [...current];
+    for (const item of added) {
+      if (!merged.some((existing) => existing.toLowerCase() === item.toLowerCase())) {
+        merged.push(item);
+      }
+    }
+    return merged;
+  }
+
+  private enqueue<T>(sessionId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(sessionId) || Promise.resolve();
+    const run = previous.then(operation);
+    const settled = run.catch(() => undefined);
+    this.queues.set(sessionId, settled);
+    settled.then(() => {
+      if (this.queues.get(sessionId) === settled) {
+        this.queues.delete(sessionId);
+      }
+    });
+    return run;
+  }
+
+  private invalidInput(message: string): ErrorResponse {
+    return { error: message, code: ERROR_CODES.INVALID_INPUT };
+  }
+
+  private notFound(sessionId: string): ErrorResponse {
+    return { error: `Lead for session ${sessionId} not found`, code: ERROR_CODES.NOT_FOUND };
+  }
+}
+
+// Export as singleton
+export const leadService = new LeadService();
+export default leadService;
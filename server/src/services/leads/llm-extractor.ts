@@ -0,0 +1,79 @@
+import config from '../../config/config';
+import { llmProvider } from '../llm.service';
+import { LeadExtractionInput, LeadExtractor, LeadFields } from '../../types/lead';
+
+const EXTRACTION_PROMPT = `You extract sales lead details from a customer's chat message.
+Return only a JSON object with the fields stated or clearly implied by the message:
+name, company, email, phone, budget (as stated), budgetAmount (number),
+authority (the customer's role or decision power), need, timeline,
+productInterest (array of product names).
+Omit fields the message does not mention. Return {} when there is nothing to extract.`;
+
+const STRING_FIELDS = ['name', 'company', 'email', 'phone', 'budget', 'authority', 'need', 'timeline'] as const;
+
+// Extracts fields with the configured LLM provider; catches phrasing the
+// patterns miss (indirect answers, corrections, other languages)
+export class LlmLeadExtractor implements LeadExtractor {
+  readonly name = 'llm' as const;
+
+  async extract({ userMessage, lastAssistantMessage, lead }: LeadExtractionInput): Promise<LeadFields> {
+    const { sessionId, createdAt, updatedAt, qualificationScore, qualified, ...known } = lead;
+    const stream = llmProvider.streamCompletion({
+      model: config.llm.model,
+      temperature: 0,
+      max_tokens: 200,
+      presence_penalty: 0,
+      frequency_penalty: 0,
+      messages: [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        {
+          role: 'user',
+          content: [
+            `Known lead details: ${JSON.stringify(known)}`,
+            lastAssistantMessage ? `Agent's previous message: ${lastAssistantMessage}` : '',
+            `Customer message: ${userMessage}`,
+          ].filter(Boolean).join('\n'),
+        },
+      ],
+    });
+
+    let output = '';
+    for await (const chunk of stream) {
+      output += chunk.content;
+    }
+    return this.parseFields(output);
+  }
+
+  private parseFields(output: string): LeadFields {
+    const json = output.match(/\{[\s\S]*\}/);
+    if (!json) return {};
+
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(json[0]);
+    } catch {
+      console.warn('Lead extractor returned invalid JSON:', output);
+      return {};
+    }
+
+    const fields: LeadFields = {};
+    for (const field of STRING_FIELDS) {
+      const value = parsed[field];
+      if (typeof value === 'string' && value.trim()) {
+        fields[field] = value.trim();
+      }
+    }
+    if (typeof parsed.budgetAmount === 'number' && Number.isFinite(parsed.budgetAmount)) {
+      fields.budgetAmount = parsed.budgetAmount;
+    }
+    if (Array.isArray(parsed.productInterest)) {
+      const products = parsed.productInterest.filter(
+        (item): item is string => typeof item === 'string' && item.trim() !== ''
+      );
+      if (products.length > 0) fields.productInterest = products;
+    }
+    return fields;
+  }
+}
+
+export default LlmLeadExtractor;
@@ -0,0 +1,122 @@
+import { catalogService } from '../catalog.service';
+import { LeadExtractionInput, LeadExtractor, LeadFields } from '../../types/lead';
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d[\d\s.-]{6,}\d/;
+const NAME_PATTERNS = [
+  /\bmy name is\s+([a-z][a-z'-]+(?:\s+[a-z][a-z'-]+)?)/i,
+  // Capitalized words only, so "I'm looking" is not taken for a name
+  /\b(?:[Ii] am|[Ii]'m|[Tt]his is|[Cc]all me)\s+([A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)?)\b/,
+];
+const COMPANY_NAME = '([A-Z][\\w&.-]*(?:\\s+[A-Z][\\w&.-]*){0,3})';
+const COMPANY_PATTERNS = [
+  new RegExp('\\b(?:[Ii] work (?:at|for)|[Ii]\'m (?:with|from)|[Ii] am (?:with|from)|[Ww]e are|[Ww]e\'re|[Oo]ur company is|[Cc]ompany (?:is|called))\\s+' + COMPANY_NAME),
+  // "I'm Jane Doe from Acme Corp"
+  new RegExp('\\b[Ii](?:\'m| am)\\s+[A-Z][a-z\'-]+(?:\\s+[A-Z][a-z\'-]+)?\\s+(?:from|with|at)\\s+' + COMPANY_NAME),
+];
+const BUDGET_PATTERN =
+  /\b(?:budget|spend|afford|allocated)\b[^.?!\d$€£]{0,40}((?:[$€£]\s?)?\d[\d,]*(?:\.\d+)?\s?(?:k|m|thousand|million)?\b(?:\s?(?:dollars|usd|eur|euros|gbp))?(?:\s?(?:per|a|\/)\s?(?:month|year|yr|mo|user|seat|license))?)/i;
+const ROLE_PATTERN =
+  /\b(?:i'm|i am)\s+(?:the\s+|a\s+|an\s+)?((?:ceo|cto|cfo|coo|cio|owner|founder|co-founder|president|vp|vice president|director|head|manager|lead)\b(?:\s+of\s+[a-z]+(?:\s+[a-z]+)?)?)/i;
+const DECISION_PATTERN = /\b(?:i (?:make|sign off on) the (?:decisions?|call)|i'm the decision maker|i decide|my decision)\b/i;
+const APPROVAL_PATTERN =
+  /\b(?:need|needs|get|check with|run it by|approval from|sign-off from)\s+(?:approval\s+from\s+|sign-off\s+from\s+)?(?:my|our)\s+(boss|manager|team|cfo|ceo|director|board|procurement|finance team|partner)/i;
+const NEED_PATTERN =
+  /\b(?:we need|i need|we're looking for|we are looking for|i'm looking for|i am looking for|looking for|we want|interested in|our problem is|we're struggling with|we are struggling with)\s+([^.?!]{3,120})/i;
+const TIMELINE_PATTERN = new RegExp(
+  '\\b(asap|as soon as possible|immediately|right away|urgently|' +
+  '(?:this|next) (?:week|month|quarter|year)|' +
+  '(?:within|in) (?:a|an|one|two|three|four|six|a few|\\d+) (?:days?|weeks?|months?)|' +
+  'by (?:the )?(?:end of (?:the )?(?:week|month|quarter|year)|q[1-4]|' +
+  'january|february|march|april|may|june|july|august|september|october|november|december|next \\w+))\\b',
+  'i'
+);
+
+// Offline extractor based on patterns and catalog lookups
+export class RuleLeadExtractor implements LeadExtractor {
+  readonly name = 'rules' as const;
+
+  async extract({ userMessage }: LeadExtractionInput): Promise<LeadFields> {
+    const fields: LeadFields = {};
+
+    const email = userMessage.match(EMAIL_PATTERN);
+    if (email) fields.email = email[0].toLowerCase();
+
+    const phone = userMessage.replace(EMAIL_PATTERN, '').match(PHONE_PATTERN);
+    if (phone && phone[0].replace(/\D/g, '').length >= 9) {
+      fields.phone = phone[0].trim();
+    }
+
+    for (const pattern of NAME_PATTERNS) {
+      const name = userMessage.match(pattern);
+      if (name) {
+        fields.name = this.capitalize(name[1]);
+        break;
+      }
+    }
+
+    for (const pattern of COMPANY_PATTERNS) {
+      const company = userMessage.match(pattern);
+      if (company) {
+        fields.company = company[1].replace(/[.,]$/, '');
+        break;
+      }
+    }
+
+    const budget = userMessage.match(BUDGET_PATTERN);
+    if (budget) {
+      fields.budget = budget[1].trim();
+      fields.budgetAmount = this.parseAmount(budget[1]);
+    }
+
+    fields.authority = this.extractAuthority(userMessage);
+
+    const need = userMessage.match(NEED_PATTERN);
+    if (need) fields.need = need[1].trim();
+
+    const timeline = userMessage.match(TIMELINE_PATTERN);
+    if (timeline) fields.timeline = timeline[1].toLowerCase();
+
+    const products = await this.findMentionedProducts(userMessage);
+    if (products.length > 0) fields.productInterest = products;
+
+    return fields;
+  }
+
+  private extractAuthority(text: string): string | undefined {
+    const approval = text.match(APPROVAL_PATTERN);
+    if (approval) return `needs approval from ${approval[1].toLowerCase()}`;
+    if (DECISION_PATTERN.test(text)) return 'decision maker';
+    const role = text.match(ROLE_PATTERN);
+    if (role) return role[1];
+    return undefined;
+  }
+
+  // Products named by their full name or SKU
+  private async findMentionedProducts(text: string): Promise<string[]> {
+    const lowered = text.toLowerCase();
+    const products = await catalogService.findRelevant(text, 5);
+    return products
+      .filter((product) =>
+        lowered.includes(product.name.toLowerCase()) ||
+        new RegExp(`\\b${product.sku.toLowerCase().replace(/[.-]/g, '\\$&')}\\b`).test(lowered)
+      )
+      .map((product) => product.name);
+  }
+
+  private parseAmount(text: string): number | undefined {
+    const match = text.toLowerCase().replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s?(k|m|thousand|million)?/);
+    if (!match) return undefined;
+    const multiplier = { k: 1e3, thousand: 1e3, m: 1e6, million: 1e6 }[match[2] as string] || 1;
+    return Number(match[1]) * multiplier;
+  }
+
+  private capitalize(name: string): string {
+    return name
+      .split(/\s+/)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join(' ');
+  }
+}
+
+export default RuleLeadExtractor;
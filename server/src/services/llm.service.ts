@@ -0,0 +1,27 @@
+import config from '../config/config';
+import { tenantService } from './tenant.service';
+import { LLMProvider, LLMProviderName } from '../types/llm';
+import { OpenAIProvider } from './llm/openai.provider';
+import { OpenAICompatibleProvider } from './llm/openai-compatible.provider';
+import { ScriptedProvider } from './llm/scripted.provider';
+
+export function createLLMProvider(
+  name: LLMProviderName = config.llm.provider
+): LLMProvider {
+  switch (name) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config.llm.baseUrl, config.llm.apiKey);
+    case 'scripted':
+      return config.llm.scriptPath
+        ? ScriptedProvider.fromFile(config.llm.scriptPath)
+        : new ScriptedProvider();
+    case 'openai':
+      return new OpenAIProvider(() => tenantService.current().credentials.openaiApiKey);
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+// Export as singleton
+export const llmProvider = createLLMProvider();
+export default llmProvider;
@@ -0,0 +1,92 @@
+import config from '../../config/config';
+import { ERROR_CODES, ErrorResponse } from '../../types/chat';
+import {
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderName,
+  LLMStreamChunk,
+} from '../../types/llm';
+import { isErrorResponse } from '../../utils/errors';
+import { isCancelledError } from '../../utils/abort';
+import { auditService } from '../audit.service';
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  protected readonly maxRetries: number = config.llm.maxRetries;
+  protected readonly retryDelay: number = config.llm.retryDelay;
+
+  // Opens the underlying completion stream; retried as a whole on failure
+  protected abstract openStream(
+    request: LLMCompletionRequest
+  ): Promise<AsyncIterable<LLMStreamChunk>>;
+
+  // Completions requested for a session are timed in its audit log
+  async *streamCompletion(
+    request: LLMCompletionRequest
+  ): AsyncGenerator<LLMStreamChunk> {
+    const startedAt = Date.now();
+    const usage = { chunks: 0, characters: 0, finishReason: undefined as string | null | undefined };
+    let failure: unknown;
+
+    try {
+      const stream = await this.retryOperation(() => this.openStream(request));
+      try {
+        for await (const chunk of stream) {
+          usage.chunks++;
+          usage.characters += chunk.content.length;
+          usage.finishReason = chunk.finishReason || usage.finishReason;
+          yield chunk;
+        }
+      } catch (error) {
+        throw this.mapError(error);
+      }
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      auditService.recordProvider('llm', startedAt, {
+        provider: this.name,
+        model: request.model,
+        messages: request.messages.length,
+        tools: request.tools?.length || 0,
+        ...usage,
+      }, failure);
+    }
+  }
+
+  mapError(error: unknown): ErrorResponse {
+    if (isErrorResponse(error)) {
+      return error;
+    }
+
+    return {
+      error: 'An unexpected error occurred',
+      code: ERROR_CODES.SERVER_ERROR,
+      details: error,
+    };
+  }
+
+  protected isRetryable(error: unknown): boolean {
+    return true;
+  }
+
+  protected async retryOperation<T>(
+    operation: () => Promise<T>,
+    attempt = 1
+  ): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= this.maxRetries || !this.isRetryable(error) || isCancelledError(error)) {
+        console.error(`LLM provider (${this.name}) error:`, error);
+        throw this.mapError(error);
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.retryDelay * attempt)
+      );
+      return this.retryOperation(operation, attempt + 1);
+    }
+  }
+}
+
+export default BaseLLMProvider;
@@ -0,0 +1,126 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { ERROR_CODES, ErrorResponse } from '../../types/chat';
+import { LLMCompletionRequest, LLMStreamChunk } from '../../types/llm';
+import { BaseLLMProvider } from './base.provider';
+
+// The parts of a streamed `chat.completion.chunk` the provider reads
+interface CompletionChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: {
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+    finish_reason?: string | null;
+  }[];
+}
+
+// Generic client for servers exposing the OpenAI chat completions API
+// (llama.cpp server, vLLM, LocalAI, ...)
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly name = 'openai-compatible' as const;
+  private readonly requestTimeout = 60000; // 1 minute timeout
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string
+  ) {
+    super();
+  }
+
+  private getHeaders() {
+    return {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+    };
+  }
+
+  protected async openStream(
+    request: LLMCompletionRequest
+  ): Promise<AsyncIterable<LLMStreamChunk>> {
+    const { signal, ...body } = request;
+    const response = await axios.post(
+      `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      { ...body, stream: true },
+      {
+        headers: this.getHeaders(),
+        timeout: this.requestTimeout,
+        responseType: 'stream',
+        signal,
+      }
+    );
+    return this.parseEventStream(response.data);
+  }
+
+  // Parse server-sent events of the form `data: {...}` terminated by `data: [DONE]`
+  private async *parseEventStream(stream: Readable): AsyncGenerator<LLMStreamChunk> {
+    let buffer = '';
+
+    for await (const data of stream) {
+      buffer += data.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const payload = trimmed.slice('data:'.length).trim();
+        if (payload === '[DONE]') return;
+
+        const chunk: CompletionChunk = JSON.parse(payload);
+        const choice = chunk.choices?.[0];
+        yield {
+          content: choice?.delta?.content || '',
+          toolCalls: choice?.delta?.tool_calls?.map((call, position) => ({
+            index: call.index ?? position,
+            id: call.id,
+            name: call.function?.name,
+            arguments: call.function?.arguments,
+          })),
+          finishReason: choice?.finish_reason,
+        };
+      }
+    }
+  }
+
+  protected isRetryable(error: unknown): boolean {
+    if (axios.isCancel(error)) {
+      return false;
+    }
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      return !status || status === 429 || status >= 500;
+    }
+    return true;
+  }
+
+  mapError(error: unknown): ErrorResponse {
+    if (axios.isAxiosError(error)) {
+      return {
+        error: error.message,
+        code: ERROR_CODES.AI_SERVICE_ERROR,
+        details: {
+          provider: this.name,
+          status: error.response?.status,
+          baseUrl: this.baseUrl,
+        },
+      };
+    }
+    if (error instanceof SyntaxError) {
+      return {
+        error: 'Malformed response from completion endpoint',
+        code: ERROR_CODES.AI_SERVICE_ERROR,
+        details: { provider: this.name, message: error.message },
+      };
+    }
+    return super.mapError(error);
+  }
+}
+
+export default OpenAICompatibleProvider;
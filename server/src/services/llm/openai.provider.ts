@@ -0,0 +1,85 @@
+import OpenAI from 'openai';
+import { ChatCompletionChunk } from 'openai/resources/chat/completions';
+import { ERROR_CODES, ErrorResponse } from '../../types/chat';
+import { LLMCompletionRequest, LLMStreamChunk } from '../../types/llm';
+import { BaseLLMProvider } from './base.provider';
+
+// Client errors that will fail the same way on every attempt
+const NON_RETRYABLE_STATUSES = [400, 401, 403, 404, 422];
+
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name = 'openai' as const;
+  // One client per key; the key is looked up per request, e.g. per tenant
+  private clients: Map<string, OpenAI> = new Map();
+
+  constructor(private readonly apiKey: () => string) {
+    super();
+  }
+
+  private client(): OpenAI {
+    const apiKey = this.apiKey();
+    let client = this.clients.get(apiKey);
+    if (!client) {
+      client = new OpenAI({ apiKey });
+      this.clients.set(apiKey, client);
+    }
+    return client;
+  }
+
+  protected async openStream(
+    request: LLMCompletionRequest
+  ): Promise<AsyncIterable<LLMStreamChunk>> {
+    const { messages, signal, ...params } = request;
+    const stream = await this.client().chat.completions.create({
+      ...params,
+      messages,
+      stream: true,
+    }, { signal });
+    return this.toChunks(stream);
+  }
+
+  private async *toChunks(
+    stream: AsyncIterable<ChatCompletionChunk>
+  ): AsyncGenerator<LLMStreamChunk> {
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      yield {
+        content: choice?.delta?.content || '',
+        toolCalls: choice?.delta?.tool_calls?.map((call) => ({
+          index: call.index,
+          id: call.id,
+          name: call.function?.name,
+          arguments: call.function?.arguments,
+        })),
+        finishReason: choice?.finish_reason,
+      };
+    }
+  }
+
+  protected isRetryable(error: unknown): boolean {
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return false;
+    }
+    if (error instanceof OpenAI.APIError && error.status) {
+      return !NON_RETRYABLE_STATUSES.includes(error.status);
+    }
+    return true;
+  }
+
+  mapError(error: unknown): ErrorResponse {
+    if (error instanceof OpenAI.APIError) {
+      return {
+        error: error.message,
+        code: ERROR_CODES.AI_SERVICE_ERROR,
+        details: {
+          provider: this.name,
+          status: error.status,
+          type: error.type,
+        },
+      };
+    }
+    return super.mapError(error);
+  }
+}
+
+export default OpenAIProvider;
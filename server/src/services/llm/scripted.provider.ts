@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { ERROR_CODES } from '../../types/chat';
+import {
+  LLMCompletionRequest,
+  LLMScript,
+  LLMStreamChunk,
+  ScriptedTurn,
+} from '../../types/llm';
+import { delay, throwIfAborted } from '../../utils/abort';
+import { BaseLLMProvider } from './base.provider';
+
+export const DEFAULT_LLM_SCRIPT: LLMScript = {
+  turns: [
+    {
+      match: '\\b(hi|hello|hey)\\b',
+      response: "Hello! I'm your sales assistant. What are you looking for today?",
+    },
+    {
+      match: '\\b(what time|what day|today.s date)\\b',
+      response: 'Let me check the time for you.',
+      toolCall: { name: 'get_current_time', arguments: {} },
+      followUp: 'Right now it is {{result.formatted}}.',
+    },
+    {
+      match: '\\b(price|pricing|cost|how much)\\b',
+      response: 'Happy to help with pricing. Which product or plan are you interested in?',
+    },
+    {
+      match: '\\b(bye|goodbye|thanks|thank you)\\b',
+      response: 'Thanks for chatting with me! Reach out any time if you have more questions.',
+    },
+  ],
+  fallback: [
+    'Could you tell me a bit more about what you need?',
+    'That makes sense. What matters most to you in a solution like this?',
+    'Got it. Would you like me to recommend an option based on that?',
+  ],
+  tokenDelayMs: 0,
+};
+
+// Deterministic provider for offline development and tests: replies are
+// picked from a script instead of being generated
+export class ScriptedProvider extends BaseLLMProvider {
+  readonly name = 'scripted' as const;
+
+  constructor(private readonly script: LLMScript = DEFAULT_LLM_SCRIPT) {
+    super();
+  }
+
+  static fromFile(scriptPath: string): ScriptedProvider {
+    try {
+      const script = JSON.parse(fs.readFileSync(scriptPath, 'utf8'));
+      return new ScriptedProvider({
+        ...DEFAULT_LLM_SCRIPT,
+        ...script,
+      });
+    } catch (error) {
+      throw {
+        error: `Failed to load LLM script from ${scriptPath}`,
+        code: ERROR_CODES.SERVER_ERROR,
+        details: error,
+      };
+    }
+  }
+
+  protected async openStream(
+    request: LLMCompletionRequest
+  ): Promise<AsyncIterable<LLMStreamChunk>> {
+    const { messages, tools = [], signal } = request;
+    const turn = this.findTurn(messages);
+    const lastMessage = messages[messages.length - 1];
+
+    if (turn?.toolCall && lastMessage?.role === 'tool') {
+      const followUp = turn.followUp || 'Here is what I found: {{result}}';
+      return this.streamText(
+        this.renderFollowUp(followUp, String(lastMessage.content)),
+        signal
+      );
+    }
+
+    const toolAvailable = tools.some(
+      (tool) => tool.function.name === turn?.toolCall?.name
+    );
+    if (turn?.toolCall && toolAvailable) {
+      return this.streamToolCall(turn.response, turn.toolCall, messages.length, signal);
+    }
+
+    return this.streamText(turn ? turn.response : this.selectFallback(messages), signal);
+  }
+
+  // Substitute `{{result}}` or `{{result.path.to.field}}` with the tool output
+  private renderFollowUp(template: string, toolContent: string): string {
+    let result: unknown = toolContent;
+    try {
+      result = JSON.parse(toolContent);
+    } catch {
+      // Plain text result
+    }
+
+    return template.replace(/\{\{result((?:\.\w+)*)\}\}/g, (_match, path: string) => {
+      const value = path
+        .split('.')
+        .filter(Boolean)
+        .reduce<unknown>(
+          (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+          result
+        );
+      return typeof value === 'string' ? value : JSON.stringify(value ?? null);
+    });
+  }
+
+  private getUserMessages(messages: ChatCompletionMessageParam[]) {
+    return messages.filter((msg) => msg.role === 'user');
+  }
+
+  private findTurn(messages: ChatCompletionMessageParam[]): ScriptedTurn | undefined {
+    const userMessages = this.getUserMessages(messages);
+    const lastUserMessage = userMessages[userMessages.length - 1];
+    const text = typeof lastUserMessage?.content === 'string'
+      ? lastUserMessage.content
+      : '';
+
+    return this.script.turns.find((candidate: ScriptedTurn) =>
+      !candidate.match || new RegExp(candidate.match, 'i').test(text)
+    );
+  }
+
+  private selectFallback(messages: ChatCompletionMessageParam[]): string {
+    const { fallback } = this.script;
+    if (fallback.length === 0) {
+      return '';
+    }
+    const userTurns = this.getUserMessages(messages).length;
+    return fallback[(userTurns - 1 + fallback.length) % fallback.length];
+  }
+
+  // Say the turn's response, then request the tool
+  private async *streamToolCall(
+    response: string,
+    toolCall: NonNullable<ScriptedTurn['toolCall']>,
+    sequence: number,
+    signal?: AbortSignal
+  ): AsyncGenerator<LLMStreamChunk> {
+    for await (const chunk of this.streamText(response, signal)) {
+      if (chunk.content) yield chunk;
+    }
+    yield {
+      content: '',
+      toolCalls: [{
+        index: 0,
+        id: `call_scripted_${sequence}`,
+        name: toolCall.name,
+        arguments: JSON.stringify(toolCall.arguments),
+      }],
+    };
+    yield { content: '', finishReason: 'tool_calls' };
+  }
+
+  private async *streamText(
+    text: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<LLMStreamChunk> {
+    const tokens = text.match(/\S+\s*/g) || [];
+
+    for (const token of tokens) {
+      if (this.script.tokenDelayMs) {
+        await delay(this.script.tokenDelayMs, signal);
+      }
+      throwIfAborted(signal);
+      yield { content: token };
+    }
+
+    yield { content: '', finishReason: 'stop' };
+  }
+}
+
+export default ScriptedProvider;
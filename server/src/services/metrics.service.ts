@@ -0,0 +1,116 @@
+import { SpeechMetrics } from '../types/streaming';
+import { TurnClassification } from '../types/classification';
+import { StageTransition } from '../types/sales-stage';
+import { ClassificationSummary, LatencySummary, SpeechMetricsSummary, StageSummary } from '../types/metrics';
+import { currentTenantId } from '../utils/tenant';
+
+interface TenantSamples {
+  speechSamples: SpeechMetrics[];
+  classificationSamples: TurnClassification[];
+  stageTransitions: StageTransition[];
+}
+
+// In-memory metrics of recent spoken replies, classified user turns and
+// sales-stage transitions (per server process and tenant)
+class MetricsService {
+  private readonly maxSamples = 500;
+  private tenants: Map<string, TenantSamples> = new Map();
+
+  recordSpeech(metrics: SpeechMetrics): void {
+    const { speechSamples } = this.samples();
+    speechSamples.push(metrics);
+    if (speechSamples.length > this.maxSamples) {
+      speechSamples.shift();
+    }
+    console.log(
+      `Speech stream ${metrics.streamId}: first token ${metrics.firstTokenMs ?? '-'}ms, ` +
+      `first audio ${metrics.firstAudioMs ?? '-'}ms, total ${metrics.totalMs}ms, ` +
+      `${metrics.chunks} chunks${metrics.interrupted ? ' (interrupted)' : ''}`
+    );
+  }
+
+  getSpeechSummary(): SpeechMetricsSummary {
+    const { speechSamples } = this.samples();
+    return {
+      samples: speechSamples.length,
+      interrupted: speechSamples.filter((sample) => sample.interrupted).length,
+      timeToFirstAudio: this.summarize(speechSamples.map((sample) => sample.firstAudioMs)),
+      timeToFirstToken: this.summarize(speechSamples.map((sample) => sample.firstTokenMs)),
+      total: this.summarize(speechSamples.map((sample) => sample.totalMs)),
+    };
+  }
+
+  recordClassification(classification: TurnClassification): void {
+    const { classificationSamples } = this.samples();
+    classificationSamples.push(classification);
+    if (classificationSamples.length > this.maxSamples) {
+      classificationSamples.shift();
+    }
+  }
+
+  getClassificationSummary(): ClassificationSummary {
+    const { classificationSamples } = this.samples();
+    const count = (key: 'intent' | 'sentiment' | 'urgency') =>
+      classificationSamples.reduce<Record<string, number>>((counts, sample) => {
+        counts[sample[key]] = (counts[sample[key]] || 0) + 1;
+        return counts;
+      }, {});
+
+    return {
+      samples: classificationSamples.length,
+      intents: count('intent'),
+      sentiments: count('sentiment'),
+      urgencies: count('urgency'),
+    };
+  }
+
+  recordStageTransition(transition: StageTransition): void {
+    const { stageTransitions } = this.samples();
+    stageTransitions.push(transition);
+    if (stageTransitions.length > this.maxSamples) {
+      stageTransitions.shift();
+    }
+  }
+
+  getStageSummary(): StageSummary {
+    const { stageTransitions } = this.samples();
+    const entered: Record<string, number> = {};
+    const transitions: Record<string, number> = {};
+    for (const { from, to } of stageTransitions) {
+      entered[to] = (entered[to] || 0) + 1;
+      transitions[`${from}->${to}`] = (transitions[`${from}->${to}`] || 0) + 1;
+    }
+    return { samples: stageTransitions.length, entered, transitions };
+  }
+
+  private samples(): TenantSamples {
+    const tenantId = currentTenantId();
+    let samples = this.tenants.get(tenantId);
+    if (!samples) {
+      samples = { speechSamples: [], classificationSamples: [], stageTransitions: [] };
+      this.tenants.set(tenantId, samples);
+    }
+    return samples;
+  }
+
+  private summarize(values: Array<number | undefined>): LatencySummary | null {
+    const sorted = values
+      .filter((value): value is number => value !== undefined)
+      .sort((a, b) => a - b);
+    if (sorted.length === 0) return null;
+
+    const percentile = (p: number) =>
+      sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+    return {
+      count: sorted.length,
+      avg: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+      p50: percentile(50),
+      p95: percentile(95),
+      max: sorted[sorted.length - 1],
+    };
+  }
+}
+
+// Export as singleton
+export const metricsService = new MetricsService();
+export default metricsService;
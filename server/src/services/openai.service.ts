@@ -1,157 +1,367 @@
-import OpenAI from 'openai';
 import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import config from '../config/config';
-import { redisService } from './redis.service';
-import { ChatMessage, ChatConfig, ERROR_CODES, ErrorResponse } from '../types/chat';
+import { conversationStore } from './store.service';
+import { llmProvider } from './llm.service';
+import { toolRegistry } from './tool-registry.service';
+import { catalogService } from './catalog.service';
+import { knowledgeService } from './knowledge.service';
+import { personaService } from './persona.service';
+import { contextService } from './context.service';
+import { generationConfigService } from './generation-config.service';
+import { salesStageService } from './sales-stage.service';
+import { coachingService } from './coaching.service';
+import { ChatMessage, ChatConfig, ErrorResponse } from '../types/chat';
+import { LLMToolCallDelta } from '../types/llm';
+import { ToolCall, ToolEvent } from '../types/tools';
+import { ResolvedPersona } from '../types/persona';
+import { cancelledError, throwIfAborted } from '../utils/abort';
 import { v4 as uuidv4 } from 'uuid';
 
-class OpenAIService {
-  private openai: OpenAI;
-  private readonly config: ChatConfig;
-  private readonly maxRetries = 3;
-  private readonly retryDelay = 1000; // 1 second
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.openaiApiKey,
-    });
-
-    this.config = {
-      model: 'gpt-4-turbo-preview',
-      temperature: 0.7,
-      max_tokens: 150, // Reduced for shorter responses
-      presence_penalty: 0.6,
-      frequency_penalty: 0.5,
-    };
+export interface GenerateOptions {
+  config?: Partial<ChatConfig>;  // Per-request overrides of the session's settings
+  signal?: AbortSignal;          // Cancels the turn; the streamed part is kept as interrupted
+  responseId?: string;           // Id of the assistant reply, e.g. to reference it when cancelling
+  onToolEvent?: (event: ToolEvent) => void;
+}
 
-    this.salesAgentPrompt += '\n\nIMPORTANT: Keep your responses concise and to the point, ideally under 100 words.';
-  }
+class OpenAIService {
+  private readonly maxToolSteps = config.llm.maxToolSteps;
 
-  private readonly salesAgentPrompt = `You are an experienced and friendly AI sales agent. Your role is to:
-- Engage customers professionally and courteously
-- Understand customer needs through active listening
-- Provide relevant product information and recommendations
-- Address concerns and objections effectively
-- Guide customers through the sales process
-- Maintain a helpful and non-pushy approach
-
-Remember to:
-- keep the response crisp and under 300 cracter limit if possible
-- Be natural and conversational
-- Show empathy and understanding
-- Focus on value and solutions
-- Be honest and transparent
-- Follow up on customer questions
-- Maintain professional boundaries`;
-
-  private async getSystemMessage(): Promise<ChatCompletionMessageParam> {
+  private async getSystemMessage(
+    sessionId: string,
+    persona: ResolvedPersona
+  ): Promise<ChatCompletionMessageParam> {
+    const { stage } = await salesStageService.getState(sessionId);
     return {
       role: 'system',
-      content: this.salesAgentPrompt,
+      content: `${persona.systemPrompt}\n\n${salesStageService.getInstructions(stage)}`,
     };
   }
 
   private async buildMessages(
     sessionId: string,
-    userMessage: string
+    userMessage: string,
+    persona: ResolvedPersona,
+    generationConfig: ChatConfig,
+    responseId: string
   ): Promise<ChatCompletionMessageParam[]> {
-    const recentMessages = await redisService.getRecentMessages(sessionId);
+    const systemMessage = await this.getSystemMessage(sessionId, persona);
+    const contextMessages = (await Promise.all([
+      this.getCatalogMessage(userMessage),
+      this.getKnowledgeMessage(userMessage),
+    ])).filter((msg): msg is ChatCompletionMessageParam => msg !== null);
+    const coachingMessages = await this.getCoachingMessages(sessionId, responseId);
+    const userParam: ChatCompletionMessageParam = { role: 'user', content: userMessage };
+
+    // History gets what is left of the window after the fixed prompt and the reply
+    const fixedTokens = [systemMessage, ...contextMessages, ...coachingMessages, userParam].reduce(
+      (sum, msg) => sum + contextService.countTokens(String(msg.content || '')),
+      0
+    );
+    const history = await contextService.buildContext(
+      sessionId,
+      userMessage,
+      config.context.windowTokens - generationConfig.max_tokens - fixedTokens
+    );
+
     const messages: ChatCompletionMessageParam[] = [
-      await this.getSystemMessage(),
-      ...recentMessages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      { role: 'user', content: userMessage },
+      systemMessage,
+      ...contextMessages,
+      ...(history.summary ? [this.getSummaryMessage(history.summary)] : []),
+      ...this.dropIncompleteToolTurns(history.messages).map((msg) => this.toMessageParam(msg)),
+      ...coachingMessages,
+      userParam,
     ];
     return messages;
   }
 
-  private async retryOperation<T>(
-    operation: () => Promise<T>,
-    attempt = 1
-  ): Promise<T> {
+  // Supervisor whispers for this reply only; they are never stored in the history
+  private async getCoachingMessages(
+    sessionId: string,
+    responseId: string
+  ): Promise<ChatCompletionMessageParam[]> {
     try {
-      return await operation();
+      const whispers = await coachingService.takePending(sessionId, responseId);
+      if (whispers.length === 0) return [];
+      return [{ role: 'system', content: coachingService.formatForPrompt(whispers) }];
     } catch (error) {
-      if (attempt >= this.maxRetries) {
-        throw this.handleError(error);
-      }
-      await new Promise((resolve) => 
-        setTimeout(resolve, this.retryDelay * attempt)
-      );
-      return this.retryOperation(operation, attempt + 1);
+      console.error('Failed to load supervisor whispers:', error);
+      return [];
     }
   }
 
-  private handleError(error: any): ErrorResponse {
-    console.error('OpenAI Service Error:', error);
+  private getSummaryMessage(summary: string): ChatCompletionMessageParam {
+    return {
+      role: 'system',
+      content: `Summary of the earlier conversation with this customer:\n${summary}`,
+    };
+  }
+
+  // Ground the answer in catalog entries matching the user's message
+  private async getCatalogMessage(
+    userMessage: string
+  ): Promise<ChatCompletionMessageParam | null> {
+    try {
+      const products = await catalogService.findRelevant(userMessage);
+      if (products.length === 0) return null;
 
-    if (error instanceof OpenAI.APIError) {
       return {
-        error: error.message,
-        code: ERROR_CODES.AI_SERVICE_ERROR,
-        details: {
-          status: error.status,
-          type: error.type,
-        },
+        role: 'system',
+        content: 'Product catalog entries relevant to the customer\'s message. ' +
+          'Only quote prices, stock and specifications from this data:\n' +
+          catalogService.formatForPrompt(products),
       };
+    } catch (error) {
+      console.error('Failed to load catalog context:', error);
+      return null;
     }
+  }
 
-    return {
-      error: 'An unexpected error occurred',
-      code: ERROR_CODES.SERVER_ERROR,
-      details: error,
-    };
+  // Retrieve knowledge base passages (FAQs, policies, spec sheets) for the turn
+  private async getKnowledgeMessage(
+    userMessage: string
+  ): Promise<ChatCompletionMessageParam | null> {
+    try {
+      const results = await knowledgeService.search(userMessage);
+      if (results.length === 0) return null;
+
+      return {
+        role: 'system',
+        content: 'Reference passages from the company knowledge base. ' +
+          'Answer from these when relevant and say so if they do not cover the question:\n\n' +
+          knowledgeService.formatForPrompt(results),
+      };
+    } catch (error) {
+      console.error('Failed to retrieve knowledge passages:', error);
+      return null;
+    }
+  }
+
+  private toMessageParam(msg: ChatMessage): ChatCompletionMessageParam {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: msg.toolCallId || '',
+        content: msg.content,
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+
+    return { role: msg.role, content: msg.content };
+  }
+
+  // The model rejects tool results without their originating call and calls
+  // without results, both of which appear when the history window cuts a turn
+  private dropIncompleteToolTurns(messages: ChatMessage[]): ChatMessage[] {
+    const answeredCalls = new Set(
+      messages.filter((msg) => msg.role === 'tool').map((msg) => msg.toolCallId)
+    );
+    const requestedCalls = new Set<string>();
+
+    return messages.filter((msg) => {
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        const complete = msg.toolCalls.every((call) => answeredCalls.has(call.id));
+        if (complete) {
+          msg.toolCalls.forEach((call) => requestedCalls.add(call.id));
+        }
+        return complete;
+      }
+      if (msg.role === 'tool') {
+        return requestedCalls.has(msg.toolCallId || '');
+      }
+      return true;
+    });
+  }
+
+  private mergeToolCallDeltas(
+    pending: Map<number, ToolCall>,
+    deltas: LLMToolCallDelta[]
+  ): void {
+    for (const delta of deltas) {
+      const call = pending.get(delta.index) || { id: '', name: '', arguments: '' };
+      if (delta.id) call.id = delta.id;
+      if (delta.name) call.name += delta.name;
+      if (delta.arguments) call.arguments += delta.arguments;
+      pending.set(delta.index, call);
+    }
+  }
+
+  private async runToolCalls(
+    sessionId: string,
+    toolCalls: ToolCall[],
+    options: GenerateOptions
+  ): Promise<ChatMessage[]> {
+    const results: ChatMessage[] = [];
+
+    for (const call of toolCalls) {
+      options.onToolEvent?.({
+        type: 'call',
+        id: call.id,
+        name: call.name,
+        arguments: this.parseArguments(call.arguments),
+        timestamp: Date.now(),
+      });
+
+      const result = await toolRegistry.execute(call, { sessionId });
+
+      options.onToolEvent?.({
+        type: 'result',
+        id: call.id,
+        name: call.name,
+        result: JSON.parse(result.content),
+        isError: result.isError,
+        timestamp: Date.now(),
+      });
+
+      results.push({
+        id: uuidv4(),
+        role: 'tool',
+        content: result.content,
+        toolCallId: call.id,
+        name: call.name,
+        timestamp: Date.now(),
+      });
+    }
+
+    return results;
+  }
+
+  private parseArguments(args: string): unknown {
+    try {
+      return args ? JSON.parse(args) : {};
+    } catch {
+      return args;
+    }
+  }
+
+  private handleError(error: any): ErrorResponse {
+    console.error('OpenAI Service Error:', error);
+    return llmProvider.mapError(error);
   }
 
   async generateResponse(
     sessionId: string,
-    userMessage: string
+    userMessage: string,
+    options: GenerateOptions = {}
   ): Promise<AsyncGenerator<ChatMessage>> {
-    const messages = await this.buildMessages(sessionId, userMessage);
+    const persona = await personaService.resolveForSession(sessionId);
+    const generationConfig = await generationConfigService.resolve(sessionId, persona, options.config);
+    const responseId = options.responseId || uuidv4();
+    const messages = await this.buildMessages(sessionId, userMessage, persona, generationConfig, responseId);
+    const tools = toolRegistry.getSchemas();
+    const personaFields = { personaId: persona.id, personaVersion: persona.version };
+    const { signal } = options;
 
     async function* streamResponse(
       this: OpenAIService
     ): AsyncGenerator<ChatMessage> {
+      // Content streamed to the caller across all steps of the turn
+      let accumulatedContent = '';
+
       try {
-        const stream = await this.retryOperation(() =>
-          this.openai.chat.completions.create({
-            ...this.config,
+        for (let step = 0; step <= this.maxToolSteps; step++) {
+          throwIfAborted(signal);
+          const toolsAllowed = tools.length > 0 && step < this.maxToolSteps;
+          const stream = llmProvider.streamCompletion({
+            ...generationConfig,
             messages,
-            stream: true,
-          })
-        );
-
-        let accumulatedContent = '';
-        
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            accumulatedContent += content;
-            
-            const message: ChatMessage = {
-              id: uuidv4(),
-              role: 'assistant',
-              content: accumulatedContent,
-              timestamp: Date.now(),
-            };
+            tools: toolsAllowed ? tools : undefined,
+            signal,
+          });
+
+          const pendingCalls: Map<number, ToolCall> = new Map();
+          let stepContent = '';
+
+          for await (const chunk of stream) {
+            throwIfAborted(signal);
+            if (chunk.toolCalls?.length) {
+              this.mergeToolCallDeltas(pendingCalls, chunk.toolCalls);
+            }
+
+            let content = chunk.content;
+            // Text of a step after a tool call continues the earlier text
+            if (content && !stepContent && /\S$/.test(accumulatedContent) && /^\S/.test(content)) {
+              content = ` ${content}`;
+            }
+            if (content) {
+              accumulatedContent += content;
+              stepContent += content;
+
+              const message: ChatMessage = {
+                id: responseId,
+                role: 'assistant',
+                content: accumulatedContent,
+                timestamp: Date.now(),
+                ...personaFields,
+              };
+
+              yield message;
+            }
+          }
+
+          if (pendingCalls.size === 0) {
+            break;
+          }
+
+          // Record the tool request and its results, then let the model continue.
+          // Text written before the call is stored with the reply under
+          // `responseId`, where the guardrails and fact-checker rewrite it.
+          const toolCalls = Array.from(pendingCalls.values());
+          const toolCallMessage: ChatMessage = {
+            id: uuidv4(),
+            role: 'assistant',
+            content: '',
+            toolCalls,
+            timestamp: Date.now(),
+            ...personaFields,
+          };
+          await conversationStore.addMessageToSession(sessionId, toolCallMessage);
+          messages.push(this.toMessageParam({ ...toolCallMessage, content: stepContent }));
 
-            yield message;
+          const toolMessages = await this.runToolCalls(sessionId, toolCalls, options);
+          for (const toolMessage of toolMessages) {
+            await conversationStore.addMessageToSession(sessionId, toolMessage);
+            messages.push(this.toMessageParam(toolMessage));
           }
         }
 
-        // Save the complete message to Redis
+        // Save the reply as it was streamed, across all steps
         if (accumulatedContent) {
           const finalMessage: ChatMessage = {
-            id: uuidv4(),
+            id: responseId,
             role: 'assistant',
             content: accumulatedContent,
             timestamp: Date.now(),
+            ...personaFields,
           };
-          await redisService.addMessageToSession(sessionId, finalMessage);
+          await conversationStore.addMessageToSession(sessionId, finalMessage);
         }
       } catch (error) {
+        if (signal?.aborted) {
+          // Keep what was already streamed to the client
+          if (accumulatedContent) {
+            await conversationStore.addMessageToSession(sessionId, {
+              id: responseId,
+              role: 'assistant',
+              content: accumulatedContent,
+              timestamp: Date.now(),
+              interrupted: true,
+              ...personaFields,
+            });
+          }
+          throw cancelledError('Response cancelled');
+        }
         throw this.handleError(error);
       }
     }
@@ -161,7 +371,7 @@ Remember to:
 
   async updateContext(sessionId: string, context: string): Promise<void> {
     try {
-      await redisService.updateContext(sessionId, context);
+      await conversationStore.updateContext(sessionId, context);
     } catch (error) {
       throw this.handleError(error);
     }
@@ -0,0 +1,256 @@
+import { conversationStore } from './store.service';
+import { tenantKey } from '../utils/tenant';
+import { ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import { GenerationParams } from '../types/generation';
+import {
+  DEFAULT_PERSONA_ID,
+  Persona,
+  PersonaInput,
+  PersonaSummary,
+  PersonaVersion,
+  ResolvedPersona,
+} from '../types/persona';
+import { sanitizeGenerationParams } from '../utils/generation';
+
+const DEFAULT_SALES_AGENT_PROMPT = `You are an experienced and friendly AI sales agent for {{companyName}}. Your role is to:
+- Engage customers professionally and courteously
+- Understand customer needs through active listening
+- Provide relevant {{productLine}} information and recommendations
+- Address concerns and objections effectively
+- Guide customers through the sales process
+- Maintain a helpful and non-pushy approach
+
+Remember to:
+- keep the response crisp and under 300 cracter limit if possible
+- Be natural and conversational
+- Show empathy and understanding
+- Focus on value and solutions
+- Be honest and transparent
+- Follow up on customer questions
+- Maintain professional boundaries
+
+IMPORTANT: Keep your responses concise and to the point, ideally under 100 words.`;
+
+class PersonaService {
+  private personaKey(id: string): string {
+    return tenantKey(`${REDIS_KEYS.PERSONA_PREFIX}${id}`);
+  }
+
+  private buildDefaultPersona(): Persona {
+    const now = Date.now();
+    return {
+      id: DEFAULT_PERSONA_ID,
+      name: 'Sales Agent',
+      description: 'General-purpose friendly sales agent',
+      currentVersion: 1,
+      versions: [{
+        version: 1,
+        systemPrompt: DEFAULT_SALES_AGENT_PROMPT,
+        generation: {},
+        variables: {
+          companyName: 'our company',
+          productLine: 'product',
+        },
+        createdAt: now,
+      }],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  // Store the built-in persona so it can be edited like any other
+  async ensureDefaultPersona(): Promise<void> {
+    if (!(await conversationStore.exists(this.personaKey(DEFAULT_PERSONA_ID)))) {
+      await this.savePersona(this.buildDefaultPersona());
+      console.log(`Seeded default persona "${DEFAULT_PERSONA_ID}"`);
+    }
+  }
+
+  async listPersonas(): Promise<PersonaSummary[]> {
+    const ids = await conversationStore.sMembers(tenantKey(REDIS_KEYS.PERSONA_INDEX));
+    const personas = await Promise.all(ids.map((id) => this.getPersona(id)));
+    return personas
+      .filter((persona): persona is Persona => persona !== null)
+      .map(({ versions, ...summary }) => ({ ...summary, versionCount: versions.length }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPersona(id: string): Promise<Persona | null> {
+    const persona: Persona | null = await conversationStore.get(this.personaKey(id));
+    if (!persona && id === DEFAULT_PERSONA_ID) {
+      return this.buildDefaultPersona();
+    }
+    return persona;
+  }
+
+  async createPersona(input: PersonaInput): Promise<Persona> {
+    const id = typeof input.id === 'string' ? input.id.trim() : '';
+    if (!/^[a-z0-9-]{1,64}$/.test(id)) {
+      throw this.invalidInput('id is required and may only contain lowercase letters, digits and "-"');
+    }
+    if (await conversationStore.exists(this.personaKey(id))) {
+      throw this.invalidInput(`Persona ${id} already exists`);
+    }
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw this.invalidInput('name is required');
+    }
+    if (typeof input.systemPrompt !== 'string' || !input.systemPrompt.trim()) {
+      throw this.invalidInput('systemPrompt is required');
+    }
+
+    const now = Date.now();
+    const persona: Persona = {
+      id,
+      name: input.name.trim(),
+      description: input.description,
+      currentVersion: 1,
+      versions: [this.buildVersion(1, input)],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.savePersona(persona);
+    return persona;
+  }
+
+  // Every update creates a new version based on the current one and makes it current
+  async updatePersona(id: string, input: PersonaInput): Promise<Persona> {
+    const persona = await this.requirePersona(id);
+    const current = this.getVersion(persona, persona.currentVersion);
+    const nextVersion = Math.max(...persona.versions.map((v) => v.version)) + 1;
+
+    persona.versions.push(this.buildVersion(nextVersion, {
+      systemPrompt: current.systemPrompt,
+      voice: current.voice,
+      ...input,
+      generation: { ...current.generation, ...input.generation },
+      variables: { ...current.variables, ...input.variables },
+    }));
+    persona.currentVersion = nextVersion;
+    if (typeof input.name === 'string' && input.name.trim()) persona.name = input.name.trim();
+    if (input.description !== undefined) persona.description = input.description;
+    persona.updatedAt = Date.now();
+
+    await this.savePersona(persona);
+    return persona;
+  }
+
+  // Make an existing version current again (e.g. to roll back a prompt change)
+  async activateVersion(id: string, version: number): Promise<Persona> {
+    const persona = await this.requirePersona(id);
+    this.getVersion(persona, version);
+    persona.currentVersion = version;
+    persona.updatedAt = Date.now();
+    await this.savePersona(persona);
+    return persona;
+  }
+
+  async deletePersona(id: string): Promise<void> {
+    if (id === DEFAULT_PERSONA_ID) {
+      throw this.invalidInput('The default persona cannot be deleted');
+    }
+    await this.requirePersona(id);
+    await conversationStore.del(this.personaKey(id));
+    await conversationStore.sRem(tenantKey(REDIS_KEYS.PERSONA_INDEX), id);
+  }
+
+  // Resolve a persona for generation, falling back to the default persona
+  async resolve(id?: string, version?: number): Promise<ResolvedPersona> {
+    let persona = id ? await this.getPersona(id) : null;
+    if (!persona) {
+      if (id) console.warn(`Persona ${id} not found, using default persona`);
+      persona = (await this.getPersona(DEFAULT_PERSONA_ID))!;
+      version = undefined;
+    }
+
+    const selected = persona.versions.find((v) => v.version === version) ||
+      this.getVersion(persona, persona.currentVersion);
+
+    return {
+      id: persona.id,
+      name: persona.name,
+      version: selected.version,
+      systemPrompt: this.renderTemplate(selected.systemPrompt, selected.variables),
+      generation: selected.generation,
+      voice: selected.voice,
+    };
+  }
+
+  async resolveForSession(sessionId: string): Promise<ResolvedPersona> {
+    const session = await conversationStore.getSession(sessionId);
+    return this.resolve(session?.personaId, session?.personaVersion);
+  }
+
+  private renderTemplate(template: string, variables: Record<string, string>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+      if (variables[name] === undefined) {
+        console.warn(`Persona template variable "${name}" has no value`);
+        return '';
+      }
+      return variables[name];
+    });
+  }
+
+  private buildVersion(version: number, input: PersonaInput): PersonaVersion {
+    if (input.voice !== undefined && typeof input.voice !== 'string') {
+      throw this.invalidInput('voice must be a string');
+    }
+    const variables = input.variables || {};
+    if (typeof variables !== 'object' || Array.isArray(variables) ||
+        !Object.values(variables).every((value) => typeof value === 'string')) {
+      throw this.invalidInput('variables must map names to strings');
+    }
+
+    return {
+      version,
+      systemPrompt: input.systemPrompt || '',
+      generation: this.validateGeneration(input.generation || {}),
+      voice: input.voice || undefined,
+      variables,
+      note: input.note,
+      createdAt: Date.now(),
+    };
+  }
+
+  private validateGeneration(generation: GenerationParams): GenerationParams {
+    try {
+      return sanitizeGenerationParams(generation).params;
+    } catch (error) {
+      throw this.invalidInput(`generation: ${(error as ErrorResponse).error}`);
+    }
+  }
+
+  private getVersion(persona: Persona, version: number): PersonaVersion {
+    const found = persona.versions.find((v) => v.version === version);
+    if (!found) {
+      throw {
+        error: `Persona ${persona.id} has no version ${version}`,
+        code: ERROR_CODES.NOT_FOUND,
+      } as ErrorResponse;
+    }
+    return found;
+  }
+
+  private async requirePersona(id: string): Promise<Persona> {
+    const persona = await this.getPersona(id);
+    if (!persona) {
+      throw {
+        error: `Persona ${id} not found`,
+        code: ERROR_CODES.NOT_FOUND,
+      } as ErrorResponse;
+    }
+    return persona;
+  }
+
+  private async savePersona(persona: Persona): Promise<void> {
+    await conversationStore.set(this.personaKey(persona.id), persona);
+    await conversationStore.sAdd(tenantKey(REDIS_KEYS.PERSONA_INDEX), persona.id);
+  }
+
+  private invalidInput(message: string): ErrorResponse {
+    return { error: message, code: ERROR_CODES.INVALID_INPUT };
+  }
+}
+
+// Export as singleton
+export const personaService = new PersonaService();
+export default personaService;
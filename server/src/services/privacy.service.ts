@@ -0,0 +1,193 @@
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { tenantService } from './tenant.service';
+import { historyService } from './history.service';
+import { leadService } from './lead.service';
+import { guardrailsService } from './guardrails.service';
+import { handoffService } from './handoff.service';
+import { coachingService } from './coaching.service';
+import { cleanupService } from './cleanup.service';
+import { auditService } from './audit.service';
+import { currentTenantId, tenantKey } from '../utils/tenant';
+import { ERROR_CODES, ErrorResponse, REDIS_KEYS } from '../types/chat';
+import {
+  ERASURE_SUBJECTS,
+  ErasureReceipt,
+  ErasureRequest,
+  RetentionPolicy,
+} from '../types/privacy';
+
+const MAX_IDENTIFIER_LENGTH = 256;
+
+// Retention policies and the right to erasure. Erasing a customer deletes
+// every session linked to the identifiers together with its search index
+// entries, lead, guardrail violations, handoff, whispers, audio files and
+// audit log, and leaves a signed receipt that counts what was removed.
+class PrivacyService {
+  // Retention of the current tenant, in hours per category
+  getRetention(): RetentionPolicy {
+    return { ...tenantService.current().retention };
+  }
+
+  // Remember which sessions a customer token subject opened, so the customer
+  // can be erased by that id
+  async linkCustomer(customerId: string, sessionId: string): Promise<void> {
+    const key = this.customerKey(customerId);
+    await conversationStore.sAdd(key, sessionId);
+    const expiry = tenantService.retentionSeconds('transcripts');
+    if (expiry > 0) {
+      await conversationStore.expire(key, expiry);
+    }
+  }
+
+  async erase(input: unknown, requestedBy?: string): Promise<ErasureReceipt> {
+    const request = this.parseRequest(input);
+    const requestedAt = Date.now();
+    const sessionIds = await this.findSessions(request);
+
+    const deleted: Record<string, number> = {
+      sessions: 0,
+      messages: 0,
+      searchEntries: 0,
+      leads: 0,
+      violations: 0,
+      handoffs: 0,
+      whispers: 0,
+      audioFiles: 0,
+      auditEvents: 0,
+      customerLinks: 0,
+    };
+    for (const sessionId of sessionIds) {
+      await this.eraseSession(sessionId, deleted);
+    }
+    if (request.customerId && (await conversationStore.exists(this.customerKey(request.customerId)))) {
+      await conversationStore.del(this.customerKey(request.customerId));
+      deleted.customerLinks++;
+    }
+
+    const unsigned: Omit<ErasureReceipt, 'signature'> = {
+      id: uuidv4(),
+      tenantId: currentTenantId(),
+      subjects: ERASURE_SUBJECTS
+        .filter((type) => request[type])
+        .map((type) => ({ type, sha256: this.hash(request[type]!) })),
+      ...(requestedBy ? { requestedBy } : {}),
+      requestedAt,
+      completedAt: Date.now(),
+      sessionIds,
+      deleted,
+    };
+    const receipt: ErasureReceipt = { ...unsigned, signature: this.sign(unsigned) };
+
+    // Receipts are kept until the tenant is removed, whatever the retention
+    await conversationStore.set(this.receiptKey(receipt.id), receipt);
+    console.log(`Erased ${sessionIds.length} sessions (receipt ${receipt.id})`);
+    return receipt;
+  }
+
+  async getReceipt(receiptId: string): Promise<ErasureReceipt> {
+    const receipt: ErasureReceipt | null = await conversationStore.get(this.receiptKey(receiptId));
+    if (!receipt) {
+      throw { error: `Erasure receipt ${receiptId} not found`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse;
+    }
+    return receipt;
+  }
+
+  // Whether a receipt is unchanged since it was issued
+  verifyReceipt(receipt: ErasureReceipt): boolean {
+    const { signature, ...unsigned } = receipt;
+    const expected = Buffer.from(this.sign(unsigned));
+    const actual = Buffer.from(String(signature));
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private parseRequest(input: unknown): ErasureRequest {
+    const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+    const request: ErasureRequest = {};
+    for (const type of ERASURE_SUBJECTS) {
+      const value = body[type];
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || !value.trim() || value.length > MAX_IDENTIFIER_LENGTH) {
+        throw this.invalid(`${type} must be a non-empty string of at most ${MAX_IDENTIFIER_LENGTH} characters`);
+      }
+      request[type] = value.trim();
+    }
+    if (Object.keys(request).length === 0) {
+      throw this.invalid(`At least one identifier is required: ${ERASURE_SUBJECTS.join(', ')}`);
+    }
+    return request;
+  }
+
+  // Sessions of the current tenant linked to any of the identifiers
+  private async findSessions(request: ErasureRequest): Promise<string[]> {
+    const sessionIds = new Set<string>();
+    if (request.sessionId) {
+      sessionIds.add(request.sessionId);
+    }
+    if (request.customerId) {
+      for (const sessionId of await conversationStore.sMembers(this.customerKey(request.customerId))) {
+        sessionIds.add(sessionId);
+      }
+    }
+    if (request.email || request.phone) {
+      const email = request.email?.toLowerCase();
+      const phone = request.phone && this.digits(request.phone);
+      for (const lead of await leadService.listLeads()) {
+        if ((email && lead.email?.toLowerCase() === email) || (phone && lead.phone && this.digits(lead.phone) === phone)) {
+          sessionIds.add(lead.sessionId);
+        }
+      }
+    }
+    return Array.from(sessionIds);
+  }
+
+  private async eraseSession(sessionId: string, deleted: Record<string, number>): Promise<void> {
+    const session = await conversationStore.getSession(sessionId);
+    if (session) {
+      deleted.sessions++;
+      deleted.messages += session.messages.length;
+    }
+    deleted.searchEntries += await historyService.unindexSession(sessionId);
+    await conversationStore.clearSession(sessionId);
+
+    if (await leadService.getLead(sessionId)) {
+      await leadService.deleteLead(sessionId);
+      deleted.leads++;
+    }
+    deleted.violations += await guardrailsService.deleteViolations(sessionId);
+    deleted.handoffs += (await handoffService.deleteHandoff(sessionId)) ? 1 : 0;
+    deleted.whispers += await coachingService.deleteWhispers(sessionId);
+    deleted.audioFiles += await cleanupService.cleanupSession(sessionId);
+    deleted.auditEvents += await auditService.deleteSession(sessionId);
+  }
+
+  private sign(receipt: Omit<ErasureReceipt, 'signature'>): string {
+    return crypto.createHmac('sha256', config.jwtSecret).update(JSON.stringify(receipt)).digest('hex');
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private digits(value: string): string {
+    return value.replace(/\D/g, '');
+  }
+
+  private customerKey(customerId: string): string {
+    return tenantKey(`${REDIS_KEYS.CUSTOMER_SESSIONS_PREFIX}${customerId}`);
+  }
+
+  private receiptKey(receiptId: string): string {
+    return tenantKey(`${REDIS_KEYS.ERASURE_RECEIPT_PREFIX}${receiptId}`);
+  }
+
+  private invalid(error: string): ErrorResponse {
+    return { error, code: ERROR_CODES.INVALID_INPUT };
+  }
+}
+
+// Export as singleton
+export const privacyService = new PrivacyService();
+export default privacyService;
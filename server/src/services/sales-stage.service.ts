@@ -0,0 +1,271 @@
+import * as fs from 'fs';
+import config from '../config/config';
+import { conversationStore } from './store.service';
+import { metricsService } from './metrics.service';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+import {
+  SALES_STAGES,
+  SalesStage,
+  SalesStageDefinition,
+  SalesStageState,
+  SalesStageStatus,
+  StageCondition,
+  StageSignals,
+  StageTransition,
+  StageTransitionRule,
+} from '../types/sales-stage';
+
+const MAX_HISTORY = 50;
+
+const DEFAULT_SALES_STAGES: SalesStageDefinition = {
+  initial: 'greeting',
+  stages: {
+    greeting: {
+      name: 'Greeting',
+      instructions: 'Welcome the customer warmly and ask what brings them here today. Keep it short.',
+    },
+    discovery: {
+      name: 'Discovery',
+      instructions: 'Ask open questions to understand the customer\'s needs, budget, timeline and who decides. ' +
+        'Ask one question at a time and do not recommend products yet.',
+    },
+    recommendation: {
+      name: 'Recommendation',
+      instructions: 'Recommend the products that best fit the needs you learned, explaining why each one fits. ' +
+        'Quote prices only from the catalog.',
+    },
+    objection_handling: {
+      name: 'Objection handling',
+      instructions: 'Acknowledge the customer\'s concern, ask what is behind it and address it with facts ' +
+        '(value, alternatives, guarantees). Do not pressure the customer.',
+    },
+    close: {
+      name: 'Close',
+      instructions: 'The customer wants to buy. Confirm the products and quantities, summarize the total ' +
+        'and explain the next step to complete the purchase.',
+    },
+    follow_up: {
+      name: 'Follow-up',
+      instructions: 'Thank the customer, make sure they have everything they need and offer further help.',
+    },
+  },
+  transitions: [
+    { from: ['greeting', 'discovery', 'recommendation', 'objection_handling'], to: 'close',
+      when: { intents: ['purchase_intent'] }, reason: 'purchase intent' },
+    { from: ['discovery', 'recommendation', 'close'], to: 'objection_handling',
+      when: { intents: ['objection'] }, reason: 'objection raised' },
+    { from: ['greeting'], to: 'discovery',
+      when: { notIntents: ['small_talk'] }, reason: 'customer stated a topic' },
+    { from: ['discovery'], to: 'recommendation',
+      when: { leadFields: ['need'] }, reason: 'need identified' },
+    { from: ['discovery'], to: 'recommendation',
+      when: { leadFields: ['productInterest'] }, reason: 'product interest identified' },
+    { from: ['discovery'], to: 'recommendation',
+      when: { minTurnsInStage: 3 }, reason: 'discovery turn limit reached' },
+    { from: ['objection_handling'], to: 'recommendation',
+      when: { notIntents: ['objection'], sentiments: ['neutral', 'positive'] }, reason: 'objection resolved' },
+    { from: ['close'], to: 'follow_up',
+      when: { notIntents: ['purchase_intent', 'objection'] }, reason: 'purchase confirmed' },
+    { from: ['follow_up'], to: 'discovery',
+      when: { intents: ['pricing_question', 'product_question'] }, reason: 'new need' },
+  ],
+};
+
+type StageListener = (sessionId: string, status: SalesStageStatus) => void;
+
+// Tracks where each conversation is in the sales process. Transitions are
+// driven by the turn classification and the captured lead.
+class SalesStageService {
+  private readonly definition: SalesStageDefinition;
+  private readonly listeners: StageListener[] = [];
+
+  constructor() {
+    this.definition = config.salesStages.definitionPath
+      ? this.loadDefinition(config.salesStages.definitionPath)
+      : DEFAULT_SALES_STAGES;
+  }
+
+  getDefinition(): SalesStageDefinition {
+    return this.definition;
+  }
+
+  // Called whenever a session changes stage
+  onStageChanged(listener: StageListener): void {
+    this.listeners.push(listener);
+  }
+
+  async getState(sessionId: string): Promise<SalesStageState> {
+    const session = await conversationStore.getSession(sessionId);
+    return session?.salesStage || this.initialState();
+  }
+
+  getStatus(state: SalesStageState, transition?: StageTransition): SalesStageStatus {
+    return {
+      stage: state.stage,
+      name: this.definition.stages[state.stage].name,
+      transition,
+    };
+  }
+
+  // Stage-specific part of the system message
+  getInstructions(stage: SalesStage): string {
+    const { name, instructions } = this.definition.stages[stage];
+    return `Current sales stage: ${name}.\n${instructions}`;
+  }
+
+  // Count a user turn and move to the next stage when a transition rule matches
+  async advance(sessionId: string, signals: StageSignals): Promise<SalesStageState> {
+    const state = await this.getState(sessionId);
+    state.turnsInStage++;
+
+    const rule = this.definition.transitions.find((candidate) =>
+      (candidate.from === '*' || candidate.from.includes(state.stage)) &&
+      candidate.to !== state.stage &&
+      this.matches(candidate.when, state, signals)
+    );
+    if (!rule) {
+      await conversationStore.updateSession(sessionId, { salesStage: state });
+      return state;
+    }
+
+    return this.transition(sessionId, state, rule.to, rule.reason, signals.messageId);
+  }
+
+  // Manual override, e.g. by an agent or for testing prompts
+  async setStage(sessionId: string, stage: unknown, reason = 'manual'): Promise<SalesStageState> {
+    if (!SALES_STAGES.includes(stage as SalesStage)) {
+      throw {
+        error: `Unknown sales stage: ${stage}. Expected one of: ${SALES_STAGES.join(', ')}`,
+        code: ERROR_CODES.INVALID_INPUT,
+      } as ErrorResponse;
+    }
+    if (!(await conversationStore.getSession(sessionId))) {
+      throw { error: `Session ${sessionId} not found`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse;
+    }
+
+    const state = await this.getState(sessionId);
+    if (state.stage === stage) {
+      return state;
+    }
+    return this.transition(sessionId, state, stage as SalesStage, reason);
+  }
+
+  private async transition(
+    sessionId: string,
+    state: SalesStageState,
+    to: SalesStage,
+    reason: string,
+    messageId?: string
+  ): Promise<SalesStageState> {
+    const transition: StageTransition = {
+      from: state.stage,
+      to,
+      reason,
+      messageId,
+      timestamp: Date.now(),
+    };
+    const next: SalesStageState = {
+      stage: to,
+      enteredAt: transition.timestamp,
+      turnsInStage: 0,
+      history: [...state.history, transition].slice(-MAX_HISTORY),
+    };
+    await conversationStore.updateSession(sessionId, { salesStage: next });
+    metricsService.recordStageTransition(transition);
+    console.log(`Session ${sessionId}: sales stage ${transition.from} -> ${to} (${reason})`);
+
+    const status = this.getStatus(next, transition);
+    for (const listener of this.listeners) {
+      try {
+        listener(sessionId, status);
+      } catch (error) {
+        console.error('Sales stage listener failed:', error);
+      }
+    }
+    return next;
+  }
+
+  private matches(condition: StageCondition, state: SalesStageState, signals: StageSignals): boolean {
+    const { classification, lead } = signals;
+
+    if (condition.intents && !(classification && condition.intents.includes(classification.intent))) {
+      return false;
+    }
+    if (condition.notIntents && classification && condition.notIntents.includes(classification.intent)) {
+      return false;
+    }
+    if (condition.sentiments && !(classification && condition.sentiments.includes(classification.sentiment))) {
+      return false;
+    }
+    if (condition.leadFields && !condition.leadFields.every((field) => {
+      const value = lead?.[field];
+      return Array.isArray(value) ? value.length > 0 : Boolean(value);
+    })) {
+      return false;
+    }
+    if (condition.minQualificationScore !== undefined &&
+        (lead?.qualificationScore || 0) < condition.minQualificationScore) {
+      return false;
+    }
+    if (condition.minTurnsInStage !== undefined && state.turnsInStage < condition.minTurnsInStage) {
+      return false;
+    }
+    return true;
+  }
+
+  private initialState(): SalesStageState {
+    return {
+      stage: this.definition.initial,
+      enteredAt: Date.now(),
+      turnsInStage: 0,
+      history: [],
+    };
+  }
+
+  // Stage texts in the file are merged over the defaults; transitions replace them
+  private loadDefinition(definitionPath: string): SalesStageDefinition {
+    let file: Partial<SalesStageDefinition>;
+    try {
+      file = JSON.parse(fs.readFileSync(definitionPath, 'utf8'));
+    } catch (error) {
+      throw {
+        error: `Failed to load sales stages from ${definitionPath}`,
+        code: ERROR_CODES.SERVER_ERROR,
+        details: error,
+      } as ErrorResponse;
+    }
+
+    const stages = { ...DEFAULT_SALES_STAGES.stages };
+    for (const [stage, definition] of Object.entries(file.stages || {})) {
+      this.assertStage(stage, definitionPath);
+      stages[stage as SalesStage] = { ...stages[stage as SalesStage], ...definition };
+    }
+
+    const definition: SalesStageDefinition = {
+      initial: file.initial || DEFAULT_SALES_STAGES.initial,
+      stages,
+      transitions: file.transitions || DEFAULT_SALES_STAGES.transitions,
+    };
+    this.assertStage(definition.initial, definitionPath);
+    for (const rule of definition.transitions as StageTransitionRule[]) {
+      this.assertStage(rule.to, definitionPath);
+      if (rule.from !== '*') {
+        rule.from.forEach((stage) => this.assertStage(stage, definitionPath));
+      }
+    }
+    return definition;
+  }
+
+  private assertStage(stage: string, definitionPath: string): void {
+    if (!SALES_STAGES.includes(stage as SalesStage)) {
+      throw {
+        error: `Unknown sales stage "${stage}" in ${definitionPath}. Expected one of: ${SALES_STAGES.join(', ')}`,
+        code: ERROR_CODES.SERVER_ERROR,
+      } as ErrorResponse;
+    }
+  }
+}
+
+// Export as singleton
+export const salesStageService = new SalesStageService();
+export default salesStageService;
@@ -0,0 +1,21 @@
+import config from '../config/config';
+import { ConversationStore, StoreBackend } from '../types/store';
+import { MemoryStore } from './store/memory.store';
+import { RedisStore } from './store/redis.store';
+
+export function createConversationStore(
+  backend: StoreBackend = config.store.backend
+): ConversationStore {
+  switch (backend) {
+    case 'memory':
+      return new MemoryStore();
+    case 'redis':
+      return new RedisStore();
+    default:
+      throw new Error(`Unknown store backend: ${backend}`);
+  }
+}
+
+// Export as singleton
+export const conversationStore = createConversationStore();
+export default conversationStore;
@@ -0,0 +1,362 @@
+import { ChatMessage, ChatSession, REDIS_KEYS } from '../../types/chat';
+import {
+  ConversationStore,
+  MessageListener,
+  MessagePage,
+  SessionChanges,
+  SessionMeta,
+} from '../../types/store';
+import { tenantKey } from '../../utils/tenant';
+import { tenantService } from '../tenant.service';
+
+interface MemoryEntry {
+  value: string | Set<string> | string[] | Map<string, number>;  // JSON string, set, list or sorted set (member -> score)
+  expiresAt?: number;
+}
+
+// Process-local store for development and tests. It mirrors the Redis store:
+// values are kept serialized so callers never share objects with the store,
+// sessions are a metadata entry plus a message list that expire with the
+// tenant's transcript retention, and keys expire lazily when read or scanned.
+export class MemoryStore implements ConversationStore {
+  readonly backend = 'memory' as const;
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly messageListeners: MessageListener[] = [];
+
+  // Session operations finish without awaiting, so they can't interleave
+  async saveSession(sessionId: string, session: ChatSession): Promise<void> {
+    const { messages, ...meta } = session;
+    const keys = this.sessionKeys(sessionId);
+    this.write(keys.meta, JSON.stringify(meta), this.sessionExpiry());
+    this.indexSession(sessionId, meta.lastActivity);
+    this.entries.delete(keys.messages);
+    if (messages.length > 0) {
+      this.entries.set(keys.messages, { value: messages.map((message) => JSON.stringify(message)) });
+      this.touchSession(sessionId);
+    }
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    const meta = this.readMeta(sessionId);
+    if (!meta) return null;
+    return {
+      ...meta,
+      messages: (this.readList(this.sessionKeys(sessionId).messages) || []).map((message) => JSON.parse(message)),
+    };
+  }
+
+  async getSessionMeta(sessionId: string): Promise<SessionMeta | null> {
+    return this.readMeta(sessionId);
+  }
+
+  async addMessageToSession(sessionId: string, message: ChatMessage): Promise<void> {
+    const keys = this.sessionKeys(sessionId);
+    const messages = this.readList(keys.messages) || [];
+    messages.push(JSON.stringify(message));
+    this.entries.set(keys.messages, { value: messages });
+    this.writeMeta(sessionId, {});
+    this.notifyMessageSaved(sessionId, message);
+  }
+
+  async updateSession(sessionId: string, changes: SessionChanges): Promise<ChatSession> {
+    this.writeMeta(sessionId, changes);
+    return (await this.getSession(sessionId))!;
+  }
+
+  async updateMessage(
+    sessionId: string,
+    messageId: string,
+    changes: Partial<Omit<ChatMessage, 'id'>>
+  ): Promise<void> {
+    const keys = this.sessionKeys(sessionId);
+    const messages = this.readList(keys.messages) || [];
+    const index = messages.findIndex((raw) => (JSON.parse(raw) as ChatMessage).id === messageId);
+    if (index === -1) return;
+    const message: ChatMessage = { ...JSON.parse(messages[index]), ...changes };
+    messages[index] = JSON.stringify(message);
+    this.touchSession(sessionId);
+    this.notifyMessageSaved(sessionId, message);
+  }
+
+  async updateContext(sessionId: string, context: string): Promise<void> {
+    if (this.readString(this.sessionKeys(sessionId).meta)) {
+      this.writeMeta(sessionId, { context }, false);
+    }
+  }
+
+  async getRecentMessages(sessionId: string, limit: number = 10): Promise<ChatMessage[]> {
+    const page = await this.getMessages(sessionId, -limit, limit);
+    return page.messages;
+  }
+
+  async getMessages(sessionId: string, offset: number = 0, limit: number = 50): Promise<MessagePage> {
+    const messages = this.readList(this.sessionKeys(sessionId).messages) || [];
+    const total = messages.length;
+    const start = offset < 0 ? Math.max(0, total + offset) : offset;
+    return {
+      messages: messages.slice(start, start + Math.max(0, limit)).map((message) => JSON.parse(message)),
+      offset: start,
+      total,
+    };
+  }
+
+  async clearSession(sessionId: string): Promise<void> {
+    const keys = this.sessionKeys(sessionId);
+    this.entries.delete(keys.meta);
+    this.entries.delete(keys.messages);
+    this.readSortedSet(keys.index)?.delete(sessionId);
+  }
+
+  onMessageSaved(listener: MessageListener): void {
+    this.messageListeners.push(listener);
+  }
+
+  async set(key: string, value: any, ttlSeconds?: number): Promise<void> {
+    this.write(key, JSON.stringify(value), ttlSeconds);
+  }
+
+  async get(key: string): Promise<any> {
+    const value = this.readString(key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async setIfAbsent(key: string, value: any, ttlSeconds?: number): Promise<boolean> {
+    if (this.read(key)) return false;
+    this.write(key, JSON.stringify(value), ttlSeconds);
+    return true;
+  }
+
+  async del(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.read(key) !== null;
+  }
+
+  async expire(key: string, ttlSeconds: number): Promise<void> {
+    const entry = this.read(key);
+    if (entry) {
+      entry.expiresAt = Date.now() + ttlSeconds * 1000;
+    }
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this.read(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === undefined) return -1;
+    return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  async sAdd(key: string, members: string | string[]): Promise<void> {
+    const set = this.readSet(key) || new Set<string>();
+    for (const member of ([] as string[]).concat(members)) {
+      set.add(member);
+    }
+    if (!this.entries.has(key)) {
+      this.entries.set(key, { value: set });
+    }
+  }
+
+  async sRem(key: string, members: string | string[]): Promise<void> {
+    const set = this.readSet(key);
+    if (!set) return;
+    for (const member of ([] as string[]).concat(members)) {
+      set.delete(member);
+    }
+    // Like Redis, a set without members no longer exists
+    if (set.size === 0) {
+      this.entries.delete(key);
+    }
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return Array.from(this.readSet(key) || []);
+  }
+
+  async rPush(key: string, values: string | string[]): Promise<number> {
+    const list = this.readList(key) || [];
+    list.push(...([] as string[]).concat(values));
+    if (!this.entries.has(key)) {
+      this.entries.set(key, { value: list });
+    }
+    return list.length;
+  }
+
+  async lRange(key: string, start: number = 0, stop: number = -1): Promise<string[]> {
+    const list = this.readList(key) || [];
+    const from = start < 0 ? Math.max(0, list.length + start) : start;
+    const to = stop < 0 ? list.length + stop : Math.min(stop, list.length - 1);
+    return list.slice(from, to + 1);
+  }
+
+  async zAdd(key: string, score: number, member: string): Promise<void> {
+    const sortedSet = this.readSortedSet(key) || new Map<string, number>();
+    sortedSet.set(member, score);
+    if (!this.entries.has(key)) {
+      this.entries.set(key, { value: sortedSet });
+    }
+  }
+
+  async zRem(key: string, members: string | string[]): Promise<void> {
+    const sortedSet = this.readSortedSet(key);
+    if (!sortedSet) return;
+    for (const member of ([] as string[]).concat(members)) {
+      sortedSet.delete(member);
+    }
+    if (sortedSet.size === 0) {
+      this.entries.delete(key);
+    }
+  }
+
+  // Ties are ordered by member, as in Redis
+  async zRangeByScore(key: string, min: number = -Infinity, max: number = Infinity): Promise<string[]> {
+    return Array.from(this.readSortedSet(key) || [])
+      .filter(([, score]) => score >= min && score <= max)
+      .sort(([memberA, a], [memberB, b]) => a - b || (memberA < memberB ? -1 : memberA > memberB ? 1 : 0))
+      .map(([member]) => member);
+  }
+
+  async zRevRangeByScore(
+    key: string,
+    min: number = -Infinity,
+    max: number = Infinity,
+    offset: number = 0,
+    count: number = -1
+  ): Promise<string[]> {
+    const members = (await this.zRangeByScore(key, min, max)).reverse();
+    return count < 0 ? members.slice(offset) : members.slice(offset, offset + count);
+  }
+
+  async zCount(key: string, min: number = -Infinity, max: number = Infinity): Promise<number> {
+    return (await this.zRangeByScore(key, min, max)).length;
+  }
+
+  async scan(pattern: string): Promise<string[]> {
+    const matcher = this.globToRegExp(pattern);
+    return Array.from(this.entries.keys()).filter((key) => matcher.test(key) && this.read(key) !== null);
+  }
+
+  async disconnect(): Promise<void> {
+    this.entries.clear();
+  }
+
+  private sessionKeys(sessionId: string) {
+    return {
+      meta: tenantKey(`${REDIS_KEYS.SESSION_META_PREFIX}${sessionId}`),
+      messages: tenantKey(`${REDIS_KEYS.SESSION_MESSAGES_PREFIX}${sessionId}`),
+      index: tenantKey(REDIS_KEYS.SESSION_INDEX),
+    };
+  }
+
+  private readMeta(sessionId: string): SessionMeta | null {
+    const meta = this.readString(this.sessionKeys(sessionId).meta);
+    return meta ? { context: '', lastActivity: 0, ...JSON.parse(meta), id: sessionId } : null;
+  }
+
+  private indexSession(sessionId: string, lastActivity: number): void {
+    const key = this.sessionKeys(sessionId).index;
+    const index = this.readSortedSet(key) || new Map<string, number>();
+    index.set(sessionId, lastActivity);
+    this.entries.set(key, { value: index });
+  }
+
+  private notifyMessageSaved(sessionId: string, message: ChatMessage): void {
+    for (const listener of this.messageListeners) {
+      listener(sessionId, message);
+    }
+  }
+
+  // Merge metadata changes like HSET/HDEL, creating the session if needed
+  private writeMeta(sessionId: string, changes: SessionChanges, activity: boolean = true): void {
+    const key = this.sessionKeys(sessionId).meta;
+    const stored = this.readString(key);
+    const meta = { id: sessionId, context: '', ...(stored ? JSON.parse(stored) : {}), ...changes };
+    if (activity) {
+      meta.lastActivity = Date.now();
+      this.indexSession(sessionId, meta.lastActivity);
+    }
+    this.write(key, JSON.stringify(meta), this.sessionExpiry());
+    this.touchSession(sessionId);
+  }
+
+  // Transcript retention of the current tenant in seconds; 0 keeps sessions until erased
+  private sessionExpiry(): number {
+    return tenantService.retentionSeconds('transcripts');
+  }
+
+  private touchSession(sessionId: string): void {
+    const expiry = this.sessionExpiry();
+    const expiresAt = expiry > 0 ? Date.now() + expiry * 1000 : undefined;
+    const { meta, messages } = this.sessionKeys(sessionId);
+    for (const key of [meta, messages]) {
+      const entry = this.read(key);
+      if (entry) {
+        entry.expiresAt = expiresAt;
+      }
+    }
+  }
+
+  private write(key: string, value: string, ttlSeconds?: number): void {
+    this.entries.set(key, {
+      value,
+      ...(ttlSeconds ? { expiresAt: Date.now() + ttlSeconds * 1000 } : {}),
+    });
+  }
+
+  // Live entry of a key; expired entries are dropped on the way
+  private read(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  // Reading a key of another type fails the way Redis' WRONGTYPE does
+  private readString(key: string): string | null {
+    const entry = this.read(key);
+    if (!entry) return null;
+    if (typeof entry.value !== 'string') {
+      throw new Error(`Key ${key} does not hold a value`);
+    }
+    return entry.value;
+  }
+
+  private readSet(key: string): Set<string> | null {
+    const entry = this.read(key);
+    if (!entry) return null;
+    if (!(entry.value instanceof Set)) {
+      throw new Error(`Key ${key} does not hold a set`);
+    }
+    return entry.value;
+  }
+
+  private readList(key: string): string[] | null {
+    const entry = this.read(key);
+    if (!entry) return null;
+    if (!Array.isArray(entry.value)) {
+      throw new Error(`Key ${key} does not hold a list`);
+    }
+    return entry.value;
+  }
+
+  private readSortedSet(key: string): Map<string, number> | null {
+    const entry = this.read(key);
+    if (!entry) return null;
+    if (!(entry.value instanceof Map)) {
+      throw new Error(`Key ${key} does not hold a sorted set`);
+    }
+    return entry.value;
+  }
+
+  private globToRegExp(pattern: string): RegExp {
+    const source = pattern
+      .split('')
+      .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    return new RegExp(`^${source}$`);
+  }
+}
@@ -0,0 +1,669 @@
+import { AsyncResource } from 'async_hooks';
+import { createClient, RedisClientType, WatchError } from 'redis';
+import config from '../../config/config';
+import { ChatMessage, ChatSession, REDIS_KEYS } from '../../types/chat';
+import {
+  ConversationStore,
+  MessageListener,
+  MessagePage,
+  SessionChanges,
+  SessionMeta,
+} from '../../types/store';
+import { tenantKey } from '../../utils/tenant';
+import { tenantService } from '../tenant.service';
+
+interface SessionKeys {
+  meta: string;      // Hash of metadata fields
+  messages: string;  // List of messages, oldest first
+  legacy: string;    // Whole session as one JSON string (before the split)
+  index: string;     // Sorted set of the tenant's sessions by last activity
+}
+
+// MULTI of either client, chained
+interface RetainableMulti<M> {
+  expire(key: string, seconds: number): M;
+  persist(key: string): M;
+}
+
+export class RedisStore implements ConversationStore {
+  readonly backend = 'redis' as const;
+  private client!: RedisClientType;
+  private readonly maxWatchAttempts: number = 5;
+  private readonly maxRetries: number = 10;
+  private readonly initialRetryDelay: number = 1000; // 1 second
+  private readonly maxRetryDelay: number = 30000; // 30 seconds
+  private retryCount: number = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private isConnecting: boolean = false;
+  private commandBuffer: Array<() => Promise<void>> = [];
+  private readonly messageListeners: MessageListener[] = [];
+
+  constructor() {
+    this.initializeClient();
+  }
+
+  private initializeClient() {
+    this.client = createClient({
+      url: `redis://${config.redis.host}:${config.redis.port}`,
+      socket: {
+        reconnectStrategy: (retries) => {
+          if (retries > this.maxRetries) {
+            console.error(`Redis max retries (${this.maxRetries}) exceeded`);
+            return new Error('Max retries exceeded');
+          }
+          const delay = Math.min(
+            this.initialRetryDelay * Math.pow(2, retries),
+            this.maxRetryDelay
+          );
+          console.log(`Redis reconnecting in ${delay}ms (attempt ${retries + 1}/${this.maxRetries})`);
+          return delay;
+        }
+      }
+    });
+
+    this.setupEventHandlers();
+    this.connect();
+  }
+
+  private setupEventHandlers() {
+    this.client.on('error', (err) => {
+      console.error('Redis Client Error:', err);
+      this.handleError(err);
+    });
+
+    this.client.on('connect', () => {
+      console.log('Redis Client Connected');
+      this.retryCount = 0;
+      this.processCommandBuffer();
+    });
+
+    this.client.on('reconnecting', () => {
+      console.log('Redis Client Reconnecting...');
+    });
+
+    this.client.on('end', () => {
+      console.log('Redis Connection Ended');
+      this.scheduleReconnect();
+    });
+  }
+
+  private async connect() {
+    if (this.isConnecting) return;
+    
+    try {
+      this.isConnecting = true;
+      await this.client.connect();
+      this.isConnecting = false;
+      this.startHealthCheck();
+    } catch (error) {
+      console.error('Redis Connection Error:', error);
+      this.isConnecting = false;
+      this.scheduleReconnect();
+    }
+  }
+
+  private handleError(error: any) {
+    if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return;
+
+    const delay = Math.min(
+      this.initialRetryDelay * Math.pow(2, this.retryCount),
+      this.maxRetryDelay
+    );
+
+    console.log(`Scheduling Redis reconnect in ${delay}ms (attempt ${this.retryCount + 1})`);
+    
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.retryCount++;
+      this.connect();
+    }, delay);
+  }
+
+  private startHealthCheck() {
+    setInterval(async () => {
+      try {
+        await this.client.ping();
+      } catch (error) {
+        console.error('Redis health check failed:', error);
+        this.handleError(error);
+      }
+    }, 30000); // Check every 30 seconds
+  }
+
+  // Commands replayed after a reconnect keep the tenant they were issued for
+  private bufferCommand(command: () => Promise<void>): void {
+    this.commandBuffer.push(AsyncResource.bind(command));
+  }
+
+  private async processCommandBuffer() {
+    while (this.commandBuffer.length > 0) {
+      const command = this.commandBuffer.shift();
+      if (command) {
+        try {
+          await command();
+        } catch (error) {
+          console.error('Error processing buffered command:', error);
+        }
+      }
+    }
+  }
+
+  private async executeWithRetry<T>(
+    operation: () => Promise<T>,
+    retries: number = 3
+  ): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (retries > 0 && this.client.isOpen) {
+        const delay = this.initialRetryDelay * Math.pow(2, 3 - retries);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return this.executeWithRetry(operation, retries - 1);
+      }
+      throw error;
+    }
+  }
+
+  // Run a session command now or, while disconnected, once the client is back
+  private async sessionCommand<T>(failure: string, operation: () => Promise<T>): Promise<T> {
+    const run = async (): Promise<T> => {
+      if (!this.client.isOpen) {
+        return new Promise<T>((resolve, reject) => {
+          this.bufferCommand(async () => {
+            try {
+              resolve(await operation());
+            } catch (error) {
+              reject(error);
+            }
+          });
+        });
+      }
+      return operation();
+    };
+
+    try {
+      return await this.executeWithRetry(run);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      throw new Error(failure);
+    }
+  }
+
+  // `namespace` is the tenant prefix, taken from the current tenant by default
+  private sessionKeys(sessionId: string, namespace: string = tenantKey('')): SessionKeys {
+    return {
+      meta: `${namespace}${REDIS_KEYS.SESSION_META_PREFIX}${sessionId}`,
+      messages: `${namespace}${REDIS_KEYS.SESSION_MESSAGES_PREFIX}${sessionId}`,
+      legacy: `${namespace}${REDIS_KEYS.SESSION_PREFIX}${sessionId}`,
+      index: `${namespace}${REDIS_KEYS.SESSION_INDEX}`,
+    };
+  }
+
+  // Hash fields hold JSON so numbers and nested settings survive the round trip;
+  // undefined fields are left out
+  private encodeMeta(meta: SessionChanges & { id?: string }): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(meta)
+        .filter(([, value]) => value !== undefined)
+        .map(([field, value]) => [field, JSON.stringify(value)])
+    );
+  }
+
+  private decodeMeta(sessionId: string, meta: Record<string, string>): SessionMeta {
+    const fields = Object.fromEntries(
+      Object.entries(meta).map(([field, value]) => [field, JSON.parse(value)])
+    );
+    return { context: '', lastActivity: 0, ...fields, id: sessionId };
+  }
+
+  private decodeSession(sessionId: string, meta: Record<string, string>, messages: string[]): ChatSession {
+    return {
+      ...this.decodeMeta(sessionId, meta),
+      messages: messages.map((message) => JSON.parse(message)),
+    };
+  }
+
+  // Transcript retention of the current tenant in seconds; 0 keeps sessions until erased
+  private sessionExpiry(): number {
+    return tenantService.retentionSeconds('transcripts');
+  }
+
+  // EXPIRE the keys with the retention, or PERSIST them when they are kept until erased
+  private retain<M extends RetainableMulti<M>>(multi: M, keys: string[], expiry: number = this.sessionExpiry()): M {
+    return keys.reduce((chain, key) => (expiry > 0 ? chain.expire(key, expiry) : chain.persist(key)), multi);
+  }
+
+  private notifyMessageSaved(sessionId: string, message: ChatMessage): void {
+    for (const listener of this.messageListeners) {
+      listener(sessionId, message);
+    }
+  }
+
+  onMessageSaved(listener: MessageListener): void {
+    this.messageListeners.push(listener);
+  }
+
+  // Move a session stored as one JSON string to the hash + list layout. Runs
+  // before the first write to a session; `npm run migrate:sessions` moves them
+  // all at once. A concurrent migration of the same blob makes EXEC fail on the
+  // watched key, and then the session has already been moved.
+  private async migrateLegacySession(keys: SessionKeys): Promise<boolean> {
+    if (!(await this.client.exists(keys.legacy))) return false;
+
+    return this.client.executeIsolated(async (isolated) => {
+      await isolated.watch(keys.legacy);
+      const blob = await isolated.get(keys.legacy);
+      if (!blob) {
+        await isolated.unwatch();
+        return false;
+      }
+
+      const { messages = [], ...meta }: ChatSession = JSON.parse(blob);
+      const ttl = await isolated.ttl(keys.legacy);
+      const expiry = ttl > 0 ? ttl : this.sessionExpiry();
+      const multi = isolated.multi()
+        .del(keys.legacy)
+        .hSet(keys.meta, this.encodeMeta(meta))
+        .zAdd(keys.index, { score: meta.lastActivity || Date.now(), value: meta.id });
+      if (messages.length > 0) {
+        multi.rPush(keys.messages, messages.map((message) => JSON.stringify(message)));
+      }
+      this.retain(multi, messages.length > 0 ? [keys.meta, keys.messages] : [keys.meta], expiry);
+
+      try {
+        await multi.exec();
+        return true;
+      } catch (error) {
+        if (error instanceof WatchError) return false;
+        throw error;
+      }
+    });
+  }
+
+  // Migrate every legacy session blob of every tenant; returns how many were moved
+  async migrateLegacySessions(): Promise<number> {
+    return this.sessionCommand('Failed to migrate sessions', async () => {
+      let migrated = 0;
+      for (const key of await this.scan(`*${REDIS_KEYS.SESSION_PREFIX}*`)) {
+        const at = key.lastIndexOf(REDIS_KEYS.SESSION_PREFIX);
+        const keys = this.sessionKeys(key.slice(at + REDIS_KEYS.SESSION_PREFIX.length), key.slice(0, at));
+        if (await this.migrateLegacySession(keys)) {
+          migrated++;
+        }
+      }
+      return migrated;
+    });
+  }
+
+  async saveSession(sessionId: string, session: ChatSession): Promise<void> {
+    const keys = this.sessionKeys(sessionId);
+    await this.sessionCommand('Failed to save session', async () => {
+      const { messages, ...meta } = session;
+      const multi = this.client.multi()
+        .del([keys.meta, keys.messages, keys.legacy])
+        .hSet(keys.meta, this.encodeMeta(meta))
+        .zAdd(keys.index, { score: meta.lastActivity, value: sessionId });
+      if (messages.length > 0) {
+        multi.rPush(keys.messages, messages.map((message) => JSON.stringify(message)));
+      }
+      await this.retain(multi, messages.length > 0 ? [keys.meta, keys.messages] : [keys.meta]).exec();
+    });
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    const keys = this.sessionKeys(sessionId);
+    return this.sessionCommand('Failed to get session', async () => {
+      const read = async () => {
+        const [meta, messages] = (await this.client.multi()
+          .hGetAll(keys.meta)
+          .lRange(keys.messages, 0, -1)
+          .exec()) as unknown as [Record<string, string>, string[]];
+        return Object.keys(meta).length > 0 ? this.decodeSession(sessionId, meta, messages) : null;
+      };
+
+      const session = await read();
+      if (session) return session;
+      return (await this.migrateLegacySession(keys)) ? read() : null;
+    });
+  }
+
+  async getSessionMeta(sessionId: string): Promise<SessionMeta | null> {
+    const keys = this.sessionKeys(sessionId);
+    return this.sessionCommand('Failed to get session', async () => {
+      await this.migrateLegacySession(keys);
+      const meta = await this.client.hGetAll(keys.meta);
+      return Object.keys(meta).length > 0 ? this.decodeMeta(sessionId, meta) : null;
+    });
+  }
+
+  // RPUSH appends atomically, so concurrent writers never drop each other's messages
+  async addMessageToSession(
+    sessionId: string,
+    message: ChatMessage
+  ): Promise<void> {
+    const keys = this.sessionKeys(sessionId);
+    await this.sessionCommand('Failed to add message to session', async () => {
+      await this.migrateLegacySession(keys);
+      const now = Date.now();
+      const multi = this.client.multi()
+        .rPush(keys.messages, JSON.stringify(message))
+        .hSetNX(keys.meta, 'id', JSON.stringify(sessionId))
+        .hSetNX(keys.meta, 'context', JSON.stringify(''))
+        .hSet(keys.meta, 'lastActivity', JSON.stringify(now))
+        .zAdd(keys.index, { score: now, value: sessionId });
+      await this.retain(multi, [keys.meta, keys.messages]).exec();
+    });
+    this.notifyMessageSaved(sessionId, message);
+  }
+
+  // Update session metadata, creating the session if it doesn't exist yet.
+  // Only the given fields are written; undefined values remove a field.
+  async updateSession(
+    sessionId: string,
+    changes: SessionChanges
+  ): Promise<ChatSession> {
+    const keys = this.sessionKeys(sessionId);
+    return this.sessionCommand('Failed to update session', async () => {
+      await this.migrateLegacySession(keys);
+      const removed = Object.keys(changes).filter((field) => changes[field as keyof SessionChanges] === undefined);
+      const now = Date.now();
+      const multi = this.client.multi()
+        .hSetNX(keys.meta, 'id', JSON.stringify(sessionId))
+        .hSetNX(keys.meta, 'context', JSON.stringify(''))
+        .hSet(keys.meta, this.encodeMeta({ ...changes, lastActivity: now }))
+        .zAdd(keys.index, { score: now, value: sessionId });
+      if (removed.length > 0) {
+        multi.hDel(keys.meta, removed);
+      }
+      const replies = await this.retain(multi, [keys.meta, keys.messages])
+        .hGetAll(keys.meta)
+        .lRange(keys.messages, 0, -1)
+        .exec();
+      const [meta, messages] = replies.slice(-2) as unknown as [Record<string, string>, string[]];
+      return this.decodeSession(sessionId, meta, messages);
+    });
+  }
+
+  // Update a stored message in place, e.g. to truncate an interrupted reply.
+  // The list is watched so an append or another update in between makes the
+  // write retry on fresh data instead of overwriting it.
+  async updateMessage(
+    sessionId: string,
+    messageId: string,
+    changes: Partial<Omit<ChatMessage, 'id'>>
+  ): Promise<void> {
+    const keys = this.sessionKeys(sessionId);
+    const updated = await this.sessionCommand('Failed to update message', async () => {
+      await this.migrateLegacySession(keys);
+      return this.client.executeIsolated(async (isolated): Promise<ChatMessage | null> => {
+        for (let attempt = 0; attempt < this.maxWatchAttempts; attempt++) {
+          await isolated.watch(keys.messages);
+          const stored = await isolated.lRange(keys.messages, 0, -1);
+          const index = stored.findIndex((raw) => (JSON.parse(raw) as ChatMessage).id === messageId);
+          if (index === -1) {
+            await isolated.unwatch();
+            return null;
+          }
+
+          const message: ChatMessage = { ...JSON.parse(stored[index]), ...changes };
+          try {
+            await this.retain(
+              isolated.multi().lSet(keys.messages, index, JSON.stringify(message)),
+              [keys.meta, keys.messages]
+            ).exec();
+            return message;
+          } catch (error) {
+            if (!(error instanceof WatchError)) throw error;
+          }
+        }
+        throw new Error(`Message ${messageId} kept changing during the update`);
+      });
+    });
+    if (updated) {
+      this.notifyMessageSaved(sessionId, updated);
+    }
+  }
+
+  async updateContext(sessionId: string, context: string): Promise<void> {
+    const keys = this.sessionKeys(sessionId);
+    await this.sessionCommand('Failed to update context', async () => {
+      await this.migrateLegacySession(keys);
+      if (!(await this.client.exists(keys.meta))) return;
+      await this.retain(
+        this.client.multi().hSet(keys.meta, 'context', JSON.stringify(context)),
+        [keys.meta, keys.messages]
+      ).exec();
+    });
+  }
+
+  async getRecentMessages(
+    sessionId: string,
+    limit: number = 10
+  ): Promise<ChatMessage[]> {
+    const page = await this.getMessages(sessionId, -limit, limit);
+    return page.messages;
+  }
+
+  async getMessages(sessionId: string, offset: number = 0, limit: number = 50): Promise<MessagePage> {
+    const keys = this.sessionKeys(sessionId);
+    return this.sessionCommand('Failed to get messages', async () => {
+      await this.migrateLegacySession(keys);
+      const total = await this.client.lLen(keys.messages);
+      const start = offset < 0 ? Math.max(0, total + offset) : offset;
+      const messages = limit > 0 && start < total
+        ? await this.client.lRange(keys.messages, start, start + limit - 1)
+        : [];
+      return { messages: messages.map((message) => JSON.parse(message)), offset: start, total };
+    });
+  }
+
+  async clearSession(sessionId: string): Promise<void> {
+    const keys = this.sessionKeys(sessionId);
+    try {
+      await this.client.multi()
+        .del([keys.meta, keys.messages, keys.legacy])
+        .zRem(keys.index, sessionId)
+        .exec();
+    } catch (error) {
+      console.error('Error clearing session:', error);
+      throw new Error('Failed to clear session');
+    }
+  }
+
+  async set(key: string, value: any, ttlSeconds?: number): Promise<void> {
+    try {
+      if (ttlSeconds) {
+        await this.client.setEx(key, ttlSeconds, JSON.stringify(value));
+      } else {
+        await this.client.set(key, JSON.stringify(value));
+      }
+    } catch (error) {
+      console.error('Error setting value:', error);
+      throw new Error('Failed to set value');
+    }
+  }
+
+  async get(key: string): Promise<any> {
+    try {
+      const value = await this.client.get(key);
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      console.error('Error getting value:', error);
+      throw new Error('Failed to get value');
+    }
+  }
+
+  async setIfAbsent(key: string, value: any, ttlSeconds?: number): Promise<boolean> {
+    try {
+      const result = await this.client.set(key, JSON.stringify(value), {
+        NX: true,
+        ...(ttlSeconds ? { EX: ttlSeconds } : {}),
+      });
+      return result === 'OK';
+    } catch (error) {
+      console.error('Error setting value:', error);
+      throw new Error('Failed to set value');
+    }
+  }
+
+  async del(key: string): Promise<void> {
+    try {
+      await this.client.del(key);
+    } catch (error) {
+      console.error('Error deleting key:', error);
+      throw new Error('Failed to delete key');
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const result = await this.client.exists(key);
+      return result === 1;
+    } catch (error) {
+      console.error('Error checking key existence:', error);
+      throw new Error('Failed to check key existence');
+    }
+  }
+
+  async expire(key: string, ttlSeconds: number): Promise<void> {
+    try {
+      await this.client.expire(key, ttlSeconds);
+    } catch (error) {
+      console.error('Error setting key expiry:', error);
+      throw new Error('Failed to set key expiry');
+    }
+  }
+
+  async ttl(key: string): Promise<number> {
+    try {
+      return await this.client.ttl(key);
+    } catch (error) {
+      console.error('Error getting key expiry:', error);
+      throw new Error('Failed to get key expiry');
+    }
+  }
+
+  async sAdd(key: string, members: string | string[]): Promise<void> {
+    try {
+      await this.client.sAdd(key, members);
+    } catch (error) {
+      console.error('Error adding set members:', error);
+      throw new Error('Failed to add set members');
+    }
+  }
+
+  async sRem(key: string, members: string | string[]): Promise<void> {
+    try {
+      await this.client.sRem(key, members);
+    } catch (error) {
+      console.error('Error removing set members:', error);
+      throw new Error('Failed to remove set members');
+    }
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    try {
+      return await this.client.sMembers(key);
+    } catch (error) {
+      console.error('Error getting set members:', error);
+      throw new Error('Failed to get set members');
+    }
+  }
+
+  async rPush(key: string, values: string | string[]): Promise<number> {
+    try {
+      return await this.client.rPush(key, values);
+    } catch (error) {
+      console.error('Error appending to list:', error);
+      throw new Error('Failed to append to list');
+    }
+  }
+
+  async lRange(key: string, start: number = 0, stop: number = -1): Promise<string[]> {
+    try {
+      return await this.client.lRange(key, start, stop);
+    } catch (error) {
+      console.error('Error getting list range:', error);
+      throw new Error('Failed to get list range');
+    }
+  }
+
+  async zAdd(key: string, score: number, member: string): Promise<void> {
+    try {
+      await this.client.zAdd(key, { score, value: member });
+    } catch (error) {
+      console.error('Error adding sorted set member:', error);
+      throw new Error('Failed to add sorted set member');
+    }
+  }
+
+  async zRem(key: string, members: string | string[]): Promise<void> {
+    try {
+      await this.client.zRem(key, members);
+    } catch (error) {
+      console.error('Error removing sorted set members:', error);
+      throw new Error('Failed to remove sorted set members');
+    }
+  }
+
+  async zRangeByScore(key: string, min: number = -Infinity, max: number = Infinity): Promise<string[]> {
+    try {
+      return await this.client.zRangeByScore(key, min, max);
+    } catch (error) {
+      console.error('Error getting sorted set range:', error);
+      throw new Error('Failed to get sorted set range');
+    }
+  }
+
+  async zRevRangeByScore(
+    key: string,
+    min: number = -Infinity,
+    max: number = Infinity,
+    offset: number = 0,
+    count: number = -1
+  ): Promise<string[]> {
+    try {
+      return await this.client.zRange(key, max, min, { BY: 'SCORE', REV: true, LIMIT: { offset, count } });
+    } catch (error) {
+      console.error('Error getting sorted set range:', error);
+      throw new Error('Failed to get sorted set range');
+    }
+  }
+
+  async zCount(key: string, min: number = -Infinity, max: number = Infinity): Promise<number> {
+    try {
+      return await this.client.zCount(key, min, max);
+    } catch (error) {
+      console.error('Error counting sorted set members:', error);
+      throw new Error('Failed to count sorted set members');
+    }
+  }
+
+  // SCAN instead of KEYS so large keyspaces don't block the server
+  async scan(pattern: string): Promise<string[]> {
+    try {
+      const keys: string[] = [];
+      for await (const key of this.client.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+        keys.push(key);
+      }
+      return keys;
+    } catch (error) {
+      console.error('Error getting keys:', error);
+      throw new Error('Failed to get keys');
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      await this.client.quit();
+    } catch (error) {
+      console.error('Error disconnecting from Redis:', error);
+    }
+  }
+}
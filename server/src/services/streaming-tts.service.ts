@@ -1,14 +1,161 @@
 import { ttsService } from './tts.service';
-import { StreamingConfig } from '../types/streaming';
+import { metricsService } from './metrics.service';
+import { SpeechMetrics, STREAMING_EVENTS, StreamingConfig, StreamResult } from '../types/streaming';
 import { Server as SocketServer } from 'socket.io';
 import { AudioChunk } from '../types/streaming';
+import { SpokenChunk } from '../types/chat';
+import { SentenceSegmenter } from '../utils/sentences';
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs';
 import * as path from 'path';
 
+// Sentences shorter than this are merged with the next one
+const MIN_SENTENCE_LENGTH = 20;
+const MAX_CHUNK_LENGTH = 300; // characters per chunk
+
+export class SpeechStream {
+  private readonly streamId: string;
+  private readonly startedAt: number;
+  private readonly segmenter = new SentenceSegmenter(MIN_SENTENCE_LENGTH, MAX_CHUNK_LENGTH);
+  private readonly sentChunks: SpokenChunk[] = [];
+  private readonly metrics: Omit<SpeechMetrics, 'totalMs' | 'chunks' | 'interrupted'>;
+  // Sentences are synthesized one after another so chunks go out in order
+  private queue: Promise<void> = Promise.resolve();
+  private chunkIndex = 0;
+  private finished = false;
+
+  constructor(
+    private readonly socket: any,
+    private readonly controller: AbortController,
+    private readonly config: StreamingConfig | undefined,
+    private readonly onDone: () => void
+  ) {
+    this.streamId = config?.streamId || uuidv4();
+    this.startedAt = config?.startedAt || Date.now();
+    this.metrics = { streamId: this.streamId };
+
+    // Signal stream start
+    socket.emit(STREAMING_EVENTS.STREAM_START);
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  // Shared by the audio chunks of this reply
+  get id(): string {
+    return this.streamId;
+  }
+
+  // Text of the chunks sent so far
+  get sentText(): string {
+    return this.sentChunks.map((chunk) => chunk.text).join(' ');
+  }
+
+  push(text: string): void {
+    if (this.finished || this.signal.aborted || !text) return;
+    this.metrics.firstTokenMs ??= this.elapsed();
+
+    for (const sentence of this.segmenter.push(text)) {
+      this.enqueue(sentence, false);
+    }
+  }
+
+  async finish(): Promise<StreamResult> {
+    if (!this.finished) {
+      this.finished = true;
+      const rest = this.segmenter.flush();
+      rest.forEach((sentence, i) => this.enqueue(sentence, i === rest.length - 1));
+    }
+
+    await this.queue;
+    const interrupted = this.signal.aborted;
+    if (interrupted) {
+      console.log(`Stream ${this.streamId} was canceled after ${this.sentChunks.length} chunks`);
+    } else {
+      // Signal stream end
+      this.socket.emit(STREAMING_EVENTS.STREAM_END);
+      console.log(`Stream ${this.streamId} completed successfully`);
+    }
+
+    const metrics: SpeechMetrics = {
+      ...this.metrics,
+      totalMs: this.elapsed(),
+      chunks: this.sentChunks.length,
+      interrupted,
+    };
+    this.socket.emit(STREAMING_EVENTS.STREAM_METRICS, metrics);
+    metricsService.recordSpeech(metrics);
+    this.onDone();
+
+    return {
+      sentText: this.sentText,
+      interrupted,
+      spoken: [...this.sentChunks],
+      metrics,
+    };
+  }
+
+  private enqueue(sentence: string, isLast: boolean): void {
+    this.metrics.firstSentenceMs ??= this.elapsed();
+    const index = this.chunkIndex++;
+    this.queue = this.queue.then(() => this.speak(sentence, index, isLast));
+  }
+
+  private async speak(text: string, index: number, isLast: boolean): Promise<void> {
+    if (this.signal.aborted) return;
+
+    try {
+      // Convert sentence to audio
+      // The audio file is kept for the tenant's audio retention; the cleanup
+      // service deletes it
+      const { audioUrl, duration } = await ttsService.convertToSpeech(text, {
+        voice: this.config?.voice,
+        sessionId: this.config?.sessionId
+      }, this.signal);
+      if (this.signal.aborted) return;
+
+      // isLast is only known for sentences flushed by finish()
+      const audioChunk: AudioChunk = {
+        id: `${this.streamId}-${index}`,
+        streamId: this.streamId,
+        text,
+        audio: audioUrl,
+        isLast,
+        timestamp: Date.now()
+      };
+
+      // Send chunk to client
+      this.socket.emit(STREAMING_EVENTS.CHUNK_RECEIVED, audioChunk);
+      this.sentChunks.push(this.toSpokenChunk(text, duration, audioChunk.timestamp));
+      this.metrics.firstAudioMs ??= this.elapsed();
+      console.log(`Sent chunk ${index + 1} (${text.length} chars) for stream ${this.streamId}`);
+    } catch (error) {
+      if (this.signal.aborted) return;
+      console.error(`Error processing chunk ${index + 1} for stream ${this.streamId}:`, error);
+      this.socket.emit(STREAMING_EVENTS.STREAM_ERROR, {
+        code: 'CHUNK_ERROR',
+        message: `Failed to process chunk ${index + 1}`,
+        details: error
+      });
+    }
+  }
+
+  // The client queues chunks, so one starts playing when it arrives or when
+  // the previous one ends, whichever is later
+  private toSpokenChunk(text: string, duration: number, sentAt: number): SpokenChunk {
+    const previous = this.sentChunks[this.sentChunks.length - 1];
+    const startedAt = previous ? Math.max(sentAt, previous.startedAt + previous.durationMs) : sentAt;
+    return { text, startedAt, durationMs: Math.round(duration * 1000) };
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+}
+
 class StreamingTTSService {
   private io: SocketServer | null = null;
-  private readonly chunkSize = 300; // characters per chunk
 
   async generateAudio(text: string, outputPath: string): Promise<void> {
     try {
@@ -33,161 +180,47 @@ class StreamingTTSService {
     this.io = io;
   }
 
-  private splitTextIntoChunks(text: string): string[] {
-    // If text is shorter than chunk size, return as single chunk
-    if (text.length <= this.chunkSize) {
-      return [text];
-    }
-
-    const words = text.split(' ');
-    const chunks: string[] = [];
-    let currentChunk = '';
+  private activeStreams: Map<string, AbortController> = new Map();
 
-    for (const word of words) {
-      const potentialChunk = currentChunk ? `${currentChunk} ${word}` : word;
-      
-      // If adding this word would exceed chunk size
-      if (potentialChunk.length > this.chunkSize) {
-        if (currentChunk) {
-          chunks.push(currentChunk);
-          currentChunk = word;
-        } else {
-          // Handle case where single word exceeds chunk size
-          const wordChunks = word.match(new RegExp(`.{1,${this.chunkSize}}`, 'g')) || [];
-          chunks.push(...wordChunks);
-        }
-      } else {
-        currentChunk = potentialChunk;
-      }
-    }
-
-    // Add the last chunk if any
-    if (currentChunk) {
-      // If the last chunk is very small, combine with previous
-      if (chunks.length > 0 && currentChunk.length < this.chunkSize * 0.3) {
-        const lastChunk = chunks.pop()!;
-        const combined = `${lastChunk} ${currentChunk}`;
-        if (combined.length <= this.chunkSize) {
-          chunks.push(combined);
-        } else {
-          chunks.push(lastChunk, currentChunk);
-        }
-      } else {
-        chunks.push(currentChunk);
-      }
-    }
-
-    return chunks;
-  }
-
-  private activeStreams: Set<string> = new Set();
-
-  async streamResponse(
-    socket: any,
-    text: string,
-    config?: StreamingConfig
-  ): Promise<void> {
+  // Start speaking a reply while it is still being generated: push() tokens
+  // as they arrive and each completed sentence is synthesized and emitted as
+  // a `stream:chunk` in order; finish() flushes the rest and resolves when
+  // the last chunk was sent
+  createSpeechStream(socket: any, config?: StreamingConfig): SpeechStream {
     if (!this.io) {
       throw new Error('Socket server not initialized');
     }
 
-    const streamId = uuidv4();
-    if (this.activeStreams.has(socket.id)) {
+    const previous = this.activeStreams.get(socket.id);
+    if (previous) {
       console.log(`Canceling existing stream for socket ${socket.id}`);
-      socket.emit('stream:error', {
-        code: 'STREAM_ERROR',
-        message: 'Previous stream was canceled due to new request'
-      });
+      previous.abort();
     }
 
-    this.activeStreams.add(socket.id);
-    const audioFiles: string[] = [];
-
-    try {
-      // Signal stream start
-      socket.emit('stream:start');
-
-      // Split text into chunks
-      const chunks = this.splitTextIntoChunks(text);
-      console.log(`Text chunking details for stream ${streamId}:`, {
-        originalLength: text.length,
-        chunks: chunks.map(chunk => ({
-          length: chunk.length,
-          text: chunk.length > 50 ? `${chunk.slice(0, 50)}...` : chunk
-        })),
-        totalChunks: chunks.length
-      });
-
-      // Process each chunk
-      for (let i = 0; i < chunks.length; i++) {
-        // Check if stream was canceled
-        if (!this.activeStreams.has(socket.id)) {
-          console.log(`Stream ${streamId} was canceled`);
-          return;
-        }
-
-        const chunk = chunks[i];
-        const isLast = i === chunks.length - 1;
-
-        try {
-          // Convert chunk to audio
-          const { audioUrl, audioPath } = await ttsService.convertToSpeech(chunk);
-          if (audioPath) audioFiles.push(audioPath);
-
-          // Create chunk response
-          const audioChunk: AudioChunk = {
-            id: `${streamId}-${i}`,
-            text: chunk,
-            audio: audioUrl,
-            isLast,
-            timestamp: Date.now()
-          };
-
-          // Send chunk to client
-          socket.emit('stream:chunk', audioChunk);
-          console.log(`Sent chunk ${i + 1}/${chunks.length} (${chunk.length} chars) for stream ${streamId}`);
-
-          // Small delay between chunks
-          if (!isLast) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-        } catch (error) {
-          console.error(`Error processing chunk ${i + 1} for stream ${streamId}:`, error);
-          socket.emit('stream:error', {
-            code: 'CHUNK_ERROR',
-            message: `Failed to process chunk ${i + 1}`,
-            details: error
-          });
-        }
+    // Stopped by the caller's signal or by a newer stream on the same socket
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    config?.signal?.addEventListener('abort', onAbort, { once: true });
+    if (config?.signal?.aborted) controller.abort();
+    this.activeStreams.set(socket.id, controller);
+
+    return new SpeechStream(socket, controller, config, () => {
+      config?.signal?.removeEventListener('abort', onAbort);
+      if (this.activeStreams.get(socket.id) === controller) {
+        this.activeStreams.delete(socket.id);
       }
-
-      // Signal stream end
-      socket.emit('stream:end');
-      console.log(`Stream ${streamId} completed successfully`);
-
-    } catch (error) {
-      console.error(`Streaming error for stream ${streamId}:`, error);
-      socket.emit('stream:error', {
-        code: 'STREAM_ERROR',
-        message: 'Failed to process streaming response',
-        details: error
-      });
-    } finally {
-      // Cleanup
-      this.activeStreams.delete(socket.id);
-      this.cleanupAudioFiles(audioFiles);
-    }
+    });
   }
 
-  private async cleanupAudioFiles(files: string[]): Promise<void> {
-    for (const file of files) {
-      try {
-        await fs.promises.unlink(file);
-        console.log(`Cleaned up audio file: ${file}`);
-      } catch (error) {
-        console.error(`Failed to cleanup audio file ${file}:`, error);
-      }
-    }
+  // Speak a complete text
+  async streamResponse(
+    socket: any,
+    text: string,
+    config?: StreamingConfig
+  ): Promise<StreamResult> {
+    const speech = this.createSpeechStream(socket, config);
+    speech.push(text);
+    return speech.finish();
   }
 }
 
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import config from '../config/config';
+import { findCredentialOwner } from '../utils/credentials';
+import { currentTenantId, DEFAULT_TENANT_ID } from '../utils/tenant';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+import { AuthRole } from '../types/auth';
+import { Tenant, TenantDefinition } from '../types/tenant';
+import { RETENTION_CATEGORIES, RetentionCategory, RetentionPolicy } from '../types/privacy';
+
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+// Owner of a static key
+export interface TenantCredential {
+  tenant: Tenant;
+  role: AuthRole;
+  name: string;  // Account name, or the embedding site for customer keys
+}
+
+// Organizations served by this deployment. The default tenant is configured
+// from the environment; TENANTS_PATH adds more tenants or overrides it.
+class TenantService {
+  private readonly tenants: Map<string, Tenant>;
+
+  constructor() {
+    this.tenants = new Map([[DEFAULT_TENANT_ID, this.defaultTenant()]]);
+    if (config.tenants.definitionPath) {
+      for (const tenant of this.loadTenants(config.tenants.definitionPath)) {
+        this.tenants.set(tenant.id, tenant);
+      }
+    }
+  }
+
+  getTenant(tenantId: string): Tenant | null {
+    return this.tenants.get(tenantId) || null;
+  }
+
+  listTenants(): Tenant[] {
+    return Array.from(this.tenants.values());
+  }
+
+  // Tenant the current request or socket event runs for
+  current(): Tenant {
+    return this.tenants.get(currentTenantId()) || this.tenants.get(DEFAULT_TENANT_ID)!;
+  }
+
+  // Seconds a tenant keeps data of a category after its last change; 0 keeps
+  // it until it is erased
+  retentionSeconds(category: RetentionCategory, tenantId: string = currentTenantId()): number {
+    const tenant = this.tenants.get(tenantId) || this.tenants.get(DEFAULT_TENANT_ID)!;
+    return Math.round(tenant.retention[category] * 60 * 60);
+  }
+
+  // Tenant of a public widget key, or null
+  findByWidgetKey(key: unknown): Tenant | null {
+    if (typeof key !== 'string' || !key) return null;
+    return this.listTenants().find((tenant) => tenant.widgetKeys.includes(key)) || null;
+  }
+
+  // Tenant, role and account of a static key, or null
+  findCredential(key: unknown): TenantCredential | null {
+    for (const tenant of this.tenants.values()) {
+      const accounts: [AuthRole, Record<string, string>][] = [
+        ['admin', tenant.adminTokens],
+        ['supervisor', tenant.supervisorTokens],
+        ['agent', tenant.agentTokens],
+        ['customer', tenant.siteKeys],
+      ];
+      for (const [role, credentials] of accounts) {
+        const name = findCredentialOwner(credentials, key);
+        if (name) return { tenant, role, name };
+      }
+    }
+    return null;
+  }
+
+  // Requests without an Origin header (servers, curl) are not browser-bound
+  isOriginAllowed(tenant: Tenant, origin: string | undefined): boolean {
+    return !origin || tenant.corsOrigins.includes('*') || tenant.corsOrigins.includes(origin);
+  }
+
+  // Whether any tenant allows the origin; used for CORS preflights, which
+  // carry no credentials to tell the tenant from
+  isKnownOrigin(origin: string | undefined): boolean {
+    return this.listTenants().some((tenant) => this.isOriginAllowed(tenant, origin));
+  }
+
+  private defaultTenant(): Tenant {
+    return {
+      id: DEFAULT_TENANT_ID,
+      name: 'Default',
+      corsOrigins: [config.cors.origin],
+      widgetKeys: [],
+      siteKeys: config.auth.siteKeys,
+      adminTokens: config.auth.adminTokens,
+      agentTokens: config.handoff.agentTokens,
+      supervisorTokens: config.handoff.supervisorTokens,
+      tts: { voice: config.tts.defaultVoice },
+      credentials: { openaiApiKey: config.openaiApiKey, smallestAiApiKey: config.smallestAiApiKey },
+      retention: { ...config.retention },
+    };
+  }
+
+  private loadTenants(definitionPath: string): Tenant[] {
+    let file: { tenants?: TenantDefinition[] };
+    try {
+      file = JSON.parse(fs.readFileSync(definitionPath, 'utf8'));
+    } catch (error) {
+      throw this.invalidTenants(`Failed to load tenants from ${definitionPath}`, error);
+    }
+    if (!Array.isArray(file.tenants)) {
+      throw this.invalidTenants(`${definitionPath} needs a "tenants" array`);
+    }
+
+    const ids = new Set<string>();
+    return file.tenants.map((definition) => {
+      if (typeof definition.id !== 'string' || !TENANT_ID_PATTERN.test(definition.id)) {
+        throw this.invalidTenants(`Invalid tenant id "${definition.id}" in ${definitionPath}`);
+      }
+      if (ids.has(definition.id)) {
+        throw this.invalidTenants(`Duplicate tenant id "${definition.id}" in ${definitionPath}`);
+      }
+      ids.add(definition.id);
+
+      const base = definition.id === DEFAULT_TENANT_ID ? this.defaultTenant() : undefined;
+      return {
+        id: definition.id,
+        name: definition.name || base?.name || definition.id,
+        corsOrigins: definition.corsOrigins || base?.corsOrigins || [],
+        widgetKeys: definition.widgetKeys || [],
+        siteKeys: definition.siteKeys || base?.siteKeys || {},
+        adminTokens: definition.adminTokens || base?.adminTokens || {},
+        agentTokens: definition.agentTokens || base?.agentTokens || {},
+        supervisorTokens: definition.supervisorTokens || base?.supervisorTokens || {},
+        tts: { voice: definition.tts?.voice || config.tts.defaultVoice },
+        credentials: {
+          openaiApiKey: definition.credentials?.openaiApiKey || config.openaiApiKey,
+          smallestAiApiKey: definition.credentials?.smallestAiApiKey || config.smallestAiApiKey,
+        },
+        retention: this.retentionPolicy(definition, base?.retention || config.retention, definitionPath),
+      };
+    });
+  }
+
+  private retentionPolicy(definition: TenantDefinition, defaults: RetentionPolicy, definitionPath: string): RetentionPolicy {
+    const policy = { ...defaults, ...definition.retention };
+    for (const category of RETENTION_CATEGORIES) {
+      const hours = policy[category];
+      if (typeof hours !== 'number' || !Number.isFinite(hours) || hours < 0) {
+        throw this.invalidTenants(
+          `Invalid retention.${category} of tenant "${definition.id}" in ${definitionPath}: expected hours, 0 to keep until erased`
+        );
+      }
+    }
+    return policy;
+  }
+
+  private invalidTenants(message: string, details?: unknown): ErrorResponse {
+    return { error: message, code: ERROR_CODES.SERVER_ERROR, details };
+  }
+}
+
+// Export as singleton
+export const tenantService = new TenantService();
+export default tenantService;
@@ -0,0 +1,147 @@
+import { ChatCompletionTool } from 'openai/resources/chat/completions';
+import {
+  ToolCall,
+  ToolContext,
+  ToolDefinition,
+  ToolParameterSchema,
+  ToolResult,
+} from '../types/tools';
+
+class ToolRegistryService {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  register<TArgs>(tool: ToolDefinition<TArgs>): void {
+    if (!/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+      throw new Error(`Invalid tool name: ${tool.name}`);
+    }
+    if (this.tools.has(tool.name)) {
+      console.warn(`Replacing existing tool registration: ${tool.name}`);
+    }
+    // Arguments reach the handler only after they matched the tool's schema
+    this.tools.set(tool.name, { ...tool, handler: (args, context) => tool.handler(args as TArgs, context) });
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  // Tool schemas in the format expected by chat completion requests
+  getSchemas(): ChatCompletionTool[] {
+    return Array.from(this.tools.values()).map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters as unknown as Record<string, unknown>,
+      },
+    }));
+  }
+
+  async execute(call: ToolCall, context: ToolContext): Promise<ToolResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return this.errorResult(call, `Unknown tool: ${call.name}`);
+    }
+
+    let args: Record<string, unknown>;
+    try {
+      args = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch (error) {
+      return this.errorResult(call, 'Tool arguments are not valid JSON');
+    }
+
+    const validationErrors = this.validate(tool.parameters, args, 'arguments');
+    if (validationErrors.length > 0) {
+      return this.errorResult(call, `Invalid arguments: ${validationErrors.join('; ')}`);
+    }
+
+    try {
+      console.log(`Executing tool ${call.name} for session ${context.sessionId}`);
+      const result = await tool.handler(args, context);
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(result ?? null),
+        isError: false,
+      };
+    } catch (error) {
+      console.error(`Tool ${call.name} failed:`, error);
+      return this.errorResult(
+        call,
+        error instanceof Error ? error.message : 'Tool execution failed'
+      );
+    }
+  }
+
+  private errorResult(call: ToolCall, message: string): ToolResult {
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      content: JSON.stringify({ error: message }),
+      isError: true,
+    };
+  }
+
+  private validate(
+    schema: ToolParameterSchema,
+    value: unknown,
+    path: string
+  ): string[] {
+    if (!this.matchesType(schema.type, value)) {
+      return [`${path} must be of type ${schema.type}`];
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+      return [`${path} must be one of: ${schema.enum.join(', ')}`];
+    }
+
+    const errors: string[] = [];
+
+    if (schema.type === 'object') {
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) {
+          errors.push(...this.validate(propertySchema, record[key], `${path}.${key}`));
+        }
+      }
+    }
+
+    if (schema.type === 'array' && schema.items) {
+      (value as unknown[]).forEach((item, index) => {
+        errors.push(...this.validate(schema.items!, item, `${path}[${index}]`));
+      });
+    }
+
+    return errors;
+  }
+
+  private matchesType(type: ToolParameterSchema['type'], value: unknown): boolean {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && !Number.isNaN(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+  }
+}
+
+// Export as singleton
+export const toolRegistry = new ToolRegistryService();
+export default toolRegistry;
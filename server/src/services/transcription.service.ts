@@ -1,19 +1,27 @@
 import axios from 'axios';
 import FormData from 'form-data';
-import config from '../config/config';
+import { auditService } from './audit.service';
+import { tenantService } from './tenant.service';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
 
 class TranscriptionService {
-  private readonly apiKey: string;
   private readonly baseUrl: string = 'https://api.openai.com/v1/audio/transcriptions';
 
-  constructor() {
-    this.apiKey = config.openaiApiKey;
-    if (!this.apiKey) {
-      throw new Error('OpenAI API key is required for transcription service');
+  // Read per request, from the current tenant: the server runs without an
+  // OpenAI key on other LLM providers, and only transcription needs one
+  private get apiKey(): string {
+    const tenant = tenantService.current();
+    if (!tenant.credentials.openaiApiKey) {
+      throw {
+        error: `Transcription is not configured: tenant ${tenant.id} has no OpenAI key`,
+        code: ERROR_CODES.SERVER_ERROR,
+      } as ErrorResponse;
     }
+    return tenant.credentials.openaiApiKey;
   }
 
   async transcribeAudio(audioBuffer: Buffer): Promise<string> {
+    const apiKey = this.apiKey;
     try {
       console.log('Transcribing audio...');
       
@@ -25,13 +33,18 @@ class TranscriptionService {
       formData.append('model', 'whisper-1');
       formData.append('language', 'en');
 
-      const response = await axios.post(this.baseUrl, formData, {
-        headers: {
-          ...formData.getHeaders(),
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        maxBodyLength: Infinity,
-      });
+      const response = await auditService.trackProvider(
+        'stt',
+        { model: 'whisper-1', bytes: audioBuffer.length },
+        () => axios.post(this.baseUrl, formData, {
+          headers: {
+            ...formData.getHeaders(),
+            'Authorization': `Bearer ${apiKey}`,
+          },
+          maxBodyLength: Infinity,
+        }),
+        (result) => ({ characters: typeof result.data.text === 'string' ? result.data.text.length : 0 })
+      );
 
       console.log('Transcription response:', response.data);
 
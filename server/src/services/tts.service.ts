@@ -1,12 +1,15 @@
 import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
 import config from '../config/config';
-import { AudioFormat, ERROR_CODES, TTSRequest, TTSResponse } from '../types/chat';
+import { AudioFormat, ERROR_CODES, ErrorResponse, TTSRequest, TTSResponse } from '../types/chat';
 import * as fs from 'fs';
 import * as path from 'path';
 import { cleanupService } from './cleanup.service';
+import { auditService } from './audit.service';
+import { tenantService } from './tenant.service';
+import { cancelledError, delay as wait } from '../utils/abort';
 
 class TTSService {
-  private readonly apiKey: string;
   private readonly baseUrl: string = 'https://waves-api.smallest.ai/api/v1/lightning/get_speech';
   private readonly defaultFormat: AudioFormat = 'wav';
   private readonly requestTimeout = 60000; // 1 minute timeout
@@ -20,12 +23,6 @@ class TTSService {
   private readonly sampleRate: number;
 
   constructor() {
-    this.apiKey = config.smallestAiApiKey;
-    
-    if (!this.apiKey) {
-      throw new Error('TTS service requires Smallest.ai API key');
-    }
-    
     // Initialize from config
     this.defaultVoice = config.tts.defaultVoice;
     this.defaultSpeed = config.tts.defaultSpeed;
@@ -34,9 +31,21 @@ class TTSService {
     console.log(`TTS service initialized with voice: ${this.defaultVoice}, speed: ${this.defaultSpeed}, sample rate: ${this.sampleRate}`);
   }
 
-  private getHeaders() {
+  // Smallest AI key of the current tenant
+  private get apiKey(): string {
+    const tenant = tenantService.current();
+    if (!tenant.credentials.smallestAiApiKey) {
+      throw {
+        error: `Speech synthesis is not configured: tenant ${tenant.id} has no Smallest AI key`,
+        code: ERROR_CODES.SERVER_ERROR,
+      } as ErrorResponse;
+    }
+    return tenant.credentials.smallestAiApiKey;
+  }
+
+  private getHeaders(apiKey: string) {
     return {
-      'Authorization': `Bearer ${this.apiKey}`,
+      'Authorization': `Bearer ${apiKey}`,
       'Content-Type': 'application/json',
       'Accept': 'audio/wav'
     };
@@ -93,7 +102,13 @@ class TTSService {
     return chunks;
   }
 
-  private async makeRequest(requestData: TTSRequest, chunkIndex: number, totalChunks: number): Promise<Buffer> {
+  private async makeRequest(
+    requestData: TTSRequest,
+    apiKey: string,
+    chunkIndex: number,
+    totalChunks: number,
+    signal?: AbortSignal
+  ): Promise<Buffer> {
     let retryCount = 0;
     const maxRetries = this.maxRetries;
 
@@ -101,25 +116,40 @@ class TTSService {
       try {
         console.log(`Processing chunk ${chunkIndex + 1}/${totalChunks} (${requestData.text.length} chars)`);
         
-        const response = await axios.post(
-          this.baseUrl,
+        const response = await auditService.trackProvider(
+          'tts',
           {
-            text: requestData.text,
-            voice_id: requestData.voice || this.defaultVoice,
-            sample_rate: this.sampleRate,
-            speed: requestData.speed || this.defaultSpeed,
-            add_wav_header: true
+            voice: requestData.voice || this.defaultVoice,
+            characters: requestData.text.length,
+            chunk: chunkIndex + 1,
+            chunks: totalChunks,
+            attempt: retryCount + 1
           },
-          {
-            headers: this.getHeaders(),
-            timeout: this.requestTimeout,
-            responseType: 'arraybuffer'
-          }
+          () => axios.post(
+            this.baseUrl,
+            {
+              text: requestData.text,
+              voice_id: requestData.voice || this.defaultVoice,
+              sample_rate: this.sampleRate,
+              speed: requestData.speed || this.defaultSpeed,
+              add_wav_header: true
+            },
+            {
+              headers: this.getHeaders(apiKey),
+              timeout: this.requestTimeout,
+              responseType: 'arraybuffer',
+              signal
+            }
+          ),
+          (result) => ({ bytes: result.data.byteLength })
         );
 
         console.log(`Successfully processed chunk ${chunkIndex + 1}/${totalChunks}`);
         return Buffer.from(response.data);
       } catch (error: any) {
+        if (axios.isCancel(error) || signal?.aborted) {
+          throw cancelledError('Speech synthesis cancelled');
+        }
         console.error(`Error processing chunk ${chunkIndex + 1}/${totalChunks} (attempt ${retryCount + 1}/${maxRetries + 1}):`, error);
 
         if (axios.isAxiosError(error)) {
@@ -158,7 +188,7 @@ class TTSService {
             retryCount++;
             const delay = this.retryDelay * Math.pow(2, retryCount - 1);
             console.log(`Retrying chunk ${chunkIndex + 1} in ${delay}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+            await wait(delay, signal);
             continue;
           }
         }
@@ -170,11 +200,22 @@ class TTSService {
     throw new Error(`Failed to process chunk ${chunkIndex + 1} after ${maxRetries} retries`);
   }
 
+  // Seconds of audio in a WAV file. The header's data size only covers the
+  // first chunk of combined audio, so the size is taken from the buffer.
+  private wavDuration(wav: Buffer): number {
+    const headerSize = 44;
+    if (wav.length <= headerSize) return 0;
+    const byteRate = wav.readUInt32LE(28);
+    return byteRate > 0 ? (wav.length - headerSize) / byteRate : 0;
+  }
+
   async convertToSpeech(
     text: string,
-    options: Partial<TTSRequest> = {}
+    options: Partial<TTSRequest> = {},
+    signal?: AbortSignal
   ): Promise<TTSResponse> {
     console.log('Converting text to speech:', text);
+    const apiKey = this.apiKey;
 
     // Split text into chunks
     const chunks = this.splitTextIntoChunks(text);
@@ -191,27 +232,22 @@ class TTSService {
             format: options.format || this.defaultFormat,
             speed: options.speed || this.defaultSpeed,
           },
+          apiKey,
           i,
-          chunks.length
+          chunks.length,
+          signal
         );
         audioBuffers.push(buffer);
 
         // Small delay between chunks to avoid rate limiting
         if (i < chunks.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500));
+          await wait(500, signal);
         }
       }
 
-      // Save combined audio
-      const timestamp = Date.now();
-      const filename = `tts_${timestamp}.wav`;
-      const audioDir = path.join(__dirname, '../../audio');
-      const filepath = path.join(audioDir, filename);
-
-      // Create directory if needed
-      if (!fs.existsSync(audioDir)) {
-        fs.mkdirSync(audioDir, { recursive: true });
-      }
+      // Save combined audio in the tenant's directory, under a name that
+      // can't be guessed
+      const filepath = path.join(cleanupService.tenantAudioDir(), `tts_${uuidv4()}.wav`);
 
       // Combine WAV files
       const combinedBuffer = Buffer.concat(
@@ -225,7 +261,7 @@ class TTSService {
       console.log(`Saved combined audio file (${combinedBuffer.length} bytes) to ${filepath}`);
 
       // Track the file for cleanup
-      await cleanupService.trackAudioFile(filepath);
+      await cleanupService.trackAudioFile(filepath, options.sessionId);
 
       // Convert to base64 for client
       const audioBase64 = combinedBuffer.toString('base64');
@@ -234,7 +270,7 @@ class TTSService {
       return {
         audioUrl,
         audioPath: filepath,
-        duration: 0,
+        duration: this.wavDuration(combinedBuffer),
         format: 'wav'
       };
     } catch (error) {
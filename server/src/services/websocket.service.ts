@@ -1,16 +1,45 @@
 import { Server as HTTPServer } from 'http';
-import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Namespace, Server as SocketIOServer, Socket } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
 import config from '../config/config';
-import { ChatMessage, ChatResponse, WebSocketEvents, WS_EVENTS, ErrorResponse } from '../types/chat';
+import { CancelReason, ChatMessage, ChatResponse, WebSocketEvents, WS_EVENTS, ErrorResponse, ERROR_CODES } from '../types/chat';
 import { STREAMING_EVENTS, StreamingError } from '../types/streaming';
+import { ToolEvent } from '../types/tools';
+import { ChatStartOptions } from '../types/persona';
+import { GenerationConfigUpdate } from '../types/generation';
+import { AGENT_EVENTS, AGENT_NAMESPACE, AgentIdentity, Handoff, HandoffReason } from '../types/handoff';
+import { CustomerLeadUpdateEvent, LeadFields, LeadUpdateEvent } from '../types/lead';
+import { ActiveSession, SUPERVISOR_EVENTS } from '../types/coaching';
 import { aiService } from './ai.service';
-import { redisService } from './redis.service';
-import { streamingTTSService } from './streaming-tts.service';
+import { conversationStore } from './store.service';
+import { SpeechStream, streamingTTSService } from './streaming-tts.service';
+import { personaService } from './persona.service';
+import { generationConfigService } from './generation-config.service';
+import { leadService } from './lead.service';
+import { classificationService } from './classification.service';
+import { salesStageService } from './sales-stage.service';
+import { guardrailsService } from './guardrails.service';
+import { factCheckService, ResponseFactChecker } from './fact-check.service';
+import { handoffService } from './handoff.service';
+import { coachingService } from './coaching.service';
+import { authService } from './auth.service';
+import { auditService } from './audit.service';
+import { privacyService } from './privacy.service';
+import { tenantService } from './tenant.service';
+import { isCancelledError } from '../utils/abort';
+import { toErrorResponse } from '../utils/errors';
+import { currentTenantId, DEFAULT_TENANT_ID, runWithTenant } from '../utils/tenant';
+
+const HANDOFF_CONFIRMATION = 'Of course. I\'m connecting you with a member of our team, they will join this chat shortly.';
 
 class WebSocketService {
   private io: SocketIOServer;
+  // Authenticated human agents; each claimed session is a room
+  private agents: Namespace;
   private activeConnections: Map<string, Socket> = new Map();
+  // In-flight turn per session, cancelled by chat:cancel or the next user message.
+  // It outlives a dropped socket so a resumed session still receives it.
+  private activeTurns: Map<string, { controller: AbortController; responseId: string; speech?: SpeechStream }> = new Map();
 
   constructor(server: HTTPServer) {
     this.io = new SocketIOServer(server, {
@@ -18,7 +47,7 @@ class WebSocketService {
       pingInterval: config.wsConfig.pingInterval,
       pingTimeout: config.wsConfig.pingTimeout,
       cors: {
-        origin: config.cors.origin,
+        origin: (origin, callback) => callback(null, tenantService.isKnownOrigin(origin)),
         methods: ['GET', 'POST'],
         credentials: config.cors.credentials
       }
@@ -26,17 +55,124 @@ class WebSocketService {
 
     // Initialize streaming TTS service with socket server
     streamingTTSService.setSocketServer(this.io);
+    this.agents = this.io.of(AGENT_NAMESPACE);
     this.setupEventHandlers();
+    this.setupAgentHandlers();
+
+    // Agents and supervisors get every lead change; the customer only sees the
+    // details taken from their own messages
+    leadService.onLeadUpdated((event) => {
+      const { sessionId } = event.lead;
+      this.agents.to(this.sessionRoom(sessionId)).to(this.supervisorsRoom()).emit(AGENT_EVENTS.LEAD_UPDATED, event);
+      if (event.source === 'customer') {
+        this.findSessionSocket(sessionId)?.emit(WS_EVENTS.LEAD_UPDATED, this.customerLeadUpdate(event));
+      }
+    });
+
+    // Announce sales-stage changes, whether from a turn or a manual override
+    salesStageService.onStageChanged((sessionId, salesStage) => {
+      this.findSessionSocket(sessionId)?.emit(WS_EVENTS.CHAT_STATUS, { connected: true, salesStage });
+    });
+
+    // Keep agent consoles and the customer informed about escalations
+    handoffService.onHandoffChanged((handoff) => this.announceHandoff(handoff));
+
+    // Supervisors see whispers as they are sent and used
+    coachingService.onWhispersChanged((sessionId, whispers) => {
+      this.agents.to(this.supervisorsRoom()).emit(SUPERVISOR_EVENTS.WHISPERS, { sessionId, whispers });
+    });
   }
 
   private setupEventHandlers(): void {
-    this.io.on('connection', (socket: Socket) => {
-      console.log(`Client connected: ${socket.id}`);
-      this.activeConnections.set(socket.id, socket);
+    // Access token of the handshake (`auth: { token }`); required when WS_AUTH_REQUIRED is set.
+    // The token's tenant, else the tenant of `auth.widgetKey`, owns the session.
+    this.io.use((socket, next) => {
+      const { token, widgetKey } = socket.handshake.auth || {};
+      const identity = authService.verifyAccessToken(token);
+      if (!identity && (token || config.wsConfig.authRequired)) {
+        return next(this.unauthorized(token ? 'Invalid access token' : 'An access token is required'));
+      }
+      const tenant = identity
+        ? tenantService.getTenant(identity.tenantId)!
+        : widgetKey ? tenantService.findByWidgetKey(widgetKey) : tenantService.getTenant(DEFAULT_TENANT_ID)!;
+      if (!tenant) {
+        return next(this.unauthorized('Unknown widget key'));
+      }
+      if (!tenantService.isOriginAllowed(tenant, socket.handshake.headers.origin)) {
+        return next(this.unauthorized(`Origin ${socket.handshake.headers.origin} is not allowed`));
+      }
+      socket.data.identity = identity;
+      socket.data.tenantId = tenant.id;
+      next();
+    });
+
+    this.io.on('connection', (socket: Socket) => runWithTenant(socket.data.tenantId, () => {
+      const identity = socket.data.identity;
+      const tenantId: string = socket.data.tenantId;
+      console.log(`Client connected: ${socket.id} (tenant ${tenantId}${identity ? `, ${identity.role} ${identity.id}` : ''})`);
+      socket.join(this.tenantRoom(tenantId));
 
-      // Initialize session
-      const sessionId = uuidv4();
+      // Resume the session of the handshake token, or start a new one
+      const resumedId = authService.verifySessionToken(socket.handshake.auth?.sessionToken, tenantId);
+      const sessionId = resumedId || uuidv4();
       socket.data.sessionId = sessionId;
+      socket.data.resumed = Boolean(resumedId);
+      socket.data.connectedAt = Date.now();
+
+      // Every event of the socket runs in its tenant and session, and every
+      // event in either direction goes to the session's audit log
+      auditService.record(sessionId, {
+        kind: 'inbound',
+        type: 'connect',
+        socketId: socket.id,
+        data: { resumed: Boolean(resumedId), role: identity?.role, origin: socket.handshake.headers.origin }
+      });
+      socket.use(([event, payload], next) => runWithTenant(tenantId, () => {
+        auditService.record(sessionId, { kind: 'inbound', type: event, socketId: socket.id, data: payload });
+        auditService.runInSession(sessionId, next);
+      }));
+      socket.onAnyOutgoing((event, payload) => runWithTenant(tenantId, () => {
+        auditService.recordOutgoing(sessionId, socket.id, event, payload);
+      }));
+      if (identity?.role === 'customer') {
+        privacyService.linkCustomer(identity.id, sessionId).catch((error) => {
+          console.error(`Failed to link session ${sessionId} to its customer:`, error);
+        });
+      }
+
+      // After a reload the old socket may not have noticed yet that it is gone
+      const previous = resumedId ? this.findSessionSocket(resumedId) : undefined;
+      if (previous) {
+        console.log(`Session ${sessionId} moved from socket ${previous.id} to ${socket.id}`);
+        this.activeConnections.delete(previous.id);
+        previous.disconnect(true);
+      }
+      this.activeConnections.set(socket.id, socket);
+      this.broadcastActiveSessions();
+      this.sendSession(socket).catch((error) => this.handleError(socket, error));
+
+      // Handle session start (persona selection)
+      socket.on(WS_EVENTS.CHAT_START, async (options?: ChatStartOptions) => {
+        try {
+          await this.handleChatStart(socket, options || {});
+        } catch (error) {
+          this.handleError(socket, error);
+        }
+      });
+
+      // Handle generation settings (model, temperature, max_tokens, penalties)
+      socket.on(WS_EVENTS.CHAT_CONFIG, async (update: GenerationConfigUpdate) => {
+        try {
+          await this.handleChatConfig(socket, update);
+        } catch (error) {
+          this.handleError(socket, error);
+        }
+      });
+
+      // Handle cancellation of the in-flight response
+      socket.on(WS_EVENTS.CHAT_CANCEL, () => {
+        this.cancelTurn(sessionId, 'cancelled');
+      });
 
       // Handle chat message
       socket.on(WS_EVENTS.CHAT_MESSAGE, async (message: string) => {
@@ -56,94 +192,636 @@ class WebSocketService {
         }
       });
 
-      // Handle speech events
+      // Speech and typing indicators only reach the agents and supervisors of the session
       socket.on(STREAMING_EVENTS.SPEECH_START, () => {
         console.log(`Speech started: ${socket.id}`);
-        socket.broadcast.emit(STREAMING_EVENTS.SPEECH_START);
+        this.agents.to(this.sessionRoom(sessionId)).emit(AGENT_EVENTS.CUSTOMER_SPEAKING, { sessionId, speaking: true });
       });
 
       socket.on(STREAMING_EVENTS.SPEECH_END, () => {
         console.log(`Speech ended: ${socket.id}`);
-        socket.broadcast.emit(STREAMING_EVENTS.SPEECH_END);
+        this.agents.to(this.sessionRoom(sessionId)).emit(AGENT_EVENTS.CUSTOMER_SPEAKING, { sessionId, speaking: false });
       });
 
-      // Handle typing indicator
       socket.on(WS_EVENTS.CHAT_TYPING, (isTyping: boolean) => {
-        socket.broadcast.emit(WS_EVENTS.CHAT_STATUS, {
-          connected: true,
+        this.agents.to(this.sessionRoom(sessionId)).emit(AGENT_EVENTS.CUSTOMER_TYPING, {
+          sessionId,
           typing: isTyping
         });
       });
 
       // Handle disconnection
-      socket.on('disconnect', () => {
+      socket.on('disconnect', (reason) => runWithTenant(tenantId, () => {
         console.log(`Client disconnected: ${socket.id}`);
+        auditService.record(sessionId, { kind: 'inbound', type: 'disconnect', socketId: socket.id, data: { reason } });
+        auditService.forgetSocket(socket.id);
         this.activeConnections.delete(socket.id);
-      });
-    });
+        this.broadcastActiveSessions();
+        this.abandonTurnLater(sessionId);
+      }));
+    }));
   }
 
-  private async handleChatMessage(socket: Socket, message: string): Promise<void> {
+  private async handleChatStart(socket: Socket, options: ChatStartOptions): Promise<void> {
     const sessionId = socket.data.sessionId;
 
-    // Emit typing indicator
+    // A resumed session keeps the persona it was started with
+    if (!socket.data.resumed) {
+      await this.applyChatStartOptions(sessionId, options);
+    }
+    const persona = await personaService.resolveForSession(sessionId);
+    const stage = await salesStageService.getState(sessionId);
+
     socket.emit(WS_EVENTS.CHAT_STATUS, {
       connected: true,
-      processing: true
+      persona: { id: persona.id, name: persona.name, version: persona.version },
+      salesStage: salesStageService.getStatus(stage)
+    });
+  }
+
+  private async applyChatStartOptions(sessionId: string, options: ChatStartOptions): Promise<void> {
+    if (options.personaId) {
+      const persona = await personaService.getPersona(options.personaId);
+      if (!persona) {
+        throw {
+          error: `Persona ${options.personaId} not found`,
+          code: ERROR_CODES.NOT_FOUND
+        };
+      }
+      if (options.personaVersion !== undefined &&
+          !persona.versions.some(v => v.version === options.personaVersion)) {
+        throw {
+          error: `Persona ${options.personaId} has no version ${options.personaVersion}`,
+          code: ERROR_CODES.NOT_FOUND
+        };
+      }
+    }
+
+    await conversationStore.updateSession(sessionId, {
+      personaId: options.personaId,
+      personaVersion: options.personaVersion
     });
+  }
+
+  // Issue the token that resumes this session; a resumed session also gets its
+  // history, including the part of the reply that was already spoken
+  private async sendSession(socket: Socket): Promise<void> {
+    const sessionId: string = socket.data.sessionId;
+    const token = authService.issueSessionToken(sessionId, socket.data.tenantId);
+    if (!socket.data.resumed) {
+      socket.emit(WS_EVENTS.CHAT_SESSION, { sessionId, token, resumed: false, messages: [] });
+      return;
+    }
+
+    const [session, handoff] = await Promise.all([
+      conversationStore.getSession(sessionId),
+      handoffService.getOpenHandoff(sessionId)
+    ]);
+    const turn = this.activeTurns.get(sessionId);
+    const messages: ChatMessage[] = (session?.messages || [])
+      .filter((message) => message.role !== 'tool' && message.content && message.id !== turn?.responseId)
+      .map(({ id, role, content, timestamp, agent }) => ({ id, role, content, timestamp, agent }));
+
+    // Later audio chunks of the reply continue this message on the client
+    if (turn?.speech?.sentText) {
+      messages.push({
+        id: this.streamMessageId(turn.responseId),
+        role: 'assistant',
+        content: turn.speech.sentText,
+        timestamp: Date.now()
+      });
+    }
+
+    console.log(`Session ${sessionId} resumed on socket ${socket.id} (${messages.length} messages)`);
+    socket.emit(WS_EVENTS.CHAT_SESSION, { sessionId, token, resumed: true, messages });
+    if (turn || handoff) {
+      socket.emit(WS_EVENTS.CHAT_STATUS, {
+        connected: true,
+        ...(turn ? { processing: true } : {}),
+        ...(handoff ? { handoff: { status: handoff.status, agentName: handoff.agent?.name } } : {})
+      });
+    }
+  }
+
+  private async handleChatConfig(socket: Socket, update: GenerationConfigUpdate): Promise<void> {
+    const result = await generationConfigService.updateSessionConfig(
+      socket.data.sessionId,
+      update,
+      { createSession: true }
+    );
+
+    socket.emit(WS_EVENTS.CHAT_STATUS, {
+      connected: true,
+      generation: { config: result.effective, adjusted: result.adjusted || [] }
+    });
+  }
+
+  private async handleChatMessage(socket: Socket, message: string): Promise<void> {
+    const sessionId = socket.data.sessionId;
+    const startedAt = Date.now();
+
+    // A new user turn interrupts the response still in progress
+    this.cancelTurn(sessionId, 'new_turn');
+    const controller = new AbortController();
+    const responseId = uuidv4();
+    const turn: { controller: AbortController; responseId: string; speech?: SpeechStream } = { controller, responseId };
+    this.activeTurns.set(sessionId, turn);
+    // Reply text the customer was shown
+    let sentContent = '';
+
+    const guard = guardrailsService.createGuard(sessionId, responseId);
+    let speech: SpeechStream | undefined;
+    let factChecker: ResponseFactChecker | undefined;
 
     try {
+      // Tag the turn before it is stored so the tags are saved with the message
+      const classification = await classificationService.classifyTurn(sessionId, message)
+        .catch((error) => {
+          console.error('Turn classification failed:', error);
+          return undefined;
+        });
+
       // Save user message
       const userMessage: ChatMessage = {
         id: uuidv4(),
         role: 'user',
         content: message,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        classification
       };
-      await redisService.addMessageToSession(sessionId, userMessage);
+      await conversationStore.addMessageToSession(sessionId, userMessage);
+
+      if (classification) {
+        socket.emit(WS_EVENTS.CHAT_STATUS, {
+          connected: true,
+          classification: { messageId: userMessage.id, ...classification }
+        });
+      }
 
-      // Generate AI response
-      let lastContent = '';
-      let lastMessageId = '';
-      const aiResponse = await aiService.generateStreamingResponse(
+      // Capture lead details in the background; changes are pushed via lead:updated
+      leadService.processMessage(sessionId, message).catch((error) => {
+        console.error('Lead extraction failed:', error);
+      });
+
+      // A human agent answers this turn
+      if (await this.routeToAgent(socket, userMessage)) {
+        return;
+      }
+
+      // Emit typing indicator
+      this.emitToSession(sessionId, WS_EVENTS.CHAT_STATUS, {
+        connected: true,
+        processing: true
+      });
+
+      // Speak sentences in the persona's voice while the reply is generated
+      const persona = await personaService.resolveForSession(sessionId).catch((error) => {
+        console.error('Failed to resolve persona voice:', error);
+        return undefined;
+      });
+      // Output follows the session to the socket it is resumed on
+      const stream = streamingTTSService.createSpeechStream(this.sessionChannel(sessionId), {
+        voice: persona?.voice || tenantService.current().tts.voice,
+        signal: controller.signal,
+        startedAt,
         sessionId,
-        message,
-        (token: string) => {
-          lastContent += token;
-          if (!lastMessageId) {
-            lastMessageId = 'stream-' + Date.now();
+        streamId: responseId
+      });
+      speech = stream;
+      turn.speech = stream;
+
+      // Move through the sales process before the reply so it follows the new
+      // stage's instructions. Lead details from this turn count from the next one.
+      try {
+        await salesStageService.advance(sessionId, {
+          classification,
+          lead: await leadService.getLead(sessionId),
+          messageId: userMessage.id
+        });
+      } catch (error) {
+        console.error('Sales stage update failed:', error);
+      }
+
+      factChecker = await factCheckService.createChecker(sessionId, responseId);
+      const checker = factChecker;
+
+      // Generate AI response (saved to Redis by the AI service). Text reaches
+      // the client and TTS only after the guardrails approved it and prices,
+      // stock and specs were checked against the catalog.
+      const emitApproved = (text: string) => {
+        if (!text) return;
+        sentContent += text;
+        this.emitToSession(sessionId, WS_EVENTS.CHAT_RESPONSE, {
+          message: {
+            id: this.streamMessageId(responseId),
+            role: 'assistant',
+            content: sentContent,
+            timestamp: Date.now()
           }
-          socket.emit(WS_EVENTS.CHAT_RESPONSE, {
-            message: {
-              id: lastMessageId,
-              role: 'assistant',
-              content: lastContent,
-              timestamp: Date.now()
-            }
-          });
+        });
+        stream.push(text);
+      };
+
+      await aiService.generateStreamingResponse(
+        sessionId,
+        message,
+        (token: string) => emitApproved(checker.push(guard.push(token))),
+        undefined,
+        {
+          signal: controller.signal,
+          responseId,
+          onToolEvent: (event: ToolEvent) => this.emitToolEvent(sessionId, event)
         }
       );
+      emitApproved(checker.push(guard.finish()) + checker.finish());
 
-      // Stream TTS response
-      await streamingTTSService.streamResponse(socket, aiResponse.content);
+      // Supervisors watching the session follow the reply as it was sent
+      if (sentContent) {
+        this.agents.to(this.sessionRoom(sessionId)).emit(AGENT_EVENTS.SESSION_MESSAGE, {
+          sessionId,
+          message: { id: responseId, role: 'assistant', content: sentContent, timestamp: Date.now() }
+        });
+      }
+    } catch (error) {
+      if (isCancelledError(error)) {
+        console.log(`Turn ${responseId} cancelled for session ${sessionId}`);
+      } else {
+        this.handleError(socket, error);
+        if (speech) {
+          this.escalate(sessionId, 'ai_stuck', 'The AI reply failed');
+        }
+      }
+    } finally {
+      if (guard.isBlocked) {
+        this.escalate(sessionId, 'ai_stuck', 'The AI reply was blocked by the guardrails');
+      }
+      await guardrailsService.saveOutcome(guard).catch((error) => {
+        console.error('Failed to save guardrail outcome:', error);
+      });
+      if (factChecker) {
+        await factCheckService.saveCorrections(factChecker).catch((error) => {
+          console.error('Failed to save fact corrections:', error);
+        });
+      }
+      if (speech) {
+        await this.finishSpeech(sessionId, responseId, speech, sentContent);
+      }
 
-      // Save final message to Redis
-      const finalMessage: ChatMessage = {
-        ...aiResponse,
-        id: lastMessageId || uuidv4()
-      };
-      await redisService.addMessageToSession(sessionId, finalMessage);
+      // A newer turn owns the status once this one was superseded
+      if (this.activeTurns.get(sessionId)?.controller === controller) {
+        this.activeTurns.delete(sessionId);
+        this.emitToSession(sessionId, WS_EVENTS.CHAT_STATUS, {
+          connected: true,
+          processing: false
+        });
+      }
+    }
+  }
+
+  // Hand the turn to a human when an agent handles the session or the customer
+  // asks for one. Returns true when the AI must not answer.
+  private async routeToAgent(socket: Socket, userMessage: ChatMessage): Promise<boolean> {
+    const sessionId = socket.data.sessionId;
+    this.agents.to(this.sessionRoom(sessionId)).emit(AGENT_EVENTS.SESSION_MESSAGE, {
+      sessionId,
+      message: userMessage
+    });
+
+    const handoff = await handoffService.getOpenHandoff(sessionId);
+    if (handoff) {
+      // The AI keeps answering while the session waits in the queue
+      return handoff.status === 'active';
+    }
+
+    const reason = handoffService.detectEscalation(userMessage.content, userMessage.classification);
+    if (!reason) return false;
+
+    await handoffService.requestHandoff(sessionId, reason, userMessage.content);
+    if (reason !== 'customer_request') return false;
+
+    await this.deliverMessage(sessionId, {
+      id: uuidv4(),
+      role: 'assistant',
+      content: HANDOFF_CONFIRMATION,
+      timestamp: Date.now()
+    });
+    return true;
+  }
+
+  private escalate(sessionId: string, reason: HandoffReason, note: string): void {
+    handoffService.requestHandoff(sessionId, reason, note).catch((error) => {
+      console.error('Failed to request handoff:', error);
+    });
+  }
+
+  // Store a message that did not come from the AI stream and show it to the
+  // customer and the agents of the session
+  private async deliverMessage(sessionId: string, message: ChatMessage): Promise<void> {
+    await conversationStore.addMessageToSession(sessionId, message);
+    this.findSessionSocket(sessionId)?.emit(WS_EVENTS.CHAT_RESPONSE, { message });
+    this.agents.to(this.sessionRoom(sessionId)).emit(AGENT_EVENTS.SESSION_MESSAGE, { sessionId, message });
+  }
+
+  // Handshake error; clients receive the ErrorResponse as `connect_error` data
+  private unauthorized(message: string): Error {
+    const error = new Error(message) as Error & { data?: ErrorResponse };
+    error.data = { error: message, code: ERROR_CODES.UNAUTHORIZED };
+    return error;
+  }
+
+  private setupAgentHandlers(): void {
+    // Agent console keys, or access tokens of the agent, supervisor and admin roles.
+    // Agents only see the sessions of their own tenant.
+    this.agents.use((socket, next) => {
+      const token = socket.handshake.auth?.token;
+      const identity = authService.authenticateKey(token) || authService.verifyAccessToken(token);
+      const agent = authService.toAgentIdentity(identity);
+      if (!identity || !agent) {
+        return next(this.unauthorized('Invalid agent token'));
+      }
+      if (!tenantService.isOriginAllowed(tenantService.getTenant(identity.tenantId)!, socket.handshake.headers.origin)) {
+        return next(this.unauthorized(`Origin ${socket.handshake.headers.origin} is not allowed`));
+      }
+      socket.data.agent = agent;
+      socket.data.tenantId = identity.tenantId;
+      next();
+    });
+
+    this.agents.on('connection', (socket: Socket) => runWithTenant(socket.data.tenantId, () => {
+      const agent: AgentIdentity = socket.data.agent;
+      const tenantId: string = socket.data.tenantId;
+      console.log(`Agent connected: ${agent.name} (${socket.id}, tenant ${tenantId})`);
+      // Events that name a session go to its audit log
+      socket.use(([event, payload], next) => runWithTenant(tenantId, () => {
+        const sessionId = typeof payload === 'string' ? payload : payload?.sessionId;
+        if (typeof sessionId !== 'string' || !sessionId) {
+          return next();
+        }
+        auditService.record(sessionId, { kind: 'inbound', type: event, socketId: socket.id, actor: agent.name, data: payload });
+        auditService.runInSession(sessionId, next);
+      }));
+      socket.join(this.tenantRoom(tenantId));
+
+      socket.emit(AGENT_EVENTS.IDENTITY, agent);
+      this.handleAgentAction(socket, async () => {
+        socket.emit(AGENT_EVENTS.QUEUE, await handoffService.listOpen());
+      });
+      if (agent.role === 'supervisor') {
+        socket.join(this.supervisorsRoom(tenantId));
+        this.handleAgentAction(socket, async () => {
+          socket.emit(SUPERVISOR_EVENTS.SESSIONS, await this.getActiveSessions());
+        });
+      }
+
+      socket.on(AGENT_EVENTS.CLAIM, (sessionId: string) => {
+        this.handleAgentAction(socket, () => this.claimSession(socket, sessionId));
+      });
+
+      socket.on(AGENT_EVENTS.RELEASE, (sessionId: string) => {
+        this.handleAgentAction(socket, async () => {
+          await handoffService.release(sessionId, agent);
+          socket.leave(this.sessionRoom(sessionId));
+        });
+      });
+
+      socket.on(AGENT_EVENTS.RESOLVE, (sessionId: string) => {
+        this.handleAgentAction(socket, async () => {
+          await handoffService.resolve(sessionId, agent);
+          socket.leave(this.sessionRoom(sessionId));
+        });
+      });
+
+      socket.on(AGENT_EVENTS.MESSAGE, (event: { sessionId: string; content: string }) => {
+        this.handleAgentAction(socket, async () => {
+          const content = typeof event?.content === 'string' ? event.content.trim() : '';
+          if (!content) {
+            throw { error: 'Message content is required', code: ERROR_CODES.INVALID_INPUT } as ErrorResponse;
+          }
+          await handoffService.getClaimed(event.sessionId, agent);
+          await this.deliverMessage(event.sessionId, {
+            id: uuidv4(),
+            role: 'assistant',
+            content,
+            timestamp: Date.now(),
+            agent
+          });
+        });
+      });
+
+      socket.on(AGENT_EVENTS.TYPING, (event: { sessionId: string; typing: boolean }) => {
+        this.handleAgentAction(socket, async () => {
+          await handoffService.getClaimed(event.sessionId, agent);
+          this.findSessionSocket(event.sessionId)?.emit(WS_EVENTS.CHAT_STATUS, {
+            connected: true,
+            typing: Boolean(event.typing)
+          });
+        });
+      });
+
+      socket.on(SUPERVISOR_EVENTS.SESSIONS, () => {
+        this.handleAgentAction(socket, async () => {
+          this.requireSupervisor(agent);
+          socket.emit(SUPERVISOR_EVENTS.SESSIONS, await this.getActiveSessions());
+        });
+      });
+
+      socket.on(SUPERVISOR_EVENTS.WATCH, (sessionId: string) => {
+        this.handleAgentAction(socket, () => this.watchSession(socket, sessionId));
+      });
+
+      socket.on(SUPERVISOR_EVENTS.UNWATCH, (sessionId: string) => {
+        socket.leave(this.sessionRoom(sessionId));
+      });
+
+      socket.on(SUPERVISOR_EVENTS.WHISPER, (event: { sessionId: string; text: string }) => {
+        this.handleAgentAction(socket, async () => {
+          await coachingService.whisper(event?.sessionId, agent, event?.text);
+        });
+      });
+
+      // Claims survive a reconnect; claiming again restores the transcript
+      socket.on('disconnect', () => {
+        console.log(`Agent disconnected: ${agent.name} (${socket.id})`);
+      });
+    }));
+  }
 
+  private async claimSession(socket: Socket, sessionId: string): Promise<void> {
+    const handoff = await handoffService.claim(sessionId, socket.data.agent);
+    socket.join(this.sessionRoom(sessionId));
+
+    // Stop the AI reply that may still be streaming
+    this.cancelTurn(sessionId, 'handoff');
+
+    const session = await conversationStore.getSession(sessionId);
+    socket.emit(AGENT_EVENTS.TRANSCRIPT, {
+      sessionId,
+      handoff,
+      messages: (session?.messages || []).filter((message) => message.role !== 'tool' && message.content)
+    });
+  }
+
+  // Follow a session's messages and whispers without pausing the AI
+  private async watchSession(socket: Socket, sessionId: string): Promise<void> {
+    this.requireSupervisor(socket.data.agent);
+    const session = await conversationStore.getSession(sessionId);
+    if (!session) {
+      throw { error: `Session ${sessionId} not found`, code: ERROR_CODES.NOT_FOUND } as ErrorResponse;
+    }
+    socket.join(this.sessionRoom(sessionId));
+
+    socket.emit(AGENT_EVENTS.TRANSCRIPT, {
+      sessionId,
+      handoff: await handoffService.getOpenHandoff(sessionId),
+      messages: session.messages.filter((message) => message.role !== 'tool' && message.content)
+    });
+    socket.emit(SUPERVISOR_EVENTS.WHISPERS, {
+      sessionId,
+      whispers: await coachingService.getWhispers(sessionId)
+    });
+  }
+
+  private requireSupervisor(agent: AgentIdentity): void {
+    if (agent.role !== 'supervisor') {
+      throw { error: 'Supervisor role required', code: ERROR_CODES.UNAUTHORIZED } as ErrorResponse;
+    }
+  }
+
+  private broadcastActiveSessions(): void {
+    this.getActiveSessions()
+      .then((sessions) => this.agents.to(this.supervisorsRoom()).emit(SUPERVISOR_EVENTS.SESSIONS, sessions))
+      .catch((error) => console.error('Failed to list active sessions:', error));
+  }
+
+  private handleAgentAction(socket: Socket, action: () => Promise<void>): void {
+    action().catch((error) => {
+      console.error(`Agent action failed (${socket.data.agent?.name}):`, error);
+      socket.emit(AGENT_EVENTS.ERROR, toErrorResponse(error, 'Agent action failed'));
+    });
+  }
+
+  private announceHandoff(handoff: Handoff): void {
+    const agents = this.agents.to(this.tenantRoom());
+    agents.emit(AGENT_EVENTS.UPDATED, handoff);
+    handoffService.listOpen()
+      .then((queue) => agents.emit(AGENT_EVENTS.QUEUE, queue))
+      .catch((error) => console.error('Failed to list handoff queue:', error));
+
+    this.findSessionSocket(handoff.sessionId)?.emit(WS_EVENTS.CHAT_STATUS, {
+      connected: true,
+      handoff: { status: handoff.status, agentName: handoff.agent?.name }
+    });
+    this.broadcastActiveSessions();
+  }
+
+  private sessionRoom(sessionId: string, tenantId: string = currentTenantId()): string {
+    return `session:${tenantId}:${sessionId}`;
+  }
+
+  // Customers and agents of a tenant, per namespace
+  private tenantRoom(tenantId: string = currentTenantId()): string {
+    return `tenant:${tenantId}`;
+  }
+
+  private supervisorsRoom(tenantId: string = currentTenantId()): string {
+    return `supervisors:${tenantId}`;
+  }
+
+  private customerLeadUpdate({ lead, changedFields }: LeadUpdateEvent): CustomerLeadUpdateEvent {
+    const fields: LeadFields = {};
+    for (const field of changedFields) {
+      Object.assign(fields, { [field]: lead[field] });
+    }
+    return { lead: { sessionId: lead.sessionId, ...fields }, changedFields };
+  }
+
+  // Id the customer's client shows a reply under while it streams; its
+  // speech chunks carry the reply id as their stream id
+  private streamMessageId(responseId: string): string {
+    return `stream-${responseId}`;
+  }
+
+  // Wait for the remaining audio and store its timing for captions. An
+  // interrupted reply keeps the text the customer was shown, not the tokens
+  // generated after it; `speech` holds the part that was spoken.
+  private async finishSpeech(
+    sessionId: string,
+    responseId: string,
+    speech: SpeechStream,
+    sentContent: string
+  ): Promise<void> {
+    try {
+      const result = await speech.finish();
+      if (result.interrupted) {
+        await conversationStore.updateMessage(sessionId, responseId, {
+          content: sentContent,
+          interrupted: true,
+          speech: result.spoken
+        });
+      } else if (result.spoken.length > 0) {
+        await conversationStore.updateMessage(sessionId, responseId, { speech: result.spoken });
+      }
     } catch (error) {
-      this.handleError(socket, error);
-    } finally {
-      socket.emit(WS_EVENTS.CHAT_STATUS, {
+      console.error('Error finishing speech stream:', error);
+    }
+  }
+
+  private cancelTurn(sessionId: string, reason: CancelReason): void {
+    const turn = this.activeTurns.get(sessionId);
+    if (!turn) return;
+
+    console.log(`Cancelling turn ${turn.responseId} of session ${sessionId} (${reason})`);
+    this.activeTurns.delete(sessionId);
+    turn.controller.abort();
+    this.emitToSession(sessionId, WS_EVENTS.CHAT_INTERRUPTED, { messageId: this.streamMessageId(turn.responseId), reason });
+    if (reason === 'cancelled' || reason === 'handoff') {
+      this.emitToSession(sessionId, WS_EVENTS.CHAT_STATUS, {
         connected: true,
         processing: false
       });
     }
   }
 
+  // Keep the reply of a dropped socket running for a resume; stop it when the
+  // customer does not come back in time
+  private abandonTurnLater(sessionId: string): void {
+    if (!this.activeTurns.has(sessionId)) return;
+    setTimeout(() => {
+      if (!this.findSessionSocket(sessionId)) {
+        this.cancelTurn(sessionId, 'disconnect');
+      }
+    }, config.session.resumeGraceMs);
+  }
+
+  // Emit to the socket the session is currently attached to
+  private emitToSession(sessionId: string, event: string, payload: unknown): void {
+    this.findSessionSocket(sessionId)?.emit(event, payload);
+  }
+
+  // Socket-like target for the speech stream of a session
+  private sessionChannel(sessionId: string): { id: string; emit: (event: string, ...args: unknown[]) => boolean } {
+    return {
+      id: sessionId,
+      emit: (event, ...args) => this.findSessionSocket(sessionId)?.emit(event, ...args) ?? false
+    };
+  }
+
+  private findSessionSocket(sessionId: string): Socket | undefined {
+    for (const socket of this.activeConnections.values()) {
+      if (socket.data.sessionId === sessionId) return socket;
+    }
+    return undefined;
+  }
+
+  private emitToolEvent(sessionId: string, event: ToolEvent): void {
+    const { type, ...payload } = event;
+    this.emitToSession(
+      sessionId,
+      type === 'call' ? WS_EVENTS.TOOL_CALL : WS_EVENTS.TOOL_RESULT,
+      payload
+    );
+  }
+
   private handleError(socket: Socket, error: unknown): void {
     console.error('WebSocket Error:', error);
     
@@ -178,6 +856,35 @@ class WebSocketService {
     return this.activeConnections.size;
   }
 
+  // Connected customers of the current tenant with their conversation state,
+  // most recently active first
+  public async getActiveSessions(): Promise<ActiveSession[]> {
+    const tenantId = currentTenantId();
+    const sockets = Array.from(this.activeConnections.values())
+      .filter((socket) => socket.data.tenantId === tenantId);
+    const sessions = await Promise.all(
+      sockets.map(async (socket): Promise<ActiveSession> => {
+        const sessionId: string = socket.data.sessionId;
+        const [session, handoff] = await Promise.all([
+          conversationStore.getSession(sessionId),
+          handoffService.getOpenHandoff(sessionId)
+        ]);
+        const lastUserMessage = session?.messages.filter((message) => message.role === 'user').pop();
+        return {
+          sessionId,
+          connectedAt: socket.data.connectedAt,
+          lastActivity: session?.lastActivity,
+          messageCount: session?.messages.filter((message) => message.role !== 'tool').length || 0,
+          lastMessage: lastUserMessage?.content,
+          personaId: session?.personaId,
+          salesStage: session?.salesStage?.stage,
+          handoff: handoff?.status
+        };
+      })
+    );
+    return sessions.sort((a, b) => (b.lastActivity || b.connectedAt) - (a.lastActivity || a.connectedAt));
+  }
+
   public disconnectAll(): void {
     this.io.disconnectSockets();
   }
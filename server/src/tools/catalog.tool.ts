@@ -0,0 +1,65 @@
+import { catalogService } from '../services/catalog.service';
+import { Product } from '../types/catalog';
+import { ToolDefinition } from '../types/tools';
+
+interface SearchProductsArgs {
+  query: string;
+  category?: string;
+  inStockOnly?: boolean;
+}
+
+interface GetProductArgs {
+  sku: string;
+}
+
+type ProductSummary = Pick<Product, 'sku' | 'name' | 'price' | 'currency' | 'stock' | 'category'>;
+
+const summarize = (product: Product): ProductSummary => ({
+  sku: product.sku,
+  name: product.name,
+  price: product.price,
+  currency: product.currency,
+  stock: product.stock,
+  category: product.category,
+});
+
+export const searchProductsTool: ToolDefinition<SearchProductsArgs, ProductSummary[]> = {
+  name: 'search_products',
+  description: 'Search the product catalog by keywords. Returns matching products with price and stock.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Keywords describing what the customer needs' },
+      category: { type: 'string', description: 'Optional category to restrict the search to' },
+      inStockOnly: { type: 'boolean', description: 'Only return products that are in stock' },
+    },
+    required: ['query'],
+  },
+  handler: async ({ query, category, inStockOnly }) => {
+    const products = await catalogService.listProducts({
+      query,
+      category,
+      inStock: inStockOnly ? true : undefined,
+    });
+    return products.slice(0, 5).map(summarize);
+  },
+};
+
+export const getProductTool: ToolDefinition<GetProductArgs, Product> = {
+  name: 'get_product',
+  description: 'Get full details (description, price, stock, attributes) of a product by SKU.',
+  parameters: {
+    type: 'object',
+    properties: {
+      sku: { type: 'string', description: 'Product SKU' },
+    },
+    required: ['sku'],
+  },
+  handler: async ({ sku }) => {
+    const product = await catalogService.getProduct(sku);
+    if (!product) {
+      throw new Error(`No product with SKU ${sku}`);
+    }
+    return product;
+  },
+};
@@ -0,0 +1,40 @@
+import { ToolDefinition } from '../types/tools';
+
+interface CurrentTimeArgs {
+  timeZone?: string;
+}
+
+interface CurrentTimeResult {
+  iso: string;
+  formatted: string;
+  timeZone: string;
+}
+
+export const currentTimeTool: ToolDefinition<CurrentTimeArgs, CurrentTimeResult> = {
+  name: 'get_current_time',
+  description: 'Get the current date and time, e.g. to schedule a follow-up or answer availability questions.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: {
+        type: 'string',
+        description: 'IANA time zone such as "America/New_York". Defaults to the server time zone.',
+      },
+    },
+  },
+  handler: ({ timeZone }) => {
+    const now = new Date();
+    const resolvedZone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return {
+      iso: now.toISOString(),
+      formatted: now.toLocaleString('en-US', {
+        timeZone: resolvedZone,
+        dateStyle: 'full',
+        timeStyle: 'short',
+      }),
+      timeZone: resolvedZone,
+    };
+  },
+};
+
+export default currentTimeTool;
@@ -0,0 +1,10 @@
+import { toolRegistry } from '../services/tool-registry.service';
+import { currentTimeTool } from './datetime.tool';
+import { getProductTool, searchProductsTool } from './catalog.tool';
+
+// Register the tools available to the sales agent
+export function registerDefaultTools(): void {
+  toolRegistry.register(currentTimeTool);
+  toolRegistry.register(searchProductsTool);
+  toolRegistry.register(getProductTool);
+}
@@ -0,0 +1,87 @@
+import { ChatConfig, ChatMessage, ChatResponse, ErrorResponse } from './chat';
+import { CustomerLeadUpdateEvent } from './lead';
+import { SalesStageStatus } from './sales-stage';
+
+// inbound: socket events from the customer or an agent console,
+// outbound: socket events sent to the customer, provider: LLM, TTS and STT calls
+export const AUDIT_EVENT_KINDS = ['inbound', 'outbound', 'provider'] as const;
+export type AuditEventKind = typeof AUDIT_EVENT_KINDS[number];
+
+export type AuditProvider = 'llm' | 'tts' | 'stt';
+
+export interface AuditEvent {
+  seq: number;              // Position in the session's log, from 0
+  at: number;               // ms epoch
+  kind: AuditEventKind;
+  type: string;             // Socket event name, or the provider for provider calls
+  socketId?: string;
+  actor?: string;           // Agent or supervisor that sent an agent console event
+  data?: unknown;           // Payload with secrets redacted and long values shortened
+  durationMs?: number;      // Provider calls
+  error?: ErrorResponse;    // Failed provider calls
+}
+
+// Stored form; the sequence number is the position in the list
+export type AuditRecord = Omit<AuditEvent, 'seq'>;
+
+export interface AuditFilter {
+  kinds?: AuditEventKind[];
+  types?: string[];
+  from?: number;            // At or after (ms)
+  to?: number;              // At or before (ms)
+  offset?: number;
+  limit?: number;
+}
+
+export interface AuditPage {
+  events: AuditEvent[];
+  total: number;            // Events matching the filter
+  offset: number;
+}
+
+// chat:response as logged. A streamed reply is re-sent whole with every
+// sentence, so after its first event only the text added to it is kept.
+export interface AuditResponseData extends ChatResponse {
+  appended?: boolean;       // message.content continues the message's earlier events
+}
+
+// chat:status fields the customer's client keeps
+export interface AuditStatusData {
+  processing?: boolean;
+  persona?: AuditSessionState['persona'];
+  generation?: { config: ChatConfig; adjusted: string[] };
+  salesStage?: SalesStageStatus;
+  handoff?: AuditSessionState['handoff'];
+}
+
+export interface AuditMessage {
+  id?: string;              // Customer messages are logged before they get an id
+  role: ChatMessage['role'];
+  content: string;
+  at: number;
+  interrupted?: boolean;
+  agent?: ChatMessage['agent'];
+}
+
+// What the customer's client had been told up to an event, rebuilt by
+// replaying the session's log
+export interface AuditSessionState {
+  sessionId: string;
+  seq: number;              // Last event applied, -1 when none was
+  at?: number;              // Time of that event
+  connected: boolean;
+  socketId?: string;
+  connections: number;      // Sockets the session was attached to so far
+  persona?: { id: string; name: string; version: number };
+  generation?: ChatConfig;
+  salesStage?: SalesStageStatus;
+  handoff?: { status: string; agentName?: string };
+  lead?: CustomerLeadUpdateEvent['lead'];  // Details the customer supplied
+  processing: boolean;      // A reply was being generated
+  speaking: boolean;        // Reply audio was being streamed
+  customerSpeaking: boolean;
+  messages: AuditMessage[];
+  toolCalls: number;
+  providerCalls: { total: number; failed: number; durationMs: number };
+  errors: { at: number; type: string; error: ErrorResponse }[];
+}
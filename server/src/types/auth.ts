@@ -0,0 +1,22 @@
+// Who a request or socket acts for
+export type AuthRole = 'customer' | 'agent' | 'supervisor' | 'admin';
+
+export const AUTH_ROLES: AuthRole[] = ['customer', 'agent', 'supervisor', 'admin'];
+// Roles of the sales team; admins may do anything staff may do
+export const STAFF_ROLES: AuthRole[] = ['agent', 'supervisor', 'admin'];
+
+export interface AuthIdentity {
+  id: string;       // Token subject: a visitor id for customers, the account for staff
+  role: AuthRole;
+  name?: string;
+  site?: string;    // Embedding site that issued a customer token
+  tenantId: string; // Organization the identity belongs to
+}
+
+// Response of POST /api/auth/token
+export interface IssuedToken {
+  token: string;
+  role: AuthRole;
+  tenantId: string;
+  expiresAt: number;
+}
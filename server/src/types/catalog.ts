@@ -0,0 +1,36 @@
+export type ProductAttributeValue = string | number | boolean;
+
+export interface Product {
+  sku: string;
+  name: string;
+  description: string;
+  price: number;
+  currency: string;
+  stock: number;
+  category?: string;
+  attributes: Record<string, ProductAttributeValue>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProductInput = Omit<Product, 'createdAt' | 'updatedAt'>;
+
+export interface ProductFilter {
+  query?: string;
+  category?: string;
+  inStock?: boolean;
+}
+
+export interface CatalogImportError {
+  row: number;
+  sku?: string;
+  error: string;
+}
+
+export interface CatalogImportResult {
+  created: number;
+  updated: number;
+  errors: CatalogImportError[];
+}
+
+export const DEFAULT_CURRENCY = 'USD';
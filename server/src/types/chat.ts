@@ -1,16 +1,48 @@
+import { ToolCall, ToolCallEvent, ToolResultEvent } from './tools';
+import { ChatStartOptions } from './persona';
+import { GenerationConfigUpdate, GenerationParams } from './generation';
+import { CustomerLeadUpdateEvent } from './lead';
+import { TurnClassification } from './classification';
+import { SalesStageState } from './sales-stage';
+import { FactCorrection } from './fact-check';
+import { AgentIdentity } from './handoff';
+
 export interface ChatMessage {
   id: string;
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'tool';
   content: string;
   timestamp: number;
   audioUrl?: string;
+  toolCalls?: ToolCall[];  // Assistant messages that requested tool calls
+  toolCallId?: string;     // Tool messages: the call this result answers
+  name?: string;           // Tool messages: the tool that produced the result
+  personaId?: string;      // Assistant messages: persona that produced the reply
+  personaVersion?: number;
+  interrupted?: boolean;   // Assistant messages: cut short by a cancel or a new user turn
+  classification?: TurnClassification;  // User messages: intent, sentiment and urgency
+  policyViolations?: string[];  // Assistant messages: guardrail rules the reply violated
+  factCorrections?: FactCorrection[];  // Assistant messages: claims corrected against the catalog
+  agent?: AgentIdentity;   // Assistant messages: written by a human agent instead of the AI
+  speech?: SpokenChunk[];  // Assistant messages: synthesized audio, in playback order
+}
+
+// A sentence of a reply as it was played to the customer
+export interface SpokenChunk {
+  text: string;
+  startedAt: number;   // Playback start (ms epoch); chunks play back to back
+  durationMs: number;
 }
 
 export interface ChatSession {
   id: string;
   messages: ChatMessage[];
-  context: string;
+  context: string;            // Rolling summary of turns folded out of the history window
+  summarizedThroughId?: string; // Last message included in the summary
   lastActivity: number;
+  personaId?: string;
+  personaVersion?: number;  // Pinned persona version; current version when unset
+  generation?: GenerationParams;  // Per-session overrides of model settings
+  salesStage?: SalesStageState;   // Where the conversation is in the sales process
 }
 
 export interface ChatResponse {
@@ -22,7 +54,9 @@ export interface ChatResponse {
 export interface WebSocketEvents {
   // Client -> Server events
   'chat:message': (message: string) => void;
-  'chat:start': () => void;
+  'chat:start': (options?: ChatStartOptions) => void;
+  'chat:config': (update: GenerationConfigUpdate) => void;
+  'chat:cancel': () => void;
   'chat:audio': (audioBlob: Blob) => void;
   'chat:typing': (isTyping: boolean) => void;
 
@@ -33,9 +67,28 @@ export interface WebSocketEvents {
     connected: boolean;
     typing?: boolean;
     processing?: boolean;
+    persona?: { id: string; name: string; version: number };
+    generation?: { config: ChatConfig; adjusted: string[] };
   }) => void;
+  // messageId is the id the reply streamed under, `stream-<reply id>`
+  'chat:interrupted': (event: { messageId: string; reason: CancelReason }) => void;
+  'tool:call': (event: ToolCallEvent) => void;
+  'tool:result': (event: ToolResultEvent) => void;
+  'lead:updated': (event: CustomerLeadUpdateEvent) => void;
+  'chat:session': (event: SessionResumeEvent) => void;
 }
 
+// chat:session payload: the token that resumes the session, and on resume its history
+export interface SessionResumeEvent {
+  sessionId: string;
+  token: string;
+  resumed: boolean;
+  messages: ChatMessage[];  // Ends with the spoken part of an in-flight reply
+}
+
+// Why an in-flight response was stopped
+export type CancelReason = 'cancelled' | 'new_turn' | 'disconnect' | 'handoff';
+
 export interface ErrorResponse {
   error: string;
   code: string;
@@ -49,12 +102,13 @@ export interface TTSRequest {
   voice?: string;
   format?: AudioFormat;
   speed?: number;
+  sessionId?: string;  // Session the audio belongs to, for retention and erasure
 }
 
 export interface TTSResponse {
   audioUrl: string;
   audioPath?: string;  // Path to the audio file on disk
-  duration: number;
+  duration: number;    // Seconds of audio
   format: AudioFormat;
 }
 
@@ -70,10 +124,34 @@ export interface ChatConfig {
 
 // Redis Keys Structure
 export const REDIS_KEYS = {
-  SESSION_PREFIX: 'chat:session:',
+  SESSION_PREFIX: 'chat:session:',  // Sessions stored as one JSON blob; migrated to the two keys below
+  SESSION_META_PREFIX: 'chat:session-meta:',
+  SESSION_MESSAGES_PREFIX: 'chat:session-messages:',
+  SESSION_INDEX: 'chat:sessions',  // Sorted set of session ids by last activity
+  SEARCH_TERM_PREFIX: 'chat:search:term:',  // Set of `<sessionId>:<messageId>` containing the term
+  SEARCH_SESSION_PREFIX: 'chat:search:session:',  // Terms indexed for a session
   CONTEXT_PREFIX: 'chat:context:',
   USER_PREFIX: 'user:',
   AUDIO_PREFIX: 'audio:file:',
+  CATALOG_PREFIX: 'catalog:product:',
+  CATALOG_INDEX: 'catalog:index',
+  KB_SOURCES: 'kb:sources',
+  KB_SOURCE_PREFIX: 'kb:source:',
+  KB_CHUNKS_PREFIX: 'kb:chunks:',
+  KB_INDEX: 'kb:index',
+  PERSONA_PREFIX: 'persona:',
+  PERSONA_INDEX: 'personas',
+  LEAD_PREFIX: 'chat:lead:',
+  LEAD_INDEX: 'leads',
+  VIOLATION_PREFIX: 'chat:violations:',
+  HANDOFF_PREFIX: 'chat:handoff:',
+  HANDOFF_QUEUE: 'handoffs',
+  HANDOFF_CLAIM_PREFIX: 'chat:handoff-claim:',  // Id of the agent holding the session
+  WHISPER_PREFIX: 'chat:whispers:',  // Append-only list of a session's whispers
+  WHISPER_DELIVERY_PREFIX: 'chat:whisper-deliveries:',  // Append-only list of whispers added to a prompt
+  CUSTOMER_SESSIONS_PREFIX: 'chat:customer-sessions:',  // Sessions of a customer token subject
+  ERASURE_RECEIPT_PREFIX: 'privacy:erasure:',
+  AUDIT_PREFIX: 'chat:audit:',  // Append-only list of a session's socket events and provider calls
 } as const;
 
 // WebSocket Event Types
@@ -86,7 +164,14 @@ export const WS_EVENTS = {
   CHAT_STATUS: 'chat:status',
   CHAT_TYPING: 'chat:typing',
   CHAT_START: 'chat:start',
+  CHAT_CONFIG: 'chat:config',
+  CHAT_CANCEL: 'chat:cancel',
+  CHAT_INTERRUPTED: 'chat:interrupted',
   CHAT_AUDIO: 'chat:audio',
+  TOOL_CALL: 'tool:call',
+  TOOL_RESULT: 'tool:result',
+  LEAD_UPDATED: 'lead:updated',
+  CHAT_SESSION: 'chat:session',
 } as const;
 
 // Error Codes
@@ -97,5 +182,8 @@ export const ERROR_CODES = {
   TTS_SERVICE_ERROR: 'TTS_SERVICE_ERROR',
   REDIS_ERROR: 'REDIS_ERROR',
   UNAUTHORIZED: 'UNAUTHORIZED',
+  NOT_FOUND: 'NOT_FOUND',
   RATE_LIMIT: 'RATE_LIMIT',
+  CANCELLED: 'CANCELLED',
+  CONFLICT: 'CONFLICT',
 } as const;
\ No newline at end of file
@@ -0,0 +1,42 @@
+export type ClassifierName = 'rules' | 'llm';
+
+export const INTENTS = [
+  'pricing_question',
+  'objection',
+  'purchase_intent',
+  'support_request',
+  'product_question',
+  'small_talk',
+  'other',
+] as const;
+export type Intent = typeof INTENTS[number];
+
+export const SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+export type Sentiment = typeof SENTIMENTS[number];
+
+export const URGENCIES = ['low', 'medium', 'high'] as const;
+export type Urgency = typeof URGENCIES[number];
+
+// Signals attached to a user turn, used for escalation and analytics
+export interface TurnClassification {
+  intent: Intent;
+  sentiment: Sentiment;
+  urgency: Urgency;
+  confidence: number;          // 0-1, how strongly the message matched the intent
+  classifier: ClassifierName;  // Implementation that produced the tags
+}
+
+export interface ClassificationInput {
+  message: string;
+  lastAssistantMessage?: string;  // The question the customer is answering, if any
+}
+
+export interface TurnClassifier {
+  readonly name: ClassifierName;
+  classify(input: ClassificationInput): Promise<TurnClassification>;
+}
+
+// chat:status payload announcing the tags of a user message
+export interface ClassificationStatus extends TurnClassification {
+  messageId: string;
+}
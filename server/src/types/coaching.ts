@@ -0,0 +1,39 @@
+import { AgentIdentity, HandoffStatus } from './handoff';
+import { SalesStage } from './sales-stage';
+
+// Hidden guidance from a supervisor, added to the prompt of the next AI reply
+export interface Whisper {
+  id: string;
+  sessionId: string;
+  text: string;
+  supervisor: AgentIdentity;
+  createdAt: number;
+  deliveredAt?: number;  // When it was added to a prompt
+  responseId?: string;   // Reply generated with it
+}
+
+export interface SessionWhispersEvent {
+  sessionId: string;
+  whispers: Whisper[];
+}
+
+// A customer connected right now
+export interface ActiveSession {
+  sessionId: string;
+  connectedAt: number;
+  lastActivity?: number;
+  messageCount: number;
+  lastMessage?: string;  // Latest customer message
+  personaId?: string;
+  salesStage?: SalesStage;
+  handoff?: HandoffStatus;
+}
+
+// Supervisor events of the agent namespace
+export const SUPERVISOR_EVENTS = {
+  SESSIONS: 'sessions:active',        // Live sessions; sent on connect, on changes and on request
+  WATCH: 'supervisor:watch',          // Follow a session without taking it over
+  UNWATCH: 'supervisor:unwatch',
+  WHISPER: 'supervisor:whisper',      // Guidance for the AI's next reply
+  WHISPERS: 'supervisor:whispers',    // Whisper log of a session, sent on watch and on changes
+} as const;
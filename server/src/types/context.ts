@@ -0,0 +1,8 @@
+import { ChatMessage } from './chat';
+
+// Conversation history that fits the token budget of a turn
+export interface ContextWindow {
+  summary: string;         // Rolling summary of older turns, empty when nothing was folded
+  messages: ChatMessage[]; // Recent turns, oldest first
+  tokens: number;          // Estimated tokens of summary + messages
+}
@@ -0,0 +1,33 @@
+import { ChatMessage } from './chat';
+
+export const EXPORT_FORMATS = ['json', 'md', 'csv', 'vtt', 'srt'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Staff exports hold the full session; customers get the messages only
+export type ExportAudience = 'staff' | 'customer';
+
+// JSON a customer downloads of their own conversation
+export interface CustomerTranscript {
+  id: string;
+  messages: { id: string; role: ChatMessage['role']; speaker: string; content: string; timestamp: number }[];
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: string | Buffer;
+}
+
+export interface ExportRange {
+  from?: number;   // Last activity at or after (ms)
+  to?: number;     // Last activity at or before (ms)
+}
+
+// A caption: a reply sentence timed by its synthesized audio, or a whole
+// message placed at its timestamp
+export interface Cue {
+  start: number;   // Ms since the first message
+  end: number;
+  speaker: string;
+  text: string;
+}
@@ -0,0 +1,10 @@
+export type FactClaimType = 'price' | 'stock' | 'spec';
+
+// A claim in the assistant's reply that contradicted the catalog
+export interface FactCorrection {
+  type: FactClaimType;
+  sku: string;
+  attribute?: string;  // Spec corrections: the product attribute
+  claimed: string;     // Text as generated
+  corrected: string;   // Text as sent
+}
@@ -0,0 +1,16 @@
+import { ChatConfig } from './chat';
+
+export type GenerationParams = Partial<Omit<ChatConfig, 'stream'>>;
+
+export type NumericGenerationParam = keyof Omit<GenerationParams, 'model'>;
+
+// Session overrides sent by clients/admins; `null` clears an override
+export type GenerationConfigUpdate = {
+  [K in keyof GenerationParams]?: GenerationParams[K] | null;
+};
+
+export interface SessionGenerationConfig {
+  overrides: GenerationParams;  // Stored on the session
+  effective: ChatConfig;        // Defaults < persona < session overrides
+  adjusted?: string[];          // Parameters clamped into their allowed range
+}
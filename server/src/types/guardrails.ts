@@ -0,0 +1,62 @@
+export type PolicyAction = 'block' | 'rewrite' | 'flag';
+
+interface PolicyRuleBase {
+  id: string;
+  description?: string;
+}
+
+// Text matching the pattern is blocked, replaced or flagged
+export interface RegexPolicyRule extends PolicyRuleBase {
+  type: 'regex';
+  pattern: string;
+  flags?: string;        // RegExp flags; matching is always global
+  action: PolicyAction;
+  replacement?: string;  // Required for rewrite
+}
+
+// Case-insensitive whole-word phrases, e.g. competitor names
+export interface PhrasePolicyRule extends PolicyRuleBase {
+  type: 'phrase';
+  phrases: string[];
+  action: PolicyAction;
+  replacement?: string;  // Required for rewrite
+}
+
+// Discounts above the limit; rewrite caps the percentage
+export interface DiscountPolicyRule extends PolicyRuleBase {
+  type: 'max_discount';
+  maxPercent: number;
+  action: PolicyAction;
+}
+
+// When the reply matches the trigger, the disclaimer is appended unless present
+export interface DisclaimerPolicyRule extends PolicyRuleBase {
+  type: 'disclaimer';
+  trigger: string;
+  flags?: string;
+  disclaimer: string;
+}
+
+export type PolicyRule = RegexPolicyRule | PhrasePolicyRule | DiscountPolicyRule | DisclaimerPolicyRule;
+
+export interface GuardrailPolicy {
+  blockedMessage: string;  // Sent instead of the rest of a blocked reply
+  rules: PolicyRule[];
+}
+
+export interface PolicyViolation {
+  id: string;
+  sessionId: string;
+  messageId: string;
+  ruleId: string;
+  action: PolicyAction;
+  excerpt: string;  // Offending text as generated
+  timestamp: number;
+}
+
+// Outcome of checking one chunk of a reply
+export interface PolicyCheckResult {
+  text: string;  // Text to emit; empty when blocked
+  blocked: boolean;
+  violations: Array<Pick<PolicyViolation, 'ruleId' | 'action' | 'excerpt'>>;
+}
@@ -0,0 +1,66 @@
+import { ChatMessage } from './chat';
+
+export type HandoffStatus = 'queued' | 'active' | 'resolved';
+
+// Why a session was escalated to a human
+export type HandoffReason =
+  | 'customer_request'  // The customer asked for a person
+  | 'frustration'       // Negative sentiment with high urgency
+  | 'ai_stuck'          // The AI reply failed or was blocked by the guardrails
+  | 'manual';           // Opened by an agent or via the API
+
+export type AgentRole = 'agent' | 'supervisor';
+
+export interface AgentIdentity {
+  id: string;
+  name: string;
+  role: AgentRole;  // Supervisors may also watch sessions and whisper to the AI
+}
+
+export interface Handoff {
+  sessionId: string;
+  status: HandoffStatus;
+  reason: HandoffReason;
+  note?: string;             // E.g. the message that triggered the escalation
+  agent?: AgentIdentity;     // Agent handling the session while active
+  requestedAt: number;
+  claimedAt?: number;
+  resolvedAt?: number;
+}
+
+// chat:status payload telling the customer who they are talking to
+export interface HandoffStatusPayload {
+  status: HandoffStatus;
+  agentName?: string;
+}
+
+export interface SessionMessageEvent {
+  sessionId: string;
+  message: ChatMessage;
+}
+
+export interface SessionTranscriptEvent {
+  sessionId: string;
+  handoff: Handoff | null;  // null for sessions a supervisor watches
+  messages: ChatMessage[];
+}
+
+// Events of the agent namespace
+export const AGENT_NAMESPACE = '/agents';
+
+export const AGENT_EVENTS = {
+  IDENTITY: 'agent:identity',         // The authenticated agent, sent on connect
+  QUEUE: 'handoff:queue',             // Open handoffs, sent on connect and on every change
+  UPDATED: 'handoff:updated',
+  CLAIM: 'agent:claim',
+  RELEASE: 'agent:release',           // Put the session back in the queue
+  RESOLVE: 'agent:resolve',           // Hand the session back to the AI
+  MESSAGE: 'agent:message',
+  TYPING: 'agent:typing',
+  TRANSCRIPT: 'session:transcript',   // Full transcript after a claim
+  SESSION_MESSAGE: 'session:message', // New customer or agent message of a claimed session
+  CUSTOMER_TYPING: 'session:typing',
+  CUSTOMER_SPEAKING: 'session:speaking', // The customer started or stopped voice input
+  LEAD_UPDATED: 'session:lead',       // Lead of a claimed or watched session changed
+  ERROR: 'agent:error',
+} as const;
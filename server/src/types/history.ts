@@ -0,0 +1,56 @@
+import { ChatMessage } from './chat';
+import { Sentiment } from './classification';
+import { SalesStage } from './sales-stage';
+import { SessionMeta } from './store';
+
+export interface SessionFilter {
+  from?: number;           // Last activity at or after (ms)
+  to?: number;             // Last activity at or before (ms)
+  leadCaptured?: boolean;  // Whether lead details were captured
+  stage?: SalesStage;
+  sentiment?: Sentiment;   // Of the latest classified customer message
+  offset?: number;
+  limit?: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  lastActivity: number;
+  messageCount: number;
+  stage?: SalesStage;
+  sentiment?: Sentiment;
+  leadCaptured: boolean;
+  personaId?: string;
+  lastMessage?: string;    // Start of the latest customer or assistant message
+}
+
+export interface SessionList {
+  sessions: SessionSummary[];
+  total: number;           // Sessions matching the filter
+  offset: number;
+}
+
+export interface SessionDetail extends SessionSummary {
+  meta: SessionMeta;
+}
+
+export interface SearchHit {
+  messageId: string;
+  role: ChatMessage['role'];
+  timestamp: number;
+  snippet: string;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  lastActivity: number;
+  hits: SearchHit[];       // Matching messages, oldest first
+}
+
+export interface SearchResults {
+  query: string;
+  terms: string[];         // Normalized terms every hit contains
+  results: SessionSearchResult[];
+  total: number;           // Sessions with hits
+  offset: number;
+}
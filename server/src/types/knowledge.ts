@@ -0,0 +1,32 @@
+export type KnowledgeFormat = 'markdown' | 'pdf' | 'text';
+
+export interface KnowledgeSource {
+  id: string;
+  name: string;
+  format: KnowledgeFormat;
+  size: number;        // Bytes of the uploaded document
+  chunkCount: number;
+  createdAt: number;
+}
+
+export interface KnowledgeChunk {
+  id: string;          // `${sourceId}:${index}`
+  sourceId: string;
+  index: number;
+  heading?: string;    // Nearest Markdown heading, if any
+  text: string;
+  embedding?: number[];
+}
+
+export interface KnowledgeSearchResult {
+  chunk: KnowledgeChunk;
+  sourceName: string;
+  score: number;
+}
+
+// BM25 statistics persisted between restarts
+export interface SerializedBm25Index {
+  docs: Record<string, { length: number; terms: Record<string, number> }>;
+  docFreq: Record<string, number>;
+  totalLength: number;
+}
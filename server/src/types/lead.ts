@@ -0,0 +1,57 @@
+export type LeadExtractorName = 'rules' | 'llm';
+
+// Qualification fields (BANT) and contact details captured from the conversation
+export interface LeadFields {
+  name?: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  budget?: string;            // As stated, e.g. "$5,000 per year"
+  budgetAmount?: number;      // Parsed amount when the budget names one
+  authority?: string;         // Role or decision power, e.g. "decision maker", "needs CFO approval"
+  need?: string;
+  timeline?: string;
+  productInterest?: string[]; // Catalog products or product areas mentioned
+}
+
+export type LeadField = keyof LeadFields;
+export type StringLeadField = Exclude<LeadField, 'budgetAmount' | 'productInterest'>;
+
+export const BANT_FIELDS: LeadField[] = ['budget', 'authority', 'need', 'timeline'];
+
+export interface Lead extends LeadFields {
+  sessionId: string;
+  qualificationScore: number;  // Number of BANT fields known (0-4)
+  qualified: boolean;          // All BANT fields known
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LeadUpdateEvent {
+  lead: Lead;
+  changedFields: LeadField[];
+  source: 'customer' | 'staff';  // Extracted from the customer's message, or corrected over REST
+}
+
+// Sent to the customer for details taken from their own messages: only the
+// changed fields, never the qualification the sales team sees
+export interface CustomerLeadUpdateEvent {
+  lead: LeadFields & { sessionId: string };
+  changedFields: LeadField[];
+}
+
+export interface LeadExtractionInput {
+  userMessage: string;
+  lastAssistantMessage?: string;  // The question the customer is answering, if any
+  lead: Lead;
+}
+
+export interface LeadExtractor {
+  readonly name: LeadExtractorName;
+  extract(input: LeadExtractionInput): Promise<LeadFields>;
+}
+
+export interface LeadFilter {
+  qualified?: boolean;
+  query?: string;  // Matches name, company or email
+}
@@ -0,0 +1,50 @@
+import {
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources/chat/completions';
+import { ChatConfig, ErrorResponse } from './chat';
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'scripted';
+
+export interface LLMCompletionRequest extends Omit<ChatConfig, 'stream'> {
+  messages: ChatCompletionMessageParam[];
+  tools?: ChatCompletionTool[];
+  signal?: AbortSignal;  // Aborts the request and the open stream
+}
+
+// Tool call fragments arrive spread over several chunks and are merged by index
+export interface LLMToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface LLMStreamChunk {
+  content: string;
+  toolCalls?: LLMToolCallDelta[];
+  finishReason?: string | null;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  streamCompletion(request: LLMCompletionRequest): AsyncGenerator<LLMStreamChunk>;
+  mapError(error: unknown): ErrorResponse;
+}
+
+// Scripted provider configuration
+export interface ScriptedTurn {
+  match?: string;    // Case-insensitive regex tested against the last user message
+  response: string;  // With a tool call, said before the call is made
+  toolCall?: {       // Requested before answering when the tool is available
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+  followUp?: string; // Reply after the tool result; `{{result}}`/`{{result.field}}` are substituted
+}
+
+export interface LLMScript {
+  turns: ScriptedTurn[];
+  fallback: string[];  // Cycled through by user turn count when no turn matches
+  tokenDelayMs?: number;
+}
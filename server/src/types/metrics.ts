@@ -0,0 +1,28 @@
+export interface LatencySummary {
+  count: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface ClassificationSummary {
+  samples: number;
+  intents: Record<string, number>;     // Turns per intent
+  sentiments: Record<string, number>;
+  urgencies: Record<string, number>;
+}
+
+export interface StageSummary {
+  samples: number;
+  entered: Record<string, number>;      // Transitions into each stage
+  transitions: Record<string, number>;  // Counts per "from->to"
+}
+
+export interface SpeechMetricsSummary {
+  samples: number;
+  interrupted: number;
+  timeToFirstAudio: LatencySummary | null;
+  timeToFirstToken: LatencySummary | null;
+  total: LatencySummary | null;
+}
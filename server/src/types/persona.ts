@@ -0,0 +1,53 @@
+import { GenerationParams } from './generation';
+
+export interface PersonaVersion {
+  version: number;
+  systemPrompt: string;               // May reference {{variables}}
+  generation: GenerationParams;       // Overrides of the default ChatConfig
+  voice?: string;                     // Default TTS voice
+  variables: Record<string, string>;  // e.g. companyName, productLine
+  note?: string;
+  createdAt: number;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  description?: string;
+  currentVersion: number;
+  versions: PersonaVersion[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PersonaSummary = Omit<Persona, 'versions'> & {
+  versionCount: number;
+};
+
+// A persona version ready for generation, with its prompt template rendered
+export interface ResolvedPersona {
+  id: string;
+  name: string;
+  version: number;
+  systemPrompt: string;
+  generation: GenerationParams;
+  voice?: string;
+}
+
+export interface PersonaInput {
+  id?: string;
+  name?: string;
+  description?: string;
+  systemPrompt?: string;
+  generation?: GenerationParams;
+  voice?: string;
+  variables?: Record<string, string>;
+  note?: string;
+}
+
+export interface ChatStartOptions {
+  personaId?: string;
+  personaVersion?: number;  // Pin a version instead of following the current one
+}
+
+export const DEFAULT_PERSONA_ID = 'sales-agent';
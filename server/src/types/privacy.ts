@@ -0,0 +1,29 @@
+export const RETENTION_CATEGORIES = ['transcripts', 'audio', 'leads', 'logs'] as const;
+export type RetentionCategory = typeof RETENTION_CATEGORIES[number];
+
+// Hours each kind of data is kept after its last change; 0 keeps it until it
+// is erased. Transcripts include the search index entries of their messages;
+// logs are guardrail violations, handoffs and supervisor whispers.
+export type RetentionPolicy = Record<RetentionCategory, number>;
+
+export const ERASURE_SUBJECTS = ['sessionId', 'customerId', 'email', 'phone'] as const;
+export type ErasureSubject = typeof ERASURE_SUBJECTS[number];
+
+// Body of POST /api/privacy/erasures; at least one identifier is required.
+// `customerId` is the subject of a customer access token; `email` and `phone`
+// find sessions through their captured leads.
+export type ErasureRequest = Partial<Record<ErasureSubject, string>>;
+
+// Proof of an erasure. It holds no personal data: identifiers are hashed and
+// the deleted records are only counted.
+export interface ErasureReceipt {
+  id: string;
+  tenantId: string;
+  subjects: { type: ErasureSubject; sha256: string }[];
+  requestedBy?: string;          // Admin who asked for the erasure
+  requestedAt: number;
+  completedAt: number;
+  sessionIds: string[];          // Sessions linked to the identifiers, now deleted
+  deleted: Record<string, number>;  // Records removed per key family, and audio files
+  signature: string;             // HMAC-SHA256 of the other fields with JWT_SECRET
+}
@@ -0,0 +1,70 @@
+import { Intent, Sentiment, TurnClassification } from './classification';
+import { Lead, LeadField } from './lead';
+
+export const SALES_STAGES = [
+  'greeting',
+  'discovery',
+  'recommendation',
+  'objection_handling',
+  'close',
+  'follow_up',
+] as const;
+export type SalesStage = typeof SALES_STAGES[number];
+
+export interface StageDefinition {
+  name: string;          // Label shown in the UI
+  instructions: string;  // Added to the system message while the stage is active
+}
+
+// All set conditions must hold for a rule to fire
+export interface StageCondition {
+  intents?: Intent[];              // Intent of the current user turn is one of these
+  notIntents?: Intent[];
+  sentiments?: Sentiment[];
+  leadFields?: LeadField[];        // Lead fields that must be known
+  minQualificationScore?: number;  // Minimum number of known BANT fields
+  minTurnsInStage?: number;        // User turns spent in the current stage, including this one
+}
+
+export interface StageTransitionRule {
+  from: SalesStage[] | '*';
+  to: SalesStage;
+  when: StageCondition;
+  reason: string;  // Recorded with the transition, e.g. for analytics
+}
+
+export interface SalesStageDefinition {
+  initial: SalesStage;
+  stages: Record<SalesStage, StageDefinition>;
+  transitions: StageTransitionRule[];  // Evaluated in order; the first match wins
+}
+
+export interface StageTransition {
+  from: SalesStage;
+  to: SalesStage;
+  reason: string;
+  messageId?: string;  // User message that triggered the transition
+  timestamp: number;
+}
+
+// Persisted on the ChatSession
+export interface SalesStageState {
+  stage: SalesStage;
+  enteredAt: number;
+  turnsInStage: number;
+  history: StageTransition[];
+}
+
+// What a user turn revealed, used to evaluate transition rules
+export interface StageSignals {
+  classification?: TurnClassification;
+  lead?: Lead | null;
+  messageId?: string;
+}
+
+// chat:status payload
+export interface SalesStageStatus {
+  stage: SalesStage;
+  name: string;
+  transition?: StageTransition;  // Set when this turn changed the stage
+}
@@ -0,0 +1,71 @@
+import { ChatMessage, ChatSession } from './chat';
+
+export type StoreBackend = 'redis' | 'memory';
+
+export type SessionMeta = Omit<ChatSession, 'messages'>;
+export type SessionChanges = Partial<Omit<SessionMeta, 'id'>>;
+
+// Called with every message added to a session and with the result of every
+// message update, in the tenant context of the write
+export type MessageListener = (sessionId: string, message: ChatMessage) => void;
+
+// A slice of a session's messages in chronological order
+export interface MessagePage {
+  messages: ChatMessage[];
+  offset: number;  // Position of the first message in the session
+  total: number;   // Messages in the session
+}
+
+// Persistence of chat sessions and of the JSON records other services keep
+// (catalog, personas, leads, handoffs...). Session keys are namespaced by the
+// store for the current tenant; callers pass fully-built keys otherwise.
+// Appending a message and updating one message or metadata field are atomic,
+// so concurrent writers to a session don't lose each other's changes. Every
+// tenant's sessions are indexed by last activity (REDIS_KEYS.SESSION_INDEX).
+export interface ConversationStore {
+  readonly backend: StoreBackend;
+
+  // Sessions
+  saveSession(sessionId: string, session: ChatSession): Promise<void>;
+  getSession(sessionId: string): Promise<ChatSession | null>;
+  getSessionMeta(sessionId: string): Promise<SessionMeta | null>;  // Without loading the messages
+  addMessageToSession(sessionId: string, message: ChatMessage): Promise<void>;
+  updateSession(sessionId: string, changes: SessionChanges): Promise<ChatSession>;
+  updateMessage(sessionId: string, messageId: string, changes: Partial<Omit<ChatMessage, 'id'>>): Promise<void>;
+  updateContext(sessionId: string, context: string): Promise<void>;
+  getRecentMessages(sessionId: string, limit?: number): Promise<ChatMessage[]>;
+  getMessages(sessionId: string, offset?: number, limit?: number): Promise<MessagePage>;  // Negative offsets count from the end
+  clearSession(sessionId: string): Promise<void>;
+  onMessageSaved(listener: MessageListener): void;
+
+  // JSON values; a TTL makes the key expire after that many seconds
+  set(key: string, value: any, ttlSeconds?: number): Promise<void>;
+  get(key: string): Promise<any>;
+  setIfAbsent(key: string, value: any, ttlSeconds?: number): Promise<boolean>;  // Atomic; whether it was set
+  del(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  expire(key: string, ttlSeconds: number): Promise<void>;
+  ttl(key: string): Promise<number>;  // Seconds left; -1 without expiry, -2 when missing
+
+  // Sets
+  sAdd(key: string, members: string | string[]): Promise<void>;
+  sRem(key: string, members: string | string[]): Promise<void>;
+  sMembers(key: string): Promise<string[]>;
+
+  // Lists
+  rPush(key: string, values: string | string[]): Promise<number>;  // Length after the push
+  lRange(key: string, start?: number, stop?: number): Promise<string[]>;  // Inclusive; negative indexes count from the end
+
+  // Sorted sets
+  zAdd(key: string, score: number, member: string): Promise<void>;
+  zRem(key: string, members: string | string[]): Promise<void>;
+  zRangeByScore(key: string, min?: number, max?: number): Promise<string[]>;  // Lowest score first
+  // Highest score first, `count` members from `offset` (all of them by default)
+  zRevRangeByScore(key: string, min?: number, max?: number, offset?: number, count?: number): Promise<string[]>;
+  zCount(key: string, min?: number, max?: number): Promise<number>;
+
+  // Keys matching a glob pattern (`*`, `?`), collected incrementally
+  scan(pattern: string): Promise<string[]>;
+
+  disconnect(): Promise<void>;
+}
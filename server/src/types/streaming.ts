@@ -1,11 +1,37 @@
+import { SpokenChunk } from './chat';
+
 export interface StreamingConfig {
   chunkSize?: number;        // Size of text chunks in characters
   silenceThreshold?: number; // Milliseconds of silence to trigger end of speech
   maxQueueSize?: number;     // Maximum number of audio chunks to queue
+  voice?: string;            // TTS voice, e.g. the session persona's voice
+  signal?: AbortSignal;      // Stops the stream after the chunk being synthesized
+  startedAt?: number;        // Turn start (ms epoch) that latency metrics are measured from
+  sessionId?: string;        // Session the audio belongs to, for retention and erasure
+  streamId?: string;         // Shared by the chunks, e.g. the id of the reply spoken; random by default
+}
+
+// Latencies in milliseconds since the start of the turn
+export interface SpeechMetrics {
+  streamId: string;
+  firstTokenMs?: number;     // First LLM token pushed to the stream
+  firstSentenceMs?: number;  // First complete sentence sent to TTS
+  firstAudioMs?: number;     // Time to first audio: first chunk emitted to the client
+  totalMs: number;
+  chunks: number;
+  interrupted: boolean;
+}
+
+export interface StreamResult {
+  sentText: string;     // Text of the chunks delivered to the client
+  interrupted: boolean; // Stopped before the last chunk was sent
+  spoken: SpokenChunk[];  // Timing of the chunks delivered to the client
+  metrics: SpeechMetrics;
 }
 
 export interface AudioChunk {
   id: string;
+  streamId: string;  // Chunks of one spoken reply share a stream id
   text: string;
   audio: string;  // Base64 encoded audio data or URL
   isLast: boolean;
@@ -24,6 +50,7 @@ export const STREAMING_EVENTS = {
   STREAM_START: 'stream:start',
   STREAM_END: 'stream:end',
   STREAM_ERROR: 'stream:error',
+  STREAM_METRICS: 'stream:metrics',
   SPEECH_START: 'speech:start',
   SPEECH_END: 'speech:end',
 } as const;
@@ -31,7 +58,7 @@ export const STREAMING_EVENTS = {
 export type StreamingEvent = typeof STREAMING_EVENTS[keyof typeof STREAMING_EVENTS];
 
 // Default configuration
-export const DEFAULT_STREAMING_CONFIG: Required<StreamingConfig> = {
+export const DEFAULT_STREAMING_CONFIG: Required<Omit<StreamingConfig, 'voice' | 'signal' | 'startedAt' | 'streamId' | 'sessionId'>> = {
   chunkSize: 300,         // 300 characters per chunk
   silenceThreshold: 1500, // 1.5 seconds of silence
   maxQueueSize: 10        // Maximum 10 chunks in queue
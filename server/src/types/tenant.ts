@@ -0,0 +1,28 @@
+import { RetentionPolicy } from './privacy';
+
+// An organization (brand) running the agent with its own data, keys and voice.
+// Tenants are defined in the TENANTS_PATH JSON file: { "tenants": [Tenant] }.
+export interface Tenant {
+  id: string;                                  // Lowercase letters, digits and dashes
+  name: string;
+  corsOrigins: string[];                       // Origins allowed to call the API and open sockets
+  widgetKeys: string[];                        // Public keys identifying the tenant's chat widget
+  siteKeys: Record<string, string>;            // Embedding site -> key that issues customer tokens
+  adminTokens: Record<string, string>;         // Admin name -> key
+  agentTokens: Record<string, string>;         // Agent name -> key for the agent console
+  supervisorTokens: Record<string, string>;    // Same for supervisors
+  tts: {
+    voice: string;                             // Voice used when the persona has none
+  };
+  credentials: {                               // Provider keys; the deployment's keys when unset
+    openaiApiKey: string;                      // OpenAI LLM and transcription
+    smallestAiApiKey: string;                  // Smallest AI speech synthesis
+  };
+  retention: RetentionPolicy;                  // How long transcripts, audio, leads and logs are kept
+}
+
+export type TenantDefinition = Pick<Tenant, 'id'> & Partial<Omit<Tenant, 'id' | 'tts' | 'credentials' | 'retention'>> & {
+  tts?: Partial<Tenant['tts']>;
+  credentials?: Partial<Tenant['credentials']>;
+  retention?: Partial<RetentionPolicy>;
+};
@@ -0,0 +1,67 @@
+export type ToolParameterType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'array'
+  | 'object';
+
+// JSON Schema subset understood by the tool registry and sent to the model
+export interface ToolParameterSchema {
+  type: ToolParameterType;
+  description?: string;
+  enum?: Array<string | number>;
+  items?: ToolParameterSchema;
+  properties?: Record<string, ToolParameterSchema>;
+  required?: string[];
+}
+
+export interface ToolSchema {
+  type: 'object';
+  properties: Record<string, ToolParameterSchema>;
+  required?: string[];
+}
+
+export interface ToolContext {
+  sessionId: string;
+}
+
+export interface ToolDefinition<TArgs = Record<string, unknown>, TResult = unknown> {
+  name: string;
+  description: string;
+  parameters: ToolSchema;
+  handler: (args: TArgs, context: ToolContext) => Promise<TResult> | TResult;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;  // Raw JSON arguments as produced by the model
+}
+
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;    // JSON encoded handler result or error
+  isError: boolean;
+}
+
+// Socket payloads describing tool activity during a turn
+export interface ToolCallEvent {
+  id: string;
+  name: string;
+  arguments: unknown;
+  timestamp: number;
+}
+
+export interface ToolResultEvent {
+  id: string;
+  name: string;
+  result: unknown;
+  isError: boolean;
+  timestamp: number;
+}
+
+export type ToolEvent =
+  | ({ type: 'call' } & ToolCallEvent)
+  | ({ type: 'result' } & ToolResultEvent);
@@ -0,0 +1,36 @@
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+import { isErrorResponse } from './errors';
+
+// Raised by cancellable operations once their AbortSignal fires
+export function cancelledError(message = 'Operation cancelled'): ErrorResponse {
+  return { error: message, code: ERROR_CODES.CANCELLED };
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return isErrorResponse(error) && error.code === ERROR_CODES.CANCELLED;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw cancelledError();
+  }
+}
+
+// Wait `ms`, rejecting early with a cancelled error when the signal fires
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,16 @@
+import * as crypto from 'crypto';
+
+// Name of the account whose static credential ("Name:token" pairs from the
+// environment) matches `given`, or null. Compared in constant time.
+export function findCredentialOwner(credentials: Record<string, string>, given: unknown): string | null {
+  if (typeof given !== 'string' || !given) return null;
+
+  const givenBuffer = Buffer.from(given);
+  for (const [name, expected] of Object.entries(credentials)) {
+    const candidate = Buffer.from(expected);
+    if (candidate.length === givenBuffer.length && crypto.timingSafeEqual(candidate, givenBuffer)) {
+      return name;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,75 @@
+// Minimal RFC 4180 CSV support: quoted fields, escaped quotes and embedded newlines
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// Parse CSV with a header row into one record per line
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return rows.map((cells) =>
+    columns.reduce<Record<string, string>>((record, column, index) => {
+      record[column] = (cells[index] ?? '').trim();
+      return record;
+    }, {})
+  );
+}
+
+export function toCsvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: string[], rows: Array<Record<string, unknown>>): string {
+  const lines = [
+    columns.map(toCsvField).join(','),
+    ...rows.map((row) => columns.map((column) => toCsvField(row[column])).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,36 @@
+import { Response } from 'express';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+
+const HTTP_STATUS_BY_CODE: Record<string, number> = {
+  [ERROR_CODES.INVALID_INPUT]: 400,
+  [ERROR_CODES.UNAUTHORIZED]: 401,
+  [ERROR_CODES.NOT_FOUND]: 404,
+  [ERROR_CODES.CONFLICT]: 409,
+  [ERROR_CODES.RATE_LIMIT]: 429,
+};
+
+export function isErrorResponse(error: unknown): error is ErrorResponse {
+  return Boolean(
+    error &&
+    typeof error === 'object' &&
+    typeof (error as ErrorResponse).code === 'string' &&
+    typeof (error as ErrorResponse).error === 'string'
+  );
+}
+
+export function toErrorResponse(error: unknown, fallbackMessage: string): ErrorResponse {
+  if (isErrorResponse(error)) {
+    return error;
+  }
+  return {
+    error: fallbackMessage,
+    code: ERROR_CODES.SERVER_ERROR,
+    details: error instanceof Error ? error.message : error,
+  };
+}
+
+// Send an ErrorResponse with the HTTP status matching its code
+export function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+  const errorResponse = toErrorResponse(error, fallbackMessage);
+  res.status(HTTP_STATUS_BY_CODE[errorResponse.code] || 500).json(errorResponse);
+}
@@ -0,0 +1,68 @@
+import config from '../config/config';
+import { ERROR_CODES, ErrorResponse } from '../types/chat';
+import { GenerationParams, NumericGenerationParam } from '../types/generation';
+
+// Allowed ranges of the numeric generation parameters
+export const GENERATION_LIMITS: Record<NumericGenerationParam, [number, number]> = {
+  temperature: [0, 2],
+  max_tokens: [1, 4096],
+  presence_penalty: [-2, 2],
+  frequency_penalty: [-2, 2],
+};
+
+const invalidInput = (message: string): ErrorResponse => ({
+  error: message,
+  code: ERROR_CODES.INVALID_INPUT,
+});
+
+// Validate generation parameters. Unknown parameters, wrong types and models
+// outside LLM_ALLOWED_MODELS are rejected; out-of-range numbers are rejected
+// too unless `clamp` is set, in which case they are clamped and reported
+export function sanitizeGenerationParams(
+  input: unknown,
+  { clamp = false }: { clamp?: boolean } = {}
+): { params: GenerationParams; adjusted: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw invalidInput('Generation settings must be an object');
+  }
+
+  const params: GenerationParams = {};
+  const adjusted: string[] = [];
+
+  for (const [key, value] of Object.entries(input)) {
+    if (key === 'model') {
+      if (typeof value !== 'string' || !value) {
+        throw invalidInput('model must be a non-empty string');
+      }
+      const allowedModels = config.llm.allowedModels;
+      if (!allowedModels.includes('*') && !allowedModels.includes(value)) {
+        throw invalidInput(`model must be one of: ${allowedModels.join(', ')}`);
+      }
+      params.model = value;
+      continue;
+    }
+
+    const limits = GENERATION_LIMITS[key as NumericGenerationParam];
+    if (!limits) {
+      throw invalidInput(`Unknown generation parameter: ${key}`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw invalidInput(`${key} must be a number`);
+    }
+
+    const [min, max] = limits;
+    let normalized = key === 'max_tokens' ? Math.round(value) : value;
+    if (normalized < min || normalized > max) {
+      if (!clamp) {
+        throw invalidInput(`${key} must be a number between ${min} and ${max}`);
+      }
+      normalized = Math.min(max, Math.max(min, normalized));
+    }
+    if (normalized !== value) {
+      adjusted.push(key);
+    }
+    params[key as NumericGenerationParam] = normalized;
+  }
+
+  return { params, adjusted };
+}
@@ -0,0 +1,52 @@
+import * as crypto from 'crypto';
+
+// Minimal HS256 JSON Web Tokens, signed with JWT_SECRET
+
+export interface TokenClaims {
+  sub: string;   // Subject, e.g. the session id
+  typ: string;   // Token purpose, so one kind of token cannot stand in for another
+  iat: number;   // Issued at (seconds)
+  exp: number;   // Expires at (seconds)
+  [claim: string]: unknown;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+export function signToken(
+  claims: { sub: string; typ: string; [claim: string]: unknown },
+  ttlSeconds: number,
+  secret: string
+): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = base64url(JSON.stringify({ ...claims, iat, exp: iat + ttlSeconds }));
+  return `${HEADER}.${payload}.${sign(`${HEADER}.${payload}`, secret)}`;
+}
+
+// Claims of a valid, unexpired token of the given type, or null
+export function verifyToken(token: unknown, typ: string, secret: string): TokenClaims | null {
+  if (typeof token !== 'string') return null;
+
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature || header !== HEADER) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as TokenClaims;
+    if (claims.typ !== typ || typeof claims.sub !== 'string') return null;
+    if (typeof claims.exp !== 'number' || claims.exp <= Date.now() / 1000) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
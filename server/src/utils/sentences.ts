@@ -0,0 +1,98 @@
+// Words whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'inc', 'ltd', 'co',
+  'no', 'approx', 'e.g', 'i.e', 'a.m', 'p.m',
+]);
+
+// Sentence end followed by whitespace, or a line break. Whitespace is required
+// so a streamed "3." is not cut before its "5" arrives.
+const BOUNDARY_PATTERN = /[.!?…]+["'’”)\]]*\s+|\n+/g;
+
+// Splits text arriving token by token into speakable segments as soon as
+// each sentence is complete. Short sentences are merged with the next one and
+// overlong ones are cut at a comma or space.
+export class SentenceSegmenter {
+  private buffer = '';
+
+  constructor(
+    private readonly minLength = 20,
+    private readonly maxLength = 300
+  ) {}
+
+  push(text: string): string[] {
+    this.buffer += text;
+    const segments: string[] = [];
+
+    let searchFrom = 0;
+    let end = this.findBoundary(searchFrom);
+    while (end !== -1) {
+      const segment = this.buffer.slice(0, end).trim();
+      if (segment.length >= this.minLength) {
+        segments.push(segment);
+        this.buffer = this.buffer.slice(end);
+        searchFrom = 0;
+      } else {
+        searchFrom = end;
+      }
+      end = this.findBoundary(searchFrom);
+    }
+
+    while (this.buffer.length > this.maxLength) {
+      const cut = this.findSoftBreak();
+      segments.push(this.buffer.slice(0, cut).trim());
+      this.buffer = this.buffer.slice(cut);
+    }
+
+    return segments.filter(Boolean);
+  }
+
+  // Remaining text once the stream has ended
+  flush(): string[] {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest ? [rest] : [];
+  }
+
+  private findBoundary(from: number): number {
+    const pattern = new RegExp(BOUNDARY_PATTERN.source, 'g');
+    pattern.lastIndex = from;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.buffer)) !== null) {
+      if (match[0].startsWith('.') && this.isAbbreviation(match.index)) {
+        continue;
+      }
+      return match.index + match[0].length;
+    }
+    return -1;
+  }
+
+  // "Dr. Smith" or a numbered list item "2. Pricing"
+  private isAbbreviation(periodIndex: number): boolean {
+    const word = this.buffer.slice(0, periodIndex).match(/(\S+)$/)?.[1] || '';
+    return ABBREVIATIONS.has(word.toLowerCase()) || /^\d+$/.test(word);
+  }
+
+  private findSoftBreak(): number {
+    const window = this.buffer.slice(0, this.maxLength);
+    const comma = window.lastIndexOf(', ');
+    if (comma > this.maxLength / 2) return comma + 2;
+    const space = window.lastIndexOf(' ');
+    return space > 0 ? space + 1 : this.maxLength;
+  }
+}
+
+// End of the last complete sentence in `text`, a word break once the text grew
+// past `maxLength` without one, or -1 while more text is needed
+export function findSentenceEnd(text: string, maxLength: number): number {
+  const pattern = new RegExp(BOUNDARY_PATTERN.source, 'g');
+  let end = -1;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    end = match.index + match[0].length;
+  }
+  if (end === -1 && text.length > maxLength) {
+    end = text.lastIndexOf(' ') + 1;
+  }
+  return end;
+}
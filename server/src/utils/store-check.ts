@@ -0,0 +1,26 @@
+import { conversationStore } from '../services/store.service';
+
+export async function checkStoreConnection(): Promise<boolean> {
+  if (conversationStore.backend === 'memory') {
+    console.log('⚠️ Using the in-memory store: conversations are lost on restart');
+    return true;
+  }
+
+  try {
+    // Try to connect to Redis
+    await conversationStore.getSession('test-connection');
+    console.log('✅ Redis connection successful');
+    return true;
+  } catch (error) {
+    console.error('❌ Redis connection failed:', error);
+    console.log('\nPlease ensure Redis is running:');
+    console.log('1. Start Redis using Docker:');
+    console.log('   docker-compose up -d');
+    console.log('\n2. Or update Redis configuration in .env:');
+    console.log('   REDIS_HOST=your-redis-host');
+    console.log('   REDIS_PORT=your-redis-port');
+    console.log('\n3. Or run without Redis (development only):');
+    console.log('   STORE_BACKEND=memory\n');
+    return false;
+  }
+}
@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Organization the current request, socket event or job runs for. Set once at
+// the edge (REST middleware, socket handshake) and read wherever data is stored.
+
+export const DEFAULT_TENANT_ID = 'default';
+
+const tenantStorage = new AsyncLocalStorage<string>();
+
+export function runWithTenant<T>(tenantId: string, operation: () => T): T {
+  return tenantStorage.run(tenantId, operation);
+}
+
+export function currentTenantId(): string {
+  return tenantStorage.getStore() || DEFAULT_TENANT_ID;
+}
+
+// Redis key in the current tenant's namespace. The default tenant keeps the
+// unprefixed keys, so single-tenant installs need no migration.
+export function tenantKey(key: string): string {
+  const tenantId = currentTenantId();
+  return tenantId === DEFAULT_TENANT_ID ? key : `tenant:${tenantId}:${key}`;
+}
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { auditService } from '../src/services/audit.service';
+import { ChatMessage, ERROR_CODES, WS_EVENTS } from '../src/types/chat';
+import { STREAMING_EVENTS } from '../src/types/streaming';
+import { AuditRecord } from '../src/types/audit';
+
+const START = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+const reply = (content: string): ChatMessage => ({ id: 'stream-r1', role: 'assistant', content, timestamp: START + 2000 });
+
+// Record events one second apart and wait for them to be appended
+async function recordAll(sessionId: string, events: Omit<AuditRecord, 'at'>[]): Promise<void> {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  events.forEach((event, index) => {
+    vi.setSystemTime(START + index * 1000);
+    auditService.record(sessionId, event);
+  });
+  vi.useRealTimers();
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('AuditService', () => {
+  beforeEach(async () => {
+    await auditService.deleteSession('a1');
+    await recordAll('a1', [
+      { kind: 'inbound', type: 'connect', socketId: 'sock-1' },
+      { kind: 'inbound', type: WS_EVENTS.CHAT_MESSAGE, data: 'Is the UltraBook in stock?' },
+      { kind: 'outbound', type: WS_EVENTS.CHAT_RESPONSE, data: { message: reply('Yes, it') } },
+      { kind: 'outbound', type: STREAMING_EVENTS.STREAM_START },
+      { kind: 'outbound', type: WS_EVENTS.CHAT_RESPONSE, data: { message: reply('Yes, it is in stock.') } },
+      { kind: 'inbound', type: WS_EVENTS.CHAT_MESSAGE, actor: 'sam', data: 'Agent console message' },
+      { kind: 'outbound', type: WS_EVENTS.CHAT_INTERRUPTED, data: { messageId: 'stream-r1' } },
+      { kind: 'outbound', type: STREAMING_EVENTS.STREAM_END },
+      { kind: 'inbound', type: 'disconnect', socketId: 'sock-1' },
+    ]);
+  });
+
+  it('pages and filters the events of a session in order', async () => {
+    const page = await auditService.getEvents('a1', { offset: 2, limit: 3 });
+    expect(page.total).toBe(9);
+    expect(page.events.map((event) => event.seq)).toEqual([2, 3, 4]);
+
+    const responses = await auditService.getEvents('a1', { types: [WS_EVENTS.CHAT_RESPONSE], from: START + 3000 });
+    expect(responses.events.map((event) => event.seq)).toEqual([4]);
+    expect((await auditService.getEvents('a1', { kinds: ['inbound'] })).total).toBe(4);
+    await expect(auditService.getEvents('unknown')).rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+  });
+
+  it('rebuilds what the customer saw at any event', async () => {
+    const streaming = await auditService.reconstruct('a1', { seq: 3 });
+    expect(streaming).toMatchObject({ seq: 3, connected: true, socketId: 'sock-1', speaking: true });
+    expect(streaming.messages.map((message) => message.content)).toEqual(['Is the UltraBook in stock?', 'Yes, it']);
+
+    const interrupted = await auditService.reconstruct('a1', { at: START + 6000 });
+    expect(interrupted.seq).toBe(6);
+    expect(interrupted.messages).toHaveLength(2);
+    expect(interrupted.messages[1]).toMatchObject({ id: 'stream-r1', content: 'Yes, it is in stock.', interrupted: true });
+
+    const latest = await auditService.reconstruct('a1');
+    expect(latest).toMatchObject({ seq: 8, connected: false, speaking: false, connections: 1 });
+  });
+
+  it('replaces the replayed messages with the history a resume sends', async () => {
+    const history: ChatMessage[] = [{ id: 'm1', role: 'user', content: 'Earlier question', timestamp: START - 60000 }];
+    await recordAll('a1', [
+      { kind: 'inbound', type: 'connect', socketId: 'sock-2' },
+      { kind: 'outbound', type: WS_EVENTS.CHAT_SESSION, data: { sessionId: 'a1', resumed: true, messages: history } },
+    ]);
+
+    const state = await auditService.reconstruct('a1');
+    expect(state).toMatchObject({ connected: true, socketId: 'sock-2', connections: 2 });
+    expect(state.messages).toEqual([{ id: 'm1', role: 'user', content: 'Earlier question', at: START - 60000 }]);
+  });
+
+  it('logs only the text a streamed reply adds and rebuilds the whole reply', async () => {
+    await auditService.deleteSession('a4');
+    const send = (message: ChatMessage) => auditService.recordOutgoing('a4', 'sock-4', WS_EVENTS.CHAT_RESPONSE, { message });
+    send(reply('Yes, it'));
+    send(reply('Yes, it is in stock.'));
+    send(reply('Yes, it is in stock. It ships today.'));
+    send({ ...reply('Anything else?'), id: 'stream-r2' });
+    auditService.recordOutgoing('a4', 'sock-4', WS_EVENTS.LEAD_UPDATED, { lead: { sessionId: 'a4', name: 'Jane' }, changedFields: ['name'] });
+    auditService.recordOutgoing('a4', 'sock-4', WS_EVENTS.LEAD_UPDATED, { lead: { sessionId: 'a4', company: 'Acme' }, changedFields: ['company'] });
+    auditService.forgetSocket('sock-4');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const { events } = await auditService.getEvents('a4', { types: [WS_EVENTS.CHAT_RESPONSE] });
+    expect(events.map((event) => event.data)).toMatchObject([
+      { message: { content: 'Yes, it' } },
+      { message: { content: ' is in stock.' }, appended: true },
+      { message: { content: ' It ships today.' }, appended: true },
+      { message: { id: 'stream-r2', content: 'Anything else?' } },
+    ]);
+    const state = await auditService.reconstruct('a4');
+    expect(state.messages.map((message) => message.content)).toEqual(['Yes, it is in stock. It ships today.', 'Anything else?']);
+    expect(state.lead).toEqual({ sessionId: 'a4', name: 'Jane', company: 'Acme' });
+  });
+
+  it('redacts secrets and shortens long values', async () => {
+    await recordAll('a2', [{
+      kind: 'inbound',
+      type: 'auth',
+      data: { token: 'abc', apiKey: 'def', max_tokens: 256, audio: Buffer.alloc(4), text: 'x'.repeat(2005) },
+    }]);
+
+    const [event] = (await auditService.getEvents('a2')).events;
+    expect(event.data).toEqual({
+      token: '[redacted]',
+      apiKey: '[redacted]',
+      max_tokens: 256,
+      audio: '[4 bytes]',
+      text: `${'x'.repeat(2000)}… [5 more characters]`,
+    });
+    expect(await auditService.deleteSession('a2')).toBe(1);
+    await expect(auditService.getEvents('a2')).rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+  });
+
+  it('attributes provider calls to the current session only', async () => {
+    await auditService.deleteSession('a3');
+    await auditService.trackProvider('llm', { model: 'outside' }, async () => 'ignored');
+    await auditService.runInSession('a3', async () => {
+      await auditService.trackProvider('llm', { model: 'm' }, async () => ({ tokens: 12 }), (result) => ({ usage: result.tokens }));
+      await expect(
+        auditService.trackProvider('tts', {}, async () => { throw { error: 'Quota exceeded', code: 'SERVER_ERROR' }; })
+      ).rejects.toMatchObject({ error: 'Quota exceeded' });
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const { events } = await auditService.getEvents('a3');
+    expect(events.map((event) => [event.type, event.data])).toEqual([['llm', { model: 'm', usage: 12 }], ['tts', {}]]);
+    expect((await auditService.reconstruct('a3')).providerCalls).toMatchObject({ total: 2, failed: 1 });
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Request, Response } from 'express';
+
+vi.hoisted(() => {
+  process.env.ADMIN_TOKENS = 'Ada Admin:admin-key';
+  process.env.AGENT_TOKENS = 'Sam:agent-key';
+  process.env.EMBED_SITE_KEYS = 'shop:site-key';
+  process.env.AUTH_REQUIRED = 'false';
+});
+
+import { authService } from '../src/services/auth.service';
+import { requireAuth } from '../src/middleware/auth';
+import { signToken, verifyToken } from '../src/utils/jwt';
+import { ERROR_CODES } from '../src/types/chat';
+
+const SECRET = 'test-secret';
+
+describe('jwt', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('verifies its own tokens of the expected type', () => {
+    const token = signToken({ sub: 's1', typ: 'session', tenant: 'acme' }, 60, SECRET);
+
+    expect(verifyToken(token, 'session', SECRET)).toMatchObject({ sub: 's1', typ: 'session', tenant: 'acme' });
+    expect(verifyToken(token, 'access', SECRET)).toBeNull();
+    expect(verifyToken(token, 'session', 'other-secret')).toBeNull();
+  });
+
+  it('rejects tampered, malformed and expired tokens', () => {
+    vi.useFakeTimers();
+    const token = signToken({ sub: 's1', typ: 'session' }, 60, SECRET);
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 's2', typ: 'session', iat: 0, exp: 9999999999 })).toString('base64url');
+
+    expect(verifyToken(`${header}.${forged}.${signature}`, 'session', SECRET)).toBeNull();
+    expect(verifyToken('not-a-token', 'session', SECRET)).toBeNull();
+    expect(verifyToken(undefined, 'session', SECRET)).toBeNull();
+    vi.advanceTimersByTime(61 * 1000);
+    expect(verifyToken(token, 'session', SECRET)).toBeNull();
+  });
+});
+
+describe('AuthService', () => {
+  it('exchanges staff keys for access tokens of their role', () => {
+    const identity = authService.authenticateKey('admin-key');
+    expect(identity).toEqual({ id: 'ada-admin', name: 'Ada Admin', role: 'admin', tenantId: 'default' });
+
+    const issued = authService.issueToken(identity!);
+    expect(issued).toMatchObject({ role: 'admin', tenantId: 'default' });
+    expect(authService.verifyAccessToken(issued.token)).toEqual(identity);
+    expect(authService.authenticateKey('unknown-key')).toBeNull();
+  });
+
+  it('issues customer tokens for the visitor an embedding site names', () => {
+    const identity = authService.authenticateKey('site-key', 'visitor-7', ' Jane ');
+    expect(identity).toEqual({ id: 'visitor-7', role: 'customer', site: 'shop', tenantId: 'default', name: 'Jane' });
+    expect(() => authService.authenticateKey('site-key', 'x'.repeat(129))).toThrow();
+  });
+
+  it('binds session tokens to their tenant', () => {
+    const token = authService.issueSessionToken('s1', 'default');
+
+    expect(authService.verifySessionToken(token, 'default')).toBe('s1');
+    expect(authService.verifySessionToken(token, 'acme')).toBeNull();
+    expect(authService.verifyAccessToken(token)).toBeNull();
+  });
+
+  it('authorizes identities by role', () => {
+    const agent = authService.authenticateKey('agent-key')!;
+
+    expect(authService.authorize(agent, ['agent', 'admin'])).toBe(agent);
+    expect(() => authService.authorize(agent, ['admin'])).toThrow(expect.objectContaining({ code: ERROR_CODES.UNAUTHORIZED }));
+    expect(() => authService.authorize(null)).toThrow(expect.objectContaining({ code: ERROR_CODES.UNAUTHORIZED }));
+  });
+});
+
+describe('requireAuth', () => {
+  // Run the middleware; returns the HTTP status it answered with, or 'next'
+  function run(middleware: ReturnType<typeof requireAuth>, token?: string): number | 'next' {
+    const req = { headers: token ? { authorization: `Bearer ${token}` } : {} } as Request;
+    let outcome: number | 'next' = 'next';
+    const res = {
+      locals: {},
+      status(code: number) {
+        outcome = code;
+        return this;
+      },
+      json() {
+        return this;
+      },
+    } as unknown as Response;
+    middleware(req, res, () => undefined);
+    return outcome;
+  }
+
+  it('demands a valid token of a listed role on staff routes', () => {
+    const staff = requireAuth('agent', 'admin');
+    const agentToken = authService.issueToken(authService.authenticateKey('agent-key')!).token;
+    const customerToken = authService.issueToken(authService.authenticateKey('site-key')!).token;
+
+    expect(run(staff)).toBe(401);
+    expect(run(staff, 'garbage')).toBe(401);
+    expect(run(staff, customerToken)).toBe(401);
+    expect(run(staff, agentToken)).toBe('next');
+  });
+
+  it('lets customer routes through without a token, but not with an invalid one', () => {
+    const open = requireAuth();
+
+    expect(run(open)).toBe('next');
+    expect(run(open, 'garbage')).toBe(401);
+  });
+});
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { coachingService } from '../src/services/coaching.service';
+import { conversationStore } from '../src/services/store.service';
+import { ERROR_CODES } from '../src/types/chat';
+import { AgentIdentity } from '../src/types/handoff';
+
+const sue: AgentIdentity = { id: 'sue', name: 'Sue', role: 'supervisor' };
+
+describe('CoachingService', () => {
+  beforeEach(async () => {
+    await coachingService.deleteWhispers('w1');
+    await conversationStore.addMessageToSession('w1', { id: 'm1', role: 'user', content: 'Hi', timestamp: 1 });
+  });
+
+  it('hands each whisper to one reply and keeps it in the log', async () => {
+    await coachingService.whisper('w1', sue, ' Offer the annual plan ');
+
+    const [taken] = await coachingService.takePending('w1', 'r1');
+    expect(taken).toMatchObject({ text: 'Offer the annual plan', supervisor: sue, responseId: 'r1' });
+    expect(await coachingService.takePending('w1', 'r2')).toEqual([]);
+    expect(await coachingService.getWhispers('w1')).toEqual([taken]);
+    expect(coachingService.formatForPrompt([taken])).toContain('- Offer the annual plan');
+  });
+
+  it('keeps whispers sent while a reply takes the pending ones', async () => {
+    await coachingService.whisper('w1', sue, 'first');
+
+    const [taken] = await Promise.all([
+      coachingService.takePending('w1', 'r1'),
+      coachingService.whisper('w1', sue, 'second'),
+      coachingService.whisper('w1', sue, 'third'),
+    ]);
+    const pendingNext = await coachingService.takePending('w1', 'r2');
+
+    expect([...taken, ...pendingNext].map((whisper) => whisper.text).sort()).toEqual(['first', 'second', 'third']);
+    expect((await coachingService.getWhispers('w1')).every((whisper) => whisper.deliveredAt)).toBe(true);
+    expect(await coachingService.deleteWhispers('w1')).toBe(3);
+  });
+
+  it('accepts whispers only from supervisors, for known sessions', async () => {
+    await expect(coachingService.whisper('w1', { ...sue, role: 'agent' }, 'x')).rejects.toMatchObject({ code: ERROR_CODES.UNAUTHORIZED });
+    await expect(coachingService.whisper('w1', sue, '  ')).rejects.toMatchObject({ code: ERROR_CODES.INVALID_INPUT });
+    await expect(coachingService.whisper('unknown', sue, 'x')).rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import { exportService } from '../src/services/export.service';
+import { conversationStore } from '../src/services/store.service';
+import { parseCsv } from '../src/utils/csv';
+import { ChatSession } from '../src/types/chat';
+
+const START = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+const session: ChatSession = {
+  id: 's1',
+  context: '',
+  lastActivity: START + 20000,
+  personaId: 'sales-agent',
+  messages: [
+    {
+      id: 'u1',
+      role: 'user',
+      content: 'Do you have "pro" laptops,\nin stock?',
+      timestamp: START,
+      classification: { intent: 'product_question', sentiment: 'neutral', urgency: 'low', confidence: 0.8, classifier: 'rules' },
+    },
+    { id: 't0', role: 'assistant', content: '', timestamp: START + 500, toolCalls: [] },
+    { id: 't1', role: 'tool', content: '{"results":[]}', timestamp: START + 600, toolCallId: 'c1', name: 'search' },
+    {
+      id: 'a1',
+      role: 'assistant',
+      content: 'Yes, the UltraBook Pro. It is <in stock> now.',
+      timestamp: START + 1000,
+      interrupted: true,
+      speech: [
+        { text: 'Yes, the UltraBook Pro.', startedAt: START + 1500, durationMs: 2000 },
+        { text: 'It is <in stock> now.', startedAt: START + 3500, durationMs: 1500 },
+      ],
+    },
+    {
+      id: 'g1',
+      role: 'assistant',
+      content: 'Hi, Sam here.\n\nHappy to help.',
+      timestamp: START + 4000,
+      agent: { id: 'sam', name: 'Sam', role: 'agent' },
+    },
+  ],
+};
+
+describe('ExportService', () => {
+  it('renders a Markdown transcript without tool messages', () => {
+    const markdown = exportService.render(session, 'md');
+
+    expect(markdown).toContain('# Conversation s1');
+    expect(markdown).toContain('- Started: 2026-01-01T12:00:00.000Z');
+    expect(markdown).toContain('- Messages: 3');
+    expect(markdown).toContain('**Assistant** · 2026-01-01T12:00:01.000Z _(interrupted)_');
+    expect(markdown).toContain('**Sam** · 2026-01-01T12:00:04.000Z\n\nHi, Sam here.');
+    expect(markdown).not.toContain('results');
+  });
+
+  it('renders one CSV row per message that parses back', () => {
+    const [header, ...rows] = parseCsv(exportService.render(session, 'csv'));
+
+    expect(header.slice(0, 5)).toEqual(['message_id', 'timestamp', 'role', 'speaker', 'content']);
+    expect(rows.map((row) => row[0])).toEqual(['u1', 'a1', 'g1']);
+    const field = (row: string[], column: string) => row[header.indexOf(column)];
+    expect(field(rows[0], 'content')).toBe('Do you have "pro" laptops,\nin stock?');
+    expect(field(rows[0], 'intent')).toBe('product_question');
+    expect(field(rows[1], 'interrupted')).toBe('true');
+    expect(field(rows[1], 'audio_start')).toBe('2026-01-01T12:00:01.500Z');
+    expect(field(rows[1], 'audio_ms')).toBe('3500');
+    expect(field(rows[2], 'speaker')).toBe('Sam');
+  });
+
+  it('times WebVTT cues by the spoken audio', () => {
+    expect(exportService.render(session, 'vtt')).toBe([
+      'WEBVTT',
+      '00:00:00.000 --> 00:00:01.500\n<v Customer>Do you have "pro" laptops,\nin stock?',
+      '00:00:01.500 --> 00:00:03.500\n<v Assistant>Yes, the UltraBook Pro.',
+      '00:00:03.500 --> 00:00:04.000\n<v Assistant>It is &lt;in stock&gt; now.',
+      '00:00:04.000 --> 00:00:05.740\n<v Sam>Hi, Sam here.\nHappy to help.',
+    ].join('\n\n') + '\n');
+  });
+
+  it('numbers SRT captions', () => {
+    const srt = exportService.render(session, 'srt');
+
+    expect(srt.startsWith('1\n00:00:00,000 --> 00:00:01,500\nCustomer: Do you have')).toBe(true);
+    expect(srt).toContain('\n\n3\n00:00:03,500 --> 00:00:04,000\nAssistant: It is <in stock> now.\n');
+  });
+
+  it('gives customers only the messages of their conversation', async () => {
+    const internal = { ...session, context: 'Summary: price sensitive', personaId: 'closer', generation: { temperature: 1 } };
+    const json = JSON.parse(exportService.render(internal, 'json', 'customer'));
+
+    expect(json).toEqual({
+      id: 's1',
+      messages: [
+        { id: 'u1', role: 'user', speaker: 'Customer', content: 'Do you have "pro" laptops,\nin stock?', timestamp: START },
+        { id: 'a1', role: 'assistant', speaker: 'Assistant', content: 'Yes, the UltraBook Pro. It is <in stock> now.', timestamp: START + 1000 },
+        { id: 'g1', role: 'assistant', speaker: 'Sam', content: 'Hi, Sam here.\n\nHappy to help.', timestamp: START + 4000 },
+      ],
+    });
+    expect(exportService.render(internal, 'md', 'customer')).not.toMatch(/Persona|closer/);
+    const [header] = parseCsv(exportService.render(internal, 'csv', 'customer'));
+    expect(header).toEqual(['message_id', 'timestamp', 'role', 'speaker', 'content', 'interrupted']);
+    expect(exportService.render(internal, 'vtt', 'customer')).toBe(exportService.render(session, 'vtt'));
+  });
+
+  it('exports a stored session and rejects unknown ones', async () => {
+    await conversationStore.saveSession('s1', session);
+
+    const file = await exportService.exportSession('s1', 'json');
+    expect(file).toMatchObject({ filename: 'session-s1.json', contentType: 'application/json' });
+    expect(JSON.parse(file.content as string).messages).toHaveLength(5);
+    await expect(exportService.exportSession('missing', 'json')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(() => exportService.parseFormat('pdf')).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+    expect(exportService.parseFormat(undefined)).toBe('json');
+  });
+
+  it('archives the sessions active in a range', async () => {
+    await conversationStore.saveSession('s2', { ...session, id: 's2', lastActivity: START + 60000 });
+    await conversationStore.saveSession('s3', { ...session, id: 's3', lastActivity: START + 120000 });
+
+    const file = await exportService.exportRange({ from: START + 30000, to: START + 90000 }, 'md');
+    expect(file).toMatchObject({ filename: 'sessions-2026-01-01-to-2026-01-01.zip', contentType: 'application/zip' });
+    // A single entry: the local header, its name and the deflated Markdown
+    const archive = file.content as Buffer;
+    const nameLength = archive.readUInt16LE(26);
+    expect(archive.subarray(30, 30 + nameLength).toString()).toBe('session-s2.md');
+    expect(archive.readUInt16LE(archive.length - 22 + 10)).toBe(1);
+    const data = archive.subarray(30 + nameLength, 30 + nameLength + archive.readUInt32LE(18));
+    expect(inflateRawSync(data).toString()).toContain('# Conversation s2');
+  });
+});
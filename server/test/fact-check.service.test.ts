@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.LLM_SCRIPT_PATH = 'test/fixtures/llm-script.json';
+});
+
+import { factCheckService, ResponseFactChecker } from '../src/services/fact-check.service';
+import { catalogService } from '../src/services/catalog.service';
+import { conversationStore } from '../src/services/store.service';
+import { aiService } from '../src/services/ai.service';
+import { registerDefaultTools } from '../src/tools';
+import { Product } from '../src/types/catalog';
+
+const laptop: Product = {
+  sku: 'UB-14',
+  name: 'UltraBook 14',
+  description: 'Light laptop',
+  price: 999,
+  currency: 'USD',
+  stock: 3,
+  attributes: { batteryLife: 18, weightKg: 1.2 },
+  createdAt: 0,
+  updatedAt: 0,
+};
+const speaker: Product = { ...laptop, sku: 'SP-1', name: 'SoundBar One', price: 249, stock: 0, attributes: {} };
+
+// Feed a reply in small pieces and return the text released to the customer
+function check(checker: ResponseFactChecker, reply: string): string {
+  const pieces = reply.match(/.{1,7}/gs) || [];
+  return pieces.map((piece) => checker.push(piece)).join('') + checker.finish();
+}
+
+describe('ResponseFactChecker', () => {
+  it('corrects a wrong price of the product named in the sentence', () => {
+    const checker = new ResponseFactChecker('s1', 'r1', [laptop, speaker]);
+
+    expect(check(checker, 'The UltraBook 14 costs $799.')).toBe('The UltraBook 14 costs $999.');
+    expect(checker.corrections).toEqual([{ type: 'price', sku: 'UB-14', claimed: '$799', corrected: '$999' }]);
+    expect(checker.text).toBe('The UltraBook 14 costs $999.');
+  });
+
+  it('accepts totals for a quantity and discounts within the limit', () => {
+    const checker = new ResponseFactChecker('s1', 'r1', [laptop]);
+    const reply = 'The UltraBook 14 is $1,998 for 2 units. With the sale the UltraBook 14 is $950.';
+
+    expect(check(checker, reply)).toBe(reply);
+    expect(checker.corrections).toEqual([]);
+  });
+
+  it('checks claims of later sentences against the product named before', () => {
+    const checker = new ResponseFactChecker('s1', 'r1', [laptop, speaker]);
+
+    expect(check(checker, 'The UltraBook 14 is great. It costs $799.')).toBe('The UltraBook 14 is great. It costs $999.');
+  });
+
+  it('leaves claims alone when several products were named before', () => {
+    const checker = new ResponseFactChecker('s1', 'r1', [laptop, speaker]);
+    const reply = 'The UltraBook 14 and the SoundBar One are popular. It costs $799.';
+
+    expect(check(checker, reply)).toBe(reply);
+  });
+
+  it('corrects stock levels and numeric specs', () => {
+    const checker = new ResponseFactChecker('s1', 'r1', [laptop, speaker]);
+    const sent = check(checker, 'The UltraBook 14 has 10 left and a battery life of 24 hours. The SoundBar One is in stock.');
+
+    expect(sent).toBe('The UltraBook 14 has 3 left and a battery life of 18 hours. The SoundBar One is currently out of stock.');
+    expect(checker.corrections.map((c) => [c.type, c.sku])).toEqual([
+      ['stock', 'UB-14'],
+      ['spec', 'UB-14'],
+      ['stock', 'SP-1'],
+    ]);
+  });
+
+  it('does not convert other currencies', () => {
+    const checker = new ResponseFactChecker('s1', 'r1', [laptop]);
+    expect(check(checker, 'The UltraBook 14 is €899.')).toBe('The UltraBook 14 is €899.');
+  });
+});
+
+describe('FactCheckService', () => {
+  it('checks against a catalog changed since the last reply', async () => {
+    await catalogService.createProduct({ ...laptop, createdAt: undefined, updatedAt: undefined });
+    const before = await factCheckService.createChecker('s1', 'r1');
+    expect(check(before, 'The UltraBook 14 costs $999.')).toBe('The UltraBook 14 costs $999.');
+
+    await catalogService.updateProduct('UB-14', { price: 899 });
+    const after = await factCheckService.createChecker('s1', 'r2');
+    expect(check(after, 'The UltraBook 14 costs $999.')).toBe('The UltraBook 14 costs $899.');
+  });
+
+  it('stores the corrected reply with its corrections', async () => {
+    await conversationStore.addMessageToSession('s2', { id: 'r1', role: 'assistant', content: 'raw', timestamp: 1 });
+    const checker = new ResponseFactChecker('s2', 'r1', [laptop]);
+    check(checker, 'The UltraBook 14 costs $799.');
+    await factCheckService.saveCorrections(checker);
+
+    const [message] = (await conversationStore.getSession('s2'))!.messages;
+    expect(message.content).toBe('The UltraBook 14 costs $999.');
+    expect(message.factCorrections).toHaveLength(1);
+  });
+
+  it('stores corrected prices a tool turn quoted before its tool call', async () => {
+    registerDefaultTools();
+    const checker = new ResponseFactChecker('s3', 'r1', [laptop]);
+    let sent = '';
+    await aiService.generateStreamingResponse('s3', 'Tell me about the UltraBook', (token) => { sent += checker.push(token); }, undefined, { responseId: 'r1' });
+    sent += checker.finish();
+    await factCheckService.saveCorrections(checker);
+
+    expect(sent).toBe('The UltraBook 14 costs $999. It ships today.');
+    const messages = (await conversationStore.getSession('s3'))!.messages;
+    expect(messages.filter((message) => message.role === 'assistant').map((message) => message.content)).toEqual(['', sent]);
+    expect(messages[2].factCorrections).toEqual([{ type: 'price', sku: 'UB-14', claimed: '$799', corrected: '$999' }]);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.LLM_MODEL = 'house-model';
+  process.env.LLM_ALLOWED_MODELS = '';
+});
+
+import { sanitizeGenerationParams } from '../src/utils/generation';
+import { ERROR_CODES } from '../src/types/chat';
+
+describe('sanitizeGenerationParams', () => {
+  it('allows only the configured model when no allowlist is set', () => {
+    expect(sanitizeGenerationParams({ model: 'house-model' }).params).toEqual({ model: 'house-model' });
+    expect(() => sanitizeGenerationParams({ model: 'gpt-4o' })).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_INPUT }));
+  });
+
+  it('clamps numbers into range when asked to and reports them', () => {
+    const { params, adjusted } = sanitizeGenerationParams({ temperature: 3, max_tokens: 100000.4, presence_penalty: 0 }, { clamp: true });
+
+    expect(params).toEqual({ temperature: 2, max_tokens: 4096, presence_penalty: 0 });
+    expect(adjusted).toEqual(['temperature', 'max_tokens']);
+    expect(() => sanitizeGenerationParams({ temperature: 3 })).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_INPUT }));
+    expect(() => sanitizeGenerationParams({ top_p: 1 })).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_INPUT }));
+  });
+});
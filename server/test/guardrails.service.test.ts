@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.LLM_SCRIPT_PATH = 'test/fixtures/llm-script.json';
+});
+
+import { guardrailsService, GuardedResponse } from '../src/services/guardrails.service';
+import { conversationStore } from '../src/services/store.service';
+import { aiService } from '../src/services/ai.service';
+import { registerDefaultTools } from '../src/tools';
+
+// Feed a reply token by token, the way the LLM streams it
+function stream(guard: GuardedResponse, reply: string): string {
+  const tokens = reply.match(/\S+\s*/g) || [];
+  return tokens.map((token) => guard.push(token)).join('') + guard.finish();
+}
+
+describe('GuardedResponse', () => {
+  it('caps discounts above the authorized limit', () => {
+    const guard = guardrailsService.createGuard('s1', 'r1');
+    const sent = stream(guard, 'I can give you 25% off today. Shall I add it?');
+
+    expect(sent).toBe('I can give you 10% off today. Shall I add it?');
+    expect(guard.isModified).toBe(true);
+    expect(guard.violations.map((v) => [v.ruleId, v.action, v.excerpt])).toEqual([['max-discount', 'rewrite', '25%']]);
+  });
+
+  it('leaves discounts within the limit alone', () => {
+    const guard = guardrailsService.createGuard('s1', 'r1');
+    expect(stream(guard, 'You get a discount of 5% on annual plans.')).toBe('You get a discount of 5% on annual plans.');
+    expect(guard.violations).toEqual([]);
+  });
+
+  it('replaces the rest of a blocked reply with the blocked message', () => {
+    const guard = guardrailsService.createGuard('s1', 'r1');
+    const sent = stream(guard, 'Great question. This pillow cures insomnia. It also ships free.');
+
+    expect(sent).toBe(`Great question. ${guardrailsService.getPolicy().blockedMessage}`);
+    expect(guard.isBlocked).toBe(true);
+    expect(guard.violations.map((v) => v.ruleId)).toEqual(['medical-claims']);
+  });
+
+  it('flags guarantees without changing the text', () => {
+    const guard = guardrailsService.createGuard('s1', 'r1');
+    const reply = 'Our plan is risk-free for a month.';
+
+    expect(stream(guard, reply)).toBe(reply);
+    expect(guard.isModified).toBe(false);
+    expect(guard.violations.map((v) => [v.ruleId, v.action])).toEqual([['absolute-guarantees', 'flag']]);
+  });
+
+  it('appends the disclaimer a reply needs once', () => {
+    const guard = guardrailsService.createGuard('s1', 'r1');
+    const disclaimer = 'Financing is subject to credit approval; terms may vary.';
+
+    expect(stream(guard, 'We offer financing over 12 months.')).toBe(`We offer financing over 12 months.\n\n${disclaimer}`);
+    const again = guardrailsService.createGuard('s1', 'r2');
+    expect(stream(again, `We offer financing. ${disclaimer}`)).toBe(`We offer financing. ${disclaimer}`);
+  });
+
+  it('stores the reply as sent with the rules it violated', async () => {
+    await conversationStore.addMessageToSession('s2', { id: 'r1', role: 'assistant', content: 'raw', timestamp: 1 });
+    const guard = guardrailsService.createGuard('s2', 'r1');
+    stream(guard, 'Take 50% off, it is risk-free.');
+    await guardrailsService.saveOutcome(guard);
+
+    const [message] = (await conversationStore.getSession('s2'))!.messages;
+    expect(message.content).toBe('Take 10% off, it is risk-free.');
+    expect(message.policyViolations).toEqual(['max-discount', 'absolute-guarantees']);
+    expect((await guardrailsService.getViolations('s2')).map((v) => v.ruleId)).toEqual(['max-discount', 'absolute-guarantees']);
+  });
+
+  it('stores the approved text of every step of a tool turn', async () => {
+    registerDefaultTools();
+    const guard = guardrailsService.createGuard('s3', 'r1');
+    // The customer's socket gets only what the guard released
+    let sent = '';
+    await aiService.generateStreamingResponse('s3', 'Any discount?', (token) => { sent += guard.push(token); }, undefined, { responseId: 'r1' });
+    sent += guard.finish();
+    await guardrailsService.saveOutcome(guard);
+
+    expect(sent).toBe('I can give you 10% off today. The offer ends at midnight.');
+    const messages = (await conversationStore.getSession('s3'))!.messages;
+    expect(messages.filter((message) => message.role === 'assistant').map((message) => message.content)).toEqual(['', sent]);
+    expect(JSON.stringify(messages)).not.toContain('25%');
+  });
+});
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { handoffService } from '../src/services/handoff.service';
+import { conversationStore } from '../src/services/store.service';
+import { ERROR_CODES } from '../src/types/chat';
+import { AgentIdentity, Handoff } from '../src/types/handoff';
+
+const ann: AgentIdentity = { id: 'ann', name: 'Ann', role: 'agent' };
+const bob: AgentIdentity = { id: 'bob', name: 'Bob', role: 'agent' };
+
+describe('HandoffService', () => {
+  beforeEach(async () => {
+    await handoffService.deleteHandoff('h1');
+    await conversationStore.addMessageToSession('h1', { id: 'm1', role: 'user', content: 'I want a person', timestamp: 1 });
+  });
+
+  it('moves a handoff through the queue, a claim, a release and a resolve', async () => {
+    const changes: Handoff[] = [];
+    handoffService.onHandoffChanged((handoff) => changes.push(handoff));
+
+    const queued = await handoffService.requestHandoff('h1', 'customer_request');
+    expect(await handoffService.requestHandoff('h1', 'frustration')).toEqual(queued);
+    expect(await handoffService.listOpen()).toEqual([queued]);
+
+    expect(await handoffService.claim('h1', ann)).toMatchObject({ status: 'active', reason: 'customer_request', agent: ann });
+    expect(await handoffService.isAiPaused('h1')).toBe(true);
+    await expect(handoffService.release('h1', bob)).rejects.toMatchObject({ code: ERROR_CODES.CONFLICT });
+
+    const released = await handoffService.release('h1', ann);
+    expect(released).toMatchObject({ status: 'queued' });
+    expect(released.agent).toBeUndefined();
+    await handoffService.claim('h1', bob);
+    expect(await handoffService.resolve('h1', bob)).toMatchObject({ status: 'resolved' });
+    expect(await handoffService.listOpen()).toEqual([]);
+    expect(changes.map((handoff) => handoff.status)).toEqual(['queued', 'active', 'queued', 'active', 'resolved']);
+  });
+
+  it('lets only one of concurrent claims take the session', async () => {
+    await handoffService.requestHandoff('h1', 'customer_request');
+
+    const results = await Promise.allSettled([handoffService.claim('h1', ann), handoffService.claim('h1', bob)]);
+    const [won, lost] = results[0].status === 'fulfilled' ? [ann, results[1]] : [bob, results[0]];
+    expect(lost).toMatchObject({ status: 'rejected', reason: { code: ERROR_CODES.CONFLICT } });
+    expect((await handoffService.getHandoff('h1'))?.agent).toEqual(won);
+    // Claiming again is a no-op for the owner
+    expect((await handoffService.claim('h1', won)).agent).toEqual(won);
+  });
+
+  it('escalates an unqueued session on claim and rejects unknown sessions', async () => {
+    expect(await handoffService.claim('h1', ann)).toMatchObject({ status: 'active', reason: 'manual' });
+
+    await expect(handoffService.claim('unknown', ann)).rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+    await expect(handoffService.claim('unknown', bob)).rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+    await expect(handoffService.requestHandoff('unknown', 'manual')).rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+    expect(await handoffService.getHandoff('unknown')).toBeNull();
+  });
+});
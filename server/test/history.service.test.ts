@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { historyService } from '../src/services/history.service';
+import { conversationStore } from '../src/services/store.service';
+import { leadService } from '../src/services/lead.service';
+import { ChatMessage, REDIS_KEYS } from '../src/types/chat';
+
+const message = (id: string, content: string): ChatMessage => ({ id, role: 'user', content, timestamp: 1 });
+const MODELS = ['alpha', 'bravo', 'charlie', 'delta', 'echo'];
+
+describe('HistoryService', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    // Sessions s0 (oldest) to s4 (latest), one minute apart
+    for (let i = 0; i < 5; i++) {
+      vi.setSystemTime(Date.UTC(2026, 0, 1, 12, i));
+      await conversationStore.addMessageToSession(`s${i}`, message(`m${i}`, `Do you have the ${MODELS[i]} laptop?`));
+    }
+    await leadService.processMessage('s1', 'My email is jane@example.com');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    for (let i = 0; i < 5; i++) {
+      await conversationStore.clearSession(`s${i}`);
+    }
+    await leadService.deleteLead('s1');
+  });
+
+  it('pages sessions by last activity', async () => {
+    const first = await historyService.listSessions({ limit: 2 });
+    expect(first.sessions.map((s) => s.sessionId)).toEqual(['s4', 's3']);
+    expect(first.total).toBe(5);
+
+    const second = await historyService.listSessions({ offset: 2, limit: 2 });
+    expect(second.sessions.map((s) => s.sessionId)).toEqual(['s2', 's1']);
+    expect(second.sessions[1]).toMatchObject({ leadCaptured: true, messageCount: 1 });
+  });
+
+  it('limits sessions to an activity range', async () => {
+    const list = await historyService.listSessions({ from: Date.UTC(2026, 0, 1, 12, 1), to: Date.UTC(2026, 0, 1, 12, 3) });
+    expect(list.sessions.map((s) => s.sessionId)).toEqual(['s3', 's2', 's1']);
+    expect(list.total).toBe(3);
+  });
+
+  it('filters on summary fields before paging', async () => {
+    const captured = await historyService.listSessions({ leadCaptured: true });
+    expect(captured.sessions.map((s) => s.sessionId)).toEqual(['s1']);
+
+    const others = await historyService.listSessions({ leadCaptured: false, offset: 3 });
+    expect(others.sessions.map((s) => s.sessionId)).toEqual(['s0']);
+    expect(others.total).toBe(4);
+  });
+
+  it('drops expired sessions from the index', async () => {
+    await conversationStore.del(`${REDIS_KEYS.SESSION_META_PREFIX}s4`);
+
+    const list = await historyService.listSessions({ limit: 2 });
+    expect(list.sessions.map((s) => s.sessionId)).toEqual(['s3']);
+    expect(await conversationStore.zRangeByScore(REDIS_KEYS.SESSION_INDEX)).not.toContain('s4');
+  });
+
+  it('finds messages containing every query term', async () => {
+    const results = await historyService.search('Delta laptops');
+    expect(results.results.map((r) => r.sessionId)).toEqual(['s3']);
+    await expect(historyService.search('the')).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { knowledgeService } from '../src/services/knowledge.service';
+
+const sections = Array.from({ length: 60 }, (_, index) => `## Model ${index}\n\nThe UltraBook ${index} laptop ships with a warranty.`);
+
+describe('KnowledgeService', () => {
+  it('returns between one and fifty passages whatever limit is asked for', async () => {
+    await knowledgeService.addSource('catalog.md', Buffer.from(sections.join('\n\n'), 'utf8'), 'markdown');
+
+    expect(await knowledgeService.search('UltraBook warranty', 0)).toHaveLength(1);
+    expect(await knowledgeService.search('UltraBook warranty', -5)).toHaveLength(1);
+    expect(await knowledgeService.search('UltraBook warranty', 1000)).toHaveLength(50);
+    expect(await knowledgeService.search('UltraBook warranty', 4)).toHaveLength(4);
+  });
+});
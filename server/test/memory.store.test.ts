@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStore } from '../src/services/store/memory.store';
+import { runWithTenant } from '../src/utils/tenant';
+import { ChatMessage, REDIS_KEYS } from '../src/types/chat';
+
+const message = (id: string, content: string): ChatMessage => ({ id, role: 'user', content, timestamp: 1 });
+
+describe('MemoryStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('appends messages and pages them from either end', async () => {
+    const store = new MemoryStore();
+    for (const id of ['m1', 'm2', 'm3']) {
+      await store.addMessageToSession('s1', message(id, `text ${id}`));
+    }
+
+    const last = await store.getMessages('s1', -2, 2);
+    expect(last.messages.map((m) => m.id)).toEqual(['m2', 'm3']);
+    expect(last).toMatchObject({ offset: 1, total: 3 });
+    expect((await store.getMessages('s1', 0, 1)).messages.map((m) => m.id)).toEqual(['m1']);
+    expect((await store.getSession('s1'))?.messages).toHaveLength(3);
+  });
+
+  it('updates one message and notifies listeners', async () => {
+    const store = new MemoryStore();
+    const saved: string[] = [];
+    store.onMessageSaved((_, notified) => saved.push(`${notified.id}:${notified.content}`));
+    await store.addMessageToSession('s1', message('m1', 'hello'));
+    await store.updateMessage('s1', 'm1', { content: 'hello again', interrupted: true });
+
+    const [stored] = (await store.getSession('s1'))!.messages;
+    expect(stored).toMatchObject({ id: 'm1', content: 'hello again', interrupted: true });
+    expect(saved).toEqual(['m1:hello', 'm1:hello again']);
+  });
+
+  it('keeps every message of concurrent appends and updates', async () => {
+    const store = new MemoryStore();
+    const ids = Array.from({ length: 20 }, (_, index) => `m${index}`);
+    await Promise.all(ids.map((id) => store.addMessageToSession('s1', message(id, 'draft'))));
+    await Promise.all([
+      ...ids.map((id) => store.updateMessage('s1', id, { content: `final ${id}` })),
+      store.addMessageToSession('s1', message('m20', 'late')),
+    ]);
+
+    const { messages } = (await store.getSession('s1'))!;
+    expect(messages.map((m) => m.id)).toEqual([...ids, 'm20']);
+    expect(messages.slice(0, 20).every((m) => m.content === `final ${m.id}`)).toBe(true);
+  });
+
+  it('returns copies of stored values', async () => {
+    const store = new MemoryStore();
+    const value = { items: ['a'] };
+    await store.set('key', value);
+    value.items.push('b');
+
+    const read = await store.get('key');
+    read.items.push('c');
+    expect(await store.get('key')).toEqual({ items: ['a'] });
+  });
+
+  it('sets a value only when the key is absent', async () => {
+    const store = new MemoryStore();
+
+    expect(await store.setIfAbsent('claim', 'ann', 10)).toBe(true);
+    expect(await store.setIfAbsent('claim', 'bob')).toBe(false);
+    expect(await store.get('claim')).toBe('ann');
+    expect(await store.ttl('claim')).toBe(10);
+  });
+
+  it('expires keys after their TTL', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryStore();
+    await store.set('short', 1, 10);
+    await store.set('forever', 1);
+
+    expect(await store.ttl('short')).toBe(10);
+    expect(await store.ttl('forever')).toBe(-1);
+    vi.advanceTimersByTime(11 * 1000);
+    expect(await store.get('short')).toBeNull();
+    expect(await store.ttl('short')).toBe(-2);
+    expect(await store.scan('*')).toEqual(['forever']);
+  });
+
+  it('orders sorted sets by score, then member', async () => {
+    const store = new MemoryStore();
+    await store.zAdd('z', 3, 'c');
+    await store.zAdd('z', 1, 'b');
+    await store.zAdd('z', 1, 'a');
+    await store.zAdd('z', 2, 'd');
+
+    expect(await store.zRangeByScore('z')).toEqual(['a', 'b', 'd', 'c']);
+    expect(await store.zRangeByScore('z', 2)).toEqual(['d', 'c']);
+    expect(await store.zRevRangeByScore('z', undefined, undefined, 1, 2)).toEqual(['d', 'b']);
+    expect(await store.zCount('z', 1, 2)).toBe(3);
+  });
+
+  it('keeps the sessions of each tenant apart', async () => {
+    const store = new MemoryStore();
+    await runWithTenant('acme', () => store.addMessageToSession('s1', message('m1', 'acme')));
+    await store.addMessageToSession('s1', message('m2', 'default'));
+
+    const acme = await runWithTenant('acme', () => store.getSession('s1'));
+    expect(acme?.messages.map((m) => m.content)).toEqual(['acme']);
+    expect(await store.zRangeByScore(REDIS_KEYS.SESSION_INDEX)).toEqual(['s1']);
+    expect(await store.scan(`tenant:acme:${REDIS_KEYS.SESSION_MESSAGES_PREFIX}*`)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.LLM_SCRIPT_PATH = 'test/fixtures/llm-script.json';
+});
+
+import { openAIService } from '../src/services/openai.service';
+import { conversationStore } from '../src/services/store.service';
+import { registerDefaultTools } from '../src/tools';
+import { ToolEvent } from '../src/types/tools';
+
+// Run a turn and return the content streamed after each chunk
+async function generate(sessionId: string, message: string, options: Parameters<typeof openAIService.generateResponse>[2]) {
+  const streamed: string[] = [];
+  for await (const chunk of await openAIService.generateResponse(sessionId, message, options)) {
+    streamed.push(chunk.content);
+  }
+  return streamed;
+}
+
+describe('OpenAIService tool calling', () => {
+  beforeAll(() => {
+    registerDefaultTools();
+  });
+
+  it('runs the requested tool and stores the turn under the reply id', async () => {
+    const events: ToolEvent[] = [];
+    const streamed = await generate('t1', 'What time is it?', { responseId: 'r1', onToolEvent: (event) => events.push(event) });
+
+    expect(streamed[streamed.length - 1]).toBe('Let me check. It is UTC time.');
+    expect(events.map((event) => [event.type, event.name])).toEqual([['call', 'get_current_time'], ['result', 'get_current_time']]);
+    expect(events[1]).toMatchObject({ isError: false, result: { timeZone: 'UTC' } });
+
+    const messages = (await conversationStore.getSession('t1'))!.messages;
+    expect(messages.map((message) => [message.role, message.content])).toEqual([
+      ['assistant', ''],
+      ['tool', expect.stringContaining('"timeZone":"UTC"')],
+      ['assistant', 'Let me check. It is UTC time.'],
+    ]);
+    expect(messages[0].toolCalls).toEqual([{ id: expect.any(String), name: 'get_current_time', arguments: '{"timeZone":"UTC"}' }]);
+    expect(messages[1].toolCallId).toBe(messages[0].toolCalls![0].id);
+    expect(messages[2].id).toBe('r1');
+  });
+
+  it('keeps the text streamed before a cancel as an interrupted reply', async () => {
+    const controller = new AbortController();
+    const stream = await openAIService.generateResponse('t2', 'What time is it?', { responseId: 'r2', signal: controller.signal });
+
+    await expect((async () => {
+      for await (const chunk of stream) {
+        if (chunk.content === 'Let me check.') controller.abort();
+      }
+    })()).rejects.toMatchObject({ code: 'CANCELLED' });
+
+    const messages = (await conversationStore.getSession('t2'))!.messages;
+    expect(messages).toEqual([expect.objectContaining({ id: 'r2', content: 'Let me check.', interrupted: true })]);
+  });
+});
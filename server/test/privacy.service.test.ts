@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createHash } from 'crypto';
+import { privacyService } from '../src/services/privacy.service';
+import { conversationStore } from '../src/services/store.service';
+import { leadService } from '../src/services/lead.service';
+import { auditService } from '../src/services/audit.service';
+import { ERROR_CODES } from '../src/types/chat';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+// Audit events are appended in the background
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+async function startSession(sessionId: string, ...contents: string[]): Promise<void> {
+  for (const [index, content] of contents.entries()) {
+    await conversationStore.addMessageToSession(sessionId, { id: `${sessionId}-${index}`, role: 'user', content, timestamp: 1 });
+  }
+}
+
+describe('PrivacyService', () => {
+  it('erases the sessions of a customer and the leads matching an email', async () => {
+    await startSession('p1', 'Hello', 'My email is Jane@Example.com');
+    await leadService.processMessage('p1', 'My email is Jane@Example.com');
+    await startSession('p2', 'Back again');
+    await privacyService.linkCustomer('visitor-7', 'p2');
+    auditService.record('p2', { kind: 'inbound', type: 'connect' });
+    await startSession('p3', 'Someone else');
+    await flush();
+
+    const receipt = await privacyService.erase({ customerId: 'visitor-7', email: ' jane@example.com ' }, 'ada-admin');
+
+    expect(receipt.sessionIds.sort()).toEqual(['p1', 'p2']);
+    expect(receipt.deleted).toMatchObject({ sessions: 2, messages: 3, leads: 1, auditEvents: 1, customerLinks: 1 });
+    expect(receipt).toMatchObject({ tenantId: 'default', requestedBy: 'ada-admin' });
+    expect(await conversationStore.getSession('p1')).toBeNull();
+    expect(await conversationStore.getSession('p2')).toBeNull();
+    expect(await conversationStore.getSession('p3')).not.toBeNull();
+    expect(await leadService.getLead('p1')).toBeNull();
+    await expect(auditService.getEvents('p2')).rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+  });
+
+  it('keeps only hashes of the identifiers in a signed receipt', async () => {
+    const receipt = await privacyService.erase({ sessionId: 'gone', phone: '+1 555 0100' });
+
+    expect(receipt.subjects).toEqual([
+      { type: 'sessionId', sha256: sha256('gone') },
+      { type: 'phone', sha256: sha256('+1 555 0100') },
+    ]);
+    expect(JSON.stringify(receipt)).not.toMatch(/555 0100|15550100/);
+    expect(receipt.deleted.sessions).toBe(0);
+    expect(await privacyService.getReceipt(receipt.id)).toEqual(receipt);
+    expect(privacyService.verifyReceipt(receipt)).toBe(true);
+    expect(privacyService.verifyReceipt({ ...receipt, sessionIds: [] })).toBe(false);
+    expect(privacyService.verifyReceipt({ ...receipt, signature: 'forged' })).toBe(false);
+  });
+
+  it('rejects requests without a valid identifier', async () => {
+    await expect(privacyService.erase({})).rejects.toMatchObject({ code: ERROR_CODES.INVALID_INPUT });
+    await expect(privacyService.erase({ email: '  ' })).rejects.toMatchObject({ code: ERROR_CODES.INVALID_INPUT });
+    await expect(privacyService.erase({ sessionId: 'x'.repeat(257) })).rejects.toMatchObject({ code: ERROR_CODES.INVALID_INPUT });
+    await expect(privacyService.getReceipt('missing')).rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+  });
+});
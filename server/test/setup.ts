@@ -0,0 +1,9 @@
+// Services read their configuration when they are imported: tests run on the
+// in-memory store with the offline LLM provider, without Redis or API keys
+process.env.STORE_BACKEND = 'memory';
+process.env.LLM_PROVIDER = 'scripted';
+process.env.JWT_SECRET = 'test-secret';
+process.env.OPENAI_API_KEY = '';
+process.env.SMALLEST_AI_API_KEY = '';
+process.env.TENANTS_PATH = '';
+process.env.AUDIT_LOG_ENABLED = 'true';
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import express, { NextFunction, Request, Response } from 'express';
+import * as fs from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+
+vi.hoisted(() => {
+  process.env.TENANTS_PATH = 'test/fixtures/tenants.json';
+  process.env.ADMIN_TOKENS = 'root:default-admin-key';
+  process.env.OPENAI_API_KEY = 'deployment-openai-key';
+});
+
+import { selectTenant, resolveTenant } from '../src/middleware/tenant';
+import audioRoutes from '../src/routes/audio';
+import { authService } from '../src/services/auth.service';
+import { cleanupService } from '../src/services/cleanup.service';
+import { tenantService } from '../src/services/tenant.service';
+import { currentTenantId, runWithTenant, tenantKey } from '../src/utils/tenant';
+
+// Run selectTenant and report what it let through, and in which tenant
+function select(query: Record<string, string>, auth: unknown, tenantId = 'default') {
+  const result: { tenantId?: string; status?: number } = {};
+  const res = {
+    locals: { tenantId, auth },
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  };
+  const next: NextFunction = () => {
+    result.tenantId = currentTenantId();
+  };
+  runWithTenant(tenantId, () => selectTenant({ query } as unknown as Request, res as unknown as Response, next));
+  return result;
+}
+
+describe('Tenants', () => {
+  it('prefixes the keys of every tenant but the default one', () => {
+    expect(tenantKey('chat:sessions')).toBe('chat:sessions');
+    expect(runWithTenant('acme', () => tenantKey('chat:sessions'))).toBe('tenant:acme:chat:sessions');
+  });
+
+  it('lets only administrators of the default tenant select another tenant', () => {
+    const operator = { id: 'root', role: 'admin', tenantId: 'default' };
+    const acmeAdmin = { id: 'ada', role: 'admin', tenantId: 'acme' };
+
+    expect(select({}, null)).toEqual({ tenantId: 'default' });
+    expect(select({ tenant: 'acme' }, operator)).toEqual({ tenantId: 'acme' });
+    expect(select({ tenant: 'acme' }, acmeAdmin, 'acme')).toEqual({ tenantId: 'acme' });
+    expect(select({ tenant: 'default' }, acmeAdmin, 'acme')).toEqual({ status: 401 });
+    expect(select({ tenant: 'acme' }, { ...operator, role: 'supervisor' })).toEqual({ status: 401 });
+    expect(select({ tenant: 'unknown' }, operator)).toEqual({ status: 404 });
+  });
+
+  it('uses the deployment provider keys where a tenant has none of its own', () => {
+    expect(tenantService.getTenant('acme')?.credentials).toEqual({
+      openaiApiKey: 'deployment-openai-key',
+      smallestAiApiKey: 'acme-tts-key',
+    });
+    expect(runWithTenant('acme', () => tenantService.current().credentials.smallestAiApiKey)).toBe('acme-tts-key');
+  });
+
+  describe('audio', () => {
+    let server: Server;
+    let url: string;
+    let audioPath: string;
+
+    beforeAll(async () => {
+      audioPath = path.join(cleanupService.tenantAudioDir('acme'), 'tts_test.wav');
+      fs.writeFileSync(audioPath, 'RIFF');
+      await runWithTenant('acme', () => cleanupService.trackAudioFile(audioPath, 'acme-session'));
+
+      const app = express();
+      app.use('/api', resolveTenant);
+      app.use('/api/audio', audioRoutes);
+      server = app.listen(0);
+      url = `http://localhost:${(server.address() as AddressInfo).port}/api/audio/tts_test.wav`;
+    });
+
+    afterAll(async () => {
+      await cleanupService.cleanupFile(audioPath);
+      fs.rmdirSync(path.dirname(audioPath));
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const fetchAudio = (headers: Record<string, string>) => fetch(url, { headers }).then((response) => response.status);
+    const staffToken = (key: string) => authService.issueToken(authService.authenticateKey(key)!).token;
+
+    it('serves a file only to its tenant, and to customers only for their session', async () => {
+      expect(await fetchAudio({ 'X-Widget-Key': 'acme-widget' })).toBe(401);
+      expect(await fetchAudio({
+        'X-Widget-Key': 'acme-widget',
+        'X-Session-Token': authService.issueSessionToken('other-session', 'acme'),
+      })).toBe(401);
+      expect(await fetchAudio({
+        'X-Widget-Key': 'acme-widget',
+        'X-Session-Token': authService.issueSessionToken('acme-session', 'acme'),
+      })).toBe(200);
+
+      expect(await fetchAudio({ Authorization: `Bearer ${staffToken('acme-admin-key')}` })).toBe(200);
+      expect(await fetchAudio({ Authorization: `Bearer ${staffToken('default-admin-key')}` })).toBe(404);
+      expect(await fetchAudio({ 'X-Session-Token': authService.issueSessionToken('acme-session', 'default') })).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import WebSocketService from '../src/services/websocket.service';
+import { registerDefaultTools } from '../src/tools';
+import { ChatMessage, ERROR_CODES, ErrorResponse, SessionResumeEvent, WS_EVENTS } from '../src/types/chat';
+import { AGENT_EVENTS, AGENT_NAMESPACE } from '../src/types/handoff';
+import { ActiveSession, SUPERVISOR_EVENTS } from '../src/types/coaching';
+
+vi.hoisted(() => {
+  process.env.LLM_SCRIPT_PATH = 'test/fixtures/llm-script.json';
+  process.env.TENANTS_PATH = 'test/fixtures/tenants.json';
+  process.env.SUPERVISOR_TOKENS = 'sue:default-supervisor-key';
+});
+
+// Replies are spoken without calling the TTS provider
+vi.mock('../src/services/tts.service', () => ({
+  ttsService: { convertToSpeech: async () => ({ audioUrl: '/audio/test.wav', duration: 1, format: 'wav' }) },
+}));
+
+let server: Server;
+let service: WebSocketService;
+let url: string;
+const clients: ClientSocket[] = [];
+
+function open(auth: Record<string, unknown> = {}, namespace = ''): ClientSocket {
+  const client = connect(`${url}${namespace}`, { path: '/socket', transports: ['websocket'], auth, forceNew: true });
+  clients.push(client);
+  return client;
+}
+
+function next<T>(client: ClientSocket, event: string, matches: (payload: T) => boolean = () => true): Promise<T> {
+  return new Promise((resolve) => {
+    const listener = (payload: T) => {
+      if (!matches(payload)) return;
+      client.off(event, listener);
+      resolve(payload);
+    };
+    client.on(event, listener);
+  });
+}
+
+describe('WebSocketService', () => {
+  beforeAll(async () => {
+    registerDefaultTools();
+    server = createServer();
+    service = new WebSocketService(server);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    clients.forEach((client) => client.close());
+    service.disconnectAll();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('resumes a session from its token with the history the customer saw', async () => {
+    const first = open();
+    const started = await next<SessionResumeEvent>(first, WS_EVENTS.CHAT_SESSION);
+    expect(started).toMatchObject({ resumed: false, messages: [] });
+
+    const done = next<{ processing?: boolean }>(first, WS_EVENTS.CHAT_STATUS, (status) => status.processing === false);
+    first.emit(WS_EVENTS.CHAT_MESSAGE, 'What time is it?');
+    await done;
+    first.close();
+
+    const second = open({ sessionToken: started.token });
+    const resumed = await next<SessionResumeEvent>(second, WS_EVENTS.CHAT_SESSION);
+    expect(resumed).toMatchObject({ sessionId: started.sessionId, resumed: true });
+    expect(resumed.messages.map(({ role, content }: ChatMessage) => [role, content])).toEqual([
+      ['user', 'What time is it?'],
+      ['assistant', 'Let me check. It is UTC time.'],
+    ]);
+  });
+
+  it('moves a resumed session off the socket it was attached to', async () => {
+    const first = open();
+    const started = await next<SessionResumeEvent>(first, WS_EVENTS.CHAT_SESSION);
+    const dropped = next<string>(first, 'disconnect');
+
+    const second = open({ sessionToken: started.token });
+    expect(await next<SessionResumeEvent>(second, WS_EVENTS.CHAT_SESSION)).toMatchObject({ sessionId: started.sessionId, resumed: true });
+    expect(await dropped).toBe('io server disconnect');
+  });
+
+  it('starts a new session when the token is not valid', async () => {
+    const client = open({ sessionToken: 'forged' });
+    const session = await next<SessionResumeEvent>(client, WS_EVENTS.CHAT_SESSION);
+    expect(session).toMatchObject({ resumed: false, messages: [] });
+  });
+
+  it('keeps the sessions and live events of a tenant away from other tenants', async () => {
+    const acmeSupervisor = open({ token: 'acme-supervisor-key' }, AGENT_NAMESPACE);
+    const otherSupervisor = open({ token: 'default-supervisor-key' }, AGENT_NAMESPACE);
+    const seenByOther: [string, unknown][] = [];
+    otherSupervisor.onAny((event, payload) => seenByOther.push([event, payload]));
+    await Promise.all([next(acmeSupervisor, SUPERVISOR_EVENTS.SESSIONS), next(otherSupervisor, SUPERVISOR_EVENTS.SESSIONS)]);
+
+    const customer = open({ widgetKey: 'acme-widget' });
+    const listed = next<ActiveSession[]>(acmeSupervisor, SUPERVISOR_EVENTS.SESSIONS, (sessions) => sessions.length > 0);
+    const { sessionId } = await next<SessionResumeEvent>(customer, WS_EVENTS.CHAT_SESSION);
+    expect((await listed).map((session) => session.sessionId)).toEqual([sessionId]);
+
+    const replied = next<{ processing?: boolean }>(customer, WS_EVENTS.CHAT_STATUS, (status) => status.processing === false);
+    customer.emit(WS_EVENTS.CHAT_MESSAGE, 'Hello');
+    await replied;
+
+    const watched = next(acmeSupervisor, AGENT_EVENTS.TRANSCRIPT);
+    acmeSupervisor.emit(SUPERVISOR_EVENTS.WATCH, sessionId);
+    await watched;
+    const refused = next<ErrorResponse>(otherSupervisor, AGENT_EVENTS.ERROR);
+    otherSupervisor.emit(SUPERVISOR_EVENTS.WATCH, sessionId);
+    expect(await refused).toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+
+    const typing = next(acmeSupervisor, AGENT_EVENTS.CUSTOMER_TYPING);
+    customer.emit(WS_EVENTS.CHAT_TYPING, true);
+    expect(await typing).toEqual({ sessionId, typing: true });
+
+    expect(JSON.stringify(seenByOther.filter(([event]) => event !== AGENT_EVENTS.ERROR))).not.toContain(sessionId);
+  });
+});
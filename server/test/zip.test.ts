@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, inflateRawSync } from 'zlib';
+import { createZip } from '../src/utils/zip';
+
+interface ReadEntry {
+  name: string;
+  content: string;
+  checksum: number;
+  modified: { time: number; date: number };
+}
+
+// Read an archive through its central directory, as unzip tools do
+function readZip(archive: Buffer): ReadEntry[] {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const localOffset = archive.readUInt32LE(position + 42);
+    const name = archive.subarray(position + 46, position + 46 + nameLength).toString('utf8');
+
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(content.length).toBe(archive.readUInt32LE(position + 24));
+
+    entries.push({
+      name,
+      content: content.toString('utf8'),
+      checksum: archive.readUInt32LE(position + 16),
+      modified: { time: archive.readUInt16LE(position + 12), date: archive.readUInt16LE(position + 14) },
+    });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('stores each file deflated with its checksum', () => {
+    const files = [
+      { name: 'session-1.md', content: '# Conversation 1\n\nHello' },
+      { name: 'naïve/ünïcode.txt', content: Buffer.from('é'.repeat(1000)) },
+      { name: 'empty.csv', content: '' },
+    ];
+    const entries = readZip(createZip(files));
+
+    expect(entries.map((entry) => entry.name)).toEqual(files.map((file) => file.name));
+    entries.forEach((entry, index) => {
+      const { content } = files[index];
+      const data = Buffer.isBuffer(content) ? content : Buffer.from(content);
+      expect(entry.content).toBe(data.toString('utf8'));
+      expect(entry.checksum).toBe(crc32(data));
+    });
+  });
+
+  it('records modification times in MS-DOS format', () => {
+    const [entry] = readZip(createZip([{ name: 'a.txt', content: 'a', modifiedAt: new Date(2024, 4, 17, 13, 45, 31).getTime() }]));
+
+    expect(entry.modified.date).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+    expect(entry.modified.time).toBe((13 << 11) | (45 << 5) | 15);
+  });
+
+  it('writes an empty archive', () => {
+    const archive = createZip([]);
+    expect(archive.length).toBe(22);
+    expect(readZip(archive)).toEqual([]);
+  });
+});